@@ -44,7 +44,7 @@ function main() {
   );
 
   // 2) Tool registration completeness.
-  const requiredTools = ['think', 'think_batch', 'think_done', 'think_recall', 'think_reset', 'think_cycle', 'think_logic'];
+  const requiredTools = ['think', 'think_batch', 'think_done', 'think_recall', 'think_reset', 'think_cycle', 'think_logic', 'think_sessions', 'think_edit', 'think_branch', 'think_insights'];
   const registeredTools = [...indexTs.matchAll(/registerTool\('([^']+)'/g)].map((m) => m[1]);
   const missingTools = requiredTools.filter((tool) => !registeredTools.includes(tool));
   addCheck(
@@ -144,7 +144,7 @@ function main() {
   // 8) Insights FIFO/pattern consistency guard.
   const insightsText = readText('src/services/insights.service.ts');
   const hasEvictionDecrement =
-    /const evicted = this\.data!\.winningPaths\.shift\(\);[\s\S]*this\.decrementPatternCounts\(evicted\.keywords\)/.test(insightsText);
+    /const oldestUnpinned = this\.data!\.winningPaths\.findIndex\(\(p\) => !p\.pinned && p\.namespace === record\.namespace\);[\s\S]*const \[evicted\] = this\.data!\.winningPaths\.splice\(oldestUnpinned, 1\);[\s\S]*this\.decrementPatternCounts\(evicted\.keywords\)/.test(insightsText);
   const hasPatternRebuildOnLoad = /patterns:\s*this\.buildPatternCounts\(winningPaths\)/.test(insightsText);
   addCheck(
     'insights-fifo-consistency',
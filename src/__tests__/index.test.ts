@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createThinkServer } from '../index.js';
+import { ThinkingService } from '../services/thinking.service.js';
+import { CycleService } from '../services/cycle.service.js';
+import { startHttpTransport } from '../utils/http-transport.js';
+
+const ENV_KEY = 'THINK_MCP_DATA_DIR';
+
+describe.sequential('think tool handlers', () => {
+  let tempDir = '';
+  let previousDataDir: string | undefined;
+  let thinkingService: ThinkingService;
+  let cycleService: CycleService;
+  let client: Client;
+
+  beforeEach(async () => {
+    previousDataDir = process.env[ENV_KEY];
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-handlers-'));
+    process.env[ENV_KEY] = tempDir;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    thinkingService = new ThinkingService({ persist: false });
+    cycleService = new CycleService(thinkingService, { persist: false });
+    const server = createThinkServer({ thinkingService, cycleService });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'handler-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+    // Caches every outputSchema - callTool then validates structuredContent, errors included
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+    if (previousDataDir === undefined) {
+      delete process.env[ENV_KEY];
+    } else {
+      process.env[ENV_KEY] = previousDataDir;
+    }
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function call(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    return { isError: result.isError, structured: result.structuredContent as Record<string, unknown> };
+  }
+
+  it('returns schema-conforming structured errors for rejected input', async () => {
+    const emptyThought = await call('think', { thought: '', nextThoughtNeeded: true, thoughtNumber: 1, totalThoughts: 3 });
+    expect(emptyThought.isError).toBe(true);
+    expect(emptyThought.structured).toMatchObject({ status: 'ERROR', nextAction: 'revise', thoughtNumber: 1, thoughtHistoryLength: 0 });
+    expect(emptyThought.structured.errorMessage).toContain('ERR_EMPTY_THOUGHT');
+
+    const batch = await call('think_batch', {
+      goal: 'Reject a batch of thoughts that are far too short',
+      thoughts: [{ thoughtNumber: 1, thought: 'too short' }],
+      sessionId: 'batch',
+    });
+    expect(batch.isError).toBe(true);
+    expect(batch.structured).toMatchObject({ status: 'rejected', sessionKey: 'batch', validation: { passed: false } });
+
+    const done = await call('think_done', { winningPath: [1], summary: 'Nothing to finish', verdict: 'ready' });
+    expect(done.isError).toBe(true);
+    expect(done.structured).toMatchObject({ status: 'error', canProceedToFinalAnswer: false });
+
+    const edit = await call('think_edit', { action: 'undo', sessionId: 'empty' });
+    expect(edit.isError).toBe(true);
+    expect(edit.structured).toMatchObject({ status: 'error', action: 'undo', thoughtHistoryLength: 0 });
+
+    const branch = await call('think_branch', { action: 'close', branchId: 'missing', rationale: 'No such branch' });
+    expect(branch.isError).toBe(true);
+    expect(branch.structured).toMatchObject({ status: 'error', action: 'close', branches: [] });
+
+    const sessions = await call('think_sessions', { action: 'resume', sessionId: 'missing' });
+    expect(sessions.isError).toBe(true);
+    expect(sessions.structured).toMatchObject({ status: 'error', action: 'resume' });
+
+    const insights = await call('think_insights', { action: 'delete', id: 'missing' });
+    expect(insights.isError).toBe(true);
+    expect(insights.structured).toMatchObject({ status: 'error', action: 'delete' });
+    expect(insights.structured.stats).toBeDefined();
+
+    const cycle = await call('think_cycle', { action: 'step', thought: 'A step without any cycle session to attach to' });
+    expect(cycle.isError).toBe(true);
+    expect(cycle.structured).toMatchObject({ status: 'error', gate: { passed: false, reasonCodes: ['INVALID_INPUT'] } });
+  });
+
+  it('returns think_cycle list results without session gate state', async () => {
+    const list = await call('think_cycle', { action: 'list' });
+    expect(list.isError).toBe(false);
+    expect(list.structured).toEqual({ status: 'info', sessions: [] });
+  });
+
+  it('returns schema-conforming structured errors when a handler throws', async () => {
+    vi.spyOn(thinkingService, 'resetSession').mockRejectedValue(new Error('disk full'));
+    vi.spyOn(thinkingService, 'recallThought').mockImplementation(() => {
+      throw new Error('index corrupted');
+    });
+    vi.spyOn(cycleService, 'handle').mockRejectedValue(new Error('store locked'));
+
+    const reset = await call('think_reset', {});
+    expect(reset.isError).toBe(true);
+    expect(reset.structured).toEqual({ clearedThoughts: 0, clearedBranches: 0, errorMessage: 'disk full' });
+
+    const recall = await call('think_recall', { query: 'cache' });
+    expect(recall.isError).toBe(true);
+    expect(recall.structured).toEqual({ scope: 'session', query: 'cache', matches: [], errorMessage: 'index corrupted' });
+
+    const cycle = await call('think_cycle', { action: 'status', sessionId: 'cycle_x' });
+    expect(cycle.isError).toBe(true);
+    expect(cycle.structured).toMatchObject({ status: 'error', sessionId: 'cycle_x', errorMessage: 'store locked' });
+  });
+
+  it('keeps the default session of each HTTP client apart', async () => {
+    const httpServer = await startHttpTransport({
+      port: 0,
+      host: '127.0.0.1',
+      createSessionServer: (clientId) => createThinkServer({ thinkingService, cycleService, defaultSessionKey: clientId }),
+    });
+    const url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+    const ide = new Client({ name: 'ide', version: '1.0.0' });
+    const agent = new Client({ name: 'agent', version: '1.0.0' });
+    try {
+      await ide.connect(new StreamableHTTPClientTransport(url));
+      await agent.connect(new StreamableHTTPClientTransport(url));
+
+      const think = async (client: Client, thought: string) => {
+        const result = await client.callTool({ name: 'think', arguments: { thought, thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true } });
+        return result.structuredContent as { thoughtHistoryLength: number; contextSummary: Array<{ thoughtNumber: number; thought: string }> };
+      };
+      const first = await think(ide, 'IDE client maps the slow checkout queries before touching any index.');
+      const second = await think(agent, 'CI agent starts a separate chain about flaky integration test retries.');
+      expect(first.thoughtHistoryLength).toBe(1);
+      expect(second.thoughtHistoryLength).toBe(1);
+      expect(second.contextSummary.map(s => s.thought).join(' ')).not.toContain('checkout');
+
+      // Thought #1 from the agent reset only its own chain - the IDE continues where it left off
+      const next = await ide.callTool({ name: 'think', arguments: {
+        thought: 'Checkout queries scan the orders table without a composite index on status.',
+        thoughtNumber: 2,
+        totalThoughts: 2,
+        nextThoughtNeeded: false,
+      } });
+      const continued = next.structuredContent as { thoughtHistoryLength: number; contextSummary: Array<{ thought: string }> };
+      expect(continued.thoughtHistoryLength).toBe(2);
+      expect(continued.contextSummary.map(s => s.thought).join(' ')).not.toContain('flaky');
+      expect(thinkingService.getSessionKeys()).toHaveLength(3);
+    } finally {
+      await ide.close();
+      await agent.close();
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  });
+});
@@ -29,3 +29,16 @@ export const FILLER_PHRASES = [
   'и', 'в', 'на', 'с', 'по', 'к', 'у', 'о', 'из', 'за', 'от', 'до',
   'то', 'что', 'это', 'как', 'для', 'не', 'но', 'да', 'же', 'ли', 'бы',
 ];
+
+// Stop words dropped from BM25 recall queries and documents (v5.6.0)
+export const SEARCH_STOP_WORDS = new Set([
+  // English
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with',
+  'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these',
+  'those', 'we', 'i', 'you', 'they', 'he', 'she', 'not', 'no', 'so', 'do', 'does', 'did', 'can',
+  'will', 'would', 'should', 'there', 'then', 'than', 'into', 'about', 'which', 'what', 'when',
+  // Russian
+  'и', 'в', 'во', 'на', 'с', 'со', 'по', 'к', 'ко', 'у', 'о', 'об', 'из', 'за', 'от', 'до', 'а',
+  'то', 'что', 'это', 'как', 'для', 'не', 'но', 'да', 'же', 'ли', 'бы', 'или', 'так', 'его',
+  'ее', 'её', 'их', 'мы', 'я', 'вы', 'он', 'она', 'они', 'оно', 'при', 'если', 'уже', 'еще', 'ещё',
+]);
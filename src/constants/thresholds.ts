@@ -54,9 +54,33 @@ export const DEPTH_METRIC_MEDIUM = 150; // Min avg thought length for medium tas
 export const DEPTH_METRIC_COMPLEX = 200; // Min avg thought length for complex tasks (11+ thoughts)
 
 // Session management
-export const SESSION_TTL_HOURS = 24; // Auto-reset session after this many hours
+export const SESSION_TTL_HOURS = 24; // Archive idle sessions after this many hours (v5.6.0: was auto-reset)
 export const COACH_COOLDOWN_COUNT = 3; // Don't repeat same advice within N thoughts
 export const SMART_PRUNING_THRESHOLD = 10; // Start pruning context after N thoughts
+export const DEFAULT_SESSION_KEY = 'default'; // Session used when no sessionId is given (v5.6.0)
+export const MAX_NAMED_SESSIONS = 20; // Evict least recently used named sessions beyond this
+export const MAX_ARCHIVED_SESSIONS = 50; // Drop oldest archived sessions beyond this
+export const MAX_EDIT_AUDIT_ENTRIES = 50; // think_edit audit trail kept per session (file backends)
+
+// Storage backend (v5.6.0)
+export const STORAGE_COMPACT_EVERY = 200; // Fold the event log into a snapshot after N appended events
+export const SQLITE_DB_FILE_NAME = 'think-mcp.db'; // Database used by THINK_MCP_STORAGE=sqlite
+
+// Multi-process persistence (v5.6.0)
+export const FILE_LOCK_TIMEOUT_MS = 5000; // Give up acquiring a store lock after this long
+export const FILE_LOCK_RETRY_MS = 25; // Poll interval while another process holds the lock
+export const FILE_LOCK_STALE_MS = 30000; // Locks older than this are left over from a crashed process
+export const STORAGE_SYNC_INTERVAL_MS = 2000; // How often idle servers check for writes by other processes
+
+// HTTP transport (v5.6.0)
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1'; // Loopback only unless --host is given
+export const HTTP_MCP_PATH = '/mcp';
+export const MAX_HTTP_CLIENTS = 50; // Close least recently active client sessions beyond this
+export const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024; // Same limit the SDK applies to request bodies it parses
+
+// MCP prompts (v5.6.0)
+export const PROMPT_CONTEXT_MAX_LENGTH = 3000; // think_cycle and think_logic reject longer context
 
 // Dead ends tracking
 export const MAX_DEAD_ENDS = 20; // Limit dead ends to prevent memory bloat
@@ -66,6 +90,16 @@ export const NEAR_LIMIT_CONFIDENCE_THRESHOLD = 6; // Warn if near limit with low
 export const RECALL_DEFAULT_LIMIT = 3;
 export const RECALL_DEFAULT_THRESHOLD = 0.4;
 export const RECALL_SNIPPET_CONTEXT = 100; // Characters before/after match for snippet
+export const RECALL_BM25_WEIGHT = 0.6; // Share of BM25 in the hybrid score, the rest is Fuse similarity (v5.6.0)
+export const RECALL_MIN_TERM_COVERAGE = 0.5; // Lexical hits need this share of query terms unless Fuse matched too
+export const BM25_K1 = 1.2; // Term frequency saturation
+export const BM25_B = 0.75; // Document length normalization
+
+// Offline vector similarity (v5.6.0)
+export const VECTOR_DIMENSIONS = 4096; // Hashed feature space for n-gram vectors
+export const VECTOR_NGRAM_SIZE = 3; // Character n-gram length
+export const VECTOR_CACHE_LIMIT = 500; // Cached text vectors (LRU)
+export const VECTOR_RECALL_MIN_SIMILARITY = 0.35; // Cosine needed for a vector-only recall/insight match
 
 // Technical short terms whitelist for entropy calculation (not filtered by length)
 export const TECHNICAL_SHORT_TERMS = new Set([
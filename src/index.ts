@@ -1,8 +1,18 @@
 #!/usr/bin/env node
 /**
  * Think Module MCP Server v5.5.1
- * Streamlined thinking tools: 7 tools
+ * Streamlined thinking tools: 11 tools
  * 
+ * v5.6.0: Streamable HTTP transport (--transport http --port N) with a default session per client
+ * v5.6.0: MCP resources (think://session/..., think://cycle/..., think://insights)
+ * v5.6.0: MCP prompts (deep-analysis, debug-incident, design-review, gate-first-answer)
+ * v5.6.0: outputSchema + structuredContent for every tool (text kept for compatibility)
+ * v5.6.0: Pluggable storage (--storage json|jsonl|sqlite or THINK_MCP_STORAGE), JSONL event log with compaction,
+ *         SQLite database with queryable history
+ * v5.6.0: Multi-process safe persistence (file locks, revision counters, reload on external change)
+ * v5.6.0: Added think_edit (undo, edit, soft-delete with audit trail)
+ * v5.6.0: Added think_branch (compare, close, merge branches)
+ * v5.6.0: Added think_insights (add, edit, tag, delete, pin insights, usefulness feedback + stats; per-project namespaces)
  * v5.5.1: Fixed mojibake text + refreshed README
  * v5.5.0: Added think_cycle + hard quality standard gates
  * v5.1.0: Imperative prompts (IF/THEN style, -55% tokens)
@@ -13,17 +23,36 @@
  * - think: Add a thought (with quickExtension for inline critique)
  * - think_batch: Submit multiple thoughts at once
  * - think_done: Finish session, verify, optionally export
- * - think_recall: Search session or past insights
+ * - think_recall: Search session, every persisted session or past insights
  * - think_reset: Clear session
  * - think_cycle: Adaptive external reasoning cycle with hard quality gate
  * - think_logic: Deep logical analysis of any task/feature/system
+ * - think_sessions: List, resume, rename, archive, delete, fork persisted sessions
+ * - think_edit: Undo, edit or soft-delete individual thoughts
+ * - think_branch: Compare, close or merge branches
+ * - think_insights: Add, edit, tag, delete, pin insights; record usefulness feedback; stats
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { realpathSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { ThinkingService } from './services/thinking.service.js';
 import { CycleService } from './services/cycle.service.js';
+import type { InsightChain, InsightsAction, WinningPathRecord } from './services/insights.service.js';
+import { LogicService } from './services/logic.service.js';
+import { PromptService, REASONING_PROMPTS } from './services/prompt.service.js';
+import { createStorageBackend } from './services/storage.service.js';
+import { parseCliArgs } from './utils/cli-args.js';
+import { startHttpTransport } from './utils/http-transport.js';
+import { HTTP_MCP_PATH, PROMPT_CONTEXT_MAX_LENGTH } from './constants/index.js';
 import type {
   QuickExtension,
   BurstThought,
@@ -31,116 +60,336 @@ import type {
   ThinkCycleInput,
   CycleThoughtType,
   CycleBackendMode,
+  CycleConstraintUpdate,
+  CycleExportFormat,
+  CycleSessionStatus,
+  SessionsAction,
+  EditAction,
+  BranchAction,
+  BranchOutcome,
+  LogicDepth,
+  LogicFocus,
+  TechStack,
 } from './types/thought.types.js';
 
-const thinkingService = new ThinkingService();
-const cycleService = new CycleService(thinkingService);
+/** Per-server thinking state (v5.6.0) */
+interface ThinkServices {
+  thinkingService: ThinkingService;
+  cycleService: CycleService;
+  /** Session used by calls without a sessionId (default: the shared default session) */
+  defaultSessionKey?: string;
+}
+
+// think_logic and prompts are stateless - one instance serves every client
+const logicService = new LogicService();
+const promptService = new PromptService();
+
+// Shared by think, think_batch, think_done, think_recall, think_reset, think_edit, think_branch (v5.6.0)
+const sessionIdSchema = z.string().min(1).max(64).regex(/^[A-Za-z0-9._:-]+$/)
+  .optional().describe('Named session for isolation (omit for default session)');
+
+// Output schema building blocks - structuredContent mirrors service result types (v5.6.0)
+const extensionTypeOutput = z.enum(['critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing', 'innovation', 'optimization', 'polish']);
 
-const server = new McpServer({
-  name: 'think-module-server',
-  version: '5.5.1',
+const thoughtSummaryOutput = z.object({
+  thoughtNumber: z.number(),
+  thought: z.string(),
+  confidence: z.number().optional(),
 });
 
-// ============================================
-// 1. THINK - Single thought with optional inline extension
-// ============================================
+const recallMatchOutput = z.object({
+  thoughtNumber: z.number(),
+  snippet: z.string(),
+  thought: z.string(),
+  confidence: z.number().optional(),
+  relevance: z.number(),
+  matchedIn: z.enum(['thought', 'extension', 'alternative', 'subStep']),
+  matchedTerms: z.array(z.string()).optional(),
+  extensionType: extensionTypeOutput.optional(),
+  sessionId: z.string().optional(),
+  provenance: z.object({
+    sessionKey: z.string(),
+    goal: z.string().optional(),
+    timestamp: z.string(),
+    archived: z.boolean(),
+  }).optional(),
+});
+
+const insightRecordOutput = z.object({
+  id: z.string(),
+  path: z.array(z.number()),
+  summary: z.string(),
+  goal: z.string().optional(),
+  keywords: z.array(z.string()),
+  timestamp: z.string(),
+  avgConfidence: z.number().optional(),
+  sessionLength: z.number(),
+  source: z.enum(['session', 'manual']).optional(),
+  tags: z.array(z.string()).optional(),
+  pinned: z.boolean().optional(),
+  updatedAt: z.string().optional(),
+  namespace: z.string(),
+  chain: z.object({
+    steps: z.array(z.object({ thoughtNumber: z.number(), thought: z.string(), confidence: z.number().optional() })),
+    critiques: z.array(z.object({ thoughtNumber: z.number(), type: z.string(), content: z.string(), impact: z.string() })),
+    deadEnds: z.array(z.object({ path: z.array(z.number()), reason: z.string() })),
+    constraints: z.string().optional(),
+    potentialFlaws: z.string().optional(),
+  }).optional(),
+  feedback: z.object({
+    applied: z.number(),
+    skipped: z.number(),
+    helpful: z.number(),
+    unhelpful: z.number(),
+    lastAppliedAt: z.string().optional(),
+    lastHelpfulAt: z.string().optional(),
+  }).optional(),
+});
 
-const THINK_DESCRIPTION = `Add thought to reasoning chain.
+const insightMatchOutput = z.object({
+  insight: insightRecordOutput,
+  relevance: z.number(),
+  textRelevance: z.number(),
+  utility: z.number(),
+  needsReview: z.boolean(),
+});
+
+const patternCountOutput = z.object({ keyword: z.string(), count: z.number() });
+
+const insightsStatsOutput = z.object({
+  totalInsights: z.number(),
+  totalSessions: z.number(),
+  topPatterns: z.array(patternCountOutput),
+  avgSessionLength: z.number(),
+  avgConfidence: z.number(),
+  pinnedInsights: z.number(),
+  manualInsights: z.number(),
+  flaggedInsights: z.number(),
+  topTags: z.array(z.object({ tag: z.string(), count: z.number() })),
+  namespace: z.string().optional(),
+  namespaces: z.array(z.object({ namespace: z.string(), count: z.number() })),
+});
+
+const sessionSummaryOutput = z.object({
+  sessionId: z.string(),
+  goal: z.string().optional(),
+  project: z.string().optional(),
+  thoughtCount: z.number(),
+  averageConfidence: z.number().nullable(),
+  lastActivity: z.string(),
+  donePassed: z.boolean(),
+  archived: z.boolean(),
+  forkedFrom: z.object({ sessionId: z.string(), thoughtNumber: z.number(), forkedAt: z.string() }).optional(),
+});
+
+/**
+ * Text lines of an insight reasoning chain for think_recall (v5.6.0)
+ */
+function formatInsightChain(chain: InsightChain): string[] {
+  return [
+    ...(chain.steps.length > 0 ? ['  Reasoning:'] : []),
+    ...chain.steps.map(s => `    #${s.thoughtNumber}${s.confidence !== undefined ? ` [conf: ${s.confidence}/10]` : ''} ${s.thought.substring(0, 200)}`),
+    ...(chain.critiques.length > 0 ? ['  Critiques:'] : []),
+    ...chain.critiques.map(c => `    #${c.thoughtNumber} ${c.type} (${c.impact}): ${c.content.substring(0, 160)}`),
+    ...(chain.deadEnds.length > 0 ? ['  Dead ends:'] : []),
+    ...chain.deadEnds.map(d => `    [${d.path.join('→')}] ${d.reason.substring(0, 160)}`),
+    ...(chain.constraints ? [`  Constraints: ${chain.constraints.substring(0, 200)}`] : []),
+    ...(chain.potentialFlaws ? [`  Flaws: ${chain.potentialFlaws.substring(0, 200)}`] : []),
+  ];
+}
+
+/**
+ * Message of an error caught in a tool handler
+ */
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown';
+}
+
+/**
+ * Failed tool call - structuredContent still conforms to the tool's outputSchema,
+ * clients validate it even when isError is set (v5.6.0)
+ */
+function toolError(text: string, structuredContent: Record<string, unknown>) {
+  return { content: [{ type: 'text' as const, text }], structuredContent, isError: true };
+}
+
+/**
+ * Build an MCP server with all think tools bound to the given services (v5.6.0)
+ * stdio uses one shared instance, HTTP creates one per client session
+ */
+export function createThinkServer({ thinkingService, cycleService, defaultSessionKey }: ThinkServices): McpServer {
+  const server = new McpServer({
+    name: 'think-module-server',
+    version: '5.5.1',
+  });
+
+  // Calls without a sessionId land in this server's default session
+  const sessionKey = (sessionId: unknown): string | undefined => (sessionId as string | undefined) ?? defaultSessionKey;
+
+  // ============================================
+  // 1. THINK - Single thought with optional inline extension
+  // ============================================
+
+  const THINK_DESCRIPTION = `Add thought to reasoning chain.
 
 Use for: Complex problems, planning, analysis needing revision.
 
 Features: subSteps (max 5), alternatives, quickExtension (inline critique).
 
+Sessions: sessionId isolates parallel tasks (thought #1 resets only that session).
+
 Returns: progress bar, confidence, next action hint.`;
 
-const thinkSchema = {
-  thought: z.string().describe('Your thinking step'),
-  nextThoughtNeeded: z.boolean().describe('More thinking needed?'),
-  thoughtNumber: z.number().int().min(1).describe('Current number'),
-  totalThoughts: z.number().int().min(1).describe('Estimated total'),
-  confidence: z.number().min(1).max(10).optional().describe('Confidence 1-10'),
-  subSteps: z.array(z.string()).max(5).optional().describe('Micro-actions (max 5)'),
-  alternatives: z.array(z.string()).max(5).optional().describe('Options to compare'),
-  goal: z.string().optional().describe('Session goal (set on first thought)'),
-  quickExtension: z.object({
-    type: z.enum(['critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing', 'innovation', 'optimization', 'polish']),
-    content: z.string(),
-    impact: z.enum(['low', 'medium', 'high', 'blocker']).optional(),
-  }).optional().describe('Inline extension (replaces separate extension tool)'),
-  isRevision: z.boolean().optional().describe('Revising previous thought?'),
-  revisesThought: z.number().int().min(1).optional().describe('Which thought to revise'),
-  branchFromThought: z.number().int().min(1).optional().describe('Branch point'),
-  branchId: z.string().optional().describe('Branch identifier'),
-  showTree: z.boolean().optional().describe('Show ASCII tree'),
-};
-
-server.registerTool('think', { title: 'Think', description: THINK_DESCRIPTION, inputSchema: thinkSchema },
-  async (args) => {
-    try {
-      const result = thinkingService.processThought({
-        thought: args.thought as string,
-        nextThoughtNeeded: args.nextThoughtNeeded as boolean,
-        thoughtNumber: args.thoughtNumber as number,
-        totalThoughts: args.totalThoughts as number,
-        isRevision: args.isRevision as boolean | undefined,
-        revisesThought: args.revisesThought as number | undefined,
-        branchFromThought: args.branchFromThought as number | undefined,
-        branchId: args.branchId as string | undefined,
-        confidence: args.confidence as number | undefined,
-        subSteps: args.subSteps as string[] | undefined,
-        alternatives: args.alternatives as string[] | undefined,
-        goal: args.goal as string | undefined,
-        quickExtension: args.quickExtension as QuickExtension | undefined,
-        showTree: args.showTree as boolean | undefined,
-      });
+  const thinkSchema = {
+    thought: z.string().describe('Your thinking step'),
+    nextThoughtNeeded: z.boolean().describe('More thinking needed?'),
+    thoughtNumber: z.number().int().min(1).describe('Current number'),
+    totalThoughts: z.number().int().min(1).describe('Estimated total'),
+    confidence: z.number().min(1).max(10).optional().describe('Confidence 1-10'),
+    subSteps: z.array(z.string()).max(5).optional().describe('Micro-actions (max 5)'),
+    alternatives: z.array(z.string()).max(5).optional().describe('Options to compare'),
+    goal: z.string().optional().describe('Session goal (set on first thought)'),
+    project: z.string().max(200).optional().describe('Insights namespace: project name or workspace root (set on first thought)'),
+    quickExtension: z.object({
+      type: z.enum(['critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing', 'innovation', 'optimization', 'polish']),
+      content: z.string(),
+      impact: z.enum(['low', 'medium', 'high', 'blocker']).optional(),
+    }).optional().describe('Inline extension (replaces separate extension tool)'),
+    isRevision: z.boolean().optional().describe('Revising previous thought?'),
+    revisesThought: z.number().int().min(1).optional().describe('Which thought to revise'),
+    branchFromThought: z.number().int().min(1).optional().describe('Branch point'),
+    branchId: z.string().optional().describe('Branch identifier'),
+    showTree: z.boolean().optional().describe('Show ASCII tree'),
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkOutputSchema = {
+    status: z.enum(['OK', 'WARNING', 'BLOCKED', 'ERROR']),
+    nextAction: z.enum(['continue', 'revise', 'think_done']),
+    thoughtNumber: z.number(),
+    totalThoughts: z.number(),
+    nextThoughtNeeded: z.boolean(),
+    branches: z.array(z.string()),
+    thoughtHistoryLength: z.number(),
+    contextSummary: z.array(thoughtSummaryOutput),
+    averageConfidence: z.number().optional(),
+    warning: z.string().optional(),
+    systemAdvice: z.string().optional(),
+    nudge: z.string().optional(),
+    sessionGoal: z.string().optional(),
+    sessionKey: z.string().optional(),
+    thoughtTree: z.string().optional(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think', { title: 'Think', description: THINK_DESCRIPTION, inputSchema: thinkSchema, outputSchema: thinkOutputSchema },
+    async (args) => {
+      try {
+        const result = thinkingService.processThought({
+          thought: args.thought as string,
+          nextThoughtNeeded: args.nextThoughtNeeded as boolean,
+          thoughtNumber: args.thoughtNumber as number,
+          totalThoughts: args.totalThoughts as number,
+          isRevision: args.isRevision as boolean | undefined,
+          revisesThought: args.revisesThought as number | undefined,
+          branchFromThought: args.branchFromThought as number | undefined,
+          branchId: args.branchId as string | undefined,
+          confidence: args.confidence as number | undefined,
+          subSteps: args.subSteps as string[] | undefined,
+          alternatives: args.alternatives as string[] | undefined,
+          goal: args.goal as string | undefined,
+          project: args.project as string | undefined,
+          quickExtension: args.quickExtension as QuickExtension | undefined,
+          showTree: args.showTree as boolean | undefined,
+        }, sessionKey(args.sessionId));
+
+        if (result.isError) {
+          return toolError(`Error: ${result.errorMessage}`, {
+            status: 'ERROR',
+            nextAction: 'revise',
+            thoughtNumber: result.thoughtNumber,
+            totalThoughts: result.totalThoughts,
+            nextThoughtNeeded: result.nextThoughtNeeded,
+            branches: result.branches,
+            thoughtHistoryLength: result.thoughtHistoryLength,
+            contextSummary: result.contextSummary,
+            sessionKey: result.sessionKey,
+            errorMessage: result.errorMessage,
+          });
+        }
 
-      if (result.isError) {
-        return { content: [{ type: 'text' as const, text: `Error: ${result.errorMessage}` }], isError: true };
-      }
+        // Progress bar
+        const current = result.thoughtNumber;
+        const total = result.totalThoughts;
+        const filled = Math.round((current / total) * 10);
+        const progressBar = '█'.repeat(filled) + '░'.repeat(10 - filled);
+
+        // Status detection
+        const hasBlocker = result.warning?.includes('BLOCKER') || result.warning?.includes('STAGNATION');
+        const status = hasBlocker ? 'BLOCKED' : result.warning ? 'WARNING' : 'OK';
+        const nearEnd = current >= total - 1;
+        const nextAction = hasBlocker ? 'revise' : nearEnd ? 'think_done' : 'continue';
+
+        // Conditional tree - ONLY when explicitly requested
+        const showTree = args.showTree === true;
 
-      // Progress bar
-      const current = result.thoughtNumber;
-      const total = result.totalThoughts;
-      const filled = Math.round((current / total) * 10);
-      const progressBar = '█'.repeat(filled) + '░'.repeat(10 - filled);
-
-      // Status detection
-      const hasBlocker = result.warning?.includes('BLOCKER') || result.warning?.includes('STAGNATION');
-      const status = hasBlocker ? 'BLOCKED' : result.warning ? 'WARNING' : 'OK';
-      const nearEnd = current >= total - 1;
-      const nextAction = hasBlocker ? 'revise' : nearEnd ? 'think_done' : 'continue';
-
-      // Conditional tree - ONLY when explicitly requested
-      const showTree = args.showTree === true;
-
-      // v5.0.1: Show systemAdvice ONLY when there are real issues
-      const conf = result.averageConfidence ?? 10;
-      const hasRealIssue = status !== 'OK' || conf < 7;
-      const showAdvice = hasRealIssue && result.systemAdvice;
-
-      const text = [
-        result.sessionGoal ? `🎯 ${result.sessionGoal}\n` : '',
-        `[${progressBar}] ${current}/${total}`,
-        result.averageConfidence ? ` | conf: ${result.averageConfidence}/10` : '',
-        result.warning ? `\n⚠️ ${result.warning}` : '',
-        showTree ? `\n\n${result.thoughtTree}` : '',
-        showAdvice ? `\n${result.systemAdvice}` : '',
-        result.nudge ? `\n💡 ${result.nudge}` : '',
-        `\n[${status}|next:${nextAction}]`,
-      ].filter(Boolean).join('');
-
-      return { content: [{ type: 'text' as const, text }] };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
+        // v5.0.1: Show systemAdvice ONLY when there are real issues
+        const conf = result.averageConfidence ?? 10;
+        const hasRealIssue = status !== 'OK' || conf < 7;
+        const showAdvice = hasRealIssue && result.systemAdvice;
+
+        const text = [
+          result.sessionGoal ? `🎯 ${result.sessionGoal}\n` : '',
+          `[${progressBar}] ${current}/${total}`,
+          result.averageConfidence ? ` | conf: ${result.averageConfidence}/10` : '',
+          result.warning ? `\n⚠️ ${result.warning}` : '',
+          showTree ? `\n\n${result.thoughtTree}` : '',
+          showAdvice ? `\n${result.systemAdvice}` : '',
+          result.nudge ? `\n💡 ${result.nudge}` : '',
+          `\n[${status}|next:${nextAction}${args.sessionId ? `|session:${result.sessionKey}` : ''}]`,
+        ].filter(Boolean).join('');
+
+        const structuredContent = {
+          status,
+          nextAction,
+          thoughtNumber: result.thoughtNumber,
+          totalThoughts: result.totalThoughts,
+          nextThoughtNeeded: result.nextThoughtNeeded,
+          branches: result.branches,
+          thoughtHistoryLength: result.thoughtHistoryLength,
+          contextSummary: result.contextSummary,
+          averageConfidence: result.averageConfidence,
+          warning: result.warning,
+          systemAdvice: result.systemAdvice,
+          nudge: result.nudge,
+          sessionGoal: result.sessionGoal,
+          sessionKey: result.sessionKey,
+          thoughtTree: showTree ? result.thoughtTree : undefined,
+        };
+
+        return { content: [{ type: 'text' as const, text }], structuredContent };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'ERROR',
+          nextAction: 'revise',
+          thoughtNumber: args.thoughtNumber as number,
+          totalThoughts: args.totalThoughts as number,
+          nextThoughtNeeded: true,
+          branches: [],
+          thoughtHistoryLength: 0,
+          contextSummary: [],
+          errorMessage: message,
+        });
+      }
     }
-  }
-);
+  );
 
-// ============================================
-// 2. THINK_BATCH - Bulk submit thoughts
-// ============================================
+  // ============================================
+  // 2. THINK_BATCH - Bulk submit thoughts
+  // ============================================
 
-const THINK_BATCH_DESCRIPTION = `Burst Thinking - submit complete reasoning chain in one call.
+  const THINK_BATCH_DESCRIPTION = `Burst Thinking - submit complete reasoning chain in one call.
 
 Input: goal (min 10 chars), thoughts [1-30], consolidation (optional).
 
@@ -151,73 +400,111 @@ Constraints:
 
 Validation: atomic (all or nothing).`;
 
-const burstExtensionSchema = z.object({
-  type: z.enum(['critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing', 'innovation', 'optimization', 'polish']),
-  content: z.string(),
-  impact: z.enum(['low', 'medium', 'high', 'blocker']).optional(),
-});
-
-const burstThoughtSchema = z.object({
-  thoughtNumber: z.number().int().min(1),
-  thought: z.string().min(1),
-  confidence: z.number().min(1).max(10).optional(),
-  subSteps: z.array(z.string()).max(5).optional(),
-  alternatives: z.array(z.string()).max(5).optional(),
-  isRevision: z.boolean().optional(),
-  revisesThought: z.number().int().min(1).optional(),
-  branchFromThought: z.number().int().min(1).optional(),
-  branchId: z.string().optional(),
-  extensions: z.array(burstExtensionSchema).optional(),
-});
-
-const thinkBatchSchema = {
-  goal: z.string().min(10).describe('Session goal'),
-  thoughts: z.array(burstThoughtSchema).min(1).max(30).describe('Array of thoughts'),
-  consolidation: z.object({
-    winningPath: z.array(z.number().int().min(1)),
-    summary: z.string(),
-    verdict: z.enum(['ready', 'needs_more_work']),
-  }).optional().describe('Optional consolidation'),
-  showTree: z.boolean().optional().describe('Show ASCII tree (default: false)'),
-};
-
-server.registerTool('think_batch', { title: 'Think Batch', description: THINK_BATCH_DESCRIPTION, inputSchema: thinkBatchSchema },
-  async (args) => {
-    try {
-      const result = thinkingService.submitSession({
-        goal: args.goal as string,
-        thoughts: args.thoughts as BurstThought[],
-        consolidation: args.consolidation as BurstConsolidation | undefined,
-        showTree: args.showTree as boolean | undefined,
-      });
+  const burstExtensionSchema = z.object({
+    type: z.enum(['critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing', 'innovation', 'optimization', 'polish']),
+    content: z.string(),
+    impact: z.enum(['low', 'medium', 'high', 'blocker']).optional(),
+  });
+
+  const burstThoughtSchema = z.object({
+    thoughtNumber: z.number().int().min(1),
+    thought: z.string().min(1),
+    confidence: z.number().min(1).max(10).optional(),
+    subSteps: z.array(z.string()).max(5).optional(),
+    alternatives: z.array(z.string()).max(5).optional(),
+    isRevision: z.boolean().optional(),
+    revisesThought: z.number().int().min(1).optional(),
+    branchFromThought: z.number().int().min(1).optional(),
+    branchId: z.string().optional(),
+    extensions: z.array(burstExtensionSchema).optional(),
+  });
+
+  const thinkBatchSchema = {
+    goal: z.string().min(10).describe('Session goal'),
+    thoughts: z.array(burstThoughtSchema).min(1).max(30).describe('Array of thoughts'),
+    consolidation: z.object({
+      winningPath: z.array(z.number().int().min(1)),
+      summary: z.string(),
+      verdict: z.enum(['ready', 'needs_more_work']),
+    }).optional().describe('Optional consolidation'),
+    showTree: z.boolean().optional().describe('Show ASCII tree (default: false)'),
+    project: z.string().max(200).optional().describe('Insights namespace: project name or workspace root'),
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkBatchOutputSchema = {
+    status: z.enum(['accepted', 'rejected']),
+    sessionId: z.string(),
+    sessionKey: z.string().optional(),
+    thoughtsProcessed: z.number(),
+    validation: z.object({
+      passed: z.boolean(),
+      errors: z.array(z.string()),
+      warnings: z.array(z.string()),
+    }),
+    metrics: z.object({
+      avgConfidence: z.number(),
+      avgEntropy: z.number(),
+      avgLength: z.number(),
+      stagnationScore: z.number(),
+      thoughtCount: z.number(),
+    }),
+    thoughtTree: z.string().optional(),
+    systemAdvice: z.string().optional(),
+    nudge: z.string().optional(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_batch', { title: 'Think Batch', description: THINK_BATCH_DESCRIPTION, inputSchema: thinkBatchSchema, outputSchema: thinkBatchOutputSchema },
+    async (args) => {
+      try {
+        const result = thinkingService.submitSession({
+          goal: args.goal as string,
+          thoughts: args.thoughts as BurstThought[],
+          consolidation: args.consolidation as BurstConsolidation | undefined,
+          showTree: args.showTree as boolean | undefined,
+          project: args.project as string | undefined,
+        }, sessionKey(args.sessionId));
+
+        if (result.status === 'rejected') {
+          return toolError(`🚫 REJECTED\n${result.validation.errors.map(e => `• ${e}`).join('\n')}`,
+            { ...result, sessionKey: sessionKey(args.sessionId) });
+        }
 
-      if (result.status === 'rejected') {
-        return { content: [{ type: 'text' as const, text: `🚫 REJECTED\n${result.validation.errors.map(e => `• ${e}`).join('\n')}` }], isError: true };
+        // v5.0.1: Compact output - tree only when requested
+        const m = result.metrics;
+        const text = [
+          '✅ ACCEPTED',
+          args.sessionId ? `🗂️ session: ${args.sessionId}` : '',
+          `🎯 ${args.goal}`,
+          `📊 ${result.thoughtsProcessed}t | conf:${m.avgConfidence} ent:${m.avgEntropy} stag:${m.stagnationScore}`,
+          result.validation.warnings.length > 0 ? `⚠️ ${result.validation.warnings.join('; ')}` : '',
+          result.nudge ? `💡 ${result.nudge}` : '',
+          args.showTree ? result.thoughtTree : '',
+        ].filter(Boolean).join('\n');
+
+        const structuredContent = { ...result, sessionKey: sessionKey(args.sessionId) };
+        return { content: [{ type: 'text' as const, text }], structuredContent };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'rejected',
+          sessionId: '',
+          sessionKey: sessionKey(args.sessionId),
+          thoughtsProcessed: 0,
+          validation: { passed: false, errors: [message], warnings: [] },
+          metrics: { avgConfidence: 0, avgEntropy: 0, avgLength: 0, stagnationScore: 0, thoughtCount: 0 },
+          errorMessage: message,
+        });
       }
-
-      // v5.0.1: Compact output - tree only when requested
-      const m = result.metrics;
-      const text = [
-        '✅ ACCEPTED',
-        `🎯 ${args.goal}`,
-        `📊 ${result.thoughtsProcessed}t | conf:${m.avgConfidence} ent:${m.avgEntropy} stag:${m.stagnationScore}`,
-        result.validation.warnings.length > 0 ? `⚠️ ${result.validation.warnings.join('; ')}` : '',
-        result.nudge ? `💡 ${result.nudge}` : '',
-        args.showTree ? result.thoughtTree : '',
-      ].filter(Boolean).join('\n');
-
-      return { content: [{ type: 'text' as const, text }] };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
     }
-  }
-);
+  );
 
-// ============================================
-// 3. THINK_DONE - Consolidate and optionally export
-// ============================================
+  // ============================================
+  // 3. THINK_DONE - Consolidate and optionally export
+  // ============================================
 
-const THINK_DONE_DESCRIPTION = `Finish session with verification.
+  const THINK_DONE_DESCRIPTION = `Finish session with verification.
 
 MANDATORY before final answer on complex problems.
 
@@ -228,151 +515,262 @@ Validation:
 
 Options: exportReport (markdown|json).`;
 
-const thinkDoneSchema = {
-  winningPath: z.array(z.number().int().min(1)).describe('Thought numbers leading to solution'),
-  summary: z.string().describe('Final logic summary'),
-  verdict: z.enum(['ready', 'needs_more_work']).describe('Ready for answer?'),
-  constraintCheck: z.string().optional().describe('How constraints were addressed'),
-  potentialFlaws: z.string().optional().describe('What could go wrong'),
-  exportReport: z.enum(['markdown', 'json']).optional().describe('Export format (optional)'),
-  includeMermaid: z.boolean().optional().describe('Include diagram in export'),
-};
-
-server.registerTool('think_done', { title: 'Think Done', description: THINK_DONE_DESCRIPTION, inputSchema: thinkDoneSchema },
-  async (args) => {
-    try {
-      const result = thinkingService.consolidate({
-        winningPath: args.winningPath as number[],
-        summary: args.summary as string,
-        constraintCheck: args.constraintCheck as string | undefined,
-        potentialFlaws: args.potentialFlaws as string | undefined,
-        verdict: args.verdict as 'ready' | 'needs_more_work',
-      });
+  const thinkDoneSchema = {
+    winningPath: z.array(z.number().int().min(1)).describe('Thought numbers leading to solution'),
+    summary: z.string().describe('Final logic summary'),
+    verdict: z.enum(['ready', 'needs_more_work']).describe('Ready for answer?'),
+    constraintCheck: z.string().optional().describe('How constraints were addressed'),
+    potentialFlaws: z.string().optional().describe('What could go wrong'),
+    exportReport: z.enum(['markdown', 'json']).optional().describe('Export format (optional)'),
+    includeMermaid: z.boolean().optional().describe('Include diagram in export'),
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkDoneOutputSchema = {
+    status: z.enum(['success', 'error']),
+    evaluation: z.string(),
+    warnings: z.array(z.string()),
+    canProceedToFinalAnswer: z.boolean(),
+    pathAnalysis: z.object({
+      totalThoughts: z.number(),
+      pathLength: z.number(),
+      ignoredRatio: z.number(),
+      lowConfidenceInPath: z.array(z.number()),
+      unaddressedBlockers: z.array(z.number()),
+      unaddressedCritical: z.array(z.number()),
+      disconnectedAt: z.array(z.number()).optional(),
+    }),
+    errorMessage: z.string().optional(),
+    report: z.string().optional().describe('Exported report when exportReport is set'),
+  };
+
+  server.registerTool('think_done', { title: 'Think Done', description: THINK_DONE_DESCRIPTION, inputSchema: thinkDoneSchema, outputSchema: thinkDoneOutputSchema },
+    async (args) => {
+      try {
+        const result = thinkingService.consolidate({
+          winningPath: args.winningPath as number[],
+          summary: args.summary as string,
+          constraintCheck: args.constraintCheck as string | undefined,
+          potentialFlaws: args.potentialFlaws as string | undefined,
+          verdict: args.verdict as 'ready' | 'needs_more_work',
+        }, sessionKey(args.sessionId));
+
+        if (result.status === 'error') {
+          return toolError(`Error: ${result.errorMessage}`, { ...result });
+        }
 
-      if (result.status === 'error') {
-        return { content: [{ type: 'text' as const, text: `Error: ${result.errorMessage}` }], isError: true };
-      }
+        const pa = result.pathAnalysis;
+        const issues = [
+          pa.lowConfidenceInPath.length > 0 ? `lowConf:#${pa.lowConfidenceInPath.join(',')}` : '',
+          pa.unaddressedBlockers.length > 0 ? `blockers:#${pa.unaddressedBlockers.join(',')}` : '',
+        ].filter(Boolean).join(' | ');
 
-      const pa = result.pathAnalysis;
-      const issues = [
-        pa.lowConfidenceInPath.length > 0 ? `lowConf:#${pa.lowConfidenceInPath.join(',')}` : '',
-        pa.unaddressedBlockers.length > 0 ? `blockers:#${pa.unaddressedBlockers.join(',')}` : '',
-      ].filter(Boolean).join(' | ');
-
-      let text = [
-        result.canProceedToFinalAnswer ? '✅ READY' : '🛑 BLOCKED',
-        `📊 Path: ${pa.pathLength}/${pa.totalThoughts} (${Math.round(pa.ignoredRatio * 100)}% ignored)`,
-        issues ? `⚠️ ${issues}` : '',
-        '',
-        '--- STATUS ---',
-        `verdict: ${result.canProceedToFinalAnswer ? 'READY' : 'BLOCKED'}`,
-      ].filter(Boolean).join('\n');
-
-      // Export if requested (merged export flow)
-      if (args.exportReport) {
-        const report = thinkingService.exportSession({
-          format: args.exportReport as 'markdown' | 'json',
-          includeMermaid: (args.includeMermaid as boolean) ?? true,
+        let text = [
+          result.canProceedToFinalAnswer ? '✅ READY' : '🛑 BLOCKED',
+          `📊 Path: ${pa.pathLength}/${pa.totalThoughts} (${Math.round(pa.ignoredRatio * 100)}% ignored)`,
+          issues ? `⚠️ ${issues}` : '',
+          '',
+          '--- STATUS ---',
+          `verdict: ${result.canProceedToFinalAnswer ? 'READY' : 'BLOCKED'}`,
+        ].filter(Boolean).join('\n');
+
+        // Export if requested (merged export flow)
+        let report: string | undefined;
+        if (args.exportReport) {
+          report = thinkingService.exportSession({
+            format: args.exportReport as 'markdown' | 'json',
+            includeMermaid: (args.includeMermaid as boolean) ?? true,
+          }, sessionKey(args.sessionId));
+          text += '\n\n--- EXPORT ---\n' + report;
+        }
+
+        return { content: [{ type: 'text' as const, text }], structuredContent: { ...result, report } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          evaluation: message,
+          warnings: [],
+          canProceedToFinalAnswer: false,
+          pathAnalysis: {
+            totalThoughts: 0,
+            pathLength: 0,
+            ignoredRatio: 0,
+            lowConfidenceInPath: [],
+            unaddressedBlockers: [],
+            unaddressedCritical: [],
+          },
+          errorMessage: message,
         });
-        text += '\n\n--- EXPORT ---\n' + report;
       }
-
-      return { content: [{ type: 'text' as const, text }] };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
     }
-  }
-);
+  );
 
+  // ============================================
+  // 4. THINK_RECALL - Unified search (session + insights)
+  // ============================================
 
-// ============================================
-// 4. THINK_RECALL - Unified search (session + insights)
-// ============================================
+  const THINK_RECALL_DESCRIPTION = `Search session thoughts or past insights.
 
-const THINK_RECALL_DESCRIPTION = `Search session thoughts or past insights.
-
-Scopes: session (default), insights (cross-session).
+Scopes: session (default), insights (cross-session), history (alias all: every persisted session).
+History filters: sessionIds, from/to (ISO date), goal, minConfidence. Matches include provenance.
+Insights are per project: project (or the session's project, else THINK_MCP_PROJECT) selects one, allProjects searches all.
+showChain adds the reasoning behind each insight: winning-path thoughts, critiques, dead ends, constraints.
+Query operators (session/history): type:critique, impact:blocker, conf<5, branch:ID, revised:false, "exact phrase", -exclude.
 
 Mandatory usage:
 - BEFORE complex_task: check insights for past patterns
+- IF solved_similar_before: check history for earlier conclusions
 - IF repeating_logic: check session for dead ends
 - IF unsure_about_fact: verify established context`;
 
-const thinkRecallSchema = {
-  query: z.string().min(2).describe('Search query (fuzzy matching)'),
-  scope: z.enum(['session', 'insights']).optional().default('session').describe('Where to search'),
-  searchIn: z.enum(['thoughts', 'extensions', 'alternatives', 'all']).optional().default('all').describe('What to search (session only)'),
-  limit: z.number().int().min(1).max(10).optional().default(3).describe('Max results'),
-  threshold: z.number().min(0).max(1).optional().default(0.4).describe('Match strictness (lower = stricter)'),
-};
-
-server.registerTool('think_recall', { title: 'Think Recall', description: THINK_RECALL_DESCRIPTION, inputSchema: thinkRecallSchema },
-  async (args) => {
-    try {
-      const scope = (args.scope as 'session' | 'insights') ?? 'session';
-      const query = args.query as string;
-      const limit = (args.limit as number) ?? 3;
-
-      if (scope === 'insights') {
-        // Search past insights
-        const result = await thinkingService.recallInsights(query, limit);
-
-        if (result.matches.length === 0) {
-          const patternsText = result.topPatterns.length > 0
-            ? `\n\n📊 Patterns in ${result.totalInsights} insights:\n${result.topPatterns.map(p => `  • ${p.keyword}: ${p.count}`).join('\n')}`
-            : '';
-          return { content: [{ type: 'text' as const, text: `🔍 No insights for "${query}"${patternsText}` }] };
-        }
-
-        const text = [
-          `🧠 INSIGHTS for "${query}"`,
-          `Found ${result.matches.length}/${result.totalInsights}`,
-          '',
-          ...result.matches.map((m, i) => [
-            `#${i + 1} (${Math.round((1 - m.relevance) * 100)}%)`,
-            `  ${m.insight.summary}`,
-            `  Keywords: ${m.insight.keywords.join(', ')}`,
-          ].join('\n')),
-        ].join('\n');
-
-        return { content: [{ type: 'text' as const, text }] };
-      } else {
-        // Search current session
-        const result = thinkingService.recallThought({
-          query,
-          scope: 'current',
-          searchIn: (args.searchIn as 'thoughts' | 'extensions' | 'alternatives' | 'all') ?? 'all',
-          limit,
-          threshold: (args.threshold as number) ?? 0.4,
-        });
-
-        if (result.matches.length === 0) {
-          return { content: [{ type: 'text' as const, text: `🔍 No matches for "${query}" in ${result.totalSearched} items` }] };
+  const thinkRecallSchema = {
+    query: z.string().min(2).describe('Search query; supports type:, impact:, conf<N, branch:, revised:, "phrases", -word'),
+    scope: z.enum(['session', 'insights', 'history', 'all']).optional().default('session').describe('Where to search'),
+    searchIn: z.enum(['thoughts', 'extensions', 'alternatives', 'all']).optional().default('all').describe('What to search (session/history)'),
+    limit: z.number().int().min(1).max(10).optional().default(3).describe('Max results'),
+    threshold: z.number().min(0).max(1).optional().default(0.4).describe('Match strictness (lower = stricter)'),
+    sessionId: sessionIdSchema,
+    sessionIds: z.array(z.string().min(1)).optional().describe('History: only these sessions'),
+    from: z.string().optional().describe('History: thoughts at/after ISO date'),
+    to: z.string().optional().describe('History: thoughts at/before ISO date'),
+    goal: z.string().optional().describe('History: session goal contains'),
+    minConfidence: z.number().min(1).max(10).optional().describe('History: min thought confidence'),
+    project: z.string().max(200).optional().describe('Insights: namespace (default: session project, then THINK_MCP_PROJECT)'),
+    allProjects: z.boolean().optional().describe('Insights: search every namespace'),
+    showChain: z.boolean().optional().describe('Insights: include the reasoning chain (path thoughts, critiques, dead ends)'),
+  };
+
+  // session/history scope: RecallResult fields, insights scope: InsightsSearchResult fields
+  const thinkRecallOutputSchema = {
+    scope: z.enum(['session', 'insights', 'history']),
+    query: z.string(),
+    matches: z.array(z.union([recallMatchOutput, insightMatchOutput])),
+    totalSearched: z.number().optional(),
+    searchParams: z.object({
+      scope: z.enum(['current', 'all']),
+      searchIn: z.enum(['thoughts', 'extensions', 'alternatives', 'all']),
+      threshold: z.number(),
+    }).optional(),
+    totalInsights: z.number().optional(),
+    topPatterns: z.array(patternCountOutput).optional(),
+    namespace: z.string().optional(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_recall', { title: 'Think Recall', description: THINK_RECALL_DESCRIPTION, inputSchema: thinkRecallSchema, outputSchema: thinkRecallOutputSchema },
+    async (args) => {
+      try {
+        const scope = args.scope === 'all' ? 'history' : (args.scope as 'session' | 'insights' | 'history') ?? 'session';
+        const query = args.query as string;
+        const limit = (args.limit as number) ?? 3;
+
+        if (scope === 'insights') {
+          // Search past insights
+          const result = await thinkingService.recallInsights(query, limit, {
+            project: args.project as string | undefined,
+            allProjects: args.allProjects as boolean | undefined,
+            sessionKey: sessionKey(args.sessionId),
+          });
+          // v5.6.0: Reasoning chains only on request - they are much longer than summaries
+          const showChain = args.showChain === true;
+          const matches = showChain
+            ? result.matches
+            : result.matches.map(m => ({ ...m, insight: { ...m.insight, chain: undefined } }));
+          const structuredContent = { scope, query, ...result, matches };
+          const namespaceLabel = result.namespace ?? 'all projects';
+
+          if (result.matches.length === 0) {
+            const patternsText = result.topPatterns.length > 0
+              ? `\n\n📊 Patterns in ${result.totalInsights} insights:\n${result.topPatterns.map(p => `  • ${p.keyword}: ${p.count}`).join('\n')}`
+              : '';
+            return { content: [{ type: 'text' as const, text: `🔍 No insights for "${query}" in ${namespaceLabel}${patternsText}` }], structuredContent };
+          }
+
+          const text = [
+            `🧠 INSIGHTS for "${query}" in ${namespaceLabel}`,
+            `Found ${result.matches.length}/${result.totalInsights}`,
+            '',
+            ...result.matches.map((m, i) => [
+              `#${i + 1} ${m.insight.id}${result.namespace ? '' : ` [${m.insight.namespace}]`} (${Math.round((1 - m.relevance) * 100)}%, utility ${m.utility})${m.needsReview ? ' ⚠️ needs review' : ''}`,
+              `  ${m.insight.summary}`,
+              `  Keywords: ${m.insight.keywords.join(', ')}`,
+              ...(showChain && m.insight.chain ? formatInsightChain(m.insight.chain) : []),
+            ].join('\n')),
+          ].join('\n');
+
+          return { content: [{ type: 'text' as const, text }], structuredContent };
+        } else if (scope === 'history') {
+          // Search every persisted session (v5.6.0)
+          const result = await thinkingService.recallHistory({
+            query,
+            searchIn: (args.searchIn as 'thoughts' | 'extensions' | 'alternatives' | 'all') ?? 'all',
+            limit,
+            threshold: (args.threshold as number) ?? 0.4,
+            sessionIds: args.sessionIds as string[] | undefined,
+            from: args.from as string | undefined,
+            to: args.to as string | undefined,
+            goal: args.goal as string | undefined,
+            minConfidence: args.minConfidence as number | undefined,
+          });
+          const structuredContent = { scope, ...result };
+
+          if (result.matches.length === 0) {
+            return { content: [{ type: 'text' as const, text: `🔍 No matches for "${query}" in session history` }], structuredContent };
+          }
+
+          const text = [
+            `📚 HISTORY "${query}"`,
+            `Found ${result.matches.length}/${result.totalSearched}`,
+            '',
+            ...result.matches.map((m, i) => [
+              `#${i + 1} [${m.provenance?.sessionKey}${m.provenance?.archived ? ', archived' : ''}] Thought #${m.thoughtNumber} (${Math.round((1 - m.relevance) * 100)}%) ${m.provenance?.timestamp.split('T')[0]}`,
+              ...(m.provenance?.goal ? [`  🎯 ${m.provenance.goal}`] : []),
+              `  "${m.snippet}"`,
+            ].join('\n')),
+          ].join('\n');
+
+          return { content: [{ type: 'text' as const, text }], structuredContent };
+        } else {
+          // Search current session
+          const result = thinkingService.recallThought({
+            query,
+            scope: 'current',
+            searchIn: (args.searchIn as 'thoughts' | 'extensions' | 'alternatives' | 'all') ?? 'all',
+            limit,
+            threshold: (args.threshold as number) ?? 0.4,
+          }, sessionKey(args.sessionId));
+          const structuredContent = { scope, ...result };
+
+          if (result.matches.length === 0) {
+            return { content: [{ type: 'text' as const, text: `🔍 No matches for "${query}" in ${result.totalSearched} items` }], structuredContent };
+          }
+
+          const text = [
+            `🔍 RECALL "${query}"`,
+            `Found ${result.matches.length}/${result.totalSearched}`,
+            '',
+            ...result.matches.map((m, i) => [
+              `#${i + 1} Thought #${m.thoughtNumber} (${Math.round((1 - m.relevance) * 100)}%)`,
+              `  "${m.snippet}"`,
+            ].join('\n')),
+          ].join('\n');
+
+          return { content: [{ type: 'text' as const, text }], structuredContent };
         }
-
-        const text = [
-          `🔍 RECALL "${query}"`,
-          `Found ${result.matches.length}/${result.totalSearched}`,
-          '',
-          ...result.matches.map((m, i) => [
-            `#${i + 1} Thought #${m.thoughtNumber} (${Math.round((1 - m.relevance) * 100)}%)`,
-            `  "${m.snippet}"`,
-          ].join('\n')),
-        ].join('\n');
-
-        return { content: [{ type: 'text' as const, text }] };
+      } catch (error) {
+        const message = errorText(error);
+        const scope = args.scope === 'all' ? 'history' : (args.scope as 'session' | 'insights' | 'history') ?? 'session';
+        return toolError(`Error: ${message}`, { scope, query: args.query as string, matches: [], errorMessage: message });
       }
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
     }
-  }
-);
+  );
 
-// ============================================
-// 5. THINK_RESET - Clear session
-// ============================================
+  // ============================================
+  // 5. THINK_RESET - Clear session
+  // ============================================
 
-const THINK_RESET_DESCRIPTION = `Clear session. Irreversible.
+  const THINK_RESET_DESCRIPTION = `Clear session. Irreversible.
 
 TRIGGER:
 - IF new_task_unrelated THEN reset
@@ -380,26 +778,40 @@ TRIGGER:
 
 DO NOT RESET:
 - IF user_says "tweak/fix/expand" THEN continue
-- IF mid_execution THEN use branchFromThought instead`;
-
-server.registerTool('think_reset', { title: 'Think Reset', description: THINK_RESET_DESCRIPTION, inputSchema: {} },
-  async () => {
-    try {
-      const result = await thinkingService.resetSession();
-      return {
-        content: [{ type: 'text' as const, text: `🧹 RESET: ${result.clearedThoughts} thoughts, ${result.clearedBranches} branches cleared` }],
-      };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
+- IF mid_execution THEN use branchFromThought instead
+
+Named sessions: pass sessionId to clear only that session.`;
+
+  const thinkResetSchema = {
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkResetOutputSchema = {
+    clearedThoughts: z.number(),
+    clearedBranches: z.number(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_reset', { title: 'Think Reset', description: THINK_RESET_DESCRIPTION, inputSchema: thinkResetSchema, outputSchema: thinkResetOutputSchema },
+    async (args) => {
+      try {
+        const result = await thinkingService.resetSession(sessionKey(args.sessionId));
+        return {
+          content: [{ type: 'text' as const, text: `🧹 RESET: ${result.clearedThoughts} thoughts, ${result.clearedBranches} branches cleared` }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, { clearedThoughts: 0, clearedBranches: 0, errorMessage: message });
+      }
     }
-  }
-);
+  );
 
-// ============================================
-// 6. THINK_CYCLE - Adaptive external reasoning loop with hard gate
-// ============================================
+  // ============================================
+  // 6. THINK_CYCLE - Adaptive external reasoning loop with hard gate
+  // ============================================
 
-const THINK_CYCLE_DESCRIPTION = `Adaptive external reasoning cycle with hard quality gate.
+  const THINK_CYCLE_DESCRIPTION = `Adaptive external reasoning cycle with hard quality gate.
 
 Actions:
 - start: create cycle session (adaptive required thought depth)
@@ -407,71 +819,220 @@ Actions:
 - status: inspect progress, gate, and required next work
 - finalize: approve final answer ONLY if gate passes
 - reset: remove cycle session
+- select_branch: record which alternative branch won (branchId + reason)
+- list: cycles newest first (statusFilter, goalFilter, includeArchived, limit)
+- export: report as markdown (default), json or mermaid with phase timeline and quality history
+- archive: keep a completed cycle permanently (TTL cleanup skips it)
 
 Hard rules:
 - IF finalize fails THEN require additional thoughts (minimum 10 when budget allows)
 - IF gate not passed THEN block final answer
 - IF maxLoops reached THEN block and force scope split recommendation
+- IF any constraint is open or violated THEN block (UNADDRESSED_CONSTRAINT, CONSTRAINT_VIOLATED)
+- finalize cross-checks finalAnswer against the session (answerCheck):
+  IF it skips a non-deferred constraint THEN ANSWER_MISSES_CONSTRAINT
+  IF it negates a synthesis/verification step THEN ANSWER_CONTRADICTS_TRACE
+  IF most of its terms are absent from the trace THEN ANSWER_DRIFT
+  IF only answer checks fail THEN rewrite the answer (requiredMoreThoughts=0)
+
+Branches:
+- IF comparing options THEN step with branchId (forks from the last main-line step, or parentIndex)
+- Each branch gets its own quality score in branches[]
+- IF the goal is high-complexity THEN at least 2 evaluated branches (2+ steps incl. critique/verification) are required (INSUFFICIENT_ALTERNATIVES)
+- IF 2+ branches exist THEN select_branch is required before finalize (BRANCH_NOT_SELECTED)
+
+History:
+- IF resuming earlier work THEN list (statusFilter/goalFilter) and continue with step/status
+- IF a step or select_branch follows finalize THEN the cycle reopens and needs finalize again
+- IF a finished cycle should outlive the session TTL THEN archive it (archived cycles are read-only)
+
+Constraint checklist:
+- Constraints from start are numbered 1..N and start open
+- IF a step settles a constraint THEN pass constraintUpdates [{constraint, status: satisfied|violated|deferred, note}]
+- The latest update per constraint wins; deferred counts as addressed
+
+Gate profiles (start only):
+- profile=standard (default) | strict | exploratory | security-review
+- IF quick refactor or option scouting THEN profile=exploratory
+- IF payments, migrations or production data THEN profile=strict
+- Custom profiles: cycle_profiles.json in the data dir
 
 Interop:
 - backendMode=auto: mirror to think backend with fallback
 - backendMode=think: strict think backend mode (no fallback)
 - backendMode=independent: standalone cycle only`;
 
-const thinkCycleSchema = {
-  action: z.enum(['start', 'step', 'status', 'finalize', 'reset']).describe('Cycle action'),
-  sessionId: z.string().optional().describe('Cycle session id (required except start)'),
-  goal: z.string().min(10).optional().describe('Goal for start action'),
-  context: z.string().max(3000).optional().describe('Additional context'),
-  constraints: z.array(z.string()).max(20).optional().describe('Constraints list'),
-  thought: z.string().min(20).optional().describe('Thought content for step action'),
-  thoughtType: z.enum(['decompose', 'alternative', 'critique', 'synthesis', 'verification', 'revision']).optional().describe('Optional thought type override'),
-  confidence: z.number().min(1).max(10).optional().describe('Confidence for step thought'),
-  finalAnswer: z.string().min(30).optional().describe('Final answer candidate for finalize'),
-  backendMode: z.enum(['auto', 'independent', 'think']).optional().describe('Interop backend mode'),
-  maxLoops: z.number().int().min(10).max(30).optional().describe('Loop budget'),
-  showTrace: z.boolean().optional().describe('Show expanded trace'),
-};
-
-server.registerTool('think_cycle', { title: 'Think Cycle', description: THINK_CYCLE_DESCRIPTION, inputSchema: thinkCycleSchema },
-  async (args) => {
-    try {
-      const result = await cycleService.handle({
-        action: args.action as ThinkCycleInput['action'],
-        sessionId: args.sessionId as string | undefined,
-        goal: args.goal as string | undefined,
-        context: args.context as string | undefined,
-        constraints: args.constraints as string[] | undefined,
-        thought: args.thought as string | undefined,
-        thoughtType: args.thoughtType as CycleThoughtType | undefined,
-        confidence: args.confidence as number | undefined,
-        finalAnswer: args.finalAnswer as string | undefined,
-        backendMode: args.backendMode as CycleBackendMode | undefined,
-        maxLoops: args.maxLoops as number | undefined,
-        showTrace: args.showTrace as boolean | undefined,
-      });
+  const thinkCycleSchema = {
+    action: z.enum(['start', 'step', 'status', 'finalize', 'reset', 'select_branch', 'list', 'export', 'archive']).describe('Cycle action'),
+    sessionId: z.string().optional().describe('Cycle session id (required except start)'),
+    goal: z.string().min(10).optional().describe('Goal for start action'),
+    context: z.string().max(3000).optional().describe('Additional context'),
+    constraints: z.array(z.string()).max(20).optional().describe('Constraints list'),
+    thought: z.string().min(20).optional().describe('Thought content for step action'),
+    thoughtType: z.enum(['decompose', 'alternative', 'critique', 'synthesis', 'verification', 'revision']).optional().describe('Optional thought type override'),
+    confidence: z.number().min(1).max(10).optional().describe('Confidence for step thought'),
+    constraintUpdates: z.array(z.object({
+      constraint: z.number().int().min(1).max(20).describe('1-based constraint number from start'),
+      status: z.enum(['satisfied', 'violated', 'deferred']).describe('New checklist status'),
+      note: z.string().max(300).optional().describe('How the step satisfies, violates or defers it'),
+    })).max(20).optional().describe('Constraint checklist changes for step'),
+    branchId: z.string().min(1).max(40).optional().describe('Alternative branch for step; winning branch for select_branch'),
+    parentIndex: z.number().int().min(1).optional().describe('Step a branch step continues from'),
+    reason: z.string().min(20).max(500).optional().describe('Why the branch won, for select_branch'),
+    finalAnswer: z.string().min(30).optional().describe('Final answer candidate for finalize'),
+    backendMode: z.enum(['auto', 'independent', 'think']).optional().describe('Interop backend mode'),
+    maxLoops: z.number().int().min(10).max(30).optional().describe('Loop budget'),
+    showTrace: z.boolean().optional().describe('Show expanded trace'),
+    profile: z.string().max(40).optional().describe('Gate profile for start: standard (default), strict, exploratory, security-review or a custom profile'),
+    statusFilter: z.enum(['in_progress', 'blocked', 'ready', 'completed']).optional().describe('Only list cycles with this status'),
+    goalFilter: z.string().max(200).optional().describe('Only list cycles whose goal contains this text'),
+    includeArchived: z.boolean().optional().describe('List archived cycles too (default: true)'),
+    limit: z.number().int().min(1).max(100).optional().describe('Max cycles to list (default: 20)'),
+    format: z.enum(['markdown', 'json', 'mermaid']).optional().describe('Export format (default: markdown)'),
+  };
+
+  // list returns only status 'info' + sessions; every other action returns the session state
+  const thinkCycleOutputSchema = {
+    status: z.enum(['in_progress', 'blocked', 'ready', 'completed', 'error', 'info']),
+    sessionId: z.string().optional(),
+    loop: z.object({
+      current: z.number(),
+      max: z.number(),
+      required: z.number(),
+      remaining: z.number(),
+    }).optional(),
+    quality: z.object({
+      overall: z.number(),
+      coverage: z.number(),
+      critique: z.number(),
+      verification: z.number(),
+      diversity: z.number(),
+      confidenceStability: z.number(),
+    }).optional(),
+    kpi: z.object({
+      thoughtsPerMinute: z.number(),
+      qualityDelta: z.number(),
+      stagnationRisk: z.number(),
+    }).optional(),
+    gate: z.object({
+      passed: z.boolean(),
+      reasonCodes: z.array(z.string()).describe('CycleReasonCode values'),
+    }).optional(),
+    profile: z.string().optional().describe('Gate profile of the session'),
+    constraints: z.array(z.object({
+      index: z.number(),
+      text: z.string(),
+      status: z.enum(['open', 'satisfied', 'violated', 'deferred']),
+      note: z.string().optional(),
+      stepIndex: z.number().optional(),
+    })).optional().describe('Constraint checklist'),
+    answerCheck: z.object({
+      passed: z.boolean(),
+      support: z.number().describe('Share of answer terms found in the trace'),
+      missingConstraints: z.array(z.number()),
+      contradictions: z.array(z.object({ stepIndex: z.number(), excerpt: z.string() })),
+      novelTerms: z.array(z.string()),
+    }).optional().describe('Final answer cross-check (finalize only)'),
+    branches: z.array(z.object({
+      branchId: z.string(),
+      parentIndex: z.number().optional(),
+      thoughts: z.number(),
+      evaluated: z.boolean(),
+      status: z.enum(['open', 'selected', 'rejected']),
+      quality: z.object({
+        overall: z.number(),
+        coverage: z.number(),
+        critique: z.number(),
+        verification: z.number(),
+        diversity: z.number(),
+        confidenceStability: z.number(),
+      }),
+    })).optional().describe('Alternative branches with their own quality scores'),
+    selectedBranch: z.object({
+      branchId: z.string(),
+      reason: z.string(),
+      timestamp: z.number(),
+    }).optional(),
+    requiredMoreThoughts: z.number().optional(),
+    nextPrompts: z.array(z.string()).optional(),
+    shortTrace: z.array(z.string()).optional(),
+    finalApprovedAnswer: z.string().optional(),
+    archived: z.boolean().optional(),
+    sessions: z.array(z.object({
+      sessionId: z.string(),
+      goal: z.string(),
+      profile: z.string(),
+      status: z.enum(['in_progress', 'blocked', 'ready', 'completed']),
+      thoughts: z.number(),
+      requiredThoughts: z.number(),
+      overallQuality: z.number(),
+      createdAt: z.string(),
+      lastActivity: z.string(),
+      completedAt: z.string().optional(),
+      archived: z.boolean(),
+    })).optional().describe('Cycle summaries (list only)'),
+    report: z.string().optional().describe('Exported report (export only)'),
+    interopFallback: z.boolean().optional(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_cycle', { title: 'Think Cycle', description: THINK_CYCLE_DESCRIPTION, inputSchema: thinkCycleSchema, outputSchema: thinkCycleOutputSchema },
+    async (args) => {
+      try {
+        const result = await cycleService.handle({
+          action: args.action as ThinkCycleInput['action'],
+          sessionId: args.sessionId as string | undefined,
+          goal: args.goal as string | undefined,
+          context: args.context as string | undefined,
+          constraints: args.constraints as string[] | undefined,
+          thought: args.thought as string | undefined,
+          thoughtType: args.thoughtType as CycleThoughtType | undefined,
+          confidence: args.confidence as number | undefined,
+          constraintUpdates: args.constraintUpdates as CycleConstraintUpdate[] | undefined,
+          branchId: args.branchId as string | undefined,
+          parentIndex: args.parentIndex as number | undefined,
+          reason: args.reason as string | undefined,
+          finalAnswer: args.finalAnswer as string | undefined,
+          backendMode: args.backendMode as CycleBackendMode | undefined,
+          maxLoops: args.maxLoops as number | undefined,
+          showTrace: args.showTrace as boolean | undefined,
+          profile: args.profile as string | undefined,
+          statusFilter: args.statusFilter as CycleSessionStatus | undefined,
+          goalFilter: args.goalFilter as string | undefined,
+          includeArchived: args.includeArchived as boolean | undefined,
+          limit: args.limit as number | undefined,
+          format: args.format as CycleExportFormat | undefined,
+        });
 
-      const text = JSON.stringify(result, null, 2);
-      return {
-        content: [{ type: 'text' as const, text }],
-        isError: result.status === 'error',
-      };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
+        const text = JSON.stringify(result, null, 2);
+        return {
+          content: [{ type: 'text' as const, text }],
+          structuredContent: { ...result },
+          isError: result.status === 'error',
+        };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          sessionId: (args.sessionId as string | undefined) ?? '',
+          loop: { current: 0, max: 0, required: 0, remaining: 0 },
+          quality: { overall: 0, coverage: 0, critique: 0, verification: 0, diversity: 0, confidenceStability: 0 },
+          kpi: { thoughtsPerMinute: 0, qualityDelta: 0, stagnationRisk: 0 },
+          gate: { passed: false, reasonCodes: [] },
+          requiredMoreThoughts: 0,
+          nextPrompts: [],
+          shortTrace: [],
+          errorMessage: message,
+        });
+      }
     }
-  }
-);
+  );
 
-// ============================================
-// 7. THINK_LOGIC - Methodology Generator for Deep Logical Analysis
-// ============================================
+  // ============================================
+  // 7. THINK_LOGIC - Methodology Generator for Deep Logical Analysis
+  // ============================================
 
-import { LogicService } from './services/logic.service.js';
-import type { LogicDepth, LogicFocus, TechStack } from './types/thought.types.js';
-
-const logicService = new LogicService();
-
-const THINK_LOGIC_DESCRIPTION = `Generate thinking methodology for code analysis.
+  const THINK_LOGIC_DESCRIPTION = `Generate thinking methodology for code analysis.
 
 Output: 4-phase framework (not pre-computed results).
 1. CHAIN MAPPING: Trace data flow
@@ -483,52 +1044,589 @@ Depth: quick | standard | deep
 Focus: security, performance, reliability, ux, architecture, data-flow
 Stack: nestjs, prisma, ts-rest, react, redis, zod, trpc, nextjs`;
 
-const thinkLogicSchema = {
-  target: z.string().min(10).describe('What to analyze (feature, flow, component, system description)'),
-  context: z.string().optional().describe('Additional context (tech stack, constraints, requirements)'),
-  depth: z.enum(['quick', 'standard', 'deep']).optional().default('standard').describe('Methodology depth'),
-  focus: z.array(z.enum(['security', 'performance', 'reliability', 'ux', 'architecture', 'data-flow'])).optional().describe('Focus areas to prioritize'),
-  stack: z.array(z.enum(['nestjs', 'prisma', 'ts-rest', 'react', 'redis', 'zod', 'trpc', 'nextjs'])).optional().describe('Tech stacks for stack-specific checks'),
-};
-
-server.registerTool('think_logic', { title: 'Think Logic', description: THINK_LOGIC_DESCRIPTION, inputSchema: thinkLogicSchema },
-  async (args) => {
-    try {
-      const result = logicService.analyze({
-        target: args.target as string,
-        context: args.context as string | undefined,
-        depth: (args.depth as LogicDepth) ?? 'standard',
-        focus: args.focus as LogicFocus[] | undefined,
-        stack: args.stack as TechStack[] | undefined,
-      });
+  const thinkLogicSchema = {
+    target: z.string().min(10).describe('What to analyze (feature, flow, component, system description)'),
+    context: z.string().optional().describe('Additional context (tech stack, constraints, requirements)'),
+    depth: z.enum(['quick', 'standard', 'deep']).optional().default('standard').describe('Methodology depth'),
+    focus: z.array(z.enum(['security', 'performance', 'reliability', 'ux', 'architecture', 'data-flow'])).optional().describe('Focus areas to prioritize'),
+    stack: z.array(z.enum(['nestjs', 'prisma', 'ts-rest', 'react', 'redis', 'zod', 'trpc', 'nextjs'])).optional().describe('Tech stacks for stack-specific checks'),
+  };
+
+  const thinkLogicOutputSchema = {
+    status: z.enum(['success', 'error']),
+    target: z.string(),
+    depth: z.enum(['quick', 'standard', 'deep']),
+    focus: z.array(z.string()),
+    stack: z.array(z.string()).optional(),
+    methodology: z.object({
+      task: z.string(),
+      sections: z.array(z.object({
+        title: z.string(),
+        purpose: z.string(),
+        content: z.array(z.string()),
+      })),
+      stackReminders: z.array(z.string()).optional(),
+    }).optional(),
+    warnings: z.array(z.string()),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_logic', { title: 'Think Logic', description: THINK_LOGIC_DESCRIPTION, inputSchema: thinkLogicSchema, outputSchema: thinkLogicOutputSchema },
+    async (args) => {
+      try {
+        const result = logicService.analyze({
+          target: args.target as string,
+          context: args.context as string | undefined,
+          depth: (args.depth as LogicDepth) ?? 'standard',
+          focus: args.focus as LogicFocus[] | undefined,
+          stack: args.stack as TechStack[] | undefined,
+        });
 
-      if (result.status === 'error') {
-        return { content: [{ type: 'text' as const, text: `🚫 ERROR: ${result.errorMessage}` }], isError: true };
+        if (result.status === 'error') {
+          return toolError(`🚫 ERROR: ${result.errorMessage}`, { ...result });
+        }
+
+        const text = logicService.formatAsMarkdown(result);
+        return { content: [{ type: 'text' as const, text }], structuredContent: { ...result } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          target: args.target as string,
+          depth: (args.depth as LogicDepth) ?? 'standard',
+          focus: (args.focus as LogicFocus[] | undefined) ?? [],
+          warnings: [],
+          errorMessage: message,
+        });
+      }
+    }
+  );
+
+  // ============================================
+  // 8. THINK_SESSIONS - Manage persisted sessions (v5.6.0)
+  // ============================================
+
+  const THINK_SESSIONS_DESCRIPTION = `Manage persisted think sessions.
+
+Actions:
+- list: goal, thoughts, avg confidence, last activity, think_done status
+- resume: restore archived session (optionally under newSessionId)
+- rename: change sessionId to newSessionId
+- archive: park session (idle sessions are archived after 24h)
+- delete: remove session permanently
+- fork: copy sessionId up to atThought (default: all) into newSessionId, original untouched
+
+IF returning_to_old_task THEN list + resume instead of starting over.
+IF want_other_assumption_from_step_N THEN fork atThought N.`;
+
+  const thinkSessionsSchema = {
+    action: z.enum(['list', 'resume', 'rename', 'archive', 'delete', 'fork']).describe('Session action'),
+    sessionId: z.string().min(1).max(64).optional().describe('Target session (required except list)'),
+    newSessionId: z.string().min(1).max(64).regex(/^[A-Za-z0-9._:-]+$/).optional().describe('New key for rename/resume/fork'),
+    atThought: z.number().int().min(1).optional().describe('Fork: last thought to copy (default: all)'),
+    includeArchived: z.boolean().optional().describe('List archived sessions too (default: true)'),
+  };
+
+  const thinkSessionsOutputSchema = {
+    status: z.enum(['success', 'error']),
+    action: z.enum(['list', 'resume', 'rename', 'archive', 'delete', 'fork']),
+    message: z.string(),
+    sessions: z.array(sessionSummaryOutput),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_sessions', { title: 'Think Sessions', description: THINK_SESSIONS_DESCRIPTION, inputSchema: thinkSessionsSchema, outputSchema: thinkSessionsOutputSchema },
+    async (args) => {
+      try {
+        const result = await thinkingService.manageSessions({
+          action: args.action as SessionsAction,
+          sessionId: args.sessionId as string | undefined,
+          newSessionId: args.newSessionId as string | undefined,
+          includeArchived: args.includeArchived as boolean | undefined,
+          atThought: args.atThought as number | undefined,
+        });
+
+        if (result.status === 'error') {
+          return toolError(`Error: ${result.errorMessage}`, { ...result });
+        }
+
+        const lines = result.sessions.map((s) => [
+          `• ${s.sessionId}${s.archived ? ' [archived]' : ''}`,
+          `${s.thoughtCount}t`,
+          `conf:${s.averageConfidence ?? '-'}`,
+          `last:${s.lastActivity}`,
+          `done:${s.donePassed ? '✅' : '—'}`,
+          ...(s.forkedFrom ? [`fork of ${s.forkedFrom.sessionId}@#${s.forkedFrom.thoughtNumber}`] : []),
+          ...(s.project ? [`project:${s.project}`] : []),
+        ].join(' | ') + (s.goal ? `\n  🎯 ${s.goal}` : ''));
+
+        const text = [`🗂️ SESSIONS ${result.action}: ${result.message}`, ...lines].join('\n');
+        return { content: [{ type: 'text' as const, text }], structuredContent: { ...result } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          action: args.action as SessionsAction,
+          message,
+          sessions: [],
+          errorMessage: message,
+        });
+      }
+    }
+  );
+
+  // ============================================
+  // 9. THINK_EDIT - Undo, edit, soft-delete thoughts (v5.6.0)
+  // ============================================
+
+  const THINK_EDIT_DESCRIPTION = `Fix the thought history of a session.
+
+Actions:
+- undo: remove the last thought
+- edit: replace content and/or confidence of thoughtNumber
+- delete: soft-delete thoughtNumber (kept in audit trail, shown in export)
+
+Branches, sequence counter, recall index and dead ends are recomputed.
+IF thought_was_wrong_but_referenced THEN think with isRevision instead.`;
+
+  const thinkEditSchema = {
+    action: z.enum(['undo', 'edit', 'delete']).describe('Edit action'),
+    thoughtNumber: z.number().int().min(1).optional().describe('Target thought (required for edit/delete)'),
+    branchId: z.string().optional().describe('Branch of the target when numbers repeat'),
+    thought: z.string().min(1).optional().describe('New content (edit)'),
+    confidence: z.number().min(1).max(10).optional().describe('New confidence 1-10 (edit)'),
+    reason: z.string().max(200).optional().describe('Why - kept in audit trail'),
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkEditOutputSchema = {
+    status: z.enum(['success', 'error']),
+    action: z.enum(['undo', 'edit', 'delete']),
+    message: z.string(),
+    thought: thoughtSummaryOutput.optional(),
+    lastThoughtNumber: z.number(),
+    branches: z.array(z.string()),
+    thoughtHistoryLength: z.number(),
+    auditTrailLength: z.number(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_edit', { title: 'Think Edit', description: THINK_EDIT_DESCRIPTION, inputSchema: thinkEditSchema, outputSchema: thinkEditOutputSchema },
+    async (args) => {
+      try {
+        const result = await thinkingService.editThought({
+          action: args.action as EditAction,
+          thoughtNumber: args.thoughtNumber as number | undefined,
+          branchId: args.branchId as string | undefined,
+          thought: args.thought as string | undefined,
+          confidence: args.confidence as number | undefined,
+          reason: args.reason as string | undefined,
+        }, sessionKey(args.sessionId));
+
+        if (result.status === 'error') {
+          return toolError(`Error: ${result.errorMessage}`, { ...result });
+        }
+
+        const text = [
+          `✏️ EDIT ${result.action}: ${result.message}`,
+          `History: ${result.thoughtHistoryLength} thoughts | Last mainline: #${result.lastThoughtNumber} | Audit: ${result.auditTrailLength}`,
+          result.branches.length > 0 ? `Branches: ${result.branches.join(', ')}` : '',
+        ].filter(Boolean).join('\n');
+        return { content: [{ type: 'text' as const, text }], structuredContent: { ...result } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          action: args.action as EditAction,
+          message,
+          lastThoughtNumber: 0,
+          branches: [],
+          thoughtHistoryLength: 0,
+          auditTrailLength: 0,
+          errorMessage: message,
+        });
       }
+    }
+  );
+
+  // ============================================
+  // 10. THINK_BRANCH - Branch lifecycle (v5.6.0)
+  // ============================================
+
+  const THINK_BRANCH_DESCRIPTION = `Manage branches of a think session.
 
-      const text = logicService.formatAsMarkdown(result);
-      return { content: [{ type: 'text' as const, text }] };
-    } catch (error) {
-      return { content: [{ type: 'text' as const, text: `Error: ${error instanceof Error ? error.message : 'Unknown'}` }], isError: true };
+Actions:
+- compare: side-by-side confidence, length, unresolved critiques (all or branchIds)
+- close: mark branchId as abandoned (default) or winner, with rationale
+- merge: add branch conclusion as next mainline thought, close as merged
+
+Closed branches stop FORGOTTEN BRANCH advice.
+IF several_branches_open THEN compare → merge winner, close the rest.`;
+
+  const branchOutcomeOutput = z.enum(['merged', 'abandoned', 'winner']);
+
+  const thinkBranchSchema = {
+    action: z.enum(['compare', 'close', 'merge']).describe('Branch action'),
+    branchId: z.string().min(1).optional().describe('Target branch (required for close/merge)'),
+    branchIds: z.array(z.string().min(1)).optional().describe('Branches to compare (default: all)'),
+    outcome: z.enum(['abandoned', 'winner']).optional().describe('Outcome for close (default: abandoned)'),
+    rationale: z.string().min(1).max(500).optional().describe('Why (required for close/merge)'),
+    conclusion: z.string().min(1).optional().describe('Mainline thought for merge (default: built from branch)'),
+    sessionId: sessionIdSchema,
+  };
+
+  const thinkBranchOutputSchema = {
+    status: z.enum(['success', 'error']),
+    action: z.enum(['compare', 'close', 'merge']),
+    message: z.string(),
+    branches: z.array(z.object({
+      branchId: z.string(),
+      status: z.union([z.literal('open'), branchOutcomeOutput]),
+      fromThought: z.number(),
+      thoughtCount: z.number(),
+      averageConfidence: z.number().nullable(),
+      unresolvedCritiques: z.number(),
+      lastThought: z.string(),
+      rationale: z.string().optional(),
+    })),
+    mergedThought: z.number().optional(),
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_branch', { title: 'Think Branch', description: THINK_BRANCH_DESCRIPTION, inputSchema: thinkBranchSchema, outputSchema: thinkBranchOutputSchema },
+    async (args) => {
+      try {
+        const result = await thinkingService.manageBranches({
+          action: args.action as BranchAction,
+          branchId: args.branchId as string | undefined,
+          branchIds: args.branchIds as string[] | undefined,
+          outcome: args.outcome as BranchOutcome | undefined,
+          rationale: args.rationale as string | undefined,
+          conclusion: args.conclusion as string | undefined,
+        }, sessionKey(args.sessionId));
+
+        if (result.status === 'error') {
+          return toolError(`Error: ${result.errorMessage}`, { ...result });
+        }
+
+        const lines = result.branches.map((b) => [
+          `• ${b.branchId} [${b.status}]`,
+          `from #${b.fromThought}`,
+          `${b.thoughtCount}t`,
+          `conf:${b.averageConfidence ?? '-'}`,
+          `critiques:${b.unresolvedCritiques}`,
+        ].join(' | ') + `\n  ${b.lastThought.substring(0, 100)}`);
+
+        const text = [`🌿 BRANCH ${result.action}: ${result.message}`, ...lines].join('\n');
+        return { content: [{ type: 'text' as const, text }], structuredContent: { ...result } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          action: args.action as BranchAction,
+          message,
+          branches: [],
+          errorMessage: message,
+        });
+      }
     }
+  );
+
+  // ============================================
+  // 11. THINK_INSIGHTS - Manage cross-session insights (v5.6.0)
+  // ============================================
+
+  const THINK_INSIGHTS_DESCRIPTION = `Manage stored insights (lessons reused by think_recall scope:insights).
+
+Actions:
+- add: store a lesson learned (summary, optional goal, tags)
+- edit: change summary/goal of id
+- tag: replace tags of id (project, domain; [] clears)
+- delete: remove a wrong insight by id
+- pin / unpin: pinned insights are never evicted
+- feedback: id was applied (applied, helpful) or recalled but skipped (applied:false)
+- list: newest first, optional tag filter, flagged:true = needs review
+- stats: totals, top keywords and tags
+
+Scope: project selects the namespace for add/list/stats (default THINK_MCP_PROJECT); allProjects spans all for list/stats. Ids work in any namespace.
+
+Every result includes stats.
+IF lesson_learned_outside_think_done THEN add with tags.
+IF recalled_insight_applied THEN feedback with helpful.
+IF insight_wrong OR flagged THEN delete or edit.`;
+
+  const thinkInsightsSchema = {
+    action: z.enum(['add', 'edit', 'tag', 'delete', 'pin', 'unpin', 'feedback', 'list', 'stats']).describe('Insight action'),
+    id: z.string().min(1).optional().describe('Target insight (edit/tag/delete/pin/unpin/feedback)'),
+    summary: z.string().min(1).max(2000).optional().describe('Lesson text (add/edit)'),
+    goal: z.string().max(500).optional().describe('Problem it applies to (add/edit; "" clears)'),
+    tags: z.array(z.string().min(1).max(50)).max(20).optional().describe('Tags (add/tag)'),
+    tag: z.string().min(1).optional().describe('List: only insights with this tag'),
+    flagged: z.boolean().optional().describe('List: only insights flagged for review'),
+    applied: z.boolean().optional().describe('Feedback: insight was applied (default true)'),
+    helpful: z.boolean().optional().describe('Feedback: applied insight helped (required when applied)'),
+    limit: z.number().int().min(1).max(100).optional().describe('List: max insights (default 20)'),
+    project: z.string().max(200).optional().describe('Namespace for add/list/stats (default THINK_MCP_PROJECT)'),
+    allProjects: z.boolean().optional().describe('List/stats: every namespace'),
+  };
+
+  const thinkInsightsOutputSchema = {
+    status: z.enum(['success', 'error']),
+    action: z.enum(['add', 'edit', 'tag', 'delete', 'pin', 'unpin', 'feedback', 'list', 'stats']),
+    message: z.string(),
+    insight: insightRecordOutput.optional(),
+    insights: z.array(insightRecordOutput).optional(),
+    stats: insightsStatsOutput,
+    errorMessage: z.string().optional(),
+  };
+
+  server.registerTool('think_insights', { title: 'Think Insights', description: THINK_INSIGHTS_DESCRIPTION, inputSchema: thinkInsightsSchema, outputSchema: thinkInsightsOutputSchema },
+    async (args) => {
+      try {
+        const result = await thinkingService.manageInsights({
+          action: args.action as InsightsAction,
+          id: args.id as string | undefined,
+          summary: args.summary as string | undefined,
+          goal: args.goal as string | undefined,
+          tags: args.tags as string[] | undefined,
+          tag: args.tag as string | undefined,
+          flagged: args.flagged as boolean | undefined,
+          applied: args.applied as boolean | undefined,
+          helpful: args.helpful as boolean | undefined,
+          limit: args.limit as number | undefined,
+          namespace: args.project as string | undefined,
+          allNamespaces: args.allProjects as boolean | undefined,
+        });
+
+        if (result.status === 'error') {
+          return toolError(`Error: ${result.errorMessage}`, { ...result });
+        }
+
+        const { stats } = result;
+        const formatInsight = (i: WinningPathRecord): string => {
+          const flags = [i.pinned ? '📌' : '', i.source === 'manual' ? 'manual' : ''].filter(Boolean).join(' ');
+          const tags = i.tags?.length ? ` #${i.tags.join(' #')}` : '';
+          const feedback = i.feedback ? ` (${i.feedback.helpful}/${i.feedback.helpful + i.feedback.unhelpful} helpful)` : '';
+          const namespace = stats.namespace ? '' : ` [${i.namespace}]`;
+          return `• ${i.id}${namespace}${flags ? ` ${flags}` : ''}: ${i.summary.substring(0, 120)}${tags}${feedback}`;
+        };
+        const lines = [
+          `🧠 INSIGHTS ${result.action}: ${result.message}`,
+          ...(result.insight && result.action !== 'list' ? [formatInsight(result.insight)] : []),
+          ...(result.insights ?? []).map(formatInsight),
+          `📊 ${stats.namespace ?? 'all projects'}: ${stats.totalInsights} insights (${stats.pinnedInsights} pinned, ${stats.manualInsights} manual, ${stats.flaggedInsights} flagged) from ${stats.totalSessions} sessions`,
+        ];
+        if (result.action === 'stats') {
+          lines.push(
+            `Avg session length: ${stats.avgSessionLength} | Avg confidence: ${stats.avgConfidence}`,
+            `Top keywords: ${stats.topPatterns.map(p => `${p.keyword}(${p.count})`).join(', ') || '-'}`,
+            `Top tags: ${stats.topTags.map(t => `${t.tag}(${t.count})`).join(', ') || '-'}`,
+            `Projects: ${stats.namespaces.map(n => `${n.namespace}(${n.count})`).join(', ') || '-'}`
+          );
+        }
+
+        // Lists stay compact - reasoning chains come with think_recall showChain
+        const insights = result.insights?.map(i => ({ ...i, chain: undefined }));
+        return { content: [{ type: 'text' as const, text: lines.join('\n') }], structuredContent: { ...result, insights } };
+      } catch (error) {
+        const message = errorText(error);
+        return toolError(`Error: ${message}`, {
+          status: 'error',
+          action: args.action as InsightsAction,
+          message,
+          stats: {
+            totalInsights: 0,
+            totalSessions: 0,
+            topPatterns: [],
+            avgSessionLength: 0,
+            avgConfidence: 0,
+            pinnedInsights: 0,
+            manualInsights: 0,
+            flaggedInsights: 0,
+            topTags: [],
+            namespaces: [],
+          },
+          errorMessage: message,
+        });
+      }
+    }
+  );
+
+  // ============================================
+  // RESOURCES - Reasoning artifacts without a tool call (v5.6.0)
+  // ============================================
+
+  const jsonResource = (uri: URL, data: unknown) => ({
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+  });
+  const requireSession = (id: string): string => {
+    if (!thinkingService.hasSession(id)) {
+      throw new McpError(ErrorCode.InvalidParams, `Session not found: ${id}`);
+    }
+    return id;
+  };
+  const listSessionResources = (suffix: string, mimeType: string) => async () => ({
+    resources: thinkingService.getSessionKeys().map((id) => ({
+      uri: `think://session/${encodeURIComponent(id)}/${suffix}`,
+      name: `${id}/${suffix}`,
+      mimeType,
+    })),
+  });
+
+  server.registerResource('session-current', 'think://session/current', {
+    title: 'Current think session',
+    description: 'Most recently active session as JSON (thoughts, branches, dead ends)',
+    mimeType: 'application/json',
+  }, async (uri) => {
+    const sessionId = thinkingService.getCurrentSessionKey();
+    const exported = JSON.parse(thinkingService.exportSession({ format: 'json', includeMermaid: false }, sessionId));
+    return jsonResource(uri, { sessionId, ...exported });
+  });
+
+  server.registerResource('session-report',
+    new ResourceTemplate('think://session/{id}/report.md', { list: listSessionResources('report.md', 'text/markdown') }),
+    { title: 'Session report', description: 'Markdown report of a think session', mimeType: 'text/markdown' },
+    async (uri, { id }) => {
+      const sessionId = requireSession(decodeURIComponent(String(id)));
+      const text = thinkingService.exportSession({ format: 'markdown', includeMermaid: true }, sessionId);
+      return { contents: [{ uri: uri.href, mimeType: 'text/markdown', text }] };
+    }
+  );
+
+  server.registerResource('session-mermaid',
+    new ResourceTemplate('think://session/{id}/mermaid', { list: listSessionResources('mermaid', 'text/vnd.mermaid') }),
+    { title: 'Session diagram', description: 'Mermaid graph of a think session', mimeType: 'text/vnd.mermaid' },
+    async (uri, { id }) => {
+      const sessionId = requireSession(decodeURIComponent(String(id)));
+      return { contents: [{ uri: uri.href, mimeType: 'text/vnd.mermaid', text: thinkingService.getSessionMermaid(sessionId) }] };
+    }
+  );
+
+  server.registerResource('cycle-session',
+    new ResourceTemplate('think://cycle/{sessionId}', {
+      list: async () => ({
+        resources: (await cycleService.listSessionIds()).map((id) => ({
+          uri: `think://cycle/${encodeURIComponent(id)}`,
+          name: `cycle ${id}`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { title: 'Cycle session', description: 'think_cycle status snapshot (quality, gate, trace)', mimeType: 'application/json' },
+    async (uri, { sessionId }) => {
+      const result = await cycleService.handle({ action: 'status', sessionId: decodeURIComponent(String(sessionId)), showTrace: true });
+      if (result.status === 'error') {
+        throw new McpError(ErrorCode.InvalidParams, `Cycle session not found: ${String(sessionId)}`);
+      }
+      return jsonResource(uri, result);
+    }
+  );
+
+  server.registerResource('insights', 'think://insights', {
+    title: 'Stored insights',
+    description: 'Cross-session insights (winning paths) with stats, newest first',
+    mimeType: 'application/json',
+  }, async (uri) => {
+    const [stats, insights] = await Promise.all([thinkingService.getInsightsStats(), thinkingService.listInsights()]);
+    return jsonResource(uri, { stats, insights });
+  });
+
+  // resources/subscribe: notify subscribers of session resources whenever saveSession commits
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  const unsubscribeSaves = thinkingService.onSessionSaved(() => {
+    for (const uri of subscriptions) {
+      if (!uri.startsWith('think://session/')) continue;
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client disconnected - nothing to notify
+      });
+    }
+  });
+  server.server.onclose = unsubscribeSaves;
+
+  // ============================================
+  // PROMPTS - Guided reasoning workflows (v5.6.0)
+  // ============================================
+
+  for (const prompt of REASONING_PROMPTS) {
+    server.registerPrompt(prompt.name, {
+      title: prompt.title,
+      description: prompt.description,
+      argsSchema: {
+        subject: z.string().min(10).describe(prompt.subjectDescription),
+        context: z.string().optional().describe(`Additional context (cut to ${PROMPT_CONTEXT_MAX_LENGTH} chars)`),
+        constraints: z.string().optional().describe('Constraints, one per line or separated by ";"'),
+      },
+    }, (args) => ({
+      messages: [{
+        role: 'user' as const,
+        content: { type: 'text' as const, text: promptService.build(prompt.name, args) },
+      }],
+    }));
   }
-);
+
+  return server;
+}
 
 // ============================================
 // Server startup
 // ============================================
 
 async function main() {
+  const options = parseCliArgs(process.argv.slice(2));
+  // v5.6.0: One backend instance per process - JSON snapshots or JSONL event log
+  const storage = createStorageBackend(options.storage);
+
+  const thinkingService = new ThinkingService({ storage, similarity: options.similarity, project: options.project });
+  const cycleService = new CycleService(thinkingService, { storage });
   await thinkingService.loadSession();
   await thinkingService.loadInsights();
   await cycleService.initialize();
+  // v5.6.0: Pick up sessions written by other servers sharing the data dir
+  thinkingService.watchExternalChanges();
+
+  if (options.transport === 'http') {
+    // v5.6.0: One McpServer per HTTP client over the same persisted stores as stdio;
+    // calls without a sessionId use a session keyed by the client's mcp-session-id
+    await startHttpTransport({
+      port: options.port,
+      host: options.host,
+      createSessionServer: (clientId) => createThinkServer({ thinkingService, cycleService, defaultSessionKey: clientId }),
+    });
+    console.error(`Think Module MCP Server v5.5.1 running on http://${options.host}:${options.port}${HTTP_MCP_PATH}`);
+    return;
+  }
 
+  const server = createThinkServer({ thinkingService, cycleService });
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Think Module MCP Server v5.5.1 running on stdio');
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+/**
+ * True when this module was started as the server (node, bin link, tsx) rather than imported
+ */
+function isEntryPoint(): boolean {
+  const entry = process.argv[1];
+  if (!entry) return false;
+  try {
+    return realpathSync(entry) === realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
+  }
+}
+
+if (isEntryPoint()) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
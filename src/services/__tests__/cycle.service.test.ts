@@ -18,6 +18,26 @@ async function createService(backend?: BackendMock) {
   return service;
 }
 
+const REFACTOR_STEPS = [
+  ['decompose', 'Decompose the refactor into renaming the helper, updating call sites, and removing the dead adapter module.'],
+  ['alternative', 'Alternative option keeps the adapter as a thin shim for one release and compares churn against a single cut.'],
+  ['critique', 'Critique the single cut: external plugins may import the adapter, so a hard removal risks breaking them silently.'],
+  ['synthesis', 'Synthesize decision: rename now, keep the shim with a deprecation warning, and remove it in the next minor.'],
+] as const;
+
+async function runSteps(service: Awaited<ReturnType<typeof createService>>, sessionId: string, count: number) {
+  for (let i = 0; i < count; i++) {
+    const [thoughtType, thought] = REFACTOR_STEPS[i % REFACTOR_STEPS.length];
+    await service.handle({
+      action: 'step',
+      sessionId,
+      thoughtType,
+      thought: `${thought} Pass ${i + 1} adds a separate call-site group ${i * 7 + 3} to the inventory.`,
+      confidence: 7,
+    });
+  }
+}
+
 describe.sequential('CycleService', () => {
   let tempDir = '';
 
@@ -310,4 +330,395 @@ describe.sequential('CycleService', () => {
     expect(afterReset.status).toBe('error');
     expect(afterReset.gate.reasonCodes).toContain('SESSION_NOT_FOUND');
   });
+
+  it('tracks constraints as a checklist that blocks finalize until settled', async () => {
+    const service = await createService();
+    const started = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      profile: 'exploratory',
+      goal: 'Refactor the config helper and drop the legacy adapter module',
+      constraints: ['keep the public API stable', 'no new runtime dependencies'],
+    });
+    expect(started.constraints).toEqual([
+      { index: 1, text: 'keep the public API stable', status: 'open' },
+      { index: 2, text: 'no new runtime dependencies', status: 'open' },
+    ]);
+    await runSteps(service, started.sessionId, started.loop.required);
+    const finalAnswer = 'Rename the helper now and keep a deprecated shim for one release, so the public API stays stable with no new runtime dependencies.';
+
+    const open = await service.handle({ action: 'finalize', sessionId: started.sessionId, finalAnswer });
+    expect(open.gate.reasonCodes).toEqual(['UNADDRESSED_CONSTRAINT']);
+    expect(open.nextPrompts.some((prompt) => prompt.includes('#1 "keep the public API stable"'))).toBe(true);
+    expect(open.nextPrompts.some((prompt) => prompt.includes('#2 "no new runtime dependencies"'))).toBe(true);
+
+    const invalid = await service.handle({
+      action: 'step',
+      sessionId: started.sessionId,
+      thought: 'Synthesis of the dependency review for the shim and the renamed helper module.',
+      constraintUpdates: [{ constraint: 3, status: 'satisfied' }],
+    });
+    expect(invalid.gate.reasonCodes).toEqual(['INVALID_INPUT']);
+
+    await service.handle({
+      action: 'step',
+      sessionId: started.sessionId,
+      thoughtType: 'synthesis',
+      thought: 'Synthesis: the shim re-exports the old names, so the public API stays intact; the shim needs a small polyfill package.',
+      constraintUpdates: [
+        { constraint: 1, status: 'satisfied', note: 'shim re-exports old names' },
+        { constraint: 2, status: 'violated', note: 'polyfill package' },
+      ],
+    });
+    const violated = await service.handle({ action: 'finalize', sessionId: started.sessionId, finalAnswer });
+    expect(violated.gate.reasonCodes).toEqual(['CONSTRAINT_VIOLATED']);
+    expect(violated.nextPrompts[1]).toContain('#2 "no new runtime dependencies" is violated');
+
+    const fixed = await service.handle({
+      action: 'step',
+      sessionId: started.sessionId,
+      thoughtType: 'synthesis',
+      thought: 'Synthesis revisited: inline the tiny polyfill as a private helper instead of adding the package dependency.',
+      constraintUpdates: [{ constraint: 2, status: 'satisfied', note: 'polyfill inlined' }],
+    });
+    expect(fixed.constraints![1]).toMatchObject({ status: 'satisfied', note: 'polyfill inlined', stepIndex: fixed.loop.current });
+
+    // The checklist is rebuilt from journaled steps
+    const reader = await createService();
+    const completed = await reader.handle({ action: 'finalize', sessionId: started.sessionId, finalAnswer });
+    expect(completed.status).toBe('completed');
+    expect(completed.constraints!.map((item) => item.status)).toEqual(['satisfied', 'satisfied']);
+  });
+
+  it('cross-checks the final answer against constraints and the trace', async () => {
+    const service = await createService();
+    const started = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      profile: 'exploratory',
+      goal: 'Refactor the config helper and drop the legacy adapter module',
+      constraints: ['keep the public API stable'],
+    });
+    await runSteps(service, started.sessionId, started.loop.required - 1);
+    await service.handle({
+      action: 'step',
+      sessionId: started.sessionId,
+      thoughtType: 'synthesis',
+      thought: 'Synthesis: the shim re-exports every old name, so the public API stays stable for plugin authors.',
+      constraintUpdates: [{ constraint: 1, status: 'satisfied' }],
+    });
+
+    const missing = await service.handle({
+      action: 'finalize',
+      sessionId: started.sessionId,
+      finalAnswer: 'Rename the helper now and keep a deprecated shim for one release before removal.',
+    });
+    expect(missing.status).toBe('blocked');
+    expect(missing.gate.reasonCodes).toEqual(['ANSWER_MISSES_CONSTRAINT']);
+    expect(missing.answerCheck).toMatchObject({ passed: false, missingConstraints: [1], contradictions: [] });
+    // The reasoning passed - only the answer needs rework
+    expect(missing.requiredMoreThoughts).toBe(0);
+    expect(missing.nextPrompts[0]).toContain('#1 "keep the public API stable"');
+
+    const contradicting = await service.handle({
+      action: 'finalize',
+      sessionId: started.sessionId,
+      finalAnswer: 'Do not keep the shim with a deprecation warning; remove it now. The public API stays stable.',
+    });
+    expect(contradicting.gate.reasonCodes).toEqual(['ANSWER_CONTRADICTS_TRACE']);
+    expect(contradicting.answerCheck!.contradictions[0].excerpt).toContain('keep the shim');
+
+    const drifting = await service.handle({
+      action: 'finalize',
+      sessionId: started.sessionId,
+      finalAnswer: 'Keep the public API stable, then move every service onto a GraphQL gateway with Kafka event sourcing and Kubernetes autoscaling.',
+    });
+    expect(drifting.gate.reasonCodes).toEqual(['ANSWER_DRIFT']);
+    expect(drifting.answerCheck!.novelTerms).toEqual(expect.arrayContaining(['graphql', 'kafka']));
+
+    const approved = await service.handle({
+      action: 'finalize',
+      sessionId: started.sessionId,
+      finalAnswer: 'Rename the helper now and keep a deprecated shim for one release, so the public API stays stable.',
+    });
+    expect(approved.status).toBe('completed');
+    expect(approved.answerCheck!.passed).toBe(true);
+    expect(approved.answerCheck!.support).toBeGreaterThan(0.5);
+  });
+
+  it('explores alternatives as branches and records the selected one', async () => {
+    const service = await createService();
+    const started = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      goal: 'Design secure payment migration with rollback and concurrency safety while preserving auditability and uptime',
+      constraints: ['zero data loss', 'no downtime', 'strict security checks'],
+      context: 'System is distributed and performance sensitive under high traffic.',
+    });
+    const step = (thought: string, extra: Record<string, unknown> = {}) =>
+      service.handle({ action: 'step', sessionId: started.sessionId, thought, ...extra });
+
+    await step('Decompose the migration into ledger copy, dual-read window, cutover, and rollback checkpoints.');
+    await step('Option A streams ledger rows through change data capture into the new payment store.', { branchId: 'cdc' });
+    await step('Critique of change data capture: replication lag can reorder refunds during cutover.', { branchId: 'cdc', thoughtType: 'critique' });
+
+    const oneBranch = await service.handle({ action: 'status', sessionId: started.sessionId, showTrace: true });
+    expect(oneBranch.gate.reasonCodes).toContain('INSUFFICIENT_ALTERNATIVES');
+    expect(oneBranch.gate.reasonCodes).not.toContain('BRANCH_NOT_SELECTED');
+    expect(oneBranch.shortTrace.some((line) => line.includes('[critique@cdc'))).toBe(true);
+
+    await step('Option B copies ledger snapshots in batches and replays the tail under a short write freeze.', { branchId: 'batch', parentIndex: 1 });
+    const twoBranches = await step('Verify batch replay: checksum every batch and compare balances before releasing the freeze.', {
+      branchId: 'batch',
+      thoughtType: 'verification',
+    });
+    expect(twoBranches.gate.reasonCodes).not.toContain('INSUFFICIENT_ALTERNATIVES');
+    expect(twoBranches.gate.reasonCodes).toContain('BRANCH_NOT_SELECTED');
+    expect(twoBranches.branches!.map(({ branchId, parentIndex, thoughts, evaluated, status }) => ({ branchId, parentIndex, thoughts, evaluated, status })))
+      .toEqual([
+        { branchId: 'cdc', parentIndex: 1, thoughts: 2, evaluated: true, status: 'open' },
+        { branchId: 'batch', parentIndex: 1, thoughts: 2, evaluated: true, status: 'open' },
+      ]);
+    expect(twoBranches.branches![1].quality.verification).toBe(1);
+    expect(twoBranches.nextPrompts.some((prompt) => prompt.includes('select_branch'))).toBe(true);
+
+    const unknown = await service.handle({
+      action: 'select_branch', sessionId: started.sessionId, branchId: 'nope', reason: 'Because it is the safest option available',
+    });
+    expect(unknown.errorMessage).toContain('Available: cdc, batch');
+    const noReason = await service.handle({ action: 'select_branch', sessionId: started.sessionId, branchId: 'batch', reason: 'safer' });
+    expect(noReason.gate.reasonCodes).toEqual(['INVALID_INPUT']);
+
+    const selected = await service.handle({
+      action: 'select_branch',
+      sessionId: started.sessionId,
+      branchId: 'batch',
+      reason: 'Checksummed batches give a verifiable zero data loss story; CDC lag risks reordered refunds.',
+    });
+    expect(selected.gate.reasonCodes).not.toContain('BRANCH_NOT_SELECTED');
+    expect(selected.branches!.map((branch) => branch.status)).toEqual(['rejected', 'selected']);
+
+    const reader = await createService();
+    const status = await reader.handle({ action: 'status', sessionId: started.sessionId });
+    expect(status.selectedBranch).toMatchObject({ branchId: 'batch' });
+    expect(status.branches!.map((branch) => branch.status)).toEqual(['rejected', 'selected']);
+  });
+
+  it('lists, exports and archives cycles so completed ones survive TTL cleanup', async () => {
+    const staleAt = Date.now() - 48 * 60 * 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(staleAt);
+    const service = await createService();
+    const done = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      profile: 'exploratory',
+      goal: 'Refactor the config helper and drop the legacy adapter module',
+    });
+    const open = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      goal: 'Plan the cache invalidation rollout for the search service',
+    });
+    await runSteps(service, done.sessionId, done.loop.required);
+    const finalAnswer = 'Rename the helper now and keep a deprecated shim for one release before removal.';
+    expect((await service.handle({ action: 'finalize', sessionId: done.sessionId, finalAnswer })).status).toBe('completed');
+
+    const completed = await service.handle({ action: 'list', statusFilter: 'completed' });
+    expect(completed.status).toBe('info');
+    expect(completed).not.toHaveProperty('gate');
+    expect(completed.sessions.map((s) => s.sessionId)).toEqual([done.sessionId]);
+    expect(completed.sessions[0]).toMatchObject({ profile: 'exploratory', archived: false, thoughts: done.loop.required });
+    const byGoal = await service.handle({ action: 'list', goalFilter: 'CACHE' });
+    expect(byGoal.sessions.map((s) => s.sessionId)).toEqual([open.sessionId]);
+
+    const markdown = await service.handle({ action: 'export', sessionId: done.sessionId });
+    expect(markdown.report).toContain('Phase Timeline');
+    expect(markdown.report).toContain('Quality History');
+    expect(markdown.report).toContain(finalAnswer);
+    const json = JSON.parse((await service.handle({ action: 'export', sessionId: done.sessionId, format: 'json' })).report!);
+    expect(json.qualityHistory).toHaveLength(done.loop.required);
+    expect(json.phaseTimeline).toMatchObject({ decompose: 1, alternative: 2, critique: 3, synthesis: 4 });
+    const mermaid = await service.handle({ action: 'export', sessionId: done.sessionId, format: 'mermaid' });
+    expect(mermaid.report).toMatch(/^graph TD;/);
+
+    const notDone = await service.handle({ action: 'archive', sessionId: open.sessionId });
+    expect(notDone.gate.reasonCodes).toEqual(['INVALID_INPUT']);
+    const archived = await service.handle({ action: 'archive', sessionId: done.sessionId });
+    expect(archived).toMatchObject({ status: 'completed', archived: true, finalApprovedAnswer: finalAnswer });
+    const readOnly = await service.handle({
+      action: 'step', sessionId: done.sessionId, thought: 'One more thought that would reopen the archived cycle.',
+    });
+    expect(readOnly.errorMessage).toContain('read-only');
+    vi.mocked(Date.now).mockRestore();
+
+    // A day later the idle cycle is gone, the archived one stays
+    const reader = await createService();
+    expect((await reader.handle({ action: 'status', sessionId: open.sessionId })).status).toBe('error');
+    const kept = await reader.handle({ action: 'list', includeArchived: true });
+    expect(kept.sessions.map((s) => s.sessionId)).toEqual([done.sessionId]);
+    expect((await reader.handle({ action: 'list', includeArchived: false })).sessions).toEqual([]);
+  });
+
+  it('reopens a completed cycle when reasoning continues', async () => {
+    const service = await createService();
+    const started = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      profile: 'exploratory',
+      goal: 'Refactor the config helper and drop the legacy adapter module',
+    });
+    await runSteps(service, started.sessionId, started.loop.required);
+    const finalAnswer = 'Rename the helper now and keep a deprecated shim for one release before removal.';
+    await service.handle({ action: 'finalize', sessionId: started.sessionId, finalAnswer });
+    expect((await service.handle({ action: 'status', sessionId: started.sessionId })).finalApprovedAnswer).toBe(finalAnswer);
+
+    const reopened = await service.handle({
+      action: 'step',
+      sessionId: started.sessionId,
+      thoughtType: 'verification',
+      thought: 'Verify the shim: run the plugin test suite against the renamed helper before tagging the release.',
+    });
+    expect(reopened.status).toBe('ready');
+    expect(reopened.finalApprovedAnswer).toBeUndefined();
+
+    const reader = await createService();
+    expect((await reader.handle({ action: 'status', sessionId: started.sessionId })).status).toBe('ready');
+    expect((await reader.handle({ action: 'archive', sessionId: started.sessionId })).gate.reasonCodes).toEqual(['INVALID_INPUT']);
+  });
+
+  it('replays journaled start and step events with the jsonl backend', async () => {
+    process.env.THINK_MCP_STORAGE = 'jsonl';
+    try {
+      const writer = await createService();
+      const started = await writer.handle({
+        action: 'start',
+        backendMode: 'independent',
+        goal: 'Replay cycle sessions from the event log',
+      });
+      await writer.handle({
+        action: 'step',
+        sessionId: started.sessionId,
+        thought: 'Decompose the replay into snapshot load and journal application.',
+      });
+
+      await expect(fs.access(join(tempDir, 'cycle_sessions.json'))).rejects.toThrow();
+      const journal = await fs.readFile(join(tempDir, 'cycle_sessions.events.jsonl'), 'utf8');
+      expect(journal.trim().split('\n')).toHaveLength(2);
+
+      const reader = await createService();
+      const status = await reader.handle({ action: 'status', sessionId: started.sessionId });
+      expect(status.status).not.toBe('error');
+      expect(status.loop.current).toBe(1);
+    } finally {
+      delete process.env.THINK_MCP_STORAGE;
+    }
+  });
+
+  it('keeps cycle sessions started by another process sharing the data dir', async () => {
+    const first = await createService();
+    const second = await createService();
+
+    const fromFirst = await first.handle({
+      action: 'start',
+      backendMode: 'independent',
+      goal: 'Cycle session owned by the first server process',
+    });
+    const fromSecond = await second.handle({
+      action: 'start',
+      backendMode: 'independent',
+      goal: 'Cycle session owned by the second server process',
+    });
+
+    // Each server sees the other's session without a restart
+    const seenByFirst = await first.handle({ action: 'status', sessionId: fromSecond.sessionId });
+    expect(seenByFirst.status).not.toBe('error');
+
+    const reader = await createService();
+    expect(await reader.listSessionIds()).toEqual(expect.arrayContaining([fromFirst.sessionId, fromSecond.sessionId]));
+  });
+});
+
+describe.sequential('CycleService gate profiles', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-cycle-profile-test-'));
+    process.env[ENV_KEY] = tempDir;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    delete process.env[ENV_KEY];
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = '';
+    }
+  });
+
+  it('applies the profile chosen at start and rejects unknown profiles', async () => {
+    const service = await createService();
+    const goal = 'Refactor the config helper and drop the legacy adapter module';
+
+    const standard = await service.handle({ action: 'start', backendMode: 'independent', goal });
+    const exploratory = await service.handle({ action: 'start', backendMode: 'independent', goal, profile: 'Exploratory' });
+    expect(standard.profile).toBe('standard');
+    expect(exploratory.profile).toBe('exploratory');
+
+    await runSteps(service, standard.sessionId, standard.loop.required);
+    await runSteps(service, exploratory.sessionId, exploratory.loop.required);
+    const finalAnswer = 'Rename the helper now and keep a deprecated shim for one release before removal.';
+
+    // Same thoughts: exploratory skips the verification phase, standard does not
+    const blocked = await service.handle({ action: 'finalize', sessionId: standard.sessionId, finalAnswer });
+    expect(blocked.status).toBe('blocked');
+    expect(blocked.gate.reasonCodes).toContain('MISSING_PHASE_VERIFICATION');
+
+    const completed = await service.handle({ action: 'finalize', sessionId: exploratory.sessionId, finalAnswer });
+    expect(completed.gate.reasonCodes).toEqual([]);
+    expect(completed.status).toBe('completed');
+
+    const unknown = await service.handle({ action: 'start', backendMode: 'independent', goal, profile: 'yolo' });
+    expect(unknown.status).toBe('error');
+    expect(unknown.gate.reasonCodes).toEqual(['INVALID_INPUT']);
+    expect(unknown.errorMessage).toContain('security-review');
+  });
+
+  it('loads custom profiles from cycle_profiles.json and keeps them with the session', async () => {
+    await fs.writeFile(join(tempDir, 'cycle_profiles.json'), JSON.stringify({
+      profiles: {
+        payments: { extends: 'exploratory', thresholds: { overall: 0.99 } },
+        broken: { thresholds: { overall: 2 } },
+      },
+    }), 'utf8');
+
+    const service = await createService();
+    const profiles = await service.listGateProfiles();
+    expect(profiles.map((profile) => profile.name)).toEqual(
+      ['standard', 'strict', 'exploratory', 'security-review', 'payments']
+    );
+    const payments = profiles.find((profile) => profile.name === 'payments')!;
+    expect(payments.thresholds).toMatchObject({ overall: 0.99, verification: 0 });
+    expect(payments.requiredPhases).toEqual(['decompose', 'alternative', 'synthesis']);
+
+    const started = await service.handle({
+      action: 'start',
+      backendMode: 'independent',
+      goal: 'Refactor the payment webhook handler without changing ledger writes',
+      profile: 'payments',
+    });
+    await runSteps(service, started.sessionId, started.loop.required);
+
+    // Config edits after start don't move the gate of a running session
+    await fs.rm(join(tempDir, 'cycle_profiles.json'));
+    const reader = await createService();
+    const finalized = await reader.handle({
+      action: 'finalize',
+      sessionId: started.sessionId,
+      finalAnswer: 'Refactor the handler behind the existing interface and keep ledger writes untouched.',
+    });
+    expect(finalized.profile).toBe('payments');
+    expect(finalized.gate.reasonCodes).toEqual(['LOW_OVERALL_QUALITY']);
+    expect(finalized.nextPrompts.some((prompt) => prompt.includes('0.99'))).toBe(true);
+  });
 });
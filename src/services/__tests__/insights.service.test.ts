@@ -105,4 +105,124 @@ describe.sequential('InsightsService', () => {
     const search = await service.search('fresh', 3);
     expect(search.totalInsights).toBe(1);
   });
+
+  it('keeps insights saved by another process sharing the data dir', async () => {
+    const InsightsService = await loadInsightsService();
+    const first = new InsightsService();
+    const second = new InsightsService();
+    await first.load();
+    await second.load();
+
+    await first.saveWinningPath({ path: [1, 2], summary: 'first process caching insight', sessionLength: 2 });
+    await second.saveWinningPath({ path: [1, 3], summary: 'second process retry insight', sessionLength: 2 });
+
+    const stored = JSON.parse(await fs.readFile(join(tempDir, 'insights.json'), 'utf8')) as {
+      winningPaths: Array<{ summary: string }>;
+    };
+    expect(stored.winningPaths.map(record => record.summary)).toEqual([
+      'first process caching insight',
+      'second process retry insight',
+    ]);
+    expect((await first.list()).map(record => record.summary)).toContain('second process retry insight');
+  });
+
+  it('adds, tags, pins, edits and deletes insights by hand', async () => {
+    const InsightsService = await loadInsightsService();
+    const service = new InsightsService();
+    const other = new InsightsService();
+    await other.load();
+
+    const added = await service.manage({ action: 'add', summary: 'Invalidate cart totals on price change events', tags: ['Billing', 'billing '] });
+    expect(added.insight).toMatchObject({ source: 'manual', path: [], tags: ['billing'] });
+    const id = added.insight!.id;
+
+    expect((await service.manage({ action: 'pin', id })).stats).toMatchObject({ pinnedInsights: 1, manualInsights: 1, totalSessions: 0 });
+    for (let i = 0; i < 100; i++) {
+      await service.saveWinningPath({ path: [1, 2], summary: `token${i} solution summary`, sessionLength: 2 });
+    }
+    const listed = await service.manage({ action: 'list', tag: 'billing' });
+    expect(listed.insights?.map(i => i.id)).toEqual([id]);
+    expect(listed.stats.totalInsights).toBe(100);
+
+    const edited = await service.manage({ action: 'edit', id, summary: 'Invalidate cart totals on price change events, not on a timer' });
+    expect(edited.insight?.keywords).toContain('timer');
+    await service.manage({ action: 'tag', id, tags: ['caching'] });
+    expect((await other.list()).find(i => i.id === id)).toMatchObject({ tags: ['caching'], pinned: true, summary: expect.stringContaining('timer') });
+    expect((await other.search('caching', 3)).matches[0]?.insight.id).toBe(id);
+
+    expect((await service.manage({ action: 'delete', id: 'ins_missing' })).errorMessage).toContain('Insight not found');
+    expect((await service.manage({ action: 'add' })).status).toBe('error');
+    await other.manage({ action: 'delete', id });
+    const stats = await service.manage({ action: 'stats' });
+    expect(stats.stats).toMatchObject({ totalInsights: 99, pinnedInsights: 0 });
+    expect(stats.stats.topPatterns.some(p => p.keyword === 'timer')).toBe(false);
+  });
+
+  it('ranks insights by feedback utility and flags consistently unhelpful ones', async () => {
+    const InsightsService = await loadInsightsService();
+    const service = new InsightsService();
+    const other = new InsightsService();
+    await other.load();
+
+    const misleading = (await service.manage({ action: 'add', summary: 'Retry flaky payment webhook with backoff', tags: ['webhook'] })).insight!.id;
+    const useful = (await service.manage({ action: 'add', summary: 'Retry flaky payment webhook idempotently', tags: ['webhook'] })).insight!.id;
+
+    expect((await service.manage({ action: 'feedback', id: useful })).errorMessage).toContain('helpful is required');
+    for (let i = 0; i < 3; i++) {
+      await service.manage({ action: 'feedback', id: misleading, helpful: false });
+    }
+    await service.manage({ action: 'feedback', id: useful, helpful: true });
+    await service.manage({ action: 'feedback', id: useful, applied: false });
+
+    const result = await other.search('webhook', 5);
+    expect(result.matches.map(m => m.insight.id)).toEqual([useful, misleading]);
+    const [top, flagged] = result.matches;
+    expect(top).toMatchObject({ needsReview: false, insight: { feedback: { applied: 1, skipped: 1, helpful: 1, unhelpful: 0 } } });
+    expect(flagged.needsReview).toBe(true);
+    expect(flagged.utility).toBeLessThan(top.utility);
+
+    const review = await other.manage({ action: 'list', flagged: true });
+    expect(review.insights?.map(i => i.id)).toEqual([misleading]);
+    expect(review.stats.flaggedInsights).toBe(1);
+  });
+
+  it('scopes search, stats and FIFO eviction to project namespaces', async () => {
+    await fs.writeFile(join(tempDir, 'insights.json'), JSON.stringify({
+      schemaVersion: 2,
+      winningPaths: [{ path: [1], summary: 'Legacy cache invalidation lesson', keywords: ['legacy', 'cache'], timestamp: '2025-01-01T00:00:00.000Z', sessionLength: 1 }],
+      patterns: {},
+      totalSessions: 7,
+      lastUpdated: new Date().toISOString(),
+    }), 'utf8');
+    const InsightsService = await loadInsightsService();
+    const acme = new InsightsService({ namespace: '/work/Acme-API' });
+    const globex = new InsightsService({ namespace: 'globex' });
+
+    await acme.saveWinningPath({ path: [1, 2], summary: 'Acme cache warmup before deploys', sessionLength: 2 });
+    await globex.saveWinningPath({ path: [1, 2], summary: 'Globex cache sharding by tenant', sessionLength: 2 });
+    for (let i = 0; i < 100; i++) {
+      await globex.saveWinningPath({ path: [1], summary: `globex filler${i} note`, sessionLength: 1 });
+    }
+
+    expect(acme.namespace).toBe('acme-api');
+    expect((await acme.search('cache', 5)).matches.map(m => m.insight.summary)).toEqual(['Acme cache warmup before deploys']);
+    expect((await acme.search('cache', 5, { namespace: 'default' })).matches.map(m => m.insight.summary))
+      .toEqual(['Legacy cache invalidation lesson']);
+    const everywhere = await acme.search('cache', 5, { allNamespaces: true });
+    expect(everywhere.namespace).toBeUndefined();
+    expect(new Set(everywhere.matches.map(m => m.insight.namespace))).toEqual(new Set(['acme-api', 'default']));
+
+    const acmeStats = await acme.getStats();
+    expect(acmeStats).toMatchObject({ namespace: 'acme-api', totalInsights: 1, totalSessions: 1 });
+    expect(acmeStats.topPatterns.map(p => p.keyword)).not.toContain('globex');
+    expect(await acme.getStats({ namespace: 'default' })).toMatchObject({ totalInsights: 1, totalSessions: 7 });
+    const globexStats = await globex.getStats();
+    expect(globexStats).toMatchObject({ totalInsights: 100, totalSessions: 101 });
+    expect((await globex.list()).some(i => i.summary === 'Globex cache sharding by tenant')).toBe(false);
+    expect((await globex.getStats({ allNamespaces: true })).namespaces).toEqual([
+      { namespace: 'globex', count: 100 },
+      { namespace: 'default', count: 1 },
+      { namespace: 'acme-api', count: 1 },
+    ]);
+  });
 });
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { PromptService, REASONING_PROMPTS } from '../prompt.service.js';
+
+describe('PromptService', () => {
+  const service = new PromptService();
+
+  it('defines the four reasoning workflows', () => {
+    expect(REASONING_PROMPTS.map((p) => p.name)).toEqual([
+      'deep-analysis',
+      'debug-incident',
+      'design-review',
+      'gate-first-answer',
+    ]);
+  });
+
+  it('drives think_cycle start/step/finalize with parsed constraints', () => {
+    const text = service.build('deep-analysis', {
+      subject: 'Choose a sharding strategy for the events table',
+      constraints: 'no downtime; keep p99 < 50ms',
+    });
+
+    expect(text).toContain('think_cycle {"action":"start","goal":"Choose a sharding strategy for the events table","constraints":["no downtime","keep p99 < 50ms"]}');
+    expect(text).toContain('"action":"step"');
+    expect(text).toContain('"constraintUpdates":[{"constraint":1,"status":"satisfied","note":"<how this step satisfies it>"}]');
+    expect(text).toContain('THEN send constraintUpdates');
+    expect(text).toContain('"action":"finalize"');
+  });
+
+  it('leaves constraintUpdates out of the step when there are no constraints', () => {
+    const text = service.build('gate-first-answer', { subject: 'Is it safe to drop the legacy index?' });
+    expect(text).toContain('"action":"step"');
+    expect(text).not.toContain('constraintUpdates');
+  });
+
+  it('starts debug and design workflows with a think_logic methodology', () => {
+    const debug = service.build('debug-incident', { subject: 'Checkout returns 502 under load', context: 'Started after deploy' });
+    expect(debug).toContain('think_logic {"target":"Checkout returns 502 under load","context":"Started after deploy","depth":"deep"');
+    expect(debug).toContain('Root cause of incident: Checkout returns 502 under load');
+
+    const review = service.build('design-review', { subject: 'Event sourcing for billing', constraints: 'GDPR erasure' });
+    expect(review).toContain('"context":"Constraints: GDPR erasure"');
+    expect(review).not.toContain('think_cycle');
+  });
+
+  it('keeps context within the think_cycle and think_logic limit', () => {
+    const context = 'x'.repeat(5000);
+    const extractContext = (text: string, tool: string) => {
+      const line = text.split('\n').find((l) => l.trim().startsWith(tool))!;
+      return JSON.parse(line.trim().substring(tool.length + 1)).context as string;
+    };
+
+    const analysis = service.build('deep-analysis', { subject: 'Choose a sharding strategy for the events table', context });
+    expect(extractContext(analysis, 'think_cycle')).toHaveLength(3000);
+
+    const review = service.build('design-review', { subject: 'Event sourcing for billing', context, constraints: 'GDPR erasure' });
+    const reviewContext = extractContext(review, 'think_logic');
+    expect(reviewContext).toHaveLength(3000);
+    expect(reviewContext.endsWith('\nConstraints: GDPR erasure')).toBe(true);
+  });
+
+  it('forbids answering before the gate passes', () => {
+    const text = service.build('gate-first-answer', { subject: 'Is it safe to drop the legacy index?' });
+    expect(text).toContain('Do NOT answer the user until think_cycle finalize returns status "completed"');
+  });
+});
@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import Database from 'better-sqlite3';
+
+const ENV_KEY = 'THINK_MCP_DATA_DIR';
+
+async function loadModules() {
+  vi.resetModules();
+  const sqlite = await import('../sqlite-storage.service.js');
+  const { ThinkingService } = await import('../thinking.service.js');
+  const { InsightsService } = await import('../insights.service.js');
+  return { ...sqlite, ThinkingService, InsightsService };
+}
+
+describe.sequential('SqliteStorageBackend', () => {
+  let tempDir = '';
+  let dbFile = '';
+  const opened: Array<{ close(): Promise<void> }> = [];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-sqlite-test-'));
+    dbFile = join(tempDir, 'think-mcp.db');
+    process.env[ENV_KEY] = tempDir;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    for (const backend of opened.splice(0)) {
+      await backend.close();
+    }
+    delete process.env[ENV_KEY];
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = '';
+    }
+  });
+
+  function query<T>(sql: string): T[] {
+    const db = new Database(dbFile, { readonly: true });
+    try {
+      return db.prepare(sql).all() as T[];
+    } finally {
+      db.close();
+    }
+  }
+
+  it('applies schema migrations once', async () => {
+    const { SqliteStorageBackend, SQLITE_MIGRATIONS, runSqliteMigrations } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    await backend.load(join(tempDir, 'insights.json'), { build: () => ({}), writeFile: async () => {}, readFile: async () => null });
+
+    const tables = query<{ name: string }>("SELECT name FROM sqlite_master WHERE type IN ('table', 'view')").map(row => row.name);
+    expect(tables).toEqual(expect.arrayContaining([
+      'schema_migrations', 'snapshots', 'journal', 'thoughts', 'branches',
+      'extensions', 'dead_ends', 'cycle_sessions', 'cycle_steps', 'winning_paths', 'revisions',
+    ]));
+
+    const db = new Database(dbFile);
+    try {
+      expect(runSqliteMigrations(db)).toBe(SQLITE_MIGRATIONS.length);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM schema_migrations').get()).toEqual({ count: SQLITE_MIGRATIONS.length });
+    } finally {
+      db.close();
+    }
+  });
+
+  it('restores sessions from the database and keeps history queryable', async () => {
+    const { SqliteStorageBackend, ThinkingService } = await loadModules();
+    const writerBackend = new SqliteStorageBackend(dbFile);
+    opened.push(writerBackend);
+    const writer = new ThinkingService({ storage: writerBackend });
+
+    writer.processThought({
+      thought: 'Map every persistence path before choosing a database layout for history.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+      goal: 'SQLite history',
+    }, 'task-sql');
+    writer.processThought({
+      thought: 'Branch: keep JSON files as an import source instead of deleting them after migration.',
+      thoughtNumber: 2,
+      totalThoughts: 2,
+      nextThoughtNeeded: false,
+      branchFromThought: 1,
+      branchId: 'import',
+      quickExtension: { type: 'critique', content: 'Imports must be idempotent', impact: 'high' },
+    }, 'task-sql');
+    await writer.saveSession();
+
+    // No JSON files are written with the sqlite backend
+    await expect(fs.access(join(tempDir, 'thought_session.json'))).rejects.toThrow();
+
+    const readerBackend = new SqliteStorageBackend(dbFile);
+    opened.push(readerBackend);
+    const reader = new ThinkingService({ storage: readerBackend });
+    expect(await reader.loadSession()).toBe(true);
+    const exported = JSON.parse(reader.exportSession({ format: 'json', includeMermaid: false }, 'task-sql'));
+    expect(exported.thoughts).toHaveLength(2);
+    expect(exported.thoughts[1].extensions).toHaveLength(1);
+
+    expect(query('SELECT session_key, thought_number, branch_id FROM thoughts ORDER BY id')).toEqual([
+      { session_key: 'task-sql', thought_number: 1, branch_id: null },
+      { session_key: 'task-sql', thought_number: 2, branch_id: 'import' },
+    ]);
+    expect(query('SELECT branch_id, thought_count FROM branches')).toEqual([{ branch_id: 'import', thought_count: 1 }]);
+    expect(query('SELECT thought_number, impact FROM extensions')).toEqual([{ thought_number: 2, impact: 'high' }]);
+  });
+
+  it('projects think_batch, branch merges and edits into the thoughts table', async () => {
+    const { SqliteStorageBackend, ThinkingService } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    const writer = new ThinkingService({ storage: backend });
+
+    const batch = writer.submitSession({
+      goal: 'Pick a queue for webhook delivery',
+      thoughts: [
+        { thoughtNumber: 1, thought: 'Webhook delivery needs retries with backoff and a dead-letter queue.', confidence: 7 },
+        { thoughtNumber: 2, thought: 'A Postgres outbox table reuses the existing database and its backups.', confidence: 8 },
+        { thoughtNumber: 3, thought: 'Alternative: a managed queue removes polling but adds a new vendor.', confidence: 6, branchFromThought: 1, branchId: 'managed' },
+      ],
+    }, 'task-batch');
+    expect(batch.status).toBe('accepted');
+    await writer.manageBranches({ action: 'merge', branchId: 'managed', rationale: 'Polling load is too high' }, 'task-batch');
+    await writer.editThought({ action: 'edit', thoughtNumber: 2, confidence: 9 }, 'task-batch');
+    await writer.editThought({ action: 'undo' }, 'task-batch');
+
+    expect(query('SELECT thought_number, branch_id, confidence, edited_at IS NOT NULL AS edited, deleted_at IS NOT NULL AS deleted FROM thoughts ORDER BY id')).toEqual([
+      { thought_number: 1, branch_id: null, confidence: 7, edited: 0, deleted: 0 },
+      { thought_number: 2, branch_id: null, confidence: 9, edited: 1, deleted: 0 },
+      { thought_number: 3, branch_id: 'managed', confidence: 6, edited: 0, deleted: 0 },
+      { thought_number: 4, branch_id: null, confidence: null, edited: 0, deleted: 1 },
+    ]);
+  });
+
+  it('projects events of commits that write a merged snapshot', async () => {
+    const { SqliteStorageBackend, ThinkingService } = await loadModules();
+    const firstBackend = new SqliteStorageBackend(dbFile);
+    const secondBackend = new SqliteStorageBackend(dbFile);
+    opened.push(firstBackend, secondBackend);
+    const first = new ThinkingService({ storage: firstBackend });
+    const second = new ThinkingService({ storage: secondBackend });
+    await first.loadSession();
+    await second.loadSession();
+
+    first.processThought({
+      thought: 'First process records the rollout order for the new billing service.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    }, 'rollout');
+    await first.saveSession();
+    // The second process merges the first one's commit and has to write a full snapshot
+    second.processThought({
+      thought: 'Second process records the rollback plan for the new billing service.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    }, 'rollback');
+    await second.saveSession();
+
+    expect(query('SELECT session_key FROM thoughts ORDER BY id')).toEqual([
+      { session_key: 'rollout' },
+      { session_key: 'rollback' },
+    ]);
+    expect(query('SELECT COUNT(*) AS count FROM journal')).toEqual([{ count: 0 }]);
+  });
+
+  it('imports existing JSON stores on first load', async () => {
+    await fs.writeFile(join(tempDir, 'insights.json'), JSON.stringify({
+      schemaVersion: 2,
+      winningPaths: [{
+        path: [1, 2],
+        summary: 'Imported winning path about cache invalidation',
+        keywords: ['cache', 'invalidation'],
+        timestamp: new Date().toISOString(),
+        sessionLength: 2,
+      }],
+      patterns: {},
+      totalSessions: 1,
+      lastUpdated: new Date().toISOString(),
+    }), 'utf8');
+
+    const { SqliteStorageBackend, InsightsService } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    const service = new InsightsService({ storage: backend });
+    await service.load();
+
+    expect(await service.list()).toHaveLength(1);
+    expect(query('SELECT summary FROM winning_paths')).toEqual([{ summary: 'Imported winning path about cache invalidation' }]);
+    expect(query('SELECT store FROM snapshots')).toEqual([{ store: 'insights' }]);
+    // Source file is left in place
+    await expect(fs.access(join(tempDir, 'insights.json'))).resolves.toBeUndefined();
+
+    // Second load reads from the database without importing again
+    const again = new InsightsService({ storage: backend });
+    await again.load();
+    expect(await again.list()).toHaveLength(1);
+    expect(query('SELECT COUNT(*) AS count FROM winning_paths')).toEqual([{ count: 1 }]);
+  });
+
+  it('imports cycle branch selections only when they are well formed', async () => {
+    const cycle = (sessionId: string, selectedBranch: unknown) => ({
+      sessionId,
+      goal: `Imported cycle ${sessionId} with a branch selection`,
+      thoughts: [],
+      createdAt: 1,
+      selectedBranch,
+    });
+    const imported = {
+      sessions: [
+        cycle('cycle_valid', { branchId: 'redis', reason: 'Lower latency under the measured load', timestamp: 42 }),
+        cycle('cycle_malformed', { branchId: 7 }),
+      ],
+    };
+
+    const { SqliteStorageBackend } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    await backend.load(join(tempDir, 'cycle_sessions.json'), {
+      build: () => imported,
+      writeFile: async () => {},
+      readFile: async () => imported,
+    });
+
+    expect(query('SELECT session_id, selected_branch, selection_reason FROM cycle_sessions ORDER BY session_id')).toEqual([
+      { session_id: 'cycle_malformed', selected_branch: null, selection_reason: null },
+      { session_id: 'cycle_valid', selected_branch: 'redis', selection_reason: 'Lower latency under the measured load' },
+    ]);
+  });
+
+  it('keeps every insight without the FIFO cap', async () => {
+    const { SqliteStorageBackend, InsightsService } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    const service = new InsightsService({ storage: backend });
+
+    for (let i = 0; i < 105; i++) {
+      await service.saveWinningPath({
+        path: [1, 2],
+        summary: `token${i} solution summary`,
+        sessionLength: 2,
+      });
+    }
+
+    const reloaded = new InsightsService({ storage: backend });
+    await reloaded.load();
+    expect(await reloaded.list()).toHaveLength(105);
+    expect(query('SELECT COUNT(*) AS count FROM winning_paths')).toEqual([{ count: 105 }]);
+  });
+
+  it('projects think_insights edits, feedback and deletes', async () => {
+    const { SqliteStorageBackend, InsightsService } = await loadModules();
+    const backend = new SqliteStorageBackend(dbFile);
+    opened.push(backend);
+    const service = new InsightsService({ storage: backend });
+
+    const { insight } = await service.manage({ action: 'add', summary: 'Prefer idempotent webhooks', tags: ['payments'] });
+    await service.manage({ action: 'pin', id: insight!.id });
+    await service.manage({ action: 'feedback', id: insight!.id, helpful: true });
+    await service.manage({ action: 'feedback', id: insight!.id, applied: false });
+    await service.manage({ action: 'delete', id: insight!.id });
+
+    expect(query('SELECT insight_id, applied, helpful FROM insight_feedback ORDER BY id')).toEqual([
+      { insight_id: insight!.id, applied: 1, helpful: 1 },
+      { insight_id: insight!.id, applied: 0, helpful: null },
+    ]);
+
+    const [row] = query('SELECT source, tags, pinned, deleted_at FROM winning_paths') as Array<Record<string, unknown>>;
+    expect(row).toMatchObject({ source: 'manual', tags: '["payments"]', pinned: 1 });
+    expect(row.deleted_at).toEqual(expect.any(String));
+  });
+});
@@ -96,6 +96,18 @@ describe('StagnationService', () => {
       const result = service.detectStagnation('', history);
       expect(result).toBeUndefined();
     });
+
+    it('should detect reworded repetition only with vector similarity', () => {
+      const history = [
+        createThought('Caching cart totals keeps reads fast but totals go stale after a price change', 1),
+        createThought('Cached cart totals make reading faster, yet they become stale when prices change', 2),
+        createThought('Cached totals for carts keep reads fast, but they go stale after prices change', 3),
+      ];
+      const reworded = 'Cart totals cached for fast reads turn stale once a price changes';
+
+      expect(service.detectStagnation(reworded, history)).toBeUndefined();
+      expect(new StagnationService('vector').detectStagnation(reworded, history)).toContain('STAGNATION');
+    });
   });
 });
 
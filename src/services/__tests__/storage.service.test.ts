@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  JsonSnapshotBackend,
+  JsonlEventLogBackend,
+  resolveStorageBackendKind,
+} from '../storage.service.js';
+import { getJournalFile } from '../../utils/journal-files.js';
+
+const ENV_KEY = 'THINK_MCP_DATA_DIR';
+
+async function readLines(file: string): Promise<string[]> {
+  const content = await fs.readFile(file, 'utf-8');
+  return content.split('\n').filter(line => line.length > 0);
+}
+
+function fakeSnapshot(writeFile: (state: unknown) => Promise<void> = async () => {}) {
+  return {
+    build: () => ({}),
+    writeFile: vi.fn(writeFile),
+    readFile: async () => null,
+  };
+}
+
+describe.sequential('StorageService', () => {
+  let tempDir = '';
+  let snapshotFile = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-storage-test-'));
+    snapshotFile = join(tempDir, 'store.json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    delete process.env[ENV_KEY];
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = '';
+    }
+  });
+
+  it('appends events and compacts them into the snapshot', async () => {
+    const backend = new JsonlEventLogBackend(3);
+    const snapshot = fakeSnapshot(async () => {
+      await fs.writeFile(snapshotFile, '{}', 'utf-8');
+    });
+
+    await backend.commit(snapshotFile, [{ seq: 1, type: 'a' }], snapshot, 1);
+    await backend.commit(snapshotFile, [{ seq: 2, type: 'b' }], snapshot, 2);
+    expect(snapshot.writeFile).not.toHaveBeenCalled();
+    expect(await readLines(getJournalFile(snapshotFile))).toHaveLength(2);
+    expect((await backend.load(snapshotFile, snapshot)).events).toEqual([{ seq: 1, type: 'a' }, { seq: 2, type: 'b' }]);
+
+    await backend.commit(snapshotFile, [{ seq: 3, type: 'c' }], snapshot, 3);
+    expect(snapshot.writeFile).toHaveBeenCalledTimes(1);
+    await expect(fs.access(getJournalFile(snapshotFile))).rejects.toThrow();
+
+    // Structural changes without events always write a snapshot
+    await backend.commit(snapshotFile, [], snapshot, 4);
+    expect(snapshot.writeFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the journal when the snapshot write fails', async () => {
+    const backend = new JsonlEventLogBackend(2);
+    await backend.commit(snapshotFile, [{ seq: 1, type: 'a' }], fakeSnapshot(), 1);
+    await expect(
+      backend.commit(snapshotFile, [{ seq: 2, type: 'b' }], fakeSnapshot(async () => {
+        throw new Error('disk full');
+      }), 2)
+    ).rejects.toThrow('disk full');
+    expect(await readLines(getJournalFile(snapshotFile))).toHaveLength(1);
+  });
+
+  it('skips torn and corrupted journal lines on replay', async () => {
+    await fs.writeFile(
+      getJournalFile(snapshotFile),
+      '{"seq":1,"type":"a"}\nnot json\n{"type":"missing-seq"}\n{"seq":2,"type":"b"}\n{"seq":3,"ty',
+      'utf-8'
+    );
+    const { events } = await new JsonlEventLogBackend().load(snapshotFile, fakeSnapshot());
+    expect(events.map(event => event.seq)).toEqual([1, 2]);
+  });
+
+  it('json backend removes journals left behind by the event log on next snapshot', async () => {
+    await fs.writeFile(getJournalFile(snapshotFile), '{"seq":1,"type":"a"}\n', 'utf-8');
+    const backend = new JsonSnapshotBackend();
+    expect((await backend.load(snapshotFile, fakeSnapshot())).events).toHaveLength(1);
+
+    const snapshot = fakeSnapshot();
+    await backend.commit(snapshotFile, [{ seq: 2, type: 'b' }], snapshot, 1);
+    expect(snapshot.writeFile).toHaveBeenCalledTimes(1);
+    await expect(fs.access(getJournalFile(snapshotFile))).rejects.toThrow();
+  });
+
+  it('resolves backend kind from THINK_MCP_STORAGE', () => {
+    expect(resolveStorageBackendKind(undefined)).toBe('json');
+    expect(resolveStorageBackendKind(' JSONL ')).toBe('jsonl');
+    expect(resolveStorageBackendKind('sqlite')).toBe('sqlite');
+    expect(() => resolveStorageBackendKind('redis')).toThrow('Unsupported storage backend');
+  });
+
+  it('restores thinking sessions from the journal without double-applying snapshotted events', async () => {
+    process.env[ENV_KEY] = tempDir;
+    vi.resetModules();
+    const { ThinkingService } = await import('../thinking.service.js');
+    const storage = await import('../storage.service.js');
+    const journal = join(tempDir, 'thought_session.events.jsonl');
+
+    const writer = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    writer.processThought({
+      thought: 'First journaled thought lays out the storage migration plan with rollback.',
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      goal: 'Journal replay',
+    }, 'task-j');
+    // Structural save: folds thought #1 into the snapshot and truncates the journal
+    await writer.saveSession();
+
+    writer.processThought({
+      thought: 'Second journaled thought compares append-only logs with full rewrites in detail.',
+      thoughtNumber: 2,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      quickExtension: { type: 'critique', content: 'Append-only logs need compaction', impact: 'medium' },
+    }, 'task-j');
+    await vi.waitFor(async () => expect(await readLines(journal)).toHaveLength(2));
+
+    const reader = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    expect(await reader.loadSession()).toBe(true);
+    const exported = JSON.parse(reader.exportSession({ format: 'json', includeMermaid: false }, 'task-j'));
+    expect(exported.goal).toBe('Journal replay');
+    expect(exported.thoughts).toHaveLength(2);
+    expect(exported.thoughts[1].extensions).toHaveLength(1);
+  });
+
+  it('journals think_batch, merges, edits and resets instead of rewriting the snapshot', async () => {
+    process.env[ENV_KEY] = tempDir;
+    vi.resetModules();
+    const { ThinkingService } = await import('../thinking.service.js');
+    const storage = await import('../storage.service.js');
+    const journal = join(tempDir, 'thought_session.events.jsonl');
+
+    const writer = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    const batch = writer.submitSession({
+      goal: 'Choose a retention policy for audit logs',
+      thoughts: [
+        { thoughtNumber: 1, thought: 'Keep raw audit logs for ninety days in hot storage for investigations.', confidence: 7 },
+        { thoughtNumber: 2, thought: 'Move older entries to compressed cold storage with a yearly legal hold.', confidence: 8 },
+        { thoughtNumber: 3, thought: 'Alternative: stream every entry to the SIEM and drop local copies after a week.', confidence: 5, branchFromThought: 1, branchId: 'siem' },
+      ],
+    }, 'task-b');
+    expect(batch.status).toBe('accepted');
+    expect((await writer.manageBranches({ action: 'merge', branchId: 'siem', rationale: 'SIEM keeps the search index' }, 'task-b')).status).toBe('success');
+    expect((await writer.editThought({ action: 'edit', thoughtNumber: 1, thought: 'Keep raw audit logs for thirty days in hot storage for investigations.' }, 'task-b')).status).toBe('success');
+    writer.processThought({
+      thought: 'Scratch session thought that gets reset right after it is journaled here.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    }, 'scratch');
+    await writer.resetSession('scratch');
+
+    // reset + 3 batch thoughts, merge thought + closure, edit, scratch thought + reset
+    expect(await readLines(journal)).toHaveLength(9);
+    await expect(fs.access(join(tempDir, 'thought_session.json'))).rejects.toThrow();
+
+    const reader = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    expect(await reader.loadSession()).toBe(true);
+    expect(reader.getSessionKeys()).not.toContain('scratch');
+    const exported = JSON.parse(reader.exportSession({ format: 'json', includeMermaid: false }, 'task-b'));
+    expect(exported.goal).toBe('Choose a retention policy for audit logs');
+    expect(exported.thoughts).toHaveLength(4);
+    expect(exported.thoughts[0].thought).toContain('thirty days');
+    const compared = await reader.manageBranches({ action: 'compare' }, 'task-b');
+    expect(compared.branches[0]).toMatchObject({ branchId: 'siem', status: 'merged' });
+  });
+
+  it('persists sessions archived by the TTL on load with the next journal append', async () => {
+    process.env[ENV_KEY] = tempDir;
+    vi.resetModules();
+    const { ThinkingService } = await import('../thinking.service.js');
+    const storage = await import('../storage.service.js');
+
+    const writer = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    const staleAt = Date.now() - 48 * 60 * 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(staleAt);
+    writer.processThought({
+      thought: 'Reasoning from two days ago that the session TTL should move into the archive.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    }, 'old-task');
+    await writer.saveSession();
+    vi.mocked(Date.now).mockRestore();
+
+    const reader = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    expect(await reader.loadSession()).toBe(true);
+    expect(reader.getSessionKeys()).toEqual(['default']);
+    const saved = new Promise<void>(resolve => reader.onSessionSaved(resolve));
+    reader.processThought({
+      thought: 'Fresh reasoning started today after the stale session was archived on load.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    });
+    await saved;
+
+    // A process whose clock still sees the session as fresh finds it archived too
+    vi.spyOn(Date, 'now').mockReturnValue(staleAt);
+    const later = new ThinkingService({ storage: new storage.JsonlEventLogBackend() });
+    expect(await later.loadSession()).toBe(true);
+    vi.mocked(Date.now).mockRestore();
+    expect(later.getSessionKeys()).toEqual(['default']);
+    const listed = await later.manageSessions({ action: 'list' });
+    expect(listed.sessions?.find(session => session.sessionId === 'old-task')).toMatchObject({ archived: true, thoughtCount: 1 });
+  });
+});
@@ -1,6 +1,17 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import { ThinkingService } from '../thinking.service.js';
 
+const ENV_KEY = 'THINK_MCP_DATA_DIR';
+
+async function loadThinkingService() {
+  vi.resetModules();
+  const mod = await import('../thinking.service.js');
+  return mod.ThinkingService;
+}
+
 describe.sequential('ThinkingService', () => {
   let service: ThinkingService;
 
@@ -102,6 +113,429 @@ describe.sequential('ThinkingService', () => {
     expect(recovered.isError).toBeUndefined();
   });
 
+  it('isolates named sessions so thought #1 in one session keeps the others intact', () => {
+    service.processThought({
+      thought: 'Default session opens with a detailed plan for the caching layer and its invalidation rules.',
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      goal: 'Default session goal',
+    });
+    service.processThought({
+      thought: 'Task A starts its own chain about migrating authentication tokens to rotating keys.',
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      goal: 'Task A goal',
+    }, 'task-a');
+
+    const second = service.processThought({
+      thought: 'Default session continues with a second step covering cache warmup and rollback triggers.',
+      thoughtNumber: 2,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+    });
+    expect(second.isError).toBeUndefined();
+    expect(second.thoughtHistoryLength).toBe(2);
+    expect(second.sessionGoal).toBe('Default session goal');
+
+    const taskA = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }, 'task-a'));
+    expect(taskA.goal).toBe('Task A goal');
+    expect(taskA.thoughts).toHaveLength(1);
+
+    const recall = service.recallThought({ query: 'authentication tokens', scope: 'current' });
+    expect(recall.matches).toHaveLength(0);
+    expect(service.getSessionKeys()).toEqual(['default', 'task-a']);
+  });
+
+  it('resets only the requested named session', async () => {
+    service.processThought({
+      thought: 'Default session step that must survive a reset of another named session.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    });
+    service.processThought({
+      thought: 'Named session step that is going to be cleared by an explicit reset call.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    }, 'task-b');
+
+    const cleared = await service.resetSession('task-b');
+
+    expect(cleared.clearedThoughts).toBe(1);
+    expect(service.getSessionKeys()).toEqual(['default']);
+    const exported = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }));
+    expect(exported.thoughts).toHaveLength(1);
+  });
+
+  it('archives, lists, renames and resumes sessions via manageSessions', async () => {
+    service.processThought({
+      thought: 'Named session reasoning about queue backpressure that we want to continue later.',
+      thoughtNumber: 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      confidence: 6,
+      goal: 'Queue backpressure',
+    }, 'task-q');
+    service.processThought({
+      thought: 'Second step measures consumer lag and proposes bounded buffers with explicit drop policy.',
+      thoughtNumber: 2,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      confidence: 8,
+    }, 'task-q');
+
+    const archived = await service.manageSessions({ action: 'archive', sessionId: 'task-q' });
+    expect(archived.status).toBe('success');
+    expect(service.getSessionKeys()).toEqual(['default']);
+
+    const listed = await service.manageSessions({ action: 'list' });
+    expect(listed.sessions).toHaveLength(1);
+    expect(listed.sessions[0]).toMatchObject({
+      sessionId: 'task-q',
+      goal: 'Queue backpressure',
+      thoughtCount: 2,
+      averageConfidence: 7,
+      donePassed: false,
+      archived: true,
+    });
+
+    const renamed = await service.manageSessions({ action: 'rename', sessionId: 'task-q', newSessionId: 'queue' });
+    expect(renamed.sessions[0].sessionId).toBe('queue');
+
+    const resumed = await service.manageSessions({ action: 'resume', sessionId: 'queue' });
+    expect(resumed.status).toBe('success');
+    expect(resumed.sessions[0].archived).toBe(false);
+
+    const next = service.processThought({
+      thought: 'Third step continues the resumed chain with load test thresholds and alerting.',
+      thoughtNumber: 3,
+      totalThoughts: 3,
+      nextThoughtNeeded: false,
+    }, 'queue');
+    expect(next.isError).toBeUndefined();
+    expect(next.thoughtHistoryLength).toBe(3);
+  });
+
+  it('rejects resuming into an occupied session key', async () => {
+    service.processThought({
+      thought: 'Default session holds active reasoning that must not be overwritten by a resume.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    });
+    await service.manageSessions({ action: 'archive', sessionId: 'default' });
+    service.processThought({
+      thought: 'A fresh default chain started after the previous one was archived.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    });
+
+    const conflict = await service.manageSessions({ action: 'resume', sessionId: 'default' });
+    expect(conflict.status).toBe('error');
+
+    const resumed = await service.manageSessions({ action: 'resume', sessionId: 'default', newSessionId: 'earlier' });
+    expect(resumed.status).toBe('success');
+    expect(service.getSessionKeys()).toEqual(['default', 'earlier']);
+  });
+
+  it('undoes and soft-deletes thoughts, recomputing derived state', async () => {
+    const steps = [
+      'Survey the cache layers and list every invalidation trigger in the checkout flow.',
+      'Propose write-through caching for cart totals with explicit version stamps per cart.',
+      'Measure hit ratio under load and decide whether the version stamps pay for themselves.',
+    ];
+    steps.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+    }));
+    service.processThought({
+      thought: 'Branch: skip caching entirely and precompute cart totals on every write instead.',
+      thoughtNumber: 4,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+      branchFromThought: 2,
+      branchId: 'precompute',
+    });
+    service.consolidate({ winningPath: [1, 2, 3], summary: 'Version stamps never paid off', verdict: 'needs_more_work' });
+
+    const blocked = await service.editThought({ action: 'delete', thoughtNumber: 2 });
+    expect(blocked.status).toBe('error');
+    expect(blocked.errorMessage).toContain('#4');
+
+    const undone = await service.editThought({ action: 'undo' });
+    expect(undone).toMatchObject({ status: 'success', lastThoughtNumber: 3, branches: [], thoughtHistoryLength: 3 });
+
+    const deleted = await service.editThought({ action: 'delete', thoughtNumber: 3, reason: 'Measured the wrong thing' });
+    expect(deleted).toMatchObject({ status: 'success', lastThoughtNumber: 2, auditTrailLength: 2 });
+    expect(service.getDeadEnds()).toEqual([expect.objectContaining({ path: [1, 2] })]);
+    expect(service.recallThought({ query: 'hit ratio under load' }).matches).toHaveLength(0);
+
+    // The replacement thought #3 continues the chain without a dead-end warning
+    const next = service.processThought({
+      thought: 'Replace version stamps with a per-cart change counter checked on read.',
+      thoughtNumber: 3,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+    });
+    expect(next.isError).toBeUndefined();
+    expect(next.systemAdvice ?? '').not.toContain('DEAD END');
+
+    const exported = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }));
+    expect(exported.edits.map((e: { action: string; removed?: { thought: string } }) => [e.action, e.removed?.thought])).toEqual([
+      ['undo', 'Branch: skip caching entirely and precompute cart totals on every write instead.'],
+      ['delete', steps[2]],
+    ]);
+  });
+
+  it('edits content and confidence and keeps previous values in the audit trail', async () => {
+    service.processThought({
+      thought: 'Initial estimate says the migration takes two days with a single rollback window.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+      confidence: 8,
+    }, 'task-e');
+
+    const missing = await service.editThought({ action: 'edit', thoughtNumber: 1 }, 'task-e');
+    expect(missing.status).toBe('error');
+
+    const edited = await service.editThought({
+      action: 'edit',
+      thoughtNumber: 1,
+      thought: 'Revised estimate: the migration needs four days including a dry run on staging.',
+      confidence: 5,
+    }, 'task-e');
+    expect(edited.thought).toMatchObject({ confidence: 5 });
+    expect(service.recallThought({ query: 'dry run on staging' }, 'task-e').matches).toHaveLength(1);
+
+    const exported = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }, 'task-e'));
+    expect(exported.edits[0]).toMatchObject({
+      action: 'edit',
+      thoughtNumber: 1,
+      previous: { thought: 'Initial estimate says the migration takes two days with a single rollback window.', confidence: 8 },
+    });
+  });
+
+  it('archives the least recently used named session beyond the live session limit', async () => {
+    for (let i = 0; i < 20; i++) {
+      service.processThought({
+        thought: `Task ${i}: estimate the storage needed for ${i + 1} years of audit events per tenant.`,
+        thoughtNumber: 1,
+        totalThoughts: 1,
+        nextThoughtNeeded: false,
+      }, `task-${i}`);
+    }
+
+    expect(service.getSessionKeys()).not.toContain('task-0');
+    const resumed = await service.manageSessions({ action: 'resume', sessionId: 'task-0' });
+    expect(resumed.status).toBe('success');
+    expect(resumed.sessions[0]).toMatchObject({ sessionId: 'task-0', thoughtCount: 1 });
+  });
+
+  it('reports edit and branch results of the targeted session when another call switches sessions', async () => {
+    const steps = [
+      'Split the monolith along the billing boundary before touching the user service.',
+      'Extract invoice rendering first because it has no writes into shared tables.',
+    ];
+    steps.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+    }, 'task-a'));
+    service.processThought({
+      thought: 'Branch: extract payments first since it already talks to the billing API.',
+      thoughtNumber: 3,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      branchFromThought: 1,
+      branchId: 'payments',
+    }, 'task-a');
+    const other = {
+      thought: 'Unrelated session about choosing a font pairing for the marketing site.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    };
+
+    const closing = service.manageBranches({ action: 'close', branchId: 'payments', rationale: 'Payments has the most coupling' }, 'task-a');
+    service.processThought(other, 'task-b');
+    expect((await closing).branches[0]).toMatchObject({ branchId: 'payments', status: 'abandoned', thoughtCount: 1 });
+
+    const undoing = service.editThought({ action: 'undo' }, 'task-a');
+    service.processThought(other, 'task-b');
+    expect(await undoing).toMatchObject({ status: 'success', lastThoughtNumber: 2, thoughtHistoryLength: 2, branches: [] });
+  });
+
+  it('ranks multi-word recall by stemmed term overlap and highlights every matched term', () => {
+    const steps = [
+      'Caching cart totals keeps reads fast but stale totals appear after a price change.',
+      'Invalidate cached totals when a price changes, otherwise customers see stale totals.',
+      'Кэширование итогов корзины ускоряет чтение, но после изменения цены итоги устаревают.',
+    ];
+    steps.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: i < 2,
+    }, 'task-r'));
+
+    const english = service.recallThought({ query: 'cache invalidation for stale totals' }, 'task-r');
+    expect(english.matches[0]).toMatchObject({ thoughtNumber: 2, matchedTerms: ['cache', 'invalidation', 'stale', 'totals'] });
+    expect(english.matches[0].snippet).toContain('**Invalidate** **cached** **totals**');
+    expect(english.matches[0].snippet).toContain('**stale** **totals**');
+
+    const russian = service.recallThought({ query: 'кэширования корзины' }, 'task-r');
+    expect(russian.matches[0]).toMatchObject({ thoughtNumber: 3, matchedTerms: ['кэширования', 'корзины'] });
+    expect(russian.matches[0].snippet).toContain('**Кэширование** итогов **корзины**');
+  });
+
+  it('filters recall with the query language', () => {
+    const steps = [
+      'Session tokens are stored in Redis with a sliding expiry for the auth service.',
+      'Move session storage to signed cookies so the auth service needs no Redis lookup.',
+      'Rotate the cookie signing key weekly and keep the previous key for verification.',
+    ];
+    steps.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+      confidence: 8 - i * 3,
+    }, 'task-q'));
+    service.extendThought({ targetThoughtNumber: 2, extensionType: 'critique', content: 'Cookie size limits break auth for users with many roles', impactOnFinalResult: 'blocker' }, 'task-q');
+    service.extendThought({ targetThoughtNumber: 3, extensionType: 'critique', content: 'Auth key rotation needs a rollout plan', impactOnFinalResult: 'low' }, 'task-q');
+    service.processThought({
+      thought: 'Branch: keep Redis but shard session keys by tenant for the auth service.',
+      thoughtNumber: 4,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+      branchFromThought: 1,
+      branchId: 'redis-shard',
+    }, 'task-q');
+
+    const recall = (query: string) => service.recallThought({ query, limit: 10 }, 'task-q').matches;
+
+    expect(recall('type:critique impact:blocker revised:false auth').map((m) => m.snippet)).toEqual([
+      'Cookie size limits break **auth** for users with many roles',
+    ]);
+    expect(recall('type:critique').map((m) => m.thoughtNumber)).toEqual([3, 2]);
+    expect(recall('conf<5 type:thought').map((m) => m.thoughtNumber)).toEqual([3]);
+    expect(recall('branch:redis-shard session').map((m) => m.thoughtNumber)).toEqual([4]);
+    expect(recall('auth service -cookies type:thought').map((m) => m.thoughtNumber).sort()).toEqual([1, 4]);
+    expect(recall('"signing key" type:thought').map((m) => m.thoughtNumber)).toEqual([3]);
+    expect(() => recall('impact:urgent auth')).toThrow('Invalid recall filter');
+  });
+
+  it('compares, closes and merges branches', async () => {
+    const mainline = [
+      'Identify why nightly report generation exceeds its window on month-end data volumes.',
+      'Profile the report queries and find the aggregation over raw events dominating runtime.',
+    ];
+    mainline.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 6,
+      nextThoughtNeeded: true,
+    }));
+    service.processThought({
+      thought: 'Branch: maintain incremental rollup tables updated by the event ingestion worker.',
+      thoughtNumber: 3,
+      totalThoughts: 6,
+      nextThoughtNeeded: true,
+      branchFromThought: 2,
+      branchId: 'rollups',
+      confidence: 8,
+    });
+    service.processThought({
+      thought: 'Branch: shard report generation per tenant and run the shards in parallel workers.',
+      thoughtNumber: 4,
+      totalThoughts: 6,
+      nextThoughtNeeded: true,
+      branchFromThought: 2,
+      branchId: 'sharding',
+      confidence: 5,
+      quickExtension: { type: 'critique', content: 'Largest tenant alone exceeds the window', impact: 'high' },
+    });
+
+    const compared = await service.manageBranches({ action: 'compare' });
+    expect(compared.branches).toEqual([
+      expect.objectContaining({ branchId: 'rollups', status: 'open', fromThought: 2, averageConfidence: 8, unresolvedCritiques: 0 }),
+      expect.objectContaining({ branchId: 'sharding', status: 'open', averageConfidence: 5, unresolvedCritiques: 1 }),
+    ]);
+
+    const missingRationale = await service.manageBranches({ action: 'close', branchId: 'sharding' });
+    expect(missingRationale.status).toBe('error');
+    const closed = await service.manageBranches({ action: 'close', branchId: 'sharding', rationale: 'Does not fix the largest tenant' });
+    expect(closed.branches[0].status).toBe('abandoned');
+
+    const merged = await service.manageBranches({ action: 'merge', branchId: 'rollups', rationale: 'Removes the raw-event scan' });
+    expect(merged).toMatchObject({ status: 'success', mergedThought: 5 });
+
+    // Both branches are closed - no forgotten-branch advice after the merge
+    const next = service.processThought({
+      thought: 'Plan the rollup backfill for historical months and verify totals against the raw events.',
+      thoughtNumber: 6,
+      totalThoughts: 6,
+      nextThoughtNeeded: true,
+    });
+    expect(next.isError).toBeUndefined();
+    expect(next.systemAdvice ?? '').not.toContain('FORGOTTEN BRANCH');
+
+    const report = service.exportSession({ format: 'markdown', includeMermaid: false });
+    expect(report).toContain('- **rollups**: merged → #5 - Removes the raw-event scan');
+    expect(report).toContain('- **sharding**: abandoned - Does not fix the largest tenant');
+  });
+
+  it('forks a session at a thought and records lineage on both sides', async () => {
+    const steps = [
+      'Assume the import job may hold the ledger lock for the whole batch of incoming rows.',
+      'Estimate lock wait for concurrent writers when a batch takes up to ninety seconds.',
+      'Split the batch into chunks of one thousand rows with a lock per chunk.',
+    ];
+    steps.forEach((thought, i) => service.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+      goal: i === 0 ? 'Ledger import locking' : undefined,
+    }, 'ledger'));
+    service.extendThought({ targetThoughtNumber: 2, extensionType: 'critique', content: 'Ignores retries', impactOnFinalResult: 'medium' }, 'ledger');
+
+    const missing = await service.manageSessions({ action: 'fork', sessionId: 'ledger', newSessionId: 'ledger-alt', atThought: 9 });
+    expect(missing.status).toBe('error');
+
+    const forked = await service.manageSessions({ action: 'fork', sessionId: 'ledger', newSessionId: 'ledger-alt', atThought: 2 });
+    expect(forked.status).toBe('success');
+    expect(forked.sessions[0]).toMatchObject({ sessionId: 'ledger-alt', thoughtCount: 2, goal: 'Ledger import locking', forkedFrom: { sessionId: 'ledger', thoughtNumber: 2 } });
+
+    const next = service.processThought({
+      thought: 'Alternative assumption: use optimistic writes with a version column instead of the lock.',
+      thoughtNumber: 3,
+      totalThoughts: 4,
+      nextThoughtNeeded: true,
+    }, 'ledger-alt');
+    expect(next.isError).toBeUndefined();
+
+    const child = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }, 'ledger-alt'));
+    expect(child.thoughts[1].extensions).toHaveLength(1);
+    expect(child.lineage.forkedFrom).toMatchObject({ sessionId: 'ledger', thoughtNumber: 2 });
+
+    const parent = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }, 'ledger'));
+    expect(parent.thoughts.map((t: { thought: string }) => t.thought)).toEqual(steps);
+    expect(parent.lineage.forks).toEqual([expect.objectContaining({ sessionId: 'ledger-alt', thoughtNumber: 2 })]);
+    expect(service.getSessionMermaid('ledger')).toContain('2 -.->|fork| fork_child_0');
+
+    await service.manageSessions({ action: 'rename', sessionId: 'ledger', newSessionId: 'ledger-lock' });
+    expect(service.getSessionMermaid('ledger-alt')).toContain('Forked from ledger-lock @ #2');
+  });
+
   it('skips mermaid generation when includeMermaid is false', () => {
     const mermaidSpy = vi.spyOn((service as unknown as { visualizationService: { generateMermaid: () => string } }).visualizationService, 'generateMermaid');
 
@@ -110,3 +544,311 @@ describe.sequential('ThinkingService', () => {
     expect(mermaidSpy).not.toHaveBeenCalled();
   });
 });
+
+describe.sequential('ThinkingService persistence', () => {
+  let tempDir = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-thinking-test-'));
+    process.env[ENV_KEY] = tempDir;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    delete process.env[ENV_KEY];
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = '';
+    }
+  });
+
+  it('persists and restores every named session', async () => {
+    const Service = await loadThinkingService();
+    const writer = new Service();
+    writer.processThought({
+      thought: 'Named session thought persisted alongside the default session in schema v3.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+      goal: 'Persist named sessions',
+    }, 'task-a');
+    await writer.saveSession();
+
+    const reader = new Service();
+    expect(await reader.loadSession()).toBe(true);
+    expect(reader.getSessionKeys()).toEqual(['default', 'task-a']);
+    const exported = JSON.parse(reader.exportSession({ format: 'json', includeMermaid: false }, 'task-a'));
+    expect(exported.goal).toBe('Persist named sessions');
+  });
+
+  it('keeps the insights project of each session across reloads', async () => {
+    const Service = await loadThinkingService();
+    const writer = new Service();
+    writer.processThought({
+      thought: 'Shard tenant caches so one noisy client cannot evict the hot keys of another.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+      project: 'Globex',
+    }, 'globex-task');
+    const batch = writer.submitSession({
+      goal: 'Pick a cache layout for multi-tenant billing',
+      project: '/work/acme-api',
+      thoughts: [
+        { thoughtNumber: 1, thought: 'Per-tenant key prefixes keep invalidation scoped to a single billing account.', confidence: 8 },
+        { thoughtNumber: 2, thought: 'Warm the prefix on tenant login so the first invoice render stays fast.', confidence: 8 },
+      ],
+      consolidation: { winningPath: [1, 2], summary: 'Prefix cache keys per tenant and warm them on login', verdict: 'ready' },
+    }, 'acme-task');
+    expect(batch.status).toBe('accepted');
+    await writer.saveSession();
+
+    await vi.waitFor(async () => {
+      expect((await writer.recallInsights('tenant cache', 3, { sessionKey: 'acme-task' })).matches).toHaveLength(1);
+    });
+    expect((await writer.recallInsights('tenant cache', 3, { sessionKey: 'globex-task' })).matches).toHaveLength(0);
+    expect((await writer.recallInsights('tenant cache', 3, { allProjects: true })).matches[0].insight.namespace).toBe('acme-api');
+
+    const reader = new Service();
+    await reader.loadSession();
+    const { sessions } = await reader.manageSessions({ action: 'list' });
+    expect(sessions?.map(session => [session.sessionId, session.project])).toEqual(expect.arrayContaining([
+      ['globex-task', 'Globex'],
+      ['acme-task', '/work/acme-api'],
+    ]));
+  });
+
+  it('saves the reasoning chain of a consolidated session with its insight', async () => {
+    const Service = await loadThinkingService();
+    const writer = new Service();
+    await writer.loadInsights();
+    const thoughts = [
+      'Profile the checkout endpoint and find that tax lookup dominates request latency.',
+      'Cache tax rates per region in memory and refresh them when the rate table changes.',
+      'Verify the cache against the rate table nightly so a missed change event cannot linger.',
+    ];
+    thoughts.forEach((thought, i) => writer.processThought({
+      thought,
+      thoughtNumber: i + 1,
+      totalThoughts: 3,
+      nextThoughtNeeded: i < 2,
+      confidence: 8,
+      goal: i === 0 ? 'Cut checkout latency caused by tax lookups' : undefined,
+      quickExtension: i === 1 ? { type: 'critique', content: 'Rate changes mid-day would serve stale taxes', impact: 'medium' } : undefined,
+    }));
+
+    writer.consolidate({ winningPath: [1, 2], summary: 'Caching alone leaves stale rates', verdict: 'needs_more_work' });
+    const done = writer.consolidate({
+      winningPath: [1, 2, 3],
+      summary: 'Cache tax rates per region with change-driven refresh and a nightly check',
+      constraintCheck: 'Rates must never be more than one day stale',
+      verdict: 'ready',
+    });
+    expect(done.canProceedToFinalAnswer).toBe(true);
+
+    await vi.waitFor(async () => {
+      expect((await writer.recallInsights('region')).matches).toHaveLength(1);
+    });
+    const [match] = (await writer.recallInsights('region')).matches;
+    expect(match.insight.chain).toEqual({
+      steps: thoughts.map((thought, i) => ({ thoughtNumber: i + 1, thought, confidence: 8 })),
+      critiques: [{ thoughtNumber: 2, type: 'critique', content: 'Rate changes mid-day would serve stale taxes', impact: 'medium' }],
+      deadEnds: [{ path: [1, 2], reason: 'Caching alone leaves stale rates' }],
+      constraints: 'Rates must never be more than one day stale',
+      potentialFlaws: undefined,
+    });
+    await writer.saveSession();
+  });
+
+  it('notifies save listeners after the session file is written', async () => {
+    const Service = await loadThinkingService();
+    const service = new Service();
+    const listener = vi.fn();
+    const unsubscribe = service.onSessionSaved(listener);
+
+    service.processThought({
+      thought: 'Thought that triggers a save which resource subscribers should hear about.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+    }, 'task-n');
+    await service.saveSession();
+    expect(listener).toHaveBeenCalled();
+    expect(service.getCurrentSessionKey()).toBe('task-n');
+
+    const calls = listener.mock.calls.length;
+    unsubscribe();
+    await service.saveSession();
+    expect(listener).toHaveBeenCalledTimes(calls);
+  });
+
+  it('archives expired sessions on load instead of discarding them', async () => {
+    const Service = await loadThinkingService();
+    const writer = new Service();
+    writer.processThought({
+      thought: 'Reasoning from yesterday that should survive the session TTL in the archive.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+      goal: 'Yesterday',
+    }, 'old-task');
+    const staleAt = Date.now() - 48 * 60 * 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(staleAt);
+    writer.processThought({
+      thought: 'Second step of yesterday reasoning recorded before the machine went idle.',
+      thoughtNumber: 2,
+      totalThoughts: 2,
+      nextThoughtNeeded: false,
+    }, 'old-task');
+    vi.mocked(Date.now).mockRestore();
+    await writer.saveSession();
+
+    const reader = new Service();
+    expect(await reader.loadSession()).toBe(true);
+    expect(reader.getSessionKeys()).toEqual(['default']);
+
+    const listed = await reader.manageSessions({ action: 'list' });
+    expect(listed.sessions).toHaveLength(1);
+    expect(listed.sessions[0]).toMatchObject({ sessionId: 'old-task', archived: true, thoughtCount: 2 });
+  });
+
+  it('merges sessions written by another process instead of overwriting them', async () => {
+    const Service = await loadThinkingService();
+    const first = new Service();
+    const second = new Service();
+    await first.loadSession();
+    await second.loadSession();
+
+    first.processThought({
+      thought: 'First server records its reasoning in a separate named session.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    }, 'window-a');
+    await first.saveSession();
+
+    second.processThought({
+      thought: 'Second server shares the data dir and must not drop the other window session.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    }, 'window-b');
+    await second.saveSession();
+    expect(second.getSessionKeys()).toEqual(expect.arrayContaining(['window-a', 'window-b']));
+
+    // The idle first server picks up the other window on sync
+    expect(await first.syncExternalChanges()).toBe(true);
+    expect(first.hasSession('window-b')).toBe(true);
+
+    const reader = new Service();
+    await reader.loadSession();
+    expect(reader.getSessionKeys()).toEqual(expect.arrayContaining(['default', 'window-a', 'window-b']));
+  });
+
+  it('archives the other process version when both changed the same session', async () => {
+    const Service = await loadThinkingService();
+    const first = new Service();
+    const second = new Service();
+    await first.loadSession();
+    await second.loadSession();
+
+    first.processThought({
+      thought: 'First server starts a chain in the shared default session.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    });
+    await first.saveSession();
+    second.processThought({
+      thought: 'Second server starts a different chain in the same default session.',
+      thoughtNumber: 1,
+      totalThoughts: 2,
+      nextThoughtNeeded: true,
+    });
+    await second.saveSession();
+
+    const reader = new Service();
+    await reader.loadSession();
+    const current = JSON.parse(reader.exportSession({ format: 'json', includeMermaid: false }));
+    expect(current.thoughts[0].thought).toContain('Second server');
+    const listed = await reader.manageSessions({ action: 'list' });
+    expect(listed.sessions.find(session => session.sessionId === 'default-conflict')).toMatchObject({
+      archived: true,
+      thoughtCount: 1,
+    });
+  });
+
+  it('recalls across every persisted session with filters and provenance', async () => {
+    const Service = await loadThinkingService();
+    const writer = new Service();
+    writer.processThought({
+      thought: 'Lock contention on the ledger table disappears once imports write in small chunks.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      confidence: 8,
+      goal: 'Ledger import locking',
+    }, 'ledger');
+    writer.processThought({
+      thought: 'Lock contention in the cache warmer comes from a global mutex around refresh.',
+      thoughtNumber: 1,
+      totalThoughts: 1,
+      nextThoughtNeeded: false,
+      confidence: 4,
+      goal: 'Cache warmer stalls',
+    }, 'cache');
+    await writer.manageSessions({ action: 'archive', sessionId: 'cache' });
+
+    // Another process sees both sessions without loading explicitly
+    const reader = new Service();
+    const all = await reader.recallHistory({ query: 'lock contention', limit: 5 });
+    expect(all.matches.map(m => m.provenance?.sessionKey).sort()).toEqual(['cache', 'ledger']);
+    expect(all.matches.find(m => m.provenance?.sessionKey === 'cache')?.provenance).toMatchObject({
+      goal: 'Cache warmer stalls',
+      archived: true,
+    });
+
+    const confident = await reader.recallHistory({ query: 'lock contention', minConfidence: 7 });
+    expect(confident.matches.map(m => m.provenance?.sessionKey)).toEqual(['ledger']);
+    const byGoal = await reader.recallHistory({ query: 'lock contention', goal: 'cache' });
+    expect(byGoal.matches.map(m => m.provenance?.sessionKey)).toEqual(['cache']);
+    const bySession = await reader.recallHistory({ query: 'lock contention', sessionIds: ['ledger'] });
+    expect(bySession.matches).toHaveLength(1);
+    const future = await reader.recallHistory({ query: 'lock contention', from: '2999-01-01' });
+    expect(future.matches).toHaveLength(0);
+    const today = new Date().toISOString().split('T')[0];
+    expect((await reader.recallHistory({ query: 'lock contention', to: today })).matches).toHaveLength(2);
+    await expect(reader.recallHistory({ query: 'lock contention', from: 'last week' })).rejects.toThrow('Invalid date');
+  });
+
+  it('loads legacy single-session files into the default session', async () => {
+    await fs.writeFile(
+      join(tempDir, 'thought_session.json'),
+      JSON.stringify({
+        schemaVersion: 2,
+        history: [{
+          thought: 'Legacy thought stored before named sessions existed.',
+          thoughtNumber: 1,
+          totalThoughts: 1,
+          nextThoughtNeeded: false,
+          timestamp: Date.now(),
+          sessionId: 'legacy',
+        }],
+        branches: [],
+        lastThoughtNumber: 1,
+        goal: 'Legacy goal',
+        currentSessionId: 'legacy',
+        savedAt: new Date().toISOString(),
+      }),
+      'utf-8'
+    );
+
+    const Service = await loadThinkingService();
+    const service = new Service();
+    expect(await service.loadSession()).toBe(true);
+    const exported = JSON.parse(service.exportSession({ format: 'json', includeMermaid: false }));
+    expect(exported.goal).toBe('Legacy goal');
+    expect(exported.thoughts).toHaveLength(1);
+  });
+});
@@ -57,11 +57,13 @@ export class CoachingService {
    * @param sessionThoughts - Current session thoughts
    * @param branches - Map of branch ID to branch thoughts
    * @param isFinishing - True if nextThoughtNeeded=false (v5.0.1)
+   * @param closedBranches - Branches closed via think_branch, never reported as forgotten (v5.6.0)
    */
   checkLateralThinking(
     sessionThoughts: ThoughtRecord[],
     branches: Map<string, ThoughtRecord[]>,
-    isFinishing: boolean = false
+    isFinishing: boolean = false,
+    closedBranches: ReadonlySet<string> = new Set()
   ): string | undefined {
     const thoughtCount = sessionThoughts.length;
     const advices: string[] = [];
@@ -82,9 +84,9 @@ export class CoachingService {
       const recentBranchIds = new Set(recentThoughts.filter((t) => t.branchId).map((t) => t.branchId));
 
       for (const branchId of branches.keys()) {
-        if (!recentBranchIds.has(branchId)) {
+        if (!recentBranchIds.has(branchId) && !closedBranches.has(branchId)) {
           advices.push(
-            `FORGOTTEN BRANCH: "${branchId}" untouched for 3+ thoughts. Integrate or close.`
+            `FORGOTTEN BRANCH: "${branchId}" untouched for 3+ thoughts. Integrate or close (think_branch).`
           );
           break;
         }
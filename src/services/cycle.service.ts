@@ -1,18 +1,45 @@
 import { promises as fs } from 'fs';
 import { calculateJaccardSimilarity, calculateWordEntropy } from '../utils/text-analysis.js';
+import { tokenizeForSearch } from '../utils/stemming.js';
 import {
   ensureThinkMcpDataDir,
   getThinkMcpDataFile,
 } from '../utils/storage-paths.js';
+import { withFileLock } from '../utils/file-lock.js';
+import { ExportService } from './export.service.js';
+import { VisualizationService } from './visualization.service.js';
 import { SESSION_TTL_HOURS } from '../constants/index.js';
+import {
+  createStorageBackend,
+  type StorageBackend,
+  type StoredState,
+  type StoreSnapshot,
+} from './storage.service.js';
 import type {
+  CycleAction,
+  CycleAnswerCheck,
   CycleBackendMode,
+  CycleBranchSelection,
+  CycleBranchSummary,
+  CycleConstraintItem,
+  CycleConstraintUpdate,
   CycleGate,
+  CycleGateProfile,
+  CycleGateThresholds,
+  CycleExportFormat,
+  CyclePhase,
+  CyclePhaseTimeline,
+  CycleQualityPoint,
+  CycleQualityWeights,
+  CycleJournalEvent,
   CycleReasonCode,
   CycleSession,
+  CycleSessionStatus,
+  CycleSessionSummary,
   CycleThoughtRecord,
   CycleThoughtType,
   ThinkCycleInput,
+  ThinkCycleListResult,
   ThinkCycleResult,
   ThoughtInput,
   ThinkingResult,
@@ -27,9 +54,33 @@ const CYCLE_MAX_MAX_LOOPS = 30;
 const CYCLE_REQUIRED_MIN = 10;
 const CYCLE_REQUIRED_MAX = 20;
 const QUALITY_GATE_THRESHOLD = 0.75;
+const CYCLE_PROFILES_FILE_NAME = 'cycle_profiles.json';
+const DEFAULT_GATE_PROFILE = 'standard';
+const GATE_PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
 const TRACE_SHORT_LIMIT = 3;
 const TRACE_LONG_LIMIT = 10;
 const SHORT_THOUGHT_MIN = 60;
+const CONSTRAINT_NOTE_LIMIT = 300;
+const CONSTRAINT_PROMPT_LIMIT = 3;
+// Branching (v5.6.0)
+const CYCLE_BRANCH_ID_LIMIT = 40;
+const CYCLE_HIGH_COMPLEXITY = 2;
+const CYCLE_MIN_ALTERNATIVES = 2;
+const BRANCH_EVALUATED_MIN_THOUGHTS = 2;
+const SELECTION_REASON_MIN = 20;
+const SELECTION_REASON_LIMIT = 500;
+// list / export (v5.6.0)
+const CYCLE_LIST_DEFAULT_LIMIT = 20;
+const CYCLE_LIST_MAX_LIMIT = 100;
+const CYCLE_SESSION_STATUSES: CycleSessionStatus[] = ['in_progress', 'blocked', 'ready', 'completed'];
+const CYCLE_EXPORT_FORMATS: CycleExportFormat[] = ['markdown', 'json', 'mermaid'];
+// Final answer cross-check (v5.6.0)
+const ANSWER_CONSTRAINT_MIN_MATCH = 0.5;
+const ANSWER_CONTRADICTION_OVERLAP = 0.6;
+const ANSWER_DRIFT_MIN_TERMS = 6;
+const ANSWER_DRIFT_MAX_NOVEL = 0.5;
+const ANSWER_NOVEL_TERMS_LIMIT = 10;
+const NEGATION_PATTERN = /(?<![\p{L}\p{N}])(?:not|no|never|without|cannot|avoid|skip|не|нет|без|никогда)(?![\p{L}\p{N}])|n't(?!\p{L})/iu;
 const CONTRADICTION_PATTERN = /contradict|conflict|however|but now|наоборот|противореч|однако|но при этом/i;
 const RISK_MARKERS = [
   'security',
@@ -42,6 +93,95 @@ const RISK_MARKERS = [
   'rollback',
 ];
 
+const ALL_PHASES: CyclePhase[] = ['decompose', 'alternative', 'critique', 'synthesis', 'verification'];
+
+const STANDARD_WEIGHTS: CycleQualityWeights = {
+  coverage: 0.3,
+  critique: 0.2,
+  verification: 0.2,
+  diversity: 0.2,
+  confidenceStability: 0.1,
+};
+
+/**
+ * Built-in gate profiles (v5.6.0). `standard` keeps the original gate;
+ * profiles in cycle_profiles.json override these by name.
+ */
+const BUILT_IN_GATE_PROFILES: Record<string, CycleGateProfile> = {
+  standard: {
+    name: 'standard',
+    description: 'Default gate for design and implementation work',
+    thresholds: {
+      overall: QUALITY_GATE_THRESHOLD,
+      critique: 0.6,
+      verification: 0.6,
+      diversity: 0.55,
+      confidenceStability: 0.45,
+      maxShortThoughtRatio: 0.35,
+    },
+    weights: STANDARD_WEIGHTS,
+    requiredPhases: ALL_PHASES,
+  },
+  strict: {
+    name: 'strict',
+    description: 'High-stakes changes: migrations, data integrity, production rollouts',
+    thresholds: {
+      overall: 0.85,
+      critique: 0.75,
+      verification: 0.75,
+      diversity: 0.6,
+      confidenceStability: 0.55,
+      maxShortThoughtRatio: 0.2,
+    },
+    weights: STANDARD_WEIGHTS,
+    requiredPhases: ALL_PHASES,
+  },
+  exploratory: {
+    name: 'exploratory',
+    description: 'Quick questions and option scouting - breadth over verification',
+    thresholds: {
+      overall: 0.6,
+      critique: 0.3,
+      verification: 0,
+      diversity: 0.6,
+      confidenceStability: 0.3,
+      maxShortThoughtRatio: 0.5,
+    },
+    weights: {
+      coverage: 0.3,
+      critique: 0.15,
+      verification: 0.1,
+      diversity: 0.35,
+      confidenceStability: 0.1,
+    },
+    requiredPhases: ['decompose', 'alternative', 'synthesis'],
+  },
+  'security-review': {
+    name: 'security-review',
+    description: 'Threat-focused review - weighs critique and verification',
+    thresholds: {
+      overall: 0.8,
+      critique: 0.8,
+      verification: 0.7,
+      diversity: 0.5,
+      confidenceStability: 0.5,
+      maxShortThoughtRatio: 0.3,
+    },
+    weights: {
+      coverage: 0.25,
+      critique: 0.3,
+      verification: 0.25,
+      diversity: 0.1,
+      confidenceStability: 0.1,
+    },
+    requiredPhases: ALL_PHASES,
+  },
+};
+
+interface CycleProfilesFile {
+  profiles?: Record<string, unknown>;
+}
+
 interface ThinkCycleBackend {
   processThought(input: ThoughtInput): ThinkingResult;
   resetSession?: () => Promise<unknown>;
@@ -51,6 +191,8 @@ interface CycleStore {
   schemaVersion: number;
   sessions: CycleSession[];
   savedAt: string;
+  /** Last journal event folded into this snapshot (v5.6.0) */
+  journalSeq?: number;
 }
 
 interface QualityDiagnostics {
@@ -107,6 +249,80 @@ function createEmptyPhaseCoverage() {
   };
 }
 
+function isCyclePhase(value: unknown): value is CyclePhase {
+  return typeof value === 'string' && (ALL_PHASES as string[]).includes(value);
+}
+
+/**
+ * Normalize a gate profile from config or a stored session (v5.6.0).
+ * Missing fields come from `base`; weights are rescaled to sum 1.
+ * Returns null when a value is out of range.
+ */
+export function normalizeGateProfile(name: string, raw: unknown, base: CycleGateProfile): CycleGateProfile | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const candidate = raw as Partial<Record<keyof CycleGateProfile, unknown>>;
+
+  const thresholds: CycleGateThresholds = { ...base.thresholds };
+  const rawThresholds = (candidate.thresholds ?? {}) as Record<string, unknown>;
+  for (const key of Object.keys(thresholds) as (keyof CycleGateThresholds)[]) {
+    const value = rawThresholds[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) return null;
+    thresholds[key] = value;
+  }
+
+  const weights: CycleQualityWeights = { ...base.weights };
+  const rawWeights = (candidate.weights ?? {}) as Record<string, unknown>;
+  for (const key of Object.keys(weights) as (keyof CycleQualityWeights)[]) {
+    const value = rawWeights[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+    weights[key] = value;
+  }
+  const weightSum = Object.values(weights).reduce((sum, value) => sum + value, 0);
+  if (weightSum <= 0) return null;
+  for (const key of Object.keys(weights) as (keyof CycleQualityWeights)[]) {
+    weights[key] = Math.round((weights[key] / weightSum) * 1000) / 1000;
+  }
+
+  let requiredPhases = [...base.requiredPhases];
+  if (candidate.requiredPhases !== undefined) {
+    if (!Array.isArray(candidate.requiredPhases) || !candidate.requiredPhases.every(isCyclePhase)) return null;
+    requiredPhases = ALL_PHASES.filter((phase) => (candidate.requiredPhases as CyclePhase[]).includes(phase));
+  }
+
+  const description = typeof candidate.description === 'string' && candidate.description.trim().length > 0
+    ? candidate.description.trim().slice(0, 200)
+    : base.description;
+
+  return { name, description, thresholds, weights, requiredPhases };
+}
+
+function isConstraintResolution(value: unknown): value is CycleConstraintUpdate['status'] {
+  return value === 'satisfied' || value === 'violated' || value === 'deferred';
+}
+
+function constraintLabel(item: CycleConstraintItem): string {
+  const text = item.text.length > 80 ? `${item.text.slice(0, 80)}...` : item.text;
+  return `#${item.index} "${text}"`;
+}
+
+/** Stems of content words, numbers dropped */
+function termStems(text: string): Set<string> {
+  return new Set(tokenizeForSearch(text).map((token) => token.stem).filter((stem) => !/^\d+$/.test(stem)));
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?;])\s+|\n+/).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/** Overlap coefficient: shared stems over the smaller set, so a short answer sentence can match a long step */
+function stemOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const intersection = [...a].filter((stem) => b.has(stem)).length;
+  return intersection / Math.min(a.size, b.size);
+}
+
 function missingPhaseReasonCode(key: keyof CycleSession['phaseCoverage']): CycleReasonCode {
   switch (key) {
     case 'decompose':
@@ -122,19 +338,50 @@ function missingPhaseReasonCode(key: keyof CycleSession['phaseCoverage']): Cycle
   }
 }
 
+export interface CycleServiceOptions {
+  /** Persist cycle sessions to the runtime data dir (default: true) */
+  persist?: boolean;
+  /** Persistence backend (default: selected by THINK_MCP_STORAGE) */
+  storage?: StorageBackend;
+  /** User gate profiles file (default: cycle_profiles.json in the data dir) (v5.6.0) */
+  profilesFile?: string;
+}
+
 export class CycleService {
   private sessions: Map<string, CycleSession> = new Map();
   private loaded = false;
   private fsLock: Promise<void> = Promise.resolve();
-
-  constructor(private readonly backend?: ThinkCycleBackend) {}
+  private readonly persist: boolean;
+  private readonly storage: StorageBackend;
+  private readonly profilesFile: string;
+  private readonly exportService = new ExportService();
+  private readonly visualizationService = new VisualizationService();
+  private journalSeq = 0;
+  /** Store revision seen at the last load, commit or sync (v5.6.0) */
+  private storeRevision = 0;
+  /** Cycle sessions changed in memory since the last commit - they win over external versions */
+  private dirtyIds: Set<string> = new Set();
+  /** Set after merging external changes over local ones: the journal no longer matches memory */
+  private snapshotRequired = false;
+  /** Events of changes not committed yet - kept across failed commits so history backends still get them */
+  private pendingEvents: CycleJournalEvent[] = [];
+
+  constructor(private readonly backend?: ThinkCycleBackend, options: CycleServiceOptions = {}) {
+    this.persist = options.persist ?? true;
+    this.storage = options.storage ?? createStorageBackend();
+    this.profilesFile = options.profilesFile ?? getThinkMcpDataFile(CYCLE_PROFILES_FILE_NAME);
+  }
 
   async initialize(): Promise<void> {
     await this.loadSessions();
   }
 
-  async handle(input: ThinkCycleInput): Promise<ThinkCycleResult> {
+  async handle(input: ThinkCycleInput & { action: 'list' }): Promise<ThinkCycleListResult>;
+  async handle(input: ThinkCycleInput & { action: Exclude<CycleAction, 'list'> }): Promise<ThinkCycleResult>;
+  async handle(input: ThinkCycleInput): Promise<ThinkCycleResult | ThinkCycleListResult>;
+  async handle(input: ThinkCycleInput): Promise<ThinkCycleResult | ThinkCycleListResult> {
     await this.loadSessions();
+    await this.syncExternalChanges();
     this.cleanupExpiredSessions();
 
     switch (input.action) {
@@ -148,11 +395,65 @@ export class CycleService {
         return this.finalize(input);
       case 'reset':
         return this.reset(input);
+      case 'select_branch':
+        return this.selectBranch(input);
+      case 'list':
+        return this.listSessions(input);
+      case 'export':
+        return this.exportSession(input);
+      case 'archive':
+        return this.archive(input);
       default:
         return this.errorResult('', 'INVALID_ACTION', 'Unsupported action');
     }
   }
 
+  /**
+   * Ids of live cycle sessions, most recently updated first (v5.6.0)
+   */
+  async listSessionIds(): Promise<string[]> {
+    await this.loadSessions();
+    this.cleanupExpiredSessions();
+    return Array.from(this.sessions.values())
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((session) => session.sessionId);
+  }
+
+  /**
+   * Built-in gate profiles merged with user profiles (v5.6.0).
+   * The config file is re-read on every call so edits apply to the next start.
+   * User profiles may `extend` another profile (default: standard) and override built-ins by name.
+   */
+  async listGateProfiles(): Promise<CycleGateProfile[]> {
+    const profiles = new Map(Object.entries(BUILT_IN_GATE_PROFILES));
+
+    let parsed: CycleProfilesFile | null = null;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.profilesFile, 'utf8')) as CycleProfilesFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read cycle gate profiles:', error);
+      }
+    }
+
+    const entries = parsed?.profiles && typeof parsed.profiles === 'object' ? Object.entries(parsed.profiles) : [];
+    for (const [rawName, rawProfile] of entries) {
+      const name = rawName.trim().toLowerCase();
+      const extendsName = (rawProfile as { extends?: unknown } | null)?.extends;
+      const base = profiles.get(typeof extendsName === 'string' ? extendsName.trim().toLowerCase() : DEFAULT_GATE_PROFILE);
+      const profile = GATE_PROFILE_NAME_PATTERN.test(name) && base
+        ? normalizeGateProfile(name, rawProfile, base)
+        : null;
+      if (!profile) {
+        console.error(`Skipping invalid cycle gate profile "${rawName}"`);
+        continue;
+      }
+      profiles.set(name, profile);
+    }
+
+    return Array.from(profiles.values());
+  }
+
   private async withFsLock<T>(operation: () => Promise<T>): Promise<T> {
     const currentLock = this.fsLock;
     let releaseLock: () => void;
@@ -170,10 +471,32 @@ export class CycleService {
 
   private async loadSessions(): Promise<void> {
     if (this.loaded) return;
+    if (!this.persist) {
+      this.loaded = true;
+      return;
+    }
 
+    let stored: StoredState<CycleStore, CycleJournalEvent> = { snapshot: null, events: [], revision: 0 };
     try {
-      const raw = await fs.readFile(CYCLE_FILE_PATH, 'utf8');
-      const parsed = JSON.parse(raw) as Partial<CycleStore>;
+      stored = await this.storage.load<CycleStore, CycleJournalEvent>(CYCLE_FILE_PATH, this.snapshot());
+    } catch (error) {
+      console.error('Failed to load cycle storage:', error);
+    }
+    this.restoreStored(stored);
+    this.storeRevision = stored.revision;
+
+    this.cleanupExpiredSessions();
+    this.loaded = true;
+  }
+
+  /**
+   * Rebuild sessions from a snapshot plus journal events newer than it
+   */
+  private restoreStored(stored: StoredState<CycleStore, CycleJournalEvent>): void {
+    this.sessions = new Map();
+    this.journalSeq = 0;
+    if (stored.snapshot) {
+      const parsed: Partial<CycleStore> = stored.snapshot;
       const loadedSessions = Array.isArray(parsed.sessions) ? parsed.sessions : [];
 
       for (const session of loadedSessions) {
@@ -182,12 +505,51 @@ export class CycleService {
           this.sessions.set(normalized.sessionId, normalized);
         }
       }
-    } catch {
-      // Start with empty state if file does not exist or is invalid.
+      this.journalSeq = Number.isInteger(parsed.journalSeq) ? Number(parsed.journalSeq) : 0;
     }
 
-    this.cleanupExpiredSessions();
-    this.loaded = true;
+    // v5.6.0: Replay journal events newer than the snapshot
+    for (const event of stored.events) {
+      if (event.seq <= this.journalSeq) continue;
+      this.journalSeq = event.seq;
+      this.applyJournalEvent(event);
+    }
+  }
+
+  /**
+   * Reload cycle sessions written by other processes sharing the data dir (v5.6.0)
+   * Returns true when external changes were merged
+   */
+  async syncExternalChanges(): Promise<boolean> {
+    if (!this.persist) return false;
+    // Cheap unlocked check first - the locked re-check below decides
+    if (await this.storage.readRevision(CYCLE_FILE_PATH) === this.storeRevision) return false;
+    return this.withFsLock(() => withFileLock(CYCLE_FILE_PATH, () => this.syncSessionsLocked()));
+  }
+
+  /**
+   * Reload the store when its revision moved; sessions changed locally keep the local version.
+   * Caller holds both locks.
+   */
+  private async syncSessionsLocked(): Promise<boolean> {
+    const revision = await this.storage.readRevision(CYCLE_FILE_PATH);
+    if (revision === this.storeRevision) return false;
+
+    const stored = await this.storage.load<CycleStore, CycleJournalEvent>(CYCLE_FILE_PATH, this.snapshot());
+    const local = this.sessions;
+    const localSeq = this.journalSeq;
+    this.restoreStored(stored);
+    this.journalSeq = Math.max(this.journalSeq, localSeq);
+    for (const sessionId of this.dirtyIds) {
+      const ours = local.get(sessionId);
+      if (ours) this.sessions.set(sessionId, ours);
+      else this.sessions.delete(sessionId);
+    }
+
+    this.storeRevision = revision;
+    if (this.dirtyIds.size > 0) this.snapshotRequired = true;
+    console.error(`🔄 Cycle sessions changed by another process (revision ${revision}), merged`);
+    return true;
   }
 
   private normalizeSession(raw: unknown): CycleSession | null {
@@ -197,6 +559,10 @@ export class CycleService {
     if (typeof candidate.goal !== 'string' || candidate.goal.trim().length < 10) return null;
     if (!Array.isArray(candidate.thoughts)) return null;
 
+    const constraints = Array.isArray(candidate.constraints)
+      ? candidate.constraints.filter((c): c is string => typeof c === 'string').slice(0, 20)
+      : [];
+
     const thoughts: CycleThoughtRecord[] = candidate.thoughts
       .filter((item): item is CycleThoughtRecord => !!item && typeof item === 'object')
       .map((item) => {
@@ -211,15 +577,16 @@ export class CycleService {
           thoughtType,
           confidence,
           timestamp: Number.isFinite(item.timestamp) ? item.timestamp : Date.now(),
+          constraintUpdates: this.normalizeConstraintUpdates(item.constraintUpdates, constraints.length) ?? undefined,
+          branchId: typeof item.branchId === 'string' && item.branchId.trim().length > 0
+            ? item.branchId.trim().slice(0, CYCLE_BRANCH_ID_LIMIT)
+            : undefined,
+          parentIndex: Number.isInteger(item.parentIndex) && item.parentIndex! > 0 ? item.parentIndex : undefined,
         };
       })
       .filter((item) => item.thought.trim().length > 0)
       .map((item, idx) => ({ ...item, index: idx + 1 }));
 
-    const constraints = Array.isArray(candidate.constraints)
-      ? candidate.constraints.filter((c): c is string => typeof c === 'string').slice(0, 20)
-      : [];
-
     const maxLoopsRaw =
       typeof candidate.maxLoops === 'number' && Number.isFinite(candidate.maxLoops)
         ? candidate.maxLoops
@@ -234,6 +601,14 @@ export class CycleService {
 
     const mode = this.isBackendMode(candidate.backendMode) ? candidate.backendMode : 'auto';
 
+    // Sessions saved before v5.6.0 ran on the standard gate
+    const standard = BUILT_IN_GATE_PROFILES[DEFAULT_GATE_PROFILE];
+    const storedProfile = candidate.gateProfile as Partial<CycleGateProfile> | undefined;
+    const profileName = typeof storedProfile?.name === 'string' && GATE_PROFILE_NAME_PATTERN.test(storedProfile.name)
+      ? storedProfile.name
+      : DEFAULT_GATE_PROFILE;
+    const gateProfile = normalizeGateProfile(profileName, storedProfile, standard) ?? standard;
+
     const session: CycleSession = {
       sessionId: candidate.sessionId,
       goal: candidate.goal,
@@ -246,38 +621,146 @@ export class CycleService {
       backendMode: mode,
       thoughts,
       phaseCoverage: createEmptyPhaseCoverage(),
+      constraintChecklist: [],
+      selectedBranch: this.normalizeSelection(candidate.selectedBranch),
+      completedAt: Number.isFinite(candidate.completedAt) ? Number(candidate.completedAt) : undefined,
+      finalApprovedAnswer: typeof candidate.finalApprovedAnswer === 'string' ? candidate.finalApprovedAnswer : undefined,
+      archivedAt: Number.isFinite(candidate.archivedAt) ? Number(candidate.archivedAt) : undefined,
       interopFallback: Boolean(candidate.interopFallback),
+      gateProfile,
     };
 
     session.phaseCoverage = this.computePhaseCoverage(session.thoughts);
+    session.constraintChecklist = this.computeConstraintChecklist(session.constraints, session.thoughts);
     return session;
   }
 
-  private async saveSessions(): Promise<void> {
-    await this.withFsLock(async () => {
-      await ensureThinkMcpDataDir();
-
-      const data: CycleStore = {
-        schemaVersion: CYCLE_SCHEMA_VERSION,
-        sessions: Array.from(this.sessions.values()),
-        savedAt: new Date().toISOString(),
-      };
+  private applyJournalEvent(event: CycleJournalEvent): void {
+    switch (event.type) {
+      case 'cycle_start': {
+        const session = this.normalizeSession(event.session);
+        if (session) this.sessions.set(session.sessionId, session);
+        break;
+      }
+      case 'cycle_step': {
+        const session = this.sessions.get(event.sessionId);
+        if (!session || !event.record || typeof event.record.thought !== 'string') break;
+        session.thoughts.push(event.record);
+        session.phaseCoverage = this.computePhaseCoverage(session.thoughts);
+        session.constraintChecklist = this.computeConstraintChecklist(session.constraints, session.thoughts);
+        this.reopen(session);
+        session.interopFallback = Boolean(event.interopFallback);
+        session.updatedAt = Number.isFinite(event.record.timestamp) ? event.record.timestamp : session.updatedAt;
+        break;
+      }
+      case 'cycle_reset':
+        this.sessions.delete(event.sessionId);
+        break;
+      case 'cycle_select_branch': {
+        const session = this.sessions.get(event.sessionId);
+        const selection = this.normalizeSelection(event.selection);
+        if (!session || !selection) break;
+        session.selectedBranch = selection;
+        this.reopen(session);
+        session.updatedAt = selection.timestamp;
+        break;
+      }
+      case 'cycle_complete': {
+        const session = this.sessions.get(event.sessionId);
+        if (!session || typeof event.finalApprovedAnswer !== 'string') break;
+        session.completedAt = Number.isFinite(event.completedAt) ? event.completedAt : Date.now();
+        session.finalApprovedAnswer = event.finalApprovedAnswer;
+        session.updatedAt = session.completedAt;
+        break;
+      }
+      case 'cycle_archive': {
+        const session = this.sessions.get(event.sessionId);
+        if (session) session.archivedAt = Number.isFinite(event.archivedAt) ? event.archivedAt : Date.now();
+        break;
+      }
+    }
+  }
 
-      const tempFile = `${CYCLE_FILE_PATH}.tmp`;
+  /**
+   * Persist a change. v5.6.0: `events` are appended by the JSONL backend,
+   * the JSON backend rewrites the whole file. Commits hold a cross-process
+   * file lock and merge writes made by other processes first.
+   */
+  private async saveSessions(events: CycleJournalEvent[] = []): Promise<void> {
+    if (!this.persist) return;
+    this.pendingEvents.push(...events);
+    for (const event of events) {
+      this.dirtyIds.add(event.type === 'cycle_start' ? event.session.sessionId : event.sessionId);
+    }
+    const structural = events.length === 0;
+    await this.withFsLock(async () => {
       try {
-        await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf8');
-        await fs.rename(tempFile, CYCLE_FILE_PATH);
+        await withFileLock(CYCLE_FILE_PATH, async () => {
+          await this.syncSessionsLocked();
+          const batch = this.pendingEvents.splice(0);
+          if (!structural && !this.snapshotRequired && batch.length === 0) return; // Covered by an earlier commit
+          const revision = this.storeRevision + 1;
+          const seqBefore = this.journalSeq;
+          for (const event of batch) event.seq = ++this.journalSeq;
+          try {
+            await this.storage.commit(CYCLE_FILE_PATH, batch, this.snapshot(), revision, structural || this.snapshotRequired);
+          } catch (error) {
+            // Keep the changes pending for the next commit
+            this.pendingEvents.unshift(...batch);
+            this.journalSeq = seqBefore;
+            throw error;
+          }
+          this.storeRevision = revision;
+          this.dirtyIds.clear();
+          this.snapshotRequired = false;
+        });
       } catch (error) {
-        try { await fs.unlink(tempFile); } catch { /* ignore */ }
         console.error('Failed to save cycle sessions:', error);
       }
     });
   }
 
+  private snapshot(): StoreSnapshot<CycleStore> {
+    return {
+      build: () => ({
+        schemaVersion: CYCLE_SCHEMA_VERSION,
+        sessions: Array.from(this.sessions.values()),
+        savedAt: new Date().toISOString(),
+        journalSeq: this.journalSeq,
+      }),
+      writeFile: (data) => this.writeSnapshot(data),
+      readFile: () => this.readSnapshot(),
+    };
+  }
+
+  private async writeSnapshot(data: CycleStore): Promise<void> {
+    await ensureThinkMcpDataDir();
+
+    const tempFile = `${CYCLE_FILE_PATH}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tempFile, CYCLE_FILE_PATH);
+    } catch (error) {
+      try { await fs.unlink(tempFile); } catch { /* ignore */ }
+      throw error;
+    }
+  }
+
+  private async readSnapshot(): Promise<CycleStore | null> {
+    try {
+      const raw = await fs.readFile(CYCLE_FILE_PATH, 'utf8');
+      return JSON.parse(raw) as CycleStore;
+    } catch {
+      // Start with empty state if file does not exist or is invalid.
+      return null;
+    }
+  }
+
   private cleanupExpiredSessions(): void {
     const maxAgeMs = SESSION_TTL_HOURS * 60 * 60 * 1000;
     const now = Date.now();
     for (const [id, session] of this.sessions.entries()) {
+      if (session.archivedAt) continue; // v5.6.0: archived cycles are kept until reset
       if (now - session.updatedAt > maxAgeMs) {
         this.sessions.delete(id);
       }
@@ -295,6 +778,14 @@ export class CycleService {
       .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
       .slice(0, 20);
 
+    const profileName = input.profile?.trim().toLowerCase() || DEFAULT_GATE_PROFILE;
+    const profiles = await this.listGateProfiles();
+    const gateProfile = profiles.find((profile) => profile.name === profileName);
+    if (!gateProfile) {
+      return this.errorResult('', 'INVALID_INPUT',
+        `Unknown gate profile "${profileName}". Available: ${profiles.map((profile) => profile.name).join(', ')}`);
+    }
+
     const backendMode = this.isBackendMode(input.backendMode) ? input.backendMode : 'auto';
     const maxLoopsRaw =
       typeof input.maxLoops === 'number' && Number.isFinite(input.maxLoops)
@@ -318,7 +809,9 @@ export class CycleService {
       backendMode,
       thoughts: [],
       phaseCoverage: createEmptyPhaseCoverage(),
+      constraintChecklist: this.computeConstraintChecklist(constraints, []),
       interopFallback: false,
+      gateProfile: structuredClone(gateProfile),
     };
 
     if (backendMode !== 'independent') {
@@ -332,7 +825,7 @@ export class CycleService {
     }
 
     this.sessions.set(sessionId, session);
-    await this.saveSessions();
+    await this.saveSessions([{ seq: 0, type: 'cycle_start', session: structuredClone(session) }]);
 
     return this.buildSnapshot(session, {
       expandedTrace: input.showTrace === true,
@@ -351,11 +844,26 @@ export class CycleService {
       return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
     }
 
+    if (session.archivedAt) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', 'Archived cycles are read-only');
+    }
+
     const thought = input.thought?.trim();
     if (!thought || thought.length < 20) {
       return this.errorResult(sessionId, 'INVALID_INPUT', 'thought is required (min 20 chars)');
     }
 
+    const constraintUpdates = this.normalizeConstraintUpdates(input.constraintUpdates, session.constraints.length);
+    if (constraintUpdates === null) {
+      return this.errorResult(sessionId, 'INVALID_INPUT',
+        `constraintUpdates need constraint 1-${session.constraints.length} and status satisfied, violated or deferred`);
+    }
+
+    const placement = this.resolveBranchPlacement(session, input);
+    if (placement.error) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', placement.error);
+    }
+
     if (session.thoughts.length >= session.maxLoops) {
       const blocked = this.buildSnapshot(session, {
         expandedTrace: input.showTrace === true,
@@ -378,7 +886,7 @@ export class CycleService {
         : undefined;
 
     if (session.backendMode !== 'independent') {
-      const sync = this.mirrorStepToThinkBackend(session, thought, thoughtType, confidence);
+      const sync = this.mirrorStepToThinkBackend(session, thought, thoughtType, confidence, placement);
       if (!sync.ok && session.backendMode === 'think') {
         return this.errorResult(session.sessionId, 'INTEROP_BACKEND_ERROR', sync.message ?? 'think backend rejected step');
       }
@@ -393,12 +901,23 @@ export class CycleService {
       thoughtType,
       confidence,
       timestamp: Date.now(),
+      constraintUpdates,
+      branchId: placement.branchId,
+      parentIndex: placement.parentIndex,
     };
     session.thoughts.push(record);
     session.phaseCoverage = this.computePhaseCoverage(session.thoughts);
+    session.constraintChecklist = this.computeConstraintChecklist(session.constraints, session.thoughts);
+    this.reopen(session);
     session.updatedAt = Date.now();
     this.sessions.set(session.sessionId, session);
-    await this.saveSessions();
+    await this.saveSessions([{
+      seq: 0, // Assigned on commit
+      type: 'cycle_step',
+      sessionId: session.sessionId,
+      record: { ...record },
+      interopFallback: session.interopFallback,
+    }]);
 
     return this.buildSnapshot(session, {
       expandedTrace: input.showTrace === true,
@@ -429,6 +948,10 @@ export class CycleService {
       return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
     }
 
+    if (session.archivedAt) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', 'Archived cycles are read-only');
+    }
+
     const finalAnswer = input.finalAnswer?.trim();
     if (!finalAnswer || finalAnswer.length < 30) {
       return this.errorResult(sessionId, 'INVALID_INPUT', 'finalAnswer is required (min 30 chars)');
@@ -437,21 +960,86 @@ export class CycleService {
     const snapshot = this.buildSnapshot(session, {
       expandedTrace: input.showTrace === true,
     });
+    const answerCheck = this.verifyFinalAnswer(session, finalAnswer);
+    snapshot.answerCheck = answerCheck;
 
-    if (snapshot.gate.passed) {
+    if (snapshot.gate.passed && answerCheck.passed) {
       snapshot.status = 'completed';
       snapshot.requiredMoreThoughts = 0;
       snapshot.nextPrompts = [];
       snapshot.finalApprovedAnswer = finalAnswer;
+      session.completedAt = Date.now();
+      session.finalApprovedAnswer = finalAnswer;
+      session.updatedAt = session.completedAt;
+      await this.saveSessions([{
+        seq: 0,
+        type: 'cycle_complete',
+        sessionId,
+        finalApprovedAnswer: finalAnswer,
+        completedAt: session.completedAt,
+      }]);
       return snapshot;
     }
 
     snapshot.status = 'blocked';
-    snapshot.requiredMoreThoughts = this.computeRequiredMoreThoughts(session, snapshot.gate.reasonCodes, snapshot.quality);
-    snapshot.nextPrompts = this.generateNextPrompts(snapshot.gate.reasonCodes, snapshot.quality, session, snapshot.requiredMoreThoughts);
+    const answerCodes = this.answerReasonCodes(answerCheck);
+    if (snapshot.gate.passed) {
+      // The reasoning passed - only the answer needs rework, not more thoughts
+      snapshot.gate = { passed: false, reasonCodes: answerCodes };
+      snapshot.requiredMoreThoughts = 0;
+    } else {
+      snapshot.gate.reasonCodes.push(...answerCodes);
+      snapshot.requiredMoreThoughts = this.computeRequiredMoreThoughts(session, snapshot.gate.reasonCodes, snapshot.quality);
+    }
+    snapshot.nextPrompts = this.generateNextPrompts(
+      snapshot.gate.reasonCodes, snapshot.quality, session, snapshot.requiredMoreThoughts, answerCheck
+    );
     return snapshot;
   }
 
+  /**
+   * Record which alternative branch won and why (v5.6.0); the latest selection wins
+   */
+  private async selectBranch(input: ThinkCycleInput): Promise<ThinkCycleResult> {
+    const sessionId = input.sessionId?.trim();
+    if (!sessionId) {
+      return this.errorResult('', 'INVALID_INPUT', 'sessionId is required for select_branch');
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
+    }
+
+    if (session.archivedAt) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', 'Archived cycles are read-only');
+    }
+
+    const branchId = input.branchId?.trim();
+    const branchIds = [...new Set(session.thoughts.map((t) => t.branchId).filter((id): id is string => !!id))];
+    if (!branchId || !branchIds.includes(branchId)) {
+      return this.errorResult(sessionId, 'INVALID_INPUT',
+        `branchId must name a branch of this session. Available: ${branchIds.join(', ') || 'none'}`);
+    }
+    const reason = input.reason?.trim();
+    if (!reason || reason.length < SELECTION_REASON_MIN) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', `reason is required (min ${SELECTION_REASON_MIN} chars): why this option won`);
+    }
+
+    const selection: CycleBranchSelection = {
+      branchId,
+      reason: reason.slice(0, SELECTION_REASON_LIMIT),
+      timestamp: Date.now(),
+    };
+    session.selectedBranch = selection;
+    this.reopen(session);
+    session.updatedAt = selection.timestamp;
+    await this.saveSessions([{ seq: 0, type: 'cycle_select_branch', sessionId, selection: { ...selection } }]);
+
+    return this.buildSnapshot(session, {
+      expandedTrace: input.showTrace === true,
+    });
+  }
+
   private async reset(input: ThinkCycleInput): Promise<ThinkCycleResult> {
     const sessionId = input.sessionId?.trim();
     if (!sessionId) {
@@ -460,26 +1048,102 @@ export class CycleService {
 
     const existed = this.sessions.delete(sessionId);
     if (existed) {
-      await this.saveSessions();
-      return {
-        status: 'completed',
-        sessionId,
-        loop: { ...EMPTY_LOOP, current: 0, remaining: 0 },
-        quality: { ...EMPTY_QUALITY },
-        kpi: { ...EMPTY_KPI },
-        gate: { passed: true, reasonCodes: [] },
-        requiredMoreThoughts: 0,
-        nextPrompts: [],
-        shortTrace: [],
-      };
+      await this.saveSessions([{ seq: 0, type: 'cycle_reset', sessionId }]);
+      return this.infoResult(sessionId);
     }
 
     return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
   }
 
+  /**
+   * Live and archived cycles, most recently updated first (v5.6.0)
+   */
+  private async listSessions(input: ThinkCycleInput): Promise<ThinkCycleListResult> {
+    if (input.statusFilter !== undefined && !CYCLE_SESSION_STATUSES.includes(input.statusFilter)) {
+      return { status: 'error', sessions: [], errorMessage: `statusFilter must be one of ${CYCLE_SESSION_STATUSES.join(', ')}` };
+    }
+    const goalFilter = input.goalFilter?.trim().toLowerCase();
+    const includeArchived = input.includeArchived ?? true;
+    const limitRaw = typeof input.limit === 'number' && Number.isFinite(input.limit) ? input.limit : CYCLE_LIST_DEFAULT_LIMIT;
+    const limit = clamp(Math.floor(limitRaw), 1, CYCLE_LIST_MAX_LIMIT);
+
+    const sessions = Array.from(this.sessions.values())
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .filter((session) => includeArchived || !session.archivedAt)
+      .filter((session) => !goalFilter || session.goal.toLowerCase().includes(goalFilter))
+      .map((session) => this.summarizeSession(session))
+      .filter((summary) => !input.statusFilter || summary.status === input.statusFilter)
+      .slice(0, limit);
+
+    return { status: 'info', sessions };
+  }
+
+  /**
+   * Report with phase timeline, quality history and final approved answer (v5.6.0)
+   */
+  private async exportSession(input: ThinkCycleInput): Promise<ThinkCycleResult> {
+    const sessionId = input.sessionId?.trim();
+    if (!sessionId) {
+      return this.errorResult('', 'INVALID_INPUT', 'sessionId is required for export');
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
+    }
+    const format = input.format ?? 'markdown';
+    if (!CYCLE_EXPORT_FORMATS.includes(format)) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', `format must be one of ${CYCLE_EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const snapshot = this.buildSnapshot(session, { expandedTrace: input.showTrace === true });
+    const mermaidDiagram = this.visualizationService.generateCycleMermaid(
+      session.thoughts, session.selectedBranch?.branchId, session.completedAt !== undefined
+    );
+    const report = format === 'mermaid'
+      ? mermaidDiagram
+      : this.exportService.exportCycle({
+          session,
+          status: snapshot.status as CycleSessionStatus,
+          quality: snapshot.quality,
+          gate: snapshot.gate,
+          branches: snapshot.branches ?? [],
+          qualityHistory: this.buildQualityHistory(session),
+          phaseTimeline: this.buildPhaseTimeline(session),
+          mermaidDiagram,
+        }, format);
+
+    return { ...snapshot, report };
+  }
+
+  /**
+   * Keep a completed cycle out of TTL cleanup (v5.6.0); only reset removes it
+   */
+  private async archive(input: ThinkCycleInput): Promise<ThinkCycleResult> {
+    const sessionId = input.sessionId?.trim();
+    if (!sessionId) {
+      return this.errorResult('', 'INVALID_INPUT', 'sessionId is required for archive');
+    }
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return this.errorResult(sessionId, 'SESSION_NOT_FOUND', 'Session not found');
+    }
+    if (!session.completedAt) {
+      return this.errorResult(sessionId, 'INVALID_INPUT', 'Only completed cycles can be archived - finalize first');
+    }
+
+    if (!session.archivedAt) {
+      session.archivedAt = Date.now();
+      await this.saveSessions([{ seq: 0, type: 'cycle_archive', sessionId, archivedAt: session.archivedAt }]);
+    }
+    return this.buildSnapshot(session, {
+      expandedTrace: input.showTrace === true,
+    });
+  }
+
   private buildSnapshot(session: CycleSession, options: SnapshotOptions): ThinkCycleResult {
     const diagnostics = this.computeQuality(session);
-    const gate = options.forcedGate ?? this.evaluateGate(session, diagnostics);
+    const branches = this.buildBranchSummaries(session);
+    const gate = options.forcedGate ?? this.evaluateGate(session, diagnostics, branches);
     const loop = {
       current: session.thoughts.length,
       max: session.maxLoops,
@@ -505,21 +1169,27 @@ export class CycleService {
       quality: diagnostics.quality,
       kpi,
       gate,
+      profile: session.gateProfile.name,
+      constraints: session.constraintChecklist.map((item) => ({ ...item })),
+      branches,
+      selectedBranch: session.selectedBranch ? { ...session.selectedBranch } : undefined,
       requiredMoreThoughts,
       nextPrompts,
       shortTrace,
-      finalApprovedAnswer: options.finalApprovedAnswer,
+      finalApprovedAnswer: options.finalApprovedAnswer ?? session.finalApprovedAnswer,
+      archived: session.archivedAt ? true : undefined,
       interopFallback: session.interopFallback,
     };
   }
 
   private deriveStatus(gate: CycleGate, session: CycleSession): ThinkCycleResult['status'] {
+    if (session.completedAt) return 'completed';
     if (gate.passed) return 'ready';
     if (session.thoughts.length >= session.maxLoops) return 'blocked';
     return 'in_progress';
   }
 
-  private evaluateGate(session: CycleSession, diagnostics: QualityDiagnostics): CycleGate {
+  private evaluateGate(session: CycleSession, diagnostics: QualityDiagnostics, branches: CycleBranchSummary[]): CycleGate {
     const reasonCodes: CycleReasonCode[] = [];
     const thoughtCount = session.thoughts.length;
 
@@ -527,40 +1197,46 @@ export class CycleService {
       reasonCodes.push('BELOW_REQUIRED_THOUGHTS');
     }
 
-    const requiredPhases: (keyof CycleSession['phaseCoverage'])[] = [
-      'decompose',
-      'alternative',
-      'critique',
-      'synthesis',
-      'verification',
-    ];
+    const { thresholds, requiredPhases } = session.gateProfile;
     for (const phase of requiredPhases) {
       if (!session.phaseCoverage[phase]) {
         reasonCodes.push(missingPhaseReasonCode(phase));
       }
     }
 
-    if (diagnostics.quality.overall < QUALITY_GATE_THRESHOLD) {
+    if (diagnostics.quality.overall < thresholds.overall) {
       reasonCodes.push('LOW_OVERALL_QUALITY');
     }
-    if (diagnostics.quality.critique < 0.6) {
+    if (diagnostics.quality.critique < thresholds.critique) {
       reasonCodes.push('LOW_CRITIQUE_DEPTH');
     }
-    if (diagnostics.quality.verification < 0.6) {
+    if (diagnostics.quality.verification < thresholds.verification) {
       reasonCodes.push('LOW_VERIFICATION_DEPTH');
     }
-    if (diagnostics.quality.diversity < 0.55) {
+    if (diagnostics.quality.diversity < thresholds.diversity) {
       reasonCodes.push('LOW_DIVERSITY');
     }
-    if (diagnostics.quality.confidenceStability < 0.45) {
+    if (diagnostics.quality.confidenceStability < thresholds.confidenceStability) {
       reasonCodes.push('LOW_CONFIDENCE_STABILITY');
     }
-    if (diagnostics.shortThoughtRatio > 0.35) {
+    if (diagnostics.shortThoughtRatio > thresholds.maxShortThoughtRatio) {
       reasonCodes.push('TOO_MANY_SHORT_THOUGHTS');
     }
     if (diagnostics.contradictionSignals >= 2) {
       reasonCodes.push('CONTRADICTION_SIGNAL');
     }
+    if (session.constraintChecklist.some((item) => item.status === 'open')) {
+      reasonCodes.push('UNADDRESSED_CONSTRAINT');
+    }
+    if (session.constraintChecklist.some((item) => item.status === 'violated')) {
+      reasonCodes.push('CONSTRAINT_VIOLATED');
+    }
+    if (this.isHighComplexity(session) && branches.filter((b) => b.evaluated).length < CYCLE_MIN_ALTERNATIVES) {
+      reasonCodes.push('INSUFFICIENT_ALTERNATIVES');
+    }
+    if (branches.length >= 2 && !session.selectedBranch) {
+      reasonCodes.push('BRANCH_NOT_SELECTED');
+    }
     if (thoughtCount >= session.maxLoops && reasonCodes.length > 0) {
       reasonCodes.push('MAX_LOOPS_REACHED');
     }
@@ -582,8 +1258,10 @@ export class CycleService {
       };
     }
 
-    const phaseCount = Object.values(session.phaseCoverage).filter(Boolean).length;
-    const coverage = phaseCount / 5;
+    // Coverage counts the phases the gate profile requires
+    const { requiredPhases } = session.gateProfile;
+    const phaseCount = requiredPhases.filter((phase) => session.phaseCoverage[phase]).length;
+    const coverage = requiredPhases.length > 0 ? phaseCount / requiredPhases.length : 1;
 
     const critiqueCount = session.thoughts.filter((t) => t.thoughtType === 'critique' || t.thoughtType === 'revision').length;
     const critiqueTarget = Math.max(1, Math.ceil(thoughtCount * 0.2));
@@ -612,12 +1290,13 @@ export class CycleService {
       session.thoughts.filter((t) => t.thought.length < SHORT_THOUGHT_MIN).length / thoughtCount;
     const contradictionSignals = session.thoughts.filter((t) => CONTRADICTION_PATTERN.test(t.thought)).length;
 
+    const { weights } = session.gateProfile;
     let overall =
-      coverage * 0.3 +
-      critique * 0.2 +
-      verification * 0.2 +
-      diversity * 0.2 +
-      confidenceStability * 0.1;
+      coverage * weights.coverage +
+      critique * weights.critique +
+      verification * weights.verification +
+      diversity * weights.diversity +
+      confidenceStability * weights.confidenceStability;
 
     overall -= shortThoughtRatio * 0.2;
     if (duplicateRatio > 0.4) {
@@ -694,6 +1373,9 @@ export class CycleService {
     if (reasonCodes.includes('LOW_VERIFICATION_DEPTH')) boost += 3;
     if (reasonCodes.includes('LOW_DIVERSITY')) boost += 3;
     if (reasonCodes.includes('LOW_OVERALL_QUALITY')) boost += 2;
+    if (reasonCodes.includes('UNADDRESSED_CONSTRAINT')) boost += 2;
+    if (reasonCodes.includes('CONSTRAINT_VIOLATED')) boost += 3;
+    if (reasonCodes.includes('INSUFFICIENT_ALTERNATIVES')) boost += 3;
     if (quality.coverage < 0.4) boost += 2;
     return clamp(boost, 0, 15);
   }
@@ -702,7 +1384,8 @@ export class CycleService {
     reasonCodes: CycleReasonCode[],
     quality: ThinkCycleResult['quality'],
     session: CycleSession,
-    requiredMoreThoughts: number
+    requiredMoreThoughts: number,
+    answerCheck?: CycleAnswerCheck
   ): string[] {
     const prompts: string[] = [];
 
@@ -710,12 +1393,50 @@ export class CycleService {
       prompts.push(`Continue with at least ${requiredMoreThoughts} additional thoughts before finalizing.`);
     }
 
+    if (answerCheck) {
+      for (const index of answerCheck.missingConstraints.slice(0, CONSTRAINT_PROMPT_LIMIT)) {
+        const item = session.constraintChecklist[index - 1];
+        if (item) prompts.push(`State in the final answer how it meets constraint ${constraintLabel(item)}.`);
+      }
+      for (const contradiction of answerCheck.contradictions.slice(0, 2)) {
+        prompts.push(`Final answer contradicts step #${contradiction.stepIndex} ("${contradiction.excerpt}"): align the answer or revise that step first.`);
+      }
+      if (reasonCodes.includes('ANSWER_DRIFT')) {
+        prompts.push(`Final answer introduces claims absent from the reasoning (${answerCheck.novelTerms.slice(0, 5).join(', ')}): reason about them in steps or drop them.`);
+      }
+    }
+
     if (reasonCodes.includes('MAX_LOOPS_REACHED')) {
       prompts.push('Split the goal into a smaller scope and start a new cycle session.');
       prompts.push('Preserve only top risks/decisions and continue in a focused follow-up session.');
       return prompts.slice(0, 10);
     }
 
+    // Name the constraints first so the 10-prompt cap never hides them
+    if (reasonCodes.includes('CONSTRAINT_VIOLATED')) {
+      for (const item of session.constraintChecklist.filter((c) => c.status === 'violated').slice(0, CONSTRAINT_PROMPT_LIMIT)) {
+        prompts.push(`Constraint ${constraintLabel(item)} is violated: revise the plan until a step marks it satisfied, or defer it with a reason.`);
+      }
+    }
+    if (reasonCodes.includes('UNADDRESSED_CONSTRAINT')) {
+      const open = session.constraintChecklist.filter((c) => c.status === 'open');
+      for (const item of open.slice(0, CONSTRAINT_PROMPT_LIMIT)) {
+        prompts.push(`Address constraint ${constraintLabel(item)}: mark it satisfied, violated or deferred via constraintUpdates in a step.`);
+      }
+      if (open.length > CONSTRAINT_PROMPT_LIMIT) {
+        prompts.push(`${open.length - CONSTRAINT_PROMPT_LIMIT} more constraints are still open - check the constraints checklist.`);
+      }
+    }
+
+    if (reasonCodes.includes('INSUFFICIENT_ALTERNATIVES')) {
+      const evaluated = this.buildBranchSummaries(session).filter((b) => b.evaluated).length;
+      prompts.push(`High-complexity goal: explore at least ${CYCLE_MIN_ALTERNATIVES} alternatives as branches (step with branchId), each with a critique or verification step (${evaluated} evaluated so far).`);
+    }
+    if (reasonCodes.includes('BRANCH_NOT_SELECTED')) {
+      const ids = this.buildBranchSummaries(session).map((b) => b.branchId).join(', ');
+      prompts.push(`Compare branches ${ids} and call select_branch with the winning branchId and why it won.`);
+    }
+
     if (reasonCodes.includes('MISSING_PHASE_DECOMPOSE')) {
       prompts.push('Decompose the goal into concrete sub-problems, dependencies, and execution order.');
     }
@@ -743,12 +1464,13 @@ export class CycleService {
     if (reasonCodes.includes('LOW_CONFIDENCE_STABILITY')) {
       prompts.push('Stabilize confidence by validating uncertain parts before introducing new branches.');
     }
-    if (reasonCodes.includes('LOW_OVERALL_QUALITY') && quality.overall < 0.75) {
-      prompts.push('Run one focused refinement pass to improve quality score above 0.75.');
+    const overallThreshold = session.gateProfile.thresholds.overall;
+    if (reasonCodes.includes('LOW_OVERALL_QUALITY') && quality.overall < overallThreshold) {
+      prompts.push(`Run one focused refinement pass to improve quality score above ${overallThreshold}.`);
     }
 
     if (prompts.length === 0) {
-      prompts.push(`Continue reasoning until all phases are covered and quality reaches ${QUALITY_GATE_THRESHOLD}.`);
+      prompts.push(`Continue reasoning until all phases are covered and quality reaches ${overallThreshold}.`);
     }
 
     return prompts.slice(0, 10);
@@ -763,7 +1485,8 @@ export class CycleService {
           ? `${thought.thought.slice(0, 140)}...`
           : thought.thought;
         const confidencePart = thought.confidence !== undefined ? ` c:${thought.confidence}` : '';
-        return `#${thought.index} [${thought.thoughtType}${confidencePart}] ${trimmed}`;
+        const branchPart = thought.branchId ? `@${thought.branchId}` : '';
+        return `#${thought.index} [${thought.thoughtType}${branchPart}${confidencePart}] ${trimmed}`;
       });
   }
 
@@ -785,10 +1508,272 @@ export class CycleService {
       } else {
         coverage[thought.thoughtType] = true;
       }
+      // v5.6.0: an explored branch is an alternative, whatever its wording
+      if (thought.branchId) coverage.alternative = true;
     }
     return coverage;
   }
 
+  /**
+   * Cross-check a finalize candidate against the session (v5.6.0).
+   * Heuristics over stemmed content words: each non-deferred constraint must be mentioned,
+   * answer sentences must not negate a synthesis/verification sentence on the same topic
+   * (unless a later step agrees with the answer), and most answer terms must come from the trace.
+   */
+  private verifyFinalAnswer(session: CycleSession, finalAnswer: string): CycleAnswerCheck {
+    const answerStems = termStems(finalAnswer);
+
+    const missingConstraints = session.constraintChecklist
+      .filter((item) => item.status !== 'deferred')
+      .filter((item) => {
+        const stems = [...termStems(item.text)];
+        if (stems.length === 0) return false;
+        const matched = stems.filter((stem) => answerStems.has(stem)).length;
+        return matched < Math.ceil(stems.length * ANSWER_CONSTRAINT_MIN_MATCH);
+      })
+      .map((item) => item.index);
+
+    const answerSentences = splitSentences(finalAnswer)
+      .map((sentence) => ({ stems: termStems(sentence), negated: NEGATION_PATTERN.test(sentence) }))
+      .filter((sentence) => sentence.stems.size >= 3);
+    const stepSentences = session.thoughts.map((thought) =>
+      splitSentences(thought.thought).map((sentence) => ({
+        text: sentence,
+        stems: termStems(sentence),
+        negated: NEGATION_PATTERN.test(sentence),
+      }))
+    );
+
+    const contradictions: CycleAnswerCheck['contradictions'] = [];
+    session.thoughts.forEach((thought, idx) => {
+      if (thought.thoughtType !== 'synthesis' && thought.thoughtType !== 'verification') return;
+      const conflict = stepSentences[idx].find((sentence) => answerSentences.some((answer) =>
+        answer.negated !== sentence.negated &&
+        stemOverlap(answer.stems, sentence.stems) >= ANSWER_CONTRADICTION_OVERLAP &&
+        // A later step that agrees with the answer supersedes this one
+        !stepSentences.slice(idx + 1).some((later) => later.some((laterSentence) =>
+          laterSentence.negated === answer.negated &&
+          stemOverlap(answer.stems, laterSentence.stems) >= ANSWER_CONTRADICTION_OVERLAP
+        ))
+      ));
+      if (conflict) {
+        const excerpt = conflict.text.length > 100 ? `${conflict.text.slice(0, 100)}...` : conflict.text;
+        contradictions.push({ stepIndex: thought.index, excerpt });
+      }
+    });
+
+    const traceStems = termStems([
+      session.goal,
+      session.context ?? '',
+      ...session.constraints,
+      ...session.thoughts.map((thought) => thought.thought),
+    ].join('\n'));
+    const novelTerms: string[] = [];
+    const novelStems = new Set<string>();
+    for (const token of tokenizeForSearch(finalAnswer)) {
+      if (!answerStems.has(token.stem) || traceStems.has(token.stem) || novelStems.has(token.stem)) continue;
+      novelStems.add(token.stem);
+      novelTerms.push(token.word.toLowerCase());
+    }
+    const support = answerStems.size > 0 ? 1 - novelStems.size / answerStems.size : 0;
+    const drift = answerStems.size >= ANSWER_DRIFT_MIN_TERMS && novelStems.size / answerStems.size > ANSWER_DRIFT_MAX_NOVEL;
+
+    return {
+      passed: missingConstraints.length === 0 && contradictions.length === 0 && !drift,
+      support: roundMetric(support),
+      missingConstraints,
+      contradictions,
+      novelTerms: drift ? novelTerms.slice(0, ANSWER_NOVEL_TERMS_LIMIT) : [],
+    };
+  }
+
+  private answerReasonCodes(check: CycleAnswerCheck): CycleReasonCode[] {
+    const codes: CycleReasonCode[] = [];
+    if (check.missingConstraints.length > 0) codes.push('ANSWER_MISSES_CONSTRAINT');
+    if (check.contradictions.length > 0) codes.push('ANSWER_CONTRADICTS_TRACE');
+    if (check.novelTerms.length > 0) codes.push('ANSWER_DRIFT');
+    return codes;
+  }
+
+  /**
+   * Where a step goes (v5.6.0). A branch step defaults to continuing its branch,
+   * a new branch forks from the last main-line step.
+   */
+  private resolveBranchPlacement(
+    session: CycleSession,
+    input: ThinkCycleInput
+  ): { branchId?: string; parentIndex?: number; error?: string } {
+    const branchId = input.branchId?.trim();
+    if (input.branchId !== undefined && (!branchId || branchId.length > CYCLE_BRANCH_ID_LIMIT)) {
+      return { error: `branchId must be 1-${CYCLE_BRANCH_ID_LIMIT} chars` };
+    }
+
+    const stepCount = session.thoughts.length;
+    if (input.parentIndex !== undefined) {
+      if (!Number.isInteger(input.parentIndex) || input.parentIndex < 1 || input.parentIndex > stepCount) {
+        return { error: `parentIndex must be an existing step (1-${stepCount})` };
+      }
+      return { branchId, parentIndex: input.parentIndex };
+    }
+    if (!branchId) return {};
+
+    const lastOnBranch = [...session.thoughts].reverse().find((t) => t.branchId === branchId);
+    const lastMainLine = [...session.thoughts].reverse().find((t) => !t.branchId);
+    const parent = lastOnBranch ?? lastMainLine;
+    if (!parent) {
+      return { error: 'A new branch needs a main-line step to fork from' };
+    }
+    return { branchId, parentIndex: parent.index };
+  }
+
+  /**
+   * Branches in order of first step, each scored on its own steps (v5.6.0)
+   */
+  private buildBranchSummaries(session: CycleSession): CycleBranchSummary[] {
+    const byBranch = new Map<string, CycleThoughtRecord[]>();
+    for (const thought of session.thoughts) {
+      if (!thought.branchId) continue;
+      const list = byBranch.get(thought.branchId) ?? [];
+      list.push(thought);
+      byBranch.set(thought.branchId, list);
+    }
+
+    const selected = session.selectedBranch?.branchId;
+    return Array.from(byBranch.entries()).map(([branchId, thoughts]) => {
+      const branchSession = this.withThoughts(session, thoughts);
+      return {
+        branchId,
+        parentIndex: thoughts[0].parentIndex,
+        thoughts: thoughts.length,
+        evaluated: thoughts.length >= BRANCH_EVALUATED_MIN_THOUGHTS && thoughts.some((t) =>
+          t.thoughtType === 'critique' || t.thoughtType === 'verification' || t.thoughtType === 'revision'
+        ),
+        status: !selected ? 'open' : selected === branchId ? 'selected' : 'rejected',
+        quality: this.computeQuality(branchSession).quality,
+      };
+    });
+  }
+
+  /**
+   * Copy of the session limited to some of its steps, for branch and history scoring (v5.6.0)
+   */
+  private withThoughts(session: CycleSession, thoughts: CycleThoughtRecord[]): CycleSession {
+    return {
+      ...session,
+      thoughts,
+      phaseCoverage: this.computePhaseCoverage(thoughts),
+    };
+  }
+
+  /**
+   * Quality after each step, replayed over the step prefix (v5.6.0)
+   */
+  private buildQualityHistory(session: CycleSession): CycleQualityPoint[] {
+    return session.thoughts.map((thought, idx) => ({
+      index: thought.index,
+      thoughtType: thought.thoughtType,
+      branchId: thought.branchId,
+      quality: this.computeQuality(this.withThoughts(session, session.thoughts.slice(0, idx + 1))).quality,
+    }));
+  }
+
+  /**
+   * First step covering each phase, null while a phase is missing (v5.6.0)
+   */
+  private buildPhaseTimeline(session: CycleSession): CyclePhaseTimeline {
+    const timeline = Object.fromEntries(ALL_PHASES.map((phase) => [phase, null])) as CyclePhaseTimeline;
+    for (const thought of session.thoughts) {
+      const coverage = this.computePhaseCoverage([thought]);
+      for (const phase of ALL_PHASES) {
+        if (coverage[phase] && timeline[phase] === null) timeline[phase] = thought.index;
+      }
+    }
+    return timeline;
+  }
+
+  private summarizeSession(session: CycleSession): CycleSessionSummary {
+    const snapshot = this.buildSnapshot(session, { expandedTrace: false });
+    return {
+      sessionId: session.sessionId,
+      goal: session.goal,
+      profile: session.gateProfile.name,
+      status: snapshot.status as CycleSessionStatus,
+      thoughts: session.thoughts.length,
+      requiredThoughts: session.requiredThoughts,
+      overallQuality: snapshot.quality.overall,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivity: new Date(session.updatedAt).toISOString(),
+      completedAt: session.completedAt ? new Date(session.completedAt).toISOString() : undefined,
+      archived: Boolean(session.archivedAt),
+    };
+  }
+
+  /**
+   * A new step or branch selection invalidates the approved answer (v5.6.0)
+   */
+  private reopen(session: CycleSession): void {
+    session.completedAt = undefined;
+    session.finalApprovedAnswer = undefined;
+  }
+
+  private isHighComplexity(session: CycleSession): boolean {
+    return this.calculateComplexityScore(session.goal, session.context, session.constraints) >= CYCLE_HIGH_COMPLEXITY;
+  }
+
+  private normalizeSelection(raw: unknown): CycleBranchSelection | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const candidate = raw as Partial<CycleBranchSelection>;
+    if (typeof candidate.branchId !== 'string' || candidate.branchId.length === 0) return undefined;
+    return {
+      branchId: candidate.branchId,
+      reason: typeof candidate.reason === 'string' ? candidate.reason : '',
+      timestamp: Number.isFinite(candidate.timestamp) ? Number(candidate.timestamp) : Date.now(),
+    };
+  }
+
+  /**
+   * Build the constraint checklist from step updates; the latest update per constraint wins (v5.6.0)
+   */
+  private computeConstraintChecklist(constraints: string[], thoughts: CycleThoughtRecord[]): CycleConstraintItem[] {
+    const checklist: CycleConstraintItem[] = constraints.map((text, idx) => ({
+      index: idx + 1,
+      text: text.trim(),
+      status: 'open',
+    }));
+    for (const thought of thoughts) {
+      for (const update of thought.constraintUpdates ?? []) {
+        const item = checklist[update.constraint - 1];
+        if (!item) continue;
+        item.status = update.status;
+        item.note = update.note;
+        item.stepIndex = thought.index;
+      }
+    }
+    return checklist;
+  }
+
+  /**
+   * Validate constraint updates of a step (v5.6.0).
+   * Returns undefined for no updates and null when any update is invalid.
+   */
+  private normalizeConstraintUpdates(raw: unknown, constraintCount: number): CycleConstraintUpdate[] | undefined | null {
+    if (raw === undefined || raw === null) return undefined;
+    if (!Array.isArray(raw)) return null;
+
+    const updates: CycleConstraintUpdate[] = [];
+    for (const entry of raw) {
+      const candidate = (entry ?? {}) as Partial<CycleConstraintUpdate>;
+      const constraint = candidate.constraint;
+      if (!Number.isInteger(constraint) || constraint! < 1 || constraint! > constraintCount) return null;
+      if (!isConstraintResolution(candidate.status)) return null;
+      const note = typeof candidate.note === 'string' && candidate.note.trim().length > 0
+        ? candidate.note.trim().slice(0, CONSTRAINT_NOTE_LIMIT)
+        : undefined;
+      updates.push({ constraint: constraint!, status: candidate.status, note });
+    }
+    return updates.length > 0 ? updates : undefined;
+  }
+
   private async resetBackendSession(mode: CycleBackendMode): Promise<{ ok: boolean; fallback?: boolean; message?: string }> {
     if (!this.backend?.resetSession) {
       if (mode === 'think') {
@@ -812,7 +1797,8 @@ export class CycleService {
     session: CycleSession,
     thought: string,
     thoughtType: CycleThoughtType,
-    confidence?: number
+    confidence?: number,
+    placement: { branchId?: string; parentIndex?: number } = {}
   ): { ok: boolean; message?: string } {
     if (!this.backend) {
       return { ok: false, message: 'think backend unavailable' };
@@ -827,6 +1813,8 @@ export class CycleService {
       confidence,
       goal: thoughtNumber === 1 ? session.goal : undefined,
       showTree: false,
+      branchFromThought: placement.branchId ? placement.parentIndex : undefined,
+      branchId: placement.branchId,
       isRevision: thoughtType === 'revision' ? true : undefined,
       revisesThought: thoughtType === 'revision' && thoughtNumber > 1 ? thoughtNumber - 1 : undefined,
       quickExtension: thoughtType === 'critique'
@@ -885,6 +1873,23 @@ export class CycleService {
     );
   }
 
+  /**
+   * Result shell for actions without a quality snapshot (reset, list)
+   */
+  private infoResult(sessionId: string): ThinkCycleResult {
+    return {
+      status: 'completed',
+      sessionId,
+      loop: { ...EMPTY_LOOP, current: 0, remaining: 0 },
+      quality: { ...EMPTY_QUALITY },
+      kpi: { ...EMPTY_KPI },
+      gate: { passed: true, reasonCodes: [] },
+      requiredMoreThoughts: 0,
+      nextPrompts: [],
+      shortTrace: [],
+    };
+  }
+
   private errorResult(sessionId: string, reason: CycleReasonCode, message: string): ThinkCycleResult {
     return {
       status: 'error',
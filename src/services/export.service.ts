@@ -1,9 +1,23 @@
 /**
  * ExportService - Export session as Markdown or JSON report
  * Stateless service - receives data as parameters
+ * v5.6.0: think_cycle session reports
  */
 
-import type { ThoughtRecord, DeadEnd } from '../types/thought.types.js';
+import type {
+  ThoughtRecord,
+  DeadEnd,
+  ThoughtEditEntry,
+  BranchClosure,
+  SessionLineageView,
+  CycleBranchSummary,
+  CycleGate,
+  CyclePhaseTimeline,
+  CycleQuality,
+  CycleQualityPoint,
+  CycleSession,
+  CycleSessionStatus,
+} from '../types/thought.types.js';
 
 /** Export options */
 export interface ExportOptions {
@@ -16,11 +30,33 @@ export interface ExportSessionData {
   thoughts: ThoughtRecord[];
   branches: Map<string, ThoughtRecord[]>;
   deadEnds: DeadEnd[];
+  /** think_edit audit trail (v5.6.0) */
+  edits?: ThoughtEditEntry[];
+  /** Branches closed via think_branch (v5.6.0) */
+  branchClosures?: Map<string, BranchClosure>;
+  /** Parent and forks of the session (v5.6.0) */
+  lineage?: SessionLineageView;
   sessionGoal?: string;
   averageConfidence?: number;
   mermaidDiagram?: string;
 }
 
+/** think_cycle session data for export (v5.6.0) */
+export interface CycleExportData {
+  session: CycleSession;
+  status: CycleSessionStatus;
+  quality: CycleQuality;
+  gate: CycleGate;
+  branches: CycleBranchSummary[];
+  qualityHistory: CycleQualityPoint[];
+  phaseTimeline: CyclePhaseTimeline;
+  mermaidDiagram?: string;
+}
+
+function isoTime(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString();
+}
+
 export class ExportService {
   /**
    * Export session as Markdown or JSON report
@@ -29,7 +65,7 @@ export class ExportService {
    */
   export(data: ExportSessionData, options: ExportOptions = {}): string {
     const { format = 'markdown', includeMermaid = true } = options;
-    const { thoughts, branches, deadEnds, sessionGoal, averageConfidence, mermaidDiagram } = data;
+    const { thoughts, branches, deadEnds, edits = [], branchClosures = new Map(), lineage, sessionGoal, averageConfidence, mermaidDiagram } = data;
 
     if (thoughts.length === 0) {
       return format === 'json'
@@ -43,7 +79,10 @@ export class ExportService {
           goal: sessionGoal,
           thoughts,
           branches: Array.from(branches.entries()),
+          branchClosures: Array.from(branchClosures.entries()),
+          lineage,
           deadEnds,
+          edits,
           averageConfidence,
           exportedAt: new Date().toISOString(),
         },
@@ -60,7 +99,7 @@ export class ExportService {
    * Generate Markdown report
    */
   private generateMarkdown(data: ExportSessionData, includeMermaid: boolean): string {
-    const { thoughts, branches, deadEnds, sessionGoal, averageConfidence, mermaidDiagram } = data;
+    const { thoughts, branches, deadEnds, edits = [], branchClosures = new Map(), lineage, sessionGoal, averageConfidence, mermaidDiagram } = data;
     const sections: string[] = [
       '# Think Session Report',
       `**Date:** ${new Date().toISOString().split('T')[0]}`,
@@ -72,6 +111,18 @@ export class ExportService {
       sections.push(`## 🎯 Goal`, sessionGoal, '');
     }
 
+    // Lineage section (v5.6.0)
+    if (lineage && (lineage.forkedFrom || lineage.forks.length > 0)) {
+      sections.push('## 🧬 Lineage');
+      if (lineage.forkedFrom) {
+        sections.push(`- **Forked from:** ${lineage.forkedFrom.sessionId} at #${lineage.forkedFrom.thoughtNumber} (${lineage.forkedFrom.forkedAt})`);
+      }
+      lineage.forks.forEach((fork) => {
+        sections.push(`- **Fork:** ${fork.sessionId} from #${fork.thoughtNumber} (${fork.forkedAt})`);
+      });
+      sections.push('');
+    }
+
     // Summary section
     sections.push(
       '## 📊 Summary',
@@ -113,6 +164,16 @@ export class ExportService {
       sections.push('');
     });
 
+    // Branch outcomes (v5.6.0)
+    if (branchClosures.size > 0) {
+      sections.push('## 🌿 Branch Outcomes', '');
+      branchClosures.forEach((closure, branchId) => {
+        const mergedStr = closure.mergedAs ? ` → #${closure.mergedAs}` : '';
+        sections.push(`- **${branchId}**: ${closure.outcome}${mergedStr} - ${closure.rationale}`);
+      });
+      sections.push('');
+    }
+
     // Dead Ends section
     if (deadEnds.length > 0) {
       sections.push('## 💀 Dead Ends (Rejected Paths)', '');
@@ -125,6 +186,17 @@ export class ExportService {
       });
     }
 
+    // Edit history (v5.6.0)
+    if (edits.length > 0) {
+      sections.push('## ✏️ Edit History', '');
+      edits.forEach((edit) => {
+        const branchStr = edit.branchId ? ` (branch ${edit.branchId})` : '';
+        const reasonStr = edit.reason ? ` - ${edit.reason}` : '';
+        sections.push(`- ${edit.timestamp} **${edit.action}** #${edit.thoughtNumber}${branchStr}${reasonStr}`);
+      });
+      sections.push('');
+    }
+
     // Mermaid diagram
     if (includeMermaid && mermaidDiagram) {
       sections.push('## 🔀 Diagram', '', '```mermaid', mermaidDiagram, '```', '');
@@ -132,4 +204,122 @@ export class ExportService {
 
     return sections.join('\n');
   }
+
+  /**
+   * Export think_cycle session as Markdown or JSON report (v5.6.0)
+   * @param data - Cycle session with derived history
+   * @param format - Report format
+   */
+  exportCycle(data: CycleExportData, format: 'markdown' | 'json' = 'markdown'): string {
+    const { session, status, quality, gate, branches, qualityHistory, phaseTimeline, mermaidDiagram } = data;
+
+    if (format === 'json') {
+      return JSON.stringify(
+        {
+          sessionId: session.sessionId,
+          goal: session.goal,
+          context: session.context,
+          profile: session.gateProfile.name,
+          status,
+          createdAt: isoTime(session.createdAt),
+          completedAt: isoTime(session.completedAt),
+          archivedAt: isoTime(session.archivedAt),
+          quality,
+          gate,
+          constraints: session.constraintChecklist,
+          phaseTimeline,
+          qualityHistory,
+          steps: session.thoughts,
+          branches,
+          selectedBranch: session.selectedBranch,
+          finalApprovedAnswer: session.finalApprovedAnswer,
+          exportedAt: new Date().toISOString(),
+        },
+        null,
+        2
+      );
+    }
+
+    const sections: string[] = [
+      '# Think Cycle Report',
+      `**Session:** ${session.sessionId} | **Profile:** ${session.gateProfile.name} | **Status:** ${status}${session.archivedAt ? ' (archived)' : ''}`,
+      `**Started:** ${isoTime(session.createdAt)}${session.completedAt ? ` | **Completed:** ${isoTime(session.completedAt)}` : ''}`,
+      '',
+      '## 🎯 Goal',
+      session.goal,
+      '',
+    ];
+    if (session.context) {
+      sections.push('**Context:** ' + session.context, '');
+    }
+
+    if (session.finalApprovedAnswer) {
+      sections.push('## ✅ Final Approved Answer', session.finalApprovedAnswer, '');
+    }
+
+    sections.push(
+      '## 📊 Quality',
+      `- **Overall:** ${quality.overall} (gate ${session.gateProfile.thresholds.overall})`,
+      `- **Coverage:** ${quality.coverage} | **Critique:** ${quality.critique} | **Verification:** ${quality.verification}`,
+      `- **Diversity:** ${quality.diversity} | **Confidence stability:** ${quality.confidenceStability}`,
+      `- **Gate:** ${gate.passed ? 'passed' : `blocked (${gate.reasonCodes.join(', ')})`}`,
+      ''
+    );
+
+    sections.push('## 🧭 Phase Timeline', '');
+    for (const [phase, index] of Object.entries(phaseTimeline)) {
+      sections.push(`- **${phase}:** ${index === null ? 'not covered' : `step #${index}`}`);
+    }
+    sections.push('');
+
+    if (qualityHistory.length > 0) {
+      sections.push(
+        '## 📈 Quality History',
+        '',
+        '| Step | Type | Overall | Coverage | Critique | Verification | Diversity |',
+        '|------|------|---------|----------|----------|--------------|-----------|'
+      );
+      for (const point of qualityHistory) {
+        const type = point.branchId ? `${point.thoughtType} @${point.branchId}` : point.thoughtType;
+        const q = point.quality;
+        sections.push(`| #${point.index} | ${type} | ${q.overall} | ${q.coverage} | ${q.critique} | ${q.verification} | ${q.diversity} |`);
+      }
+      sections.push('');
+    }
+
+    if (session.constraintChecklist.length > 0) {
+      sections.push('## 📋 Constraints', '');
+      for (const item of session.constraintChecklist) {
+        const stepStr = item.stepIndex ? ` (step #${item.stepIndex})` : '';
+        const noteStr = item.note ? ` - ${item.note}` : '';
+        sections.push(`- **#${item.index} ${item.status}:** ${item.text}${stepStr}${noteStr}`);
+      }
+      sections.push('');
+    }
+
+    if (branches.length > 0) {
+      sections.push('## 🌿 Branches', '');
+      for (const branch of branches) {
+        const forkStr = branch.parentIndex ? ` from #${branch.parentIndex}` : '';
+        sections.push(`- **${branch.branchId}**${forkStr}: ${branch.status}, ${branch.thoughts} steps, quality ${branch.quality.overall}`);
+      }
+      if (session.selectedBranch) {
+        sections.push('', `**Selected:** ${session.selectedBranch.branchId} - ${session.selectedBranch.reason}`);
+      }
+      sections.push('');
+    }
+
+    sections.push('## 💭 Steps', '');
+    for (const t of session.thoughts) {
+      const branchStr = t.branchId ? ` @${t.branchId}` : '';
+      const confStr = t.confidence ? ` [confidence: ${t.confidence}/10]` : '';
+      sections.push(`### Step #${t.index} (${t.thoughtType}${branchStr})${confStr}`, t.thought, '');
+    }
+
+    if (mermaidDiagram) {
+      sections.push('## 🔀 Diagram', '', '```mermaid', mermaidDiagram, '```', '');
+    }
+
+    return sections.join('\n');
+  }
 }
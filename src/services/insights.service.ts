@@ -1,20 +1,46 @@
 /**
  * InsightsService - Cross-session learning from winning paths
- * Version 1.0.0
+ * Version 5.6.0 - Insights Edition
  *
- * Stores successful reasoning patterns for future recall.
- * NO LLM, NO Vector DB - just JSON persistence + Fuse.js search.
+ * Stores successful reasoning patterns for future recall:
+ * - Namespaces: insights live per project (THINK_MCP_PROJECT or per session); search,
+ *   stats and the FIFO limit are scoped to one namespace unless allNamespaces is set
+ * - Ranking: Fuse.js text relevance (or offline vector similarity with
+ *   THINK_MCP_SIMILARITY=vector) blended with a utility score from helpful/unhelpful
+ *   feedback and recency decay; consistently unhelpful insights are flagged for review
+ * - Curation: think_insights adds, edits, tags, deletes and pins insights by hand;
+ *   pinned insights never decay or get evicted
+ * - Reasoning chains: session insights keep winning-path thought texts, key critiques,
+ *   rejected dead ends and the think_done constraint check
+ * - Storage: writes go through a StorageBackend (JSON snapshot, JSONL event log or SQLite);
+ *   the FIFO limit only applies to file backends, SQLite keeps every winning path.
+ *   Saves hold a cross-process file lock and re-apply local insights on top of
+ *   ones saved by other processes sharing the data dir
  */
 
 import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import Fuse from 'fuse.js';
 import {
+  DEFAULT_PROJECT_NAMESPACE,
   ensureThinkMcpDataDir,
   getThinkMcpDataFile,
   migrateLegacyFile,
+  normalizeProjectNamespace,
+  resolveProjectNamespace,
 } from '../utils/storage-paths.js';
+import { withFileLock } from '../utils/file-lock.js';
+import { textToVector, cosineSimilarity, resolveSimilarityMode } from '../utils/text-vectors.js';
+import { VECTOR_RECALL_MIN_SIMILARITY } from '../constants/index.js';
+import {
+  createStorageBackend,
+  type StorageBackend,
+  type StoredState,
+  type StoreSnapshot,
+} from './storage.service.js';
+import type { StorageEvent, SimilarityMode, ExtensionType, ImpactLevel } from '../types/thought.types.js';
 
 // Constants
 const __filename = fileURLToPath(import.meta.url);
@@ -22,7 +48,18 @@ const __dirname = dirname(__filename);
 const LEGACY_INSIGHTS_FILE = join(__dirname, '..', '..', 'insights.json');
 const INSIGHTS_FILE = getThinkMcpDataFile('insights.json');
 const INSIGHTS_SCHEMA_VERSION = 2;
-const MAX_INSIGHTS = 100; // FIFO limit to prevent bloat
+const MAX_INSIGHTS = 100; // FIFO limit per namespace to prevent bloat (file backends only, pinned insights exempt)
+const INSIGHTS_LIST_LIMIT = 20;
+const INSIGHT_UTILITY_WEIGHT = 0.3; // Share of utility (feedback + recency) in search ranking
+const INSIGHT_DECAY_HALF_LIFE_DAYS = 90; // Utility halves toward the floor without helpful use
+const INSIGHT_DECAY_FLOOR = 0.5; // Old insights keep at least half their utility
+const INSIGHT_REVIEW_MIN_APPLIED = 3; // Rated uses before a negative record flags an insight
+const INSIGHT_REVIEW_MAX_SUCCESS = 0.34; // Helpful share at or below this flags for review
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INSIGHT_CHAIN_TEXT_LIMIT = 1000; // Max chars per stored thought, critique or note
+const INSIGHT_CHAIN_MAX_STEPS = 30; // Matches the think_batch thought limit
+const INSIGHT_CHAIN_MAX_CRITIQUES = 10;
+const INSIGHT_CHAIN_MAX_DEAD_ENDS = 5;
 const INSIGHTS_SEARCH_THRESHOLD = 0.4;
 const STOP_WORDS = new Set([
   'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
@@ -34,9 +71,27 @@ const STOP_WORDS = new Set([
   'this', 'that', 'these', 'those', 'it', 'its', 'i', 'we', 'you', 'they',
 ]);
 
+/**
+ * Short FNV-1a hash (base36) for ids of records saved before v5.6.0
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function createInsightId(): string {
+  return `ins_${randomUUID().slice(0, 8)}`;
+}
+
 /** Single winning path record */
 export interface WinningPathRecord {
-  /** Thought numbers in the winning path */
+  /** Stable id for think_insights (v5.6.0) */
+  id: string;
+  /** Thought numbers in the winning path (empty for manual insights) */
   path: number[];
   /** Summary of the solution */
   summary: string;
@@ -50,8 +105,53 @@ export interface WinningPathRecord {
   avgConfidence?: number;
   /** Number of thoughts in the session */
   sessionLength: number;
+  /** Saved by think_done/think_batch or added by hand (v5.6.0) */
+  source?: 'session' | 'manual';
+  /** Project/domain tags, lowercase */
+  tags?: string[];
+  /** Pinned insights are never evicted */
+  pinned?: boolean;
+  /** Last think_insights edit */
+  updatedAt?: string;
+  /** Usage feedback from think_insights (v5.6.0) */
+  feedback?: InsightFeedback;
+  /** Project namespace ('default' for records saved before namespaces) */
+  namespace: string;
+  /** Reasoning that led to the solution (session insights since v5.6.0) */
+  chain?: InsightChain;
 }
 
+/** Snapshot of the reasoning behind a session insight (v5.6.0) */
+export interface InsightChain {
+  /** Winning-path thoughts in path order */
+  steps: { thoughtNumber: number; thought: string; confidence?: number }[];
+  /** Critiques and corrections of path thoughts, most severe first */
+  critiques: { thoughtNumber: number; type: ExtensionType; content: string; impact: ImpactLevel }[];
+  /** Paths rejected before the solution */
+  deadEnds: { path: number[]; reason: string }[];
+  /** think_done constraint check */
+  constraints?: string;
+  /** think_done potential flaws */
+  potentialFlaws?: string;
+}
+
+/** How often a recalled insight was applied and whether it helped (v5.6.0) */
+export interface InsightFeedback {
+  /** Applied to a task */
+  applied: number;
+  /** Recalled but not applied */
+  skipped: number;
+  /** Applied and helped */
+  helpful: number;
+  /** Applied and misled or did not help */
+  unhelpful: number;
+  lastAppliedAt?: string;
+  lastHelpfulAt?: string;
+}
+
+/** Fields think_insights can change (v5.6.0) */
+export type InsightChanges = Partial<Pick<WinningPathRecord, 'summary' | 'goal' | 'keywords' | 'tags' | 'pinned'>>;
+
 /** Insights storage structure */
 export interface InsightsData {
   /** Storage schema version */
@@ -62,8 +162,61 @@ export interface InsightsData {
   patterns: Record<string, number>;
   /** Total sessions recorded */
   totalSessions: number;
+  /** Sessions recorded per namespace (v5.6.0) */
+  sessionsByNamespace?: Record<string, number>;
   /** Last update timestamp */
   lastUpdated: string;
+  /** Last journal event folded into this snapshot (v5.6.0) */
+  journalSeq?: number;
+}
+
+/** Journal event for a saved winning path (v5.6.0) */
+export interface InsightAddedEvent extends StorageEvent {
+  type: 'insight';
+  record: WinningPathRecord;
+}
+
+/** Journal event for an edited, tagged or (un)pinned insight */
+export interface InsightUpdatedEvent extends StorageEvent {
+  type: 'insight_update';
+  id: string;
+  changes: InsightChanges;
+  updatedAt: string;
+}
+
+/** Journal event for a deleted insight */
+export interface InsightDeletedEvent extends StorageEvent {
+  type: 'insight_delete';
+  id: string;
+}
+
+/** Journal event for usage feedback on an insight (v5.6.0) */
+export interface InsightFeedbackEvent extends StorageEvent {
+  type: 'insight_feedback';
+  id: string;
+  applied: boolean;
+  helpful?: boolean;
+  timestamp: string;
+}
+
+export type InsightJournalEvent = InsightAddedEvent | InsightUpdatedEvent | InsightDeletedEvent | InsightFeedbackEvent;
+
+/** Construction options (v5.6.0) */
+export interface InsightsServiceOptions {
+  /** Persistence backend (default: selected by THINK_MCP_STORAGE) */
+  storage?: StorageBackend;
+  /** Search similarity (default: selected by THINK_MCP_SIMILARITY) */
+  similarity?: SimilarityMode;
+  /** Namespace used when a call names none (default: selected by THINK_MCP_PROJECT) */
+  namespace?: string;
+}
+
+/** Namespace selection for search, stats and list (v5.6.0) */
+export interface InsightsScope {
+  /** Project namespace (default: the service namespace) */
+  namespace?: string;
+  /** Search every namespace */
+  allNamespaces?: boolean;
 }
 
 /** Input for saving a winning path */
@@ -73,14 +226,24 @@ export interface SaveInsightInput {
   goal?: string;
   avgConfidence?: number;
   sessionLength: number;
+  /** Project namespace (default: the service namespace) */
+  namespace?: string;
+  /** Reasoning chain snapshot (v5.6.0) */
+  chain?: InsightChain;
 }
 
 /** Single match from insights search */
 export interface InsightMatch {
   /** The winning path record */
   insight: WinningPathRecord;
-  /** Relevance score (0-1, lower = better) */
+  /** Relevance score (0-1, lower = better) - text relevance blended with utility */
   relevance: number;
+  /** Fuse.js (or vector) text relevance alone (0-1, lower = better, v5.6.0) */
+  textRelevance: number;
+  /** Feedback success ratio with recency decay (0-1, higher = more useful) */
+  utility: number;
+  /** Consistently unhelpful - check, edit or delete it */
+  needsReview: boolean;
 }
 
 /** Result from insights search */
@@ -88,12 +251,110 @@ export interface InsightsSearchResult {
   matches: InsightMatch[];
   totalInsights: number;
   topPatterns: { keyword: string; count: number }[];
+  /** Searched namespace, undefined when every namespace was searched (v5.6.0) */
+  namespace?: string;
+}
+
+/** Statistics about stored insights */
+export interface InsightsStats {
+  totalInsights: number;
+  totalSessions: number;
+  topPatterns: { keyword: string; count: number }[];
+  avgSessionLength: number;
+  avgConfidence: number;
+  /** v5.6.0 */
+  pinnedInsights: number;
+  manualInsights: number;
+  /** Insights with a consistently negative feedback record */
+  flaggedInsights: number;
+  topTags: { tag: string; count: number }[];
+  /** Namespace the stats cover, undefined for all namespaces */
+  namespace?: string;
+  /** Insight count of every namespace */
+  namespaces: { namespace: string; count: number }[];
+}
+
+/** think_insights actions (v5.6.0) */
+export type InsightsAction = 'add' | 'edit' | 'tag' | 'delete' | 'pin' | 'unpin' | 'feedback' | 'list' | 'stats';
+
+/** Input for think_insights */
+export interface ManageInsightsInput {
+  action: InsightsAction;
+  /** Target insight (edit, tag, delete, pin, unpin, feedback) */
+  id?: string;
+  /** add/edit: lesson text */
+  summary?: string;
+  /** add/edit: problem the lesson applies to */
+  goal?: string;
+  /** add/tag: tags to set (tag replaces the list, empty clears it) */
+  tags?: string[];
+  /** list: only insights with this tag */
+  tag?: string;
+  /** list: only insights flagged for review */
+  flagged?: boolean;
+  /** feedback: insight was applied (default true) */
+  applied?: boolean;
+  /** feedback: applied insight helped */
+  helpful?: boolean;
+  /** list: max insights (default 20) */
+  limit?: number;
+  /** Project namespace for add, list and stats (default: the service namespace) */
+  namespace?: string;
+  /** list/stats: every namespace */
+  allNamespaces?: boolean;
+}
+
+/** Result from think_insights */
+export interface ManageInsightsResult {
+  status: 'success' | 'error';
+  action: InsightsAction;
+  message: string;
+  insight?: WinningPathRecord;
+  insights?: WinningPathRecord[];
+  stats: InsightsStats;
+  errorMessage?: string;
 }
 
 export class InsightsService {
   private data: InsightsData | null = null;
   private fuseIndex: Fuse<WinningPathRecord> | null = null;
   private isDirty = false;
+  private readonly storage: StorageBackend;
+  private readonly similarity: SimilarityMode;
+  /** Namespace of calls that name none (v5.6.0) */
+  readonly namespace: string;
+  /** Store revision seen at the last load, save or sync (v5.6.0) */
+  private storeRevision = 0;
+  /** Journal events of insights not yet committed */
+  private pendingEvents: InsightJournalEvent[] = [];
+  /** Set after re-applying local insights over external ones: the journal no longer matches memory */
+  private snapshotRequired = false;
+  /** Promise-based lock serializing saves within this process */
+  private fsLock: Promise<void> = Promise.resolve();
+
+  constructor(options: InsightsServiceOptions = {}) {
+    this.storage = options.storage ?? createStorageBackend();
+    this.similarity = options.similarity ?? resolveSimilarityMode();
+    this.namespace = options.namespace !== undefined
+      ? normalizeProjectNamespace(options.namespace)
+      : resolveProjectNamespace();
+  }
+
+  /**
+   * Namespace a scope selects; undefined when it spans every namespace
+   */
+  private scopeNamespace(scope: InsightsScope): string | undefined {
+    if (scope.allNamespaces) return undefined;
+    return scope.namespace !== undefined ? normalizeProjectNamespace(scope.namespace) : this.namespace;
+  }
+
+  /**
+   * Records of one namespace, or all records
+   */
+  private recordsIn(namespace: string | undefined): WinningPathRecord[] {
+    const paths = this.data!.winningPaths;
+    return namespace === undefined ? paths : paths.filter((p) => p.namespace === namespace);
+  }
 
   /**
    * Extract keywords from text for pattern tracking
@@ -107,6 +368,30 @@ export class InsightsService {
       .slice(0, 10); // Limit to 10 keywords per insight
   }
 
+  /**
+   * Deduplicated keywords of summary and goal
+   */
+  private keywordsOf(summary: string, goal?: string): string[] {
+    return [...new Set([
+      ...this.extractKeywords(summary),
+      ...(goal ? this.extractKeywords(goal) : []),
+    ])];
+  }
+
+  /**
+   * Copy of a record for journal events, detached from later in-memory edits
+   */
+  private cloneRecord(record: WinningPathRecord): WinningPathRecord {
+    return {
+      ...record,
+      path: [...record.path],
+      keywords: [...record.keywords],
+      tags: record.tags ? [...record.tags] : undefined,
+      feedback: record.feedback ? { ...record.feedback } : undefined,
+      chain: record.chain ? structuredClone(record.chain) : undefined,
+    };
+  }
+
   /**
    * Normalize one persisted winning path record.
    */
@@ -117,10 +402,11 @@ export class InsightsService {
       return null;
     }
 
+    const source = candidate.source === 'manual' ? 'manual' : 'session';
     const path = Array.isArray(candidate.path)
       ? candidate.path.filter((n): n is number => Number.isInteger(n) && n > 0)
       : [];
-    if (path.length === 0) return null;
+    if (path.length === 0 && source !== 'manual') return null;
 
     const keywords = Array.isArray(candidate.keywords)
       ? [...new Set(candidate.keywords
@@ -148,7 +434,13 @@ export class InsightsService {
         ? Math.floor(candidate.sessionLength)
         : path.length;
 
+    const tags = this.normalizeTags(candidate.tags);
+
     return {
+      // Records saved before v5.6.0 get an id derived from content, identical in every process
+      id: typeof candidate.id === 'string' && candidate.id.length > 0
+        ? candidate.id
+        : `ins_${hashText(`${timestamp}|${candidate.summary}`)}`,
       path,
       summary: candidate.summary.trim(),
       goal,
@@ -156,9 +448,84 @@ export class InsightsService {
       timestamp,
       avgConfidence,
       sessionLength,
+      source,
+      tags: tags.length > 0 ? tags : undefined,
+      pinned: candidate.pinned === true ? true : undefined,
+      updatedAt: typeof candidate.updatedAt === 'string' ? candidate.updatedAt : undefined,
+      feedback: this.normalizeFeedback(candidate.feedback),
+      namespace: normalizeProjectNamespace(candidate.namespace),
+      chain: this.normalizeChain(candidate.chain),
     };
   }
 
+  /**
+   * Keep well-formed chain entries within the size limits; undefined when empty
+   */
+  private normalizeChain(raw: unknown): InsightChain | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const candidate = raw as Partial<InsightChain>;
+    const text = (value: unknown): string | undefined =>
+      typeof value === 'string' && value.trim().length > 0 ? value.trim().slice(0, INSIGHT_CHAIN_TEXT_LIMIT) : undefined;
+    const isThoughtNumber = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+    const steps = (Array.isArray(candidate.steps) ? candidate.steps : [])
+      .filter((step) => step && isThoughtNumber(step.thoughtNumber) && text(step.thought))
+      .slice(0, INSIGHT_CHAIN_MAX_STEPS)
+      .map((step) => ({
+        thoughtNumber: step.thoughtNumber,
+        thought: text(step.thought)!,
+        confidence: typeof step.confidence === 'number' && Number.isFinite(step.confidence) ? step.confidence : undefined,
+      }));
+    const critiques = (Array.isArray(candidate.critiques) ? candidate.critiques : [])
+      .filter((critique) => critique && isThoughtNumber(critique.thoughtNumber) && typeof critique.type === 'string' && text(critique.content))
+      .slice(0, INSIGHT_CHAIN_MAX_CRITIQUES)
+      .map((critique) => ({
+        thoughtNumber: critique.thoughtNumber,
+        type: critique.type,
+        content: text(critique.content)!,
+        impact: critique.impact ?? 'medium',
+      }));
+    const deadEnds = (Array.isArray(candidate.deadEnds) ? candidate.deadEnds : [])
+      .filter((deadEnd) => deadEnd && Array.isArray(deadEnd.path) && deadEnd.path.every(isThoughtNumber))
+      .slice(-INSIGHT_CHAIN_MAX_DEAD_ENDS)
+      .map((deadEnd) => ({ path: [...deadEnd.path], reason: text(deadEnd.reason) ?? '' }));
+    const constraints = text(candidate.constraints);
+    const potentialFlaws = text(candidate.potentialFlaws);
+
+    if (steps.length + critiques.length + deadEnds.length === 0 && !constraints && !potentialFlaws) return undefined;
+    return { steps, critiques, deadEnds, constraints, potentialFlaws };
+  }
+
+  /**
+   * Keep non-negative integer counters; undefined when nothing was recorded
+   */
+  private normalizeFeedback(raw: unknown): InsightFeedback | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const candidate = raw as Partial<InsightFeedback>;
+    const count = (value: unknown): number =>
+      typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+    const feedback: InsightFeedback = {
+      applied: count(candidate.applied),
+      skipped: count(candidate.skipped),
+      helpful: count(candidate.helpful),
+      unhelpful: count(candidate.unhelpful),
+      lastAppliedAt: typeof candidate.lastAppliedAt === 'string' ? candidate.lastAppliedAt : undefined,
+      lastHelpfulAt: typeof candidate.lastHelpfulAt === 'string' ? candidate.lastHelpfulAt : undefined,
+    };
+    return feedback.applied + feedback.skipped > 0 ? feedback : undefined;
+  }
+
+  /**
+   * Lowercase, trimmed, deduplicated tags
+   */
+  private normalizeTags(raw: unknown): string[] {
+    if (!Array.isArray(raw)) return [];
+    return [...new Set(raw
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag.length > 0))];
+  }
+
   /**
    * Build keyword frequency map from current winning paths.
    */
@@ -191,18 +558,52 @@ export class InsightsService {
         ? Math.floor(parsed.totalSessions)
         : winningPaths.length;
 
+    const totalSessions = Math.max(totalSessionsRaw, winningPaths.filter((p) => p.source !== 'manual').length);
+
     return {
       schemaVersion: INSIGHTS_SCHEMA_VERSION,
       winningPaths,
       patterns: this.buildPatternCounts(winningPaths),
-      totalSessions: Math.max(totalSessionsRaw, winningPaths.length),
+      totalSessions,
+      sessionsByNamespace: this.normalizeSessionCounts(parsed.sessionsByNamespace, winningPaths, totalSessions),
       lastUpdated:
         typeof parsed.lastUpdated === 'string' && !Number.isNaN(Date.parse(parsed.lastUpdated))
           ? parsed.lastUpdated
           : new Date().toISOString(),
+      journalSeq: Number.isInteger(parsed.journalSeq) ? parsed.journalSeq : 0,
     };
   }
 
+  /**
+   * Sessions per namespace, at least the stored session insights of each.
+   * Files without counters credit sessions of evicted insights to the default namespace.
+   */
+  private normalizeSessionCounts(
+    raw: unknown,
+    paths: WinningPathRecord[],
+    totalSessions: number
+  ): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const record of paths) {
+      if (record.source !== 'manual') counts[record.namespace] = (counts[record.namespace] || 0) + 1;
+    }
+
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+      for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) continue;
+        const namespace = normalizeProjectNamespace(name);
+        counts[namespace] = Math.max(counts[namespace] || 0, Math.floor(value));
+      }
+      return counts;
+    }
+
+    const counted = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (totalSessions > counted) {
+      counts[DEFAULT_PROJECT_NAMESPACE] = (counts[DEFAULT_PROJECT_NAMESPACE] || 0) + totalSessions - counted;
+    }
+    return counts;
+  }
+
   /**
    * Rebuild Fuse.js index for search
    */
@@ -214,6 +615,8 @@ export class InsightsService {
         { name: 'summary', weight: 0.5 },
         { name: 'goal', weight: 0.3 },
         { name: 'keywords', weight: 0.2 },
+        { name: 'tags', weight: 0.2 },
+        { name: 'chain.steps.thought', weight: 0.1 },
       ],
       threshold: INSIGHTS_SEARCH_THRESHOLD,
       includeScore: true,
@@ -223,48 +626,289 @@ export class InsightsService {
 
   /**
    * Load insights from file
+   * v5.6.0: Replays journal events newer than the snapshot
    */
   async load(): Promise<void> {
     await this.migrateLegacyInsightsIfNeeded();
+    let stored: StoredState<InsightsData, InsightJournalEvent> = { snapshot: null, events: [], revision: 0 };
     try {
-      const content = await fs.readFile(INSIGHTS_FILE, 'utf-8');
-      const parsed = JSON.parse(content) as unknown;
-      this.data = this.normalizeLoadedData(parsed);
-      this.rebuildIndex();
-      console.error(`Loaded ${this.data.winningPaths.length} insights from ${this.data.totalSessions} sessions`);
-    } catch {
+      stored = await this.storage.load<InsightsData, InsightJournalEvent>(INSIGHTS_FILE, this.snapshot());
+    } catch (error) {
+      console.error('Failed to load insights storage:', error);
+    }
+
+    const replayed = this.restoreStored(stored);
+    this.storeRevision = stored.revision;
+    this.rebuildIndex();
+    const replayInfo = replayed > 0 ? ` (${replayed} replayed from journal)` : '';
+    console.error(`Loaded ${this.data!.winningPaths.length} insights from ${this.data!.totalSessions} sessions${replayInfo}`);
+  }
+
+  /**
+   * Rebuild data from a snapshot plus journal events newer than it; returns replayed count
+   */
+  private restoreStored(stored: StoredState<InsightsData, InsightJournalEvent>): number {
+    if (stored.snapshot) {
+      this.data = this.normalizeLoadedData(stored.snapshot);
+    } else {
       // File doesn't exist or is corrupted - initialize empty
       this.data = {
         schemaVersion: INSIGHTS_SCHEMA_VERSION,
         winningPaths: [],
         patterns: {},
         totalSessions: 0,
+        sessionsByNamespace: {},
         lastUpdated: new Date().toISOString(),
+        journalSeq: 0,
       };
-      this.rebuildIndex();
       console.error('No insights file found or it is corrupted, starting fresh');
     }
+    return this.replayJournal(stored.events);
+  }
+
+  /**
+   * Load on first use, afterwards pick up insights saved by other processes (v5.6.0)
+   */
+  private async ensureFresh(): Promise<void> {
+    if (!this.data) {
+      await this.load();
+      return;
+    }
+    // Cheap unlocked check first - the locked re-check decides
+    if (await this.storage.readRevision(INSIGHTS_FILE) === this.storeRevision) return;
+    await this.withFsLock(() => withFileLock(INSIGHTS_FILE, () => this.syncLocked()));
+  }
+
+  /**
+   * Reload when another process committed, re-applying local insights not yet saved.
+   * Caller holds both locks.
+   */
+  private async syncLocked(): Promise<void> {
+    const revision = await this.storage.readRevision(INSIGHTS_FILE);
+    if (revision === this.storeRevision) return;
+
+    const stored = await this.storage.load<InsightsData, InsightJournalEvent>(INSIGHTS_FILE, this.snapshot());
+    this.restoreStored(stored);
+    for (const event of this.pendingEvents) {
+      this.applyEvent(event);
+    }
+    if (this.pendingEvents.length > 0) this.snapshotRequired = true;
+    this.storeRevision = revision;
+    this.rebuildIndex();
+    console.error(`🔄 Insights changed by another process (revision ${revision}), reloaded ${this.data!.winningPaths.length}`);
+  }
+
+  /**
+   * Execute FS operation with mutex lock to prevent race conditions
+   */
+  private async withFsLock<T>(operation: () => Promise<T>): Promise<T> {
+    const currentLock = this.fsLock;
+    let releaseLock: () => void;
+    this.fsLock = new Promise((resolve) => {
+      releaseLock = resolve;
+    });
+
+    try {
+      await currentLock;
+      return await operation();
+    } finally {
+      releaseLock!();
+    }
+  }
+
+  /**
+   * Apply journal events not yet folded into the snapshot (v5.6.0)
+   */
+  private replayJournal(events: InsightJournalEvent[]): number {
+    let replayed = 0;
+    for (const event of events) {
+      if (event.seq <= (this.data!.journalSeq ?? 0)) continue; // Already in the snapshot
+      this.data!.journalSeq = event.seq;
+      if (this.applyEvent(event)) replayed++;
+    }
+    return replayed;
+  }
+
+  /**
+   * Apply one journal event to memory; false when malformed or its insight is gone
+   */
+  private applyEvent(event: InsightJournalEvent): boolean {
+    switch (event.type) {
+      case 'insight': {
+        const record = this.normalizeWinningPath(event.record);
+        if (!record) return false;
+        this.appendWinningPath(record);
+        return true;
+      }
+      case 'insight_update': {
+        const record = this.data!.winningPaths.find((p) => p.id === event.id);
+        if (!record) return false;
+        this.applyChanges(record, event.changes, event.updatedAt);
+        return true;
+      }
+      case 'insight_feedback': {
+        const record = this.data!.winningPaths.find((p) => p.id === event.id);
+        if (!record) return false;
+        this.applyFeedback(record, event);
+        return true;
+      }
+      case 'insight_delete': {
+        const index = this.data!.winningPaths.findIndex((p) => p.id === event.id);
+        if (index === -1) return false;
+        const [removed] = this.data!.winningPaths.splice(index, 1);
+        this.decrementPatternCounts(removed.keywords);
+        return true;
+      }
+      default:
+        return false;
+    }
   }
 
   /**
-   * Save insights to file (atomic write)
+   * Count one feedback event - increments, so feedback from several processes adds up
    */
-  async save(): Promise<void> {
+  private applyFeedback(record: WinningPathRecord, event: InsightFeedbackEvent): void {
+    const feedback = record.feedback ?? { applied: 0, skipped: 0, helpful: 0, unhelpful: 0 };
+    if (!event.applied) {
+      feedback.skipped++;
+    } else {
+      feedback.applied++;
+      feedback.lastAppliedAt = event.timestamp;
+      if (event.helpful === true) {
+        feedback.helpful++;
+        feedback.lastHelpfulAt = event.timestamp;
+      } else if (event.helpful === false) {
+        feedback.unhelpful++;
+      }
+    }
+    record.feedback = feedback;
+  }
+
+  /**
+   * Consistently unhelpful: enough rated uses and a low helpful share
+   */
+  private needsReview(record: WinningPathRecord): boolean {
+    const helpful = record.feedback?.helpful ?? 0;
+    const rated = helpful + (record.feedback?.unhelpful ?? 0);
+    return rated >= INSIGHT_REVIEW_MIN_APPLIED && helpful / rated <= INSIGHT_REVIEW_MAX_SUCCESS;
+  }
+
+  /**
+   * Utility (0-1): smoothed helpful share, decayed since the last helpful use
+   * (or creation/edit); pinned insights do not decay, flagged ones are halved
+   */
+  private utilityOf(record: WinningPathRecord, now: number): number {
+    const helpful = record.feedback?.helpful ?? 0;
+    const unhelpful = record.feedback?.unhelpful ?? 0;
+    const successRatio = (helpful + 1) / (helpful + unhelpful + 2);
+
+    const reference = [record.feedback?.lastHelpfulAt, record.updatedAt, record.timestamp]
+      .map((value) => (value ? Date.parse(value) : NaN))
+      .filter((value) => !Number.isNaN(value));
+    const ageDays = reference.length > 0 ? Math.max(0, (now - Math.max(...reference)) / DAY_MS) : 0;
+    const decay = record.pinned
+      ? 1
+      : INSIGHT_DECAY_FLOOR + (1 - INSIGHT_DECAY_FLOOR) * 0.5 ** (ageDays / INSIGHT_DECAY_HALF_LIFE_DAYS);
+
+    return successRatio * decay * (this.needsReview(record) ? 0.5 : 1);
+  }
+
+  /**
+   * Update record fields, keeping keyword counters in sync
+   */
+  private applyChanges(record: WinningPathRecord, changes: InsightChanges, updatedAt: string): void {
+    if (changes.keywords) {
+      this.decrementPatternCounts(record.keywords);
+      this.incrementPatternCounts(changes.keywords);
+      record.keywords = [...changes.keywords];
+    }
+    if (changes.summary !== undefined) record.summary = changes.summary;
+    if ('goal' in changes) record.goal = changes.goal;
+    if ('tags' in changes) record.tags = changes.tags && changes.tags.length > 0 ? [...changes.tags] : undefined;
+    if ('pinned' in changes) record.pinned = changes.pinned ? true : undefined;
+    record.updatedAt = updatedAt;
+  }
+
+  /**
+   * Save insights (atomic write, or a journal append with the JSONL backend)
+   */
+  async save(events: InsightJournalEvent[] = []): Promise<void> {
     if (!this.data || !this.isDirty) return;
+    this.pendingEvents.push(...events);
 
-    this.data.schemaVersion = INSIGHTS_SCHEMA_VERSION;
-    this.data.lastUpdated = new Date().toISOString();
-    const tempFile = `${INSIGHTS_FILE}.tmp`;
+    await this.withFsLock(async () => {
+      try {
+        await withFileLock(INSIGHTS_FILE, () => this.commitLocked());
+      } catch (error) {
+        console.error('Failed to save insights:', error);
+      }
+    });
+  }
+
+  /**
+   * Commit pending insights; caller holds both locks (v5.6.0)
+   */
+  private async commitLocked(): Promise<void> {
+    await this.syncLocked();
+    if (!this.isDirty) return; // Covered by an earlier commit
+    const data = this.data!;
+    data.schemaVersion = INSIGHTS_SCHEMA_VERSION;
+    data.lastUpdated = new Date().toISOString();
+
+    const batch = this.pendingEvents.splice(0);
+    const seqBefore = data.journalSeq ?? 0;
+    let seq = seqBefore;
+    for (const event of batch) event.seq = ++seq;
+    data.journalSeq = seq;
+    const revision = this.storeRevision + 1;
+    try {
+      await this.storage.commit(INSIGHTS_FILE, batch, this.snapshot(), revision, this.snapshotRequired);
+    } catch (error) {
+      this.pendingEvents.unshift(...batch);
+      data.journalSeq = seqBefore;
+      throw error;
+    }
+    this.storeRevision = revision;
+    this.isDirty = false;
+    this.snapshotRequired = false;
+    console.error(`Saved ${data.winningPaths.length} insights`);
+  }
 
+  /**
+   * Insights store as seen by the storage backend (v5.6.0)
+   */
+  private snapshot(): StoreSnapshot<InsightsData> {
+    return {
+      build: () => this.data!,
+      writeFile: (data) => this.writeSnapshot(data),
+      readFile: () => this.readSnapshot(),
+    };
+  }
+
+  /**
+   * Rewrite the insights file - every save (json) or on compaction (jsonl)
+   */
+  private async writeSnapshot(data: InsightsData): Promise<void> {
+    const tempFile = `${INSIGHTS_FILE}.tmp`;
     try {
       await ensureThinkMcpDataDir();
-      await fs.writeFile(tempFile, JSON.stringify(this.data, null, 2), 'utf-8');
+      await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
       await fs.rename(tempFile, INSIGHTS_FILE);
-      this.isDirty = false;
-      console.error(`Saved ${this.data.winningPaths.length} insights`);
     } catch (error) {
-      console.error('Failed to save insights:', error);
       try { await fs.unlink(tempFile); } catch { /* ignore */ }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the insights file; null when missing or corrupted
+   */
+  private async readSnapshot(): Promise<InsightsData | null> {
+    try {
+      const content = await fs.readFile(INSIGHTS_FILE, 'utf-8');
+      return JSON.parse(content) as InsightsData;
+    } catch {
+      return null;
     }
   }
 
@@ -307,102 +951,156 @@ export class InsightsService {
     }
   }
 
+  /**
+   * Add a record with FIFO eviction - shared by saveWinningPath and journal replay
+   * Pinned insights are skipped by eviction; the limit applies per namespace (v5.6.0)
+   */
+  private appendWinningPath(record: WinningPathRecord): void {
+    // Add to winningPaths (FIFO)
+    this.data!.winningPaths.push(record);
+    if (this.storage.boundedHistory && this.recordsIn(record.namespace).length > MAX_INSIGHTS) {
+      const oldestUnpinned = this.data!.winningPaths.findIndex((p) => !p.pinned && p.namespace === record.namespace);
+      if (oldestUnpinned !== -1) {
+        const [evicted] = this.data!.winningPaths.splice(oldestUnpinned, 1);
+        this.decrementPatternCounts(evicted.keywords);
+      }
+    }
+
+    // Update pattern counts
+    this.incrementPatternCounts(record.keywords);
+
+    if (record.source !== 'manual') {
+      this.data!.totalSessions++;
+      const sessions = (this.data!.sessionsByNamespace ??= {});
+      sessions[record.namespace] = (sessions[record.namespace] || 0) + 1;
+    }
+  }
+
   /**
    * Save a winning path as an insight
    */
   async saveWinningPath(input: SaveInsightInput): Promise<void> {
-    if (!this.data) await this.load();
+    await this.ensureFresh();
 
     const { path, summary, goal, avgConfidence, sessionLength } = input;
-
-    // Extract keywords from summary and goal
-    const keywords = [
-      ...this.extractKeywords(summary),
-      ...(goal ? this.extractKeywords(goal) : []),
-    ];
+    const namespace = this.scopeNamespace({ namespace: input.namespace })!;
 
     // Create record
     const record: WinningPathRecord = {
+      id: createInsightId(),
       path,
       summary,
       goal,
-      keywords: [...new Set(keywords)], // Dedupe
+      keywords: this.keywordsOf(summary, goal),
       timestamp: new Date().toISOString(),
       avgConfidence,
       sessionLength,
+      source: 'session',
+      namespace,
+      chain: this.normalizeChain(input.chain),
     };
 
-    // Add to winningPaths (FIFO)
-    this.data!.winningPaths.push(record);
-    if (this.data!.winningPaths.length > MAX_INSIGHTS) {
-      const evicted = this.data!.winningPaths.shift();
-      if (evicted) {
-        this.decrementPatternCounts(evicted.keywords);
-      }
-    }
-
-    // Update pattern counts
-    this.incrementPatternCounts(record.keywords);
-
-    this.data!.totalSessions++;
+    this.appendWinningPath(record);
     this.isDirty = true;
 
     // Rebuild index and save
     this.rebuildIndex();
-    await this.save();
+    await this.save([{
+      seq: 0, // Assigned on commit
+      type: 'insight',
+      record: this.cloneRecord(record),
+    }]);
 
-    console.error(`Saved insight: "${summary.substring(0, 50)}..." (${record.keywords.length} keywords)`);
+    console.error(`Saved insight to ${namespace}: "${summary.substring(0, 50)}..." (${record.keywords.length} keywords)`);
   }
 
   /**
    * Search insights by query
+   * v5.6.0: Scoped to one namespace unless scope.allNamespaces is set
    */
-  async search(query: string, limit = 3): Promise<InsightsSearchResult> {
-    if (!this.data) await this.load();
-    if (!this.fuseIndex || this.data!.winningPaths.length === 0) {
+  async search(query: string, limit = 3, scope: InsightsScope = {}): Promise<InsightsSearchResult> {
+    await this.ensureFresh();
+    const namespace = this.scopeNamespace(scope);
+    const records = this.recordsIn(namespace);
+    if (!this.fuseIndex || records.length === 0) {
       return {
         matches: [],
         totalInsights: 0,
         topPatterns: [],
+        namespace,
       };
     }
 
-    // Search using Fuse.js
-    const results = this.fuseIndex.search(query, { limit });
+    // Search using Fuse.js (extra candidates - utility can reorder them)
+    const results = this.fuseIndex.search(query)
+      .filter(r => namespace === undefined || r.item.namespace === namespace)
+      .slice(0, limit * 3);
+    const byInsight = new Map(results.map(r => [r.item, r.score ?? 1]));
+
+    // Vector mode: reworded insights match on cosine, the better of both scores wins
+    if (this.similarity === 'vector') {
+      const queryVector = textToVector(query);
+      for (const insight of records) {
+        const text = [insight.summary, insight.goal ?? '', insight.keywords.join(' '), (insight.tags ?? []).join(' ')].join(' ');
+        const cosine = cosineSimilarity(queryVector, textToVector(text));
+        if (cosine >= VECTOR_RECALL_MIN_SIMILARITY) {
+          byInsight.set(insight, Math.min(byInsight.get(insight) ?? 1, 1 - cosine));
+        }
+      }
+    }
 
-    const matches: InsightMatch[] = results.map(r => ({
-      insight: r.item,
-      relevance: r.score ?? 1,
-    }));
+    // Blend text relevance with utility (v5.6.0)
+    const now = Date.now();
+    const matches: InsightMatch[] = [...byInsight.entries()]
+      .map(([insight, textRelevance]) => {
+        const utility = this.utilityOf(insight, now);
+        return {
+          insight,
+          relevance: Math.round(((1 - INSIGHT_UTILITY_WEIGHT) * textRelevance + INSIGHT_UTILITY_WEIGHT * (1 - utility)) * 1000) / 1000,
+          textRelevance,
+          utility: Math.round(utility * 1000) / 1000,
+          needsReview: this.needsReview(insight),
+        };
+      })
+      .sort((a, b) => a.relevance - b.relevance)
+      .slice(0, limit);
 
     // Get top patterns
-    const topPatterns = Object.entries(this.data!.patterns)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([keyword, count]) => ({ keyword, count }));
+    const topPatterns = this.topPatterns(namespace, 5);
 
     return {
       matches,
-      totalInsights: this.data!.winningPaths.length,
+      totalInsights: records.length,
       topPatterns,
+      namespace,
     };
   }
 
+  /**
+   * Most frequent keywords of a namespace (all namespaces: the maintained pattern map)
+   */
+  private topPatterns(namespace: string | undefined, limit: number): { keyword: string; count: number }[] {
+    const patterns = namespace === undefined ? this.data!.patterns : this.buildPatternCounts(this.recordsIn(namespace));
+    return Object.entries(patterns)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([keyword, count]) => ({ keyword, count }));
+  }
+
   /**
    * Get statistics about stored insights
    */
-  async getStats(): Promise<{
-    totalInsights: number;
-    totalSessions: number;
-    topPatterns: { keyword: string; count: number }[];
-    avgSessionLength: number;
-    avgConfidence: number;
-  }> {
-    if (!this.data) await this.load();
+  async getStats(scope: InsightsScope = {}): Promise<InsightsStats> {
+    await this.ensureFresh();
+    return this.computeStats(scope);
+  }
 
-    const paths = this.data!.winningPaths;
-    const avgSessionLength = paths.length > 0
-      ? paths.reduce((sum, p) => sum + p.sessionLength, 0) / paths.length
+  private computeStats(scope: InsightsScope): InsightsStats {
+    const namespace = this.scopeNamespace(scope);
+    const paths = this.recordsIn(namespace);
+    const fromSessions = paths.filter(p => p.source !== 'manual');
+    const avgSessionLength = fromSessions.length > 0
+      ? fromSessions.reduce((sum, p) => sum + p.sessionLength, 0) / fromSessions.length
       : 0;
 
     const withConfidence = paths.filter(p => p.avgConfidence !== undefined);
@@ -410,17 +1108,182 @@ export class InsightsService {
       ? withConfidence.reduce((sum, p) => sum + (p.avgConfidence ?? 0), 0) / withConfidence.length
       : 0;
 
-    const topPatterns = Object.entries(this.data!.patterns)
+    const topPatterns = this.topPatterns(namespace, 10);
+
+    const tagCounts: Record<string, number> = {};
+    for (const tag of paths.flatMap(p => p.tags ?? [])) {
+      tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+    }
+    const topTags = Object.entries(tagCounts)
       .sort((a, b) => b[1] - a[1])
       .slice(0, 10)
-      .map(([keyword, count]) => ({ keyword, count }));
+      .map(([tag, count]) => ({ tag, count }));
+
+    const namespaceCounts: Record<string, number> = {};
+    for (const record of this.data!.winningPaths) {
+      namespaceCounts[record.namespace] = (namespaceCounts[record.namespace] || 0) + 1;
+    }
 
     return {
       totalInsights: paths.length,
-      totalSessions: this.data!.totalSessions,
+      totalSessions: namespace === undefined
+        ? this.data!.totalSessions
+        : this.data!.sessionsByNamespace?.[namespace] ?? 0,
       topPatterns,
       avgSessionLength: Math.round(avgSessionLength * 10) / 10,
       avgConfidence: Math.round(avgConfidence * 10) / 10,
+      pinnedInsights: paths.filter(p => p.pinned).length,
+      flaggedInsights: paths.filter(p => this.needsReview(p)).length,
+      manualInsights: paths.length - fromSessions.length,
+      topTags,
+      namespace,
+      namespaces: Object.entries(namespaceCounts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([name, count]) => ({ namespace: name, count })),
+    };
+  }
+
+  /**
+   * List stored insights, newest first (v5.6.0)
+   */
+  async list(scope: InsightsScope = {}): Promise<WinningPathRecord[]> {
+    await this.ensureFresh();
+    return [...this.recordsIn(this.scopeNamespace(scope))].reverse();
+  }
+
+  /**
+   * MANAGE INSIGHTS - add, edit, tag, delete, pin/unpin, feedback, list, stats (v5.6.0)
+   * Changes are journaled like saved winning paths, so other processes replay them
+   * Insights are addressed by id in any namespace; add, list and stats use the input namespace
+   */
+  async manage(input: ManageInsightsInput): Promise<ManageInsightsResult> {
+    await this.ensureFresh();
+    const { action } = input;
+    const scope: InsightsScope = { namespace: input.namespace, allNamespaces: input.allNamespaces };
+
+    if (action === 'stats') {
+      const { totalInsights, namespace } = this.computeStats(scope);
+      return this.manageResult(action, scope, `${totalInsights} insights in ${namespace ?? 'all namespaces'}`);
+    }
+
+    if (action === 'list') {
+      const tag = input.tag?.trim().toLowerCase();
+      const insights = [...this.recordsIn(this.scopeNamespace(scope))]
+        .reverse()
+        .filter(p => !tag || p.tags?.includes(tag))
+        .filter(p => !input.flagged || this.needsReview(p))
+        .slice(0, input.limit ?? INSIGHTS_LIST_LIMIT);
+      const namespace = this.scopeNamespace(scope);
+      const filters = [
+        namespace ? `in ${namespace}` : 'in all namespaces',
+        tag ? `tagged "${tag}"` : '',
+        input.flagged ? 'flagged for review' : '',
+      ].filter(Boolean).join(', ');
+      return this.manageResult(action, scope, `${insights.length} insights${filters ? ` ${filters}` : ''}`, { insights });
+    }
+
+    if (action === 'add') {
+      if (input.allNamespaces) return this.manageError(action, scope, 'add needs one namespace, not allNamespaces');
+      const summary = input.summary?.trim();
+      if (!summary) return this.manageError(action, scope, 'summary is required for add');
+      const goal = input.goal?.trim() || undefined;
+      const tags = this.normalizeTags(input.tags);
+      const record: WinningPathRecord = {
+        id: createInsightId(),
+        path: [],
+        summary,
+        goal,
+        keywords: this.keywordsOf(summary, goal),
+        timestamp: new Date().toISOString(),
+        sessionLength: 0,
+        source: 'manual',
+        tags: tags.length > 0 ? tags : undefined,
+        namespace: this.scopeNamespace(scope)!,
+      };
+      this.appendWinningPath(record);
+      await this.commitChange({ seq: 0, type: 'insight', record: this.cloneRecord(record) });
+      return this.manageResult(action, scope, `Added insight ${record.id} to ${record.namespace}`, { insight: record });
+    }
+
+    // Remaining actions target an existing insight
+    if (!input.id) return this.manageError(action, scope, `id is required for ${action}`);
+    const record = this.data!.winningPaths.find(p => p.id === input.id);
+    if (!record) return this.manageError(action, scope, `Insight not found: ${input.id}`);
+
+    if (action === 'delete') {
+      const event: InsightDeletedEvent = { seq: 0, type: 'insight_delete', id: record.id };
+      this.applyEvent(event);
+      await this.commitChange(event);
+      return this.manageResult(action, scope, `Deleted insight ${record.id}`, { insight: record });
+    }
+
+    if (action === 'feedback') {
+      const applied = input.applied ?? true;
+      if (applied && input.helpful === undefined) {
+        return this.manageError(action, scope, 'helpful is required when the insight was applied');
+      }
+      const event: InsightFeedbackEvent = {
+        seq: 0,
+        type: 'insight_feedback',
+        id: record.id,
+        applied,
+        helpful: applied ? input.helpful : undefined,
+        timestamp: new Date().toISOString(),
+      };
+      this.applyEvent(event);
+      await this.commitChange(event);
+      const { helpful, unhelpful } = record.feedback!;
+      const flag = this.needsReview(record) ? ' - flagged for review' : '';
+      return this.manageResult(action, scope, `Recorded feedback for ${record.id} (${helpful}/${helpful + unhelpful} helpful)${flag}`, { insight: record });
+    }
+
+    let changes: InsightChanges;
+    if (action === 'edit') {
+      const newSummary = input.summary?.trim();
+      if (!newSummary && input.goal === undefined) {
+        return this.manageError(action, scope, 'summary or goal is required for edit');
+      }
+      const summary = newSummary || record.summary;
+      const goal = input.goal !== undefined ? input.goal.trim() || undefined : record.goal;
+      changes = { summary, goal, keywords: this.keywordsOf(summary, goal) };
+    } else if (action === 'tag') {
+      changes = { tags: this.normalizeTags(input.tags) };
+    } else {
+      changes = { pinned: action === 'pin' };
+    }
+
+    const event: InsightUpdatedEvent = {
+      seq: 0,
+      type: 'insight_update',
+      id: record.id,
+      changes,
+      updatedAt: new Date().toISOString(),
     };
+    this.applyEvent(event);
+    await this.commitChange(event);
+    const verb = action === 'edit' ? 'Edited' : action === 'tag' ? 'Tagged' : action === 'pin' ? 'Pinned' : 'Unpinned';
+    return this.manageResult(action, scope, `${verb} insight ${record.id}`, { insight: record });
+  }
+
+  /**
+   * Rebuild search index and journal one think_insights change
+   */
+  private async commitChange(event: InsightJournalEvent): Promise<void> {
+    this.isDirty = true;
+    this.rebuildIndex();
+    await this.save([event]);
+  }
+
+  private manageResult(
+    action: InsightsAction,
+    scope: InsightsScope,
+    message: string,
+    extra: Pick<ManageInsightsResult, 'insight' | 'insights'> = {}
+  ): ManageInsightsResult {
+    return { status: 'success', action, message, ...extra, stats: this.computeStats(scope) };
+  }
+
+  private manageError(action: InsightsAction, scope: InsightsScope, errorMessage: string): ManageInsightsResult {
+    return { status: 'error', action, message: errorMessage, stats: this.computeStats(scope), errorMessage };
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * PromptService - Guided reasoning workflows exposed as MCP prompts
+ * Version 5.6.0 - Prompts Edition
+ *
+ * Stateless service - expands a workflow name + arguments into the
+ * instructions that drive think_cycle (start/step/finalize) or think_logic.
+ * Imperative IF/THEN style, same register as tool descriptions.
+ */
+
+import { PROMPT_CONTEXT_MAX_LENGTH } from '../constants/index.js';
+import type { ReasoningPromptArgs, ReasoningPromptName } from '../types/thought.types.js';
+
+/** Metadata used to register a prompt */
+export interface ReasoningPromptDefinition {
+  name: ReasoningPromptName;
+  title: string;
+  description: string;
+  /** Description of the `subject` argument */
+  subjectDescription: string;
+}
+
+export const REASONING_PROMPTS: ReasoningPromptDefinition[] = [
+  {
+    name: 'deep-analysis',
+    title: 'Deep Analysis',
+    description: 'Full think_cycle loop: decompose, compare alternatives, critique, synthesize, verify, then finalize',
+    subjectDescription: 'Problem or question to analyze',
+  },
+  {
+    name: 'debug-incident',
+    title: 'Debug Incident',
+    description: 'think_logic reliability methodology followed by a think_cycle root-cause loop',
+    subjectDescription: 'Incident or bug description (symptoms, impact)',
+  },
+  {
+    name: 'design-review',
+    title: 'Design Review',
+    description: 'think_logic methodology applied to a design, ending with findings by severity',
+    subjectDescription: 'Design, feature or system to review',
+  },
+  {
+    name: 'gate-first-answer',
+    title: 'Gate First Answer',
+    description: 'No answer until think_cycle finalize passes the quality gate',
+    subjectDescription: 'Question that needs a gated answer',
+  },
+];
+
+const PHASE_ORDER = 'decompose → alternative → critique → synthesis → verification';
+
+export class PromptService {
+  /**
+   * Build prompt text for a workflow
+   */
+  build(name: ReasoningPromptName, args: ReasoningPromptArgs): string {
+    const subject = args.subject.trim();
+    const constraints = this.parseConstraints(args.constraints);
+    // Context is copied into tool calls - keep it within their limit
+    const context = args.context?.trim().substring(0, PROMPT_CONTEXT_MAX_LENGTH) || undefined;
+
+    switch (name) {
+      case 'deep-analysis':
+        return [
+          `TASK: Deep analysis of: ${subject}`,
+          '',
+          ...this.cycleLoop(subject, context, constraints),
+          '',
+          'OUTPUT: finalApprovedAnswer + 3 key reasons from the trace.',
+        ].join('\n');
+
+      case 'debug-incident':
+        return [
+          `TASK: Find and fix the root cause of: ${subject}`,
+          '',
+          'STEP 1 - Methodology:',
+          this.call('think_logic', {
+            target: subject,
+            context,
+            depth: 'deep',
+            focus: ['reliability', 'data-flow'],
+          }),
+          '- Apply CHAIN MAPPING to the failing flow; list break points from CRACK HUNTING.',
+          '',
+          'STEP 2 - Root cause loop:',
+          ...this.cycleLoop(`Root cause of incident: ${subject}`, context, [
+            'Reproduce or cite evidence before blaming a component',
+            ...constraints,
+          ]),
+          '',
+          'RULES:',
+          '- Each hypothesis = one alternative step with the evidence that would confirm or refute it',
+          '- IF evidence contradicts hypothesis THEN critique step, do not drop it silently',
+          '- Verification step MUST name the test/log/metric proving the fix',
+          '',
+          'OUTPUT: root cause, fix, verification, follow-up to prevent recurrence.',
+        ].join('\n');
+
+      case 'design-review':
+        return [
+          `TASK: Review design: ${subject}`,
+          '',
+          'STEP 1 - Methodology:',
+          this.call('think_logic', {
+            target: subject,
+            context: this.withConstraints(context, constraints),
+            depth: 'standard',
+            focus: ['architecture', 'reliability', 'security'],
+          }),
+          '',
+          'STEP 2 - Apply every phase to the design:',
+          '- CHAIN MAPPING: main flow + error paths',
+          '- CRACK HUNTING: assumptions, failure modes, scaling limits',
+          '- STANDARD BENCHMARK: compare to production standards',
+          '- ACTION PLANNING: concrete changes with owners',
+          '',
+          'RULES:',
+          '- IF a constraint is violated THEN severity >= high',
+          '- IF unsure about a finding THEN mark it as question, not defect',
+          '',
+          'OUTPUT: findings grouped by severity (blocker/high/medium/low), each with location + fix.',
+        ].join('\n');
+
+      case 'gate-first-answer':
+        return [
+          `QUESTION: ${subject}`,
+          '',
+          'HARD RULE: Do NOT answer the user until think_cycle finalize returns status "completed".',
+          '',
+          ...this.cycleLoop(subject, context, constraints),
+          '',
+          'IF finalize is blocked THEN add requiredMoreThoughts steps and finalize again.',
+          'IF maxLoops reached THEN tell the user the question must be split; do not guess.',
+          'OUTPUT: exactly finalApprovedAnswer.',
+        ].join('\n');
+    }
+  }
+
+  /**
+   * Shared think_cycle start/step/finalize instructions
+   */
+  private cycleLoop(goal: string, context: string | undefined, constraints: string[]): string[] {
+    return [
+      '1. START:',
+      this.call('think_cycle', {
+        action: 'start',
+        goal,
+        context,
+        constraints: constraints.length > 0 ? constraints : undefined,
+      }),
+      '   Keep the returned sessionId.',
+      `2. STEP until status is "ready" (phases: ${PHASE_ORDER}):`,
+      this.call('think_cycle', {
+        action: 'step',
+        sessionId: '<sessionId>',
+        thought: '<one reasoning step>',
+        confidence: 7,
+        constraintUpdates: constraints.length > 0
+          ? [{ constraint: 1, status: 'satisfied', note: '<how this step satisfies it>' }]
+          : undefined,
+      }),
+      '   - Follow nextPrompts; cover missing phases first',
+      ...(constraints.length > 0
+        ? ['   - IF a step satisfies, violates or defers a constraint THEN send constraintUpdates (1-based constraint number); open or violated constraints block finalize']
+        : []),
+      '   - IF quality.diversity drops THEN change angle, do not rephrase',
+      '3. FINALIZE:',
+      this.call('think_cycle', { action: 'finalize', sessionId: '<sessionId>', finalAnswer: '<answer candidate>' }),
+      '   - IF status "blocked" THEN read gate.reasonCodes, step again, re-finalize',
+    ];
+  }
+
+  /**
+   * Render a tool call example, dropping undefined fields
+   */
+  private call(tool: string, args: Record<string, unknown>): string {
+    const defined = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+    return `   ${tool} ${JSON.stringify(defined)}`;
+  }
+
+  private parseConstraints(raw?: string): string[] {
+    if (!raw) return [];
+    return raw
+      .split(/\n|;/)
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+      .slice(0, 20);
+  }
+
+  private withConstraints(context: string | undefined, constraints: string[]): string | undefined {
+    if (constraints.length === 0) return context;
+    const block = `Constraints: ${constraints.join('; ')}`.substring(0, PROMPT_CONTEXT_MAX_LENGTH);
+    const room = PROMPT_CONTEXT_MAX_LENGTH - block.length - 1;
+    return context && room > 0 ? `${context.substring(0, room)}\n${block}` : block;
+  }
+}
@@ -1,6 +1,11 @@
 /**
- * RecallService - Fuzzy search through thought history
- * Stateful service - owns Fuse.js index
+ * RecallService - Search through thought history
+ * Stateful service - owns Fuse.js and BM25 indexes
+ *
+ * v5.6.0: Hybrid ranking - BM25 over EN/RU stems blended with Fuse.js
+ * fuzzy similarity; snippets highlight every matched term.
+ * In vector similarity mode, cosine of offline n-gram vectors competes with Fuse
+ * as the fuzzy component and can surface reworded matches on its own
  */
 
 import Fuse from 'fuse.js';
@@ -9,13 +14,29 @@ import type {
   RecallInput,
   RecallResult,
   RecallMatch,
+  RecallProvenance,
   ExtensionType,
+  ImpactLevel,
+  SimilarityMode,
 } from '../types/thought.types.js';
 import {
   RECALL_DEFAULT_LIMIT,
   RECALL_DEFAULT_THRESHOLD,
   RECALL_SNIPPET_CONTEXT,
+  RECALL_BM25_WEIGHT,
+  RECALL_MIN_TERM_COVERAGE,
+  VECTOR_RECALL_MIN_SIMILARITY,
 } from '../constants/index.js';
+import {
+  Bm25Index,
+  tokenizeForSearch,
+  textToVector,
+  cosineSimilarity,
+  resolveSimilarityMode,
+  parseRecallQuery,
+  type SearchToken,
+  type ParsedRecallQuery,
+} from '../utils/index.js';
 
 /** Searchable item for Fuse.js index */
 interface FuseSearchItem {
@@ -23,17 +44,32 @@ interface FuseSearchItem {
   content: string;
   type: 'thought' | 'extension' | 'alternative' | 'subStep';
   extensionType?: string;
+  impact?: ImpactLevel;
   confidence?: number;
   sessionId?: string;
+  branchId?: string;
+  /** A later thought revises this one */
+  revised: boolean;
   originalThought: string;
+  provenance?: RecallProvenance;
 }
 
 export class RecallService {
   /** Fuse.js instance for fuzzy search - lazy initialized */
   private fuseIndex: Fuse<FuseSearchItem> | null = null;
+  /** BM25 index over the same items as Fuse (doc id = item index) */
+  private bm25Index: Bm25Index | null = null;
+  /** Indexed items with their search tokens */
+  private searchItems: FuseSearchItem[] = [];
+  private itemTokens: SearchToken[][] = [];
   /** Flag to track if index needs rebuild */
   private fuseIndexDirty = true;
 
+  /**
+   * @param similarity - Similarity mode (default: selected by THINK_MCP_SIMILARITY)
+   */
+  constructor(private readonly similarity: SimilarityMode = resolveSimilarityMode()) {}
+
   /**
    * Mark Fuse index as dirty (needs rebuild)
    * Call after adding new thoughts
@@ -46,61 +82,46 @@ export class RecallService {
    * Build searchable items array for Fuse.js index
    * Extracts thoughts, extensions, alternatives, and subSteps
    */
-  private buildSearchItems(thoughts: ThoughtRecord[]): FuseSearchItem[] {
+  private buildSearchItems(
+    thoughts: ThoughtRecord[],
+    provenanceOf?: (thought: ThoughtRecord) => RecallProvenance
+  ): FuseSearchItem[] {
     const items: FuseSearchItem[] = [];
 
+    // Thoughts superseded by a later revision, per session (revised: filter)
+    const revisionKey = (t: ThoughtRecord, thoughtNumber: number): string =>
+      `${provenanceOf?.(t)?.sessionKey ?? ''}|${t.sessionId ?? ''}|${thoughtNumber}`;
+    const revisedKeys = new Set(
+      thoughts.filter((t) => t.isRevision && t.revisesThought !== undefined).map((t) => revisionKey(t, t.revisesThought!))
+    );
+
     for (const t of thoughts) {
-      // Add main thought
-      items.push({
+      const base = {
         thoughtNumber: t.thoughtNumber,
-        content: t.thought,
-        type: 'thought',
         confidence: t.confidence,
         sessionId: t.sessionId,
         originalThought: t.thought,
-      });
+        provenance: provenanceOf?.(t),
+        branchId: t.branchId,
+        revised: revisedKeys.has(revisionKey(t, t.thoughtNumber)),
+      };
+
+      // Add main thought
+      items.push({ ...base, content: t.thought, type: 'thought' });
 
       // Add extensions
-      if (t.extensions) {
-        for (const ext of t.extensions) {
-          items.push({
-            thoughtNumber: t.thoughtNumber,
-            content: ext.content,
-            type: 'extension',
-            extensionType: ext.type,
-            confidence: t.confidence,
-            sessionId: t.sessionId,
-            originalThought: t.thought,
-          });
-        }
+      for (const ext of t.extensions ?? []) {
+        items.push({ ...base, content: ext.content, type: 'extension', extensionType: ext.type, impact: ext.impact });
       }
 
       // Add alternatives
-      if (t.alternatives) {
-        for (const alt of t.alternatives) {
-          items.push({
-            thoughtNumber: t.thoughtNumber,
-            content: alt,
-            type: 'alternative',
-            confidence: t.confidence,
-            sessionId: t.sessionId,
-            originalThought: t.thought,
-          });
-        }
+      for (const alt of t.alternatives ?? []) {
+        items.push({ ...base, content: alt, type: 'alternative' });
       }
 
       // Add subSteps
-      if (t.subSteps) {
-        for (const step of t.subSteps) {
-          items.push({
-            thoughtNumber: t.thoughtNumber,
-            content: step,
-            type: 'subStep',
-            confidence: t.confidence,
-            sessionId: t.sessionId,
-            originalThought: t.thought,
-          });
-        }
+      for (const step of t.subSteps ?? []) {
+        items.push({ ...base, content: step, type: 'subStep' });
       }
     }
 
@@ -108,11 +129,14 @@ export class RecallService {
   }
 
   /**
-   * Initialize or rebuild Fuse.js index
+   * Initialize or rebuild Fuse.js and BM25 indexes
    * Called lazily on first search or when index is dirty
    */
-  private rebuildFuseIndex(thoughts: ThoughtRecord[]): void {
-    const items = this.buildSearchItems(thoughts);
+  private rebuildFuseIndex(
+    thoughts: ThoughtRecord[],
+    provenanceOf?: (thought: ThoughtRecord) => RecallProvenance
+  ): void {
+    const items = this.buildSearchItems(thoughts, provenanceOf);
 
     this.fuseIndex = new Fuse(items, {
       keys: ['content'],
@@ -123,29 +147,116 @@ export class RecallService {
       ignoreLocation: true, // Search entire content, not just beginning
     });
 
+    this.searchItems = items;
+    this.itemTokens = items.map((item) => tokenizeForSearch(item.content));
+    this.bm25Index = new Bm25Index();
+    for (const tokens of this.itemTokens) {
+      this.bm25Index.add(tokens.map((t) => t.stem));
+    }
+
     this.fuseIndexDirty = false;
     console.error(
       `🔍 Fuse index rebuilt: ${items.length} searchable items from ${thoughts.length} thoughts`
     );
   }
 
+  /**
+   * Compile query operators into a predicate over indexed items (v5.6.0)
+   * Values of the same field are OR-ed, different fields AND-ed
+   */
+  private compileFilter(parsed: ParsedRecallQuery): (doc: number) => boolean {
+    const { filters } = parsed;
+    const phrases = parsed.phrases.map((p) => p.toLowerCase());
+    const excludedPhrases = parsed.excludedPhrases.map((p) => p.toLowerCase());
+    const excludedStems = new Set(tokenizeForSearch(parsed.excludedTerms.join(' ')).map((t) => t.stem));
+    const compare = (value: number, op: string, target: number): boolean =>
+      op === '<' ? value < target
+        : op === '<=' ? value <= target
+          : op === '>' ? value > target
+            : op === '>=' ? value >= target
+              : value === target;
+
+    return (doc) => {
+      const item = this.searchItems[doc];
+      if (filters.kinds.length > 0 && !filters.kinds.includes(item.type)) return false;
+      if (filters.extensionTypes.length > 0 && !filters.extensionTypes.some((t) => t === item.extensionType)) return false;
+      if (filters.impacts.length > 0 && !filters.impacts.some((i) => i === item.impact)) return false;
+      if (filters.branches.length > 0 && !filters.branches.includes(item.branchId ?? 'main')) return false;
+      if (filters.revised !== undefined && item.revised !== filters.revised) return false;
+      if (filters.confidence.some((c) => item.confidence === undefined || !compare(item.confidence, c.op, c.value))) return false;
+
+      const content = item.content.toLowerCase();
+      if (!phrases.every((p) => content.includes(p))) return false;
+      if (excludedPhrases.some((p) => content.includes(p))) return false;
+      return !this.itemTokens[doc].some((t) => excludedStems.has(t.stem));
+    };
+  }
+
   /**
    * Extract snippet with context around the match
-   * Returns ~200 chars centered on the match
+   * Returns ~200 chars centered on the densest cluster of matched terms,
+   * each matched word wrapped in **bold**
+   */
+  private extractSnippet(text: string, query: string, tokens: SearchToken[], matchedStems: Set<string>): string {
+    const hits = tokens.filter((t) => matchedStems.has(t.stem));
+
+    if (hits.length === 0) {
+      return this.extractFuzzySnippet(text, query);
+    }
+
+    // Anchor on the hit with the most other hits inside the context window
+    let anchor = hits[0];
+    let bestDensity = -1;
+    for (const hit of hits) {
+      const density = hits.filter((h) => Math.abs(h.index - hit.index) <= RECALL_SNIPPET_CONTEXT).length;
+      if (density > bestDensity) {
+        anchor = hit;
+        bestDensity = density;
+      }
+    }
+
+    const { start, end, prefix, suffix } = this.snippetWindow(text, anchor.index, anchor.word.length);
+
+    // Highlight every matched word inside the window
+    let snippet = '';
+    let cursor = start;
+    for (const hit of hits) {
+      if (hit.index < start || hit.index + hit.word.length > end) continue;
+      snippet += text.substring(cursor, hit.index) + `**${hit.word}**`;
+      cursor = hit.index + hit.word.length;
+    }
+    snippet += text.substring(cursor, end);
+
+    return prefix + snippet.trim() + suffix;
+  }
+
+  /**
+   * Snippet for fuzzy-only matches: centered on the first query word
    */
-  private extractSnippet(text: string, query: string): string {
+  private extractFuzzySnippet(text: string, query: string): string {
     const lowerText = text.toLowerCase();
     const lowerQuery = query.toLowerCase().split(/\s+/)[0]; // Use first word for matching
-    const idx = lowerText.indexOf(lowerQuery);
+    const idx = lowerQuery ? lowerText.indexOf(lowerQuery) : -1;
 
     if (idx === -1) {
       // Fuzzy match - return beginning of text
       return text.length > 200 ? text.substring(0, 200) + '...' : text;
     }
 
-    // Extract context window around match
+    const { start, end, prefix, suffix } = this.snippetWindow(text, idx, lowerQuery.length);
+    return prefix + text.substring(start, end).trim() + suffix;
+  }
+
+  /**
+   * Context window around a match, snapped to word boundaries
+   */
+  private snippetWindow(
+    text: string,
+    idx: number,
+    length: number
+  ): { start: number; end: number; prefix: string; suffix: string } {
     const start = Math.max(0, idx - RECALL_SNIPPET_CONTEXT);
-    const end = Math.min(text.length, idx + lowerQuery.length + RECALL_SNIPPET_CONTEXT);
+    const end = Math.min(text.length, idx + length + RECALL_SNIPPET_CONTEXT);
 
     const prefix = start > 0 ? '...' : '';
     const suffix = end < text.length ? '...' : '';
@@ -168,16 +279,21 @@ export class RecallService {
       }
     }
 
-    return prefix + text.substring(snippetStart, snippetEnd).trim() + suffix;
+    return { start: snippetStart, end: snippetEnd, prefix, suffix };
   }
 
   /**
-   * RECALL THOUGHT - Fuzzy search through thought history
+   * RECALL THOUGHT - Hybrid BM25 + fuzzy search through thought history
    * Helps model "remember" details from earlier in the session
    * @param input - Search parameters
    * @param thoughts - Thoughts to search through
+   * @param provenanceOf - Session info attached to each match (history scope, v5.6.0)
    */
-  recallThought(input: RecallInput, thoughts: ThoughtRecord[]): RecallResult {
+  recallThought(
+    input: RecallInput,
+    thoughts: ThoughtRecord[],
+    provenanceOf?: (thought: ThoughtRecord) => RecallProvenance
+  ): RecallResult {
     const {
       query,
       scope = 'current',
@@ -198,39 +314,102 @@ export class RecallService {
 
     // Rebuild index if dirty
     if (this.fuseIndexDirty || !this.fuseIndex) {
-      this.rebuildFuseIndex(thoughts);
+      this.rebuildFuseIndex(thoughts, provenanceOf);
     }
 
-    // Perform search (get more results than needed for filtering)
-    const rawResults = this.fuseIndex?.search(query, { limit: limit * 5 }) ?? [];
+    // Split operators from the text that is scored (v5.6.0)
+    const parsed = parseRecallQuery(query);
+    const searchText = [parsed.text, ...parsed.phrases].join(' ').trim();
+    const passesFilters = this.compileFilter(parsed);
 
-    // Filter by threshold (Fuse returns score where lower = better match)
-    const thresholdFiltered = rawResults.filter((r) => (r.score ?? 1) <= threshold);
+    // Fuzzy scores for every item Fuse considers close enough (lower = better)
+    const fuseScores = new Map<number, number>();
+    for (const r of searchText ? this.fuseIndex?.search(searchText) ?? [] : []) {
+      fuseScores.set(r.refIndex, r.score ?? 1);
+    }
 
-    // Filter by searchIn parameter
-    const filteredResults = thresholdFiltered.filter((r) => {
-      if (searchIn === 'all') return true;
-      if (searchIn === 'thoughts') return r.item.type === 'thought';
-      if (searchIn === 'extensions') return r.item.type === 'extension';
-      if (searchIn === 'alternatives')
-        return r.item.type === 'alternative' || r.item.type === 'subStep';
-      return true;
-    });
+    // Vector mode: cosine competes with Fuse as the fuzzy component
+    const vectorHits = new Set<number>();
+    if (this.similarity === 'vector' && searchText) {
+      const queryVector = textToVector(searchText);
+      this.searchItems.forEach((item, doc) => {
+        const cosine = cosineSimilarity(queryVector, textToVector(item.content));
+        if (cosine >= VECTOR_RECALL_MIN_SIMILARITY) {
+          vectorHits.add(doc);
+          fuseScores.set(doc, Math.min(fuseScores.get(doc) ?? 1, 1 - cosine));
+        }
+      });
+    }
+
+    // Lexical scores over stems
+    const queryTokens = tokenizeForSearch(searchText);
+    const queryStems = [...new Set(queryTokens.map((t) => t.stem))];
+    const bm25Hits = this.bm25Index?.search(queryStems) ?? [];
+    const maxBm25 = bm25Hits[0]?.score ?? 0;
+    const bm25Weight = maxBm25 > 0 ? RECALL_BM25_WEIGHT : 0;
+
+    // Candidates: fuzzy hits within threshold or lexical hits covering enough of the query
+    const candidates = new Map<number, { relevance: number; matchedStems: Set<string> }>();
+    const addCandidate = (doc: number, bm25: number, matchedStems: Set<string>): void => {
+      const fuseScore = fuseScores.get(doc) ?? 1;
+      const similarity = bm25Weight * (maxBm25 > 0 ? bm25 / maxBm25 : 0) + (1 - bm25Weight) * (1 - fuseScore);
+      candidates.set(doc, { relevance: 1 - similarity, matchedStems });
+    };
+
+    for (const hit of bm25Hits) {
+      const coverage = hit.matchedTerms.length / queryStems.length;
+      if (coverage >= RECALL_MIN_TERM_COVERAGE || (fuseScores.get(hit.doc) ?? 1) <= threshold) {
+        addCandidate(hit.doc, hit.score, new Set(hit.matchedTerms));
+      }
+    }
+    for (const [doc, score] of fuseScores) {
+      if (!candidates.has(doc) && (score <= threshold || vectorHits.has(doc))) {
+        addCandidate(doc, 0, new Set());
+      }
+    }
+
+    // Filters only (e.g. "type:critique impact:blocker"): every item qualifies, newest first
+    if (!searchText && parsed.hasOperators) {
+      for (let doc = this.searchItems.length - 1; doc >= 0; doc--) {
+        candidates.set(doc, { relevance: 0, matchedStems: new Set() });
+      }
+    }
+
+    // Filter by query operators and searchIn parameter
+    const filteredResults = [...candidates.entries()]
+      .map(([doc, candidate]) => ({ item: this.searchItems[doc], doc, ...candidate }))
+      .filter((r) => passesFilters(r.doc))
+      .filter((r) => {
+        if (searchIn === 'all') return true;
+        if (searchIn === 'thoughts') return r.item.type === 'thought';
+        if (searchIn === 'extensions') return r.item.type === 'extension';
+        if (searchIn === 'alternatives')
+          return r.item.type === 'alternative' || r.item.type === 'subStep';
+        return true;
+      })
+      .sort((a, b) => a.relevance - b.relevance);
 
     // Map to RecallMatch format
-    const matches: RecallMatch[] = filteredResults.slice(0, limit).map((r) => ({
-      thoughtNumber: r.item.thoughtNumber,
-      snippet: this.extractSnippet(r.item.content, query),
-      thought:
-        r.item.originalThought.length > 300
-          ? r.item.originalThought.substring(0, 300) + '...'
-          : r.item.originalThought,
-      confidence: r.item.confidence,
-      relevance: r.score ?? 1,
-      matchedIn: r.item.type,
-      extensionType: r.item.extensionType as ExtensionType | undefined,
-      sessionId: r.item.sessionId,
-    }));
+    const matches: RecallMatch[] = filteredResults.slice(0, limit).map((r) => {
+      const matchedTerms = [
+        ...new Set(queryTokens.filter((t) => r.matchedStems.has(t.stem)).map((t) => t.word.toLowerCase())),
+      ];
+      return {
+        thoughtNumber: r.item.thoughtNumber,
+        snippet: this.extractSnippet(r.item.content, searchText, this.itemTokens[r.doc], r.matchedStems),
+        thought:
+          r.item.originalThought.length > 300
+            ? r.item.originalThought.substring(0, 300) + '...'
+            : r.item.originalThought,
+        confidence: r.item.confidence,
+        relevance: Math.round(r.relevance * 1000) / 1000,
+        matchedIn: r.item.type,
+        matchedTerms: matchedTerms.length > 0 ? matchedTerms : undefined,
+        extensionType: r.item.extensionType as ExtensionType | undefined,
+        sessionId: r.item.sessionId,
+        provenance: r.item.provenance,
+      };
+    });
 
     // Log search
     console.error(
@@ -239,7 +418,7 @@ export class RecallService {
 
     return {
       matches,
-      totalSearched: rawResults.length,
+      totalSearched: candidates.size,
       query,
       searchParams: { scope, searchIn, threshold },
     };
@@ -0,0 +1,628 @@
+/**
+ * SqliteStorageBackend - SQLite persistence for sessions, cycles and insights
+ * Version 5.6.0 - Storage Edition
+ *
+ * One database (THINK_MCP_DATA_DIR/think-mcp.db) replaces the JSON files:
+ * - snapshots + journal: same snapshot/replay model as the JSONL backend
+ * - thoughts, extensions, dead_ends, cycle_sessions, cycle_steps, winning_paths:
+ *   append-only history projected from journal events and never truncated,
+ *   so months of reasoning stay queryable (branches is a view over thoughts)
+ *   (thoughts rows follow think_edit: edits set edited_at, undo/delete only set deleted_at;
+ *   winning_paths rows follow think_insights edits; deletes only set deleted_at;
+ *   insight_feedback keeps one row per applied/helpful verdict; chain holds the reasoning as JSON)
+ * - revisions: per-store commit counters for multi-process change detection
+ * Existing JSON files are imported on first load and left untouched.
+ * Requires the optional `better-sqlite3` dependency.
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname } from 'path';
+import type Database from 'better-sqlite3';
+import { SQLITE_DB_FILE_NAME, STORAGE_COMPACT_EVERY } from '../constants/index.js';
+import type {
+  CycleBranchSelection,
+  CycleJournalEvent,
+  CycleSession,
+  StorageEvent,
+  ThinkingJournalEvent,
+} from '../types/thought.types.js';
+import { readJournal, removeJournal } from '../utils/journal-files.js';
+import { getThinkMcpDataFile } from '../utils/storage-paths.js';
+import type { InsightJournalEvent } from './insights.service.js';
+import type { StorageBackend, StoredState, StoreSnapshot } from './storage.service.js';
+
+type HistoryEvent = ThinkingJournalEvent | CycleJournalEvent | InsightJournalEvent;
+
+interface SqliteMigration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+/** Schema migrations, applied in order inside a transaction each */
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'snapshots, journal and reasoning history',
+    sql: `
+      CREATE TABLE snapshots (
+        store TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        saved_at TEXT NOT NULL
+      );
+      CREATE TABLE journal (
+        store TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        PRIMARY KEY (store, seq)
+      );
+      CREATE TABLE thoughts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_key TEXT NOT NULL,
+        session_id TEXT,
+        thought_number INTEGER NOT NULL,
+        thought TEXT NOT NULL,
+        confidence REAL,
+        is_revision INTEGER NOT NULL DEFAULT 0,
+        revises_thought INTEGER,
+        branch_from_thought INTEGER,
+        branch_id TEXT,
+        goal TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_thoughts_session ON thoughts (session_key, session_id);
+      CREATE INDEX idx_thoughts_created ON thoughts (created_at);
+      CREATE VIEW branches AS
+        SELECT session_key, session_id, branch_id,
+               MIN(branch_from_thought) AS branch_from_thought,
+               COUNT(*) AS thought_count,
+               MAX(created_at) AS updated_at
+        FROM thoughts
+        WHERE branch_id IS NOT NULL
+        GROUP BY session_key, session_id, branch_id;
+      CREATE TABLE extensions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_key TEXT NOT NULL,
+        thought_number INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        impact TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_extensions_thought ON extensions (session_key, thought_number);
+      CREATE TABLE dead_ends (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_key TEXT NOT NULL,
+        session_id TEXT,
+        path TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE cycle_sessions (
+        session_id TEXT PRIMARY KEY,
+        goal TEXT NOT NULL,
+        context TEXT,
+        constraints TEXT NOT NULL,
+        backend_mode TEXT NOT NULL,
+        max_loops INTEGER NOT NULL,
+        required_thoughts INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        reset_at INTEGER
+      );
+      CREATE TABLE cycle_steps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        step_index INTEGER NOT NULL,
+        thought TEXT NOT NULL,
+        thought_type TEXT NOT NULL,
+        confidence REAL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_cycle_steps_session ON cycle_steps (session_id, step_index);
+      CREATE TABLE winning_paths (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        summary TEXT NOT NULL,
+        goal TEXT,
+        path TEXT NOT NULL,
+        keywords TEXT NOT NULL,
+        avg_confidence REAL,
+        session_length INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_winning_paths_created ON winning_paths (created_at);
+    `,
+  },
+  {
+    version: 2,
+    description: 'store revision counters for multi-process change detection',
+    sql: `
+      CREATE TABLE revisions (
+        store TEXT PRIMARY KEY,
+        revision INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    description: 'insight ids, tags, pins and soft deletes for think_insights',
+    sql: `
+      ALTER TABLE winning_paths ADD COLUMN insight_id TEXT;
+      ALTER TABLE winning_paths ADD COLUMN source TEXT NOT NULL DEFAULT 'session';
+      ALTER TABLE winning_paths ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+      ALTER TABLE winning_paths ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE winning_paths ADD COLUMN updated_at TEXT;
+      ALTER TABLE winning_paths ADD COLUMN deleted_at TEXT;
+      CREATE INDEX idx_winning_paths_insight ON winning_paths (insight_id);
+    `,
+  },
+  {
+    version: 4,
+    description: 'insight usefulness feedback',
+    sql: `
+      CREATE TABLE insight_feedback (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        insight_id TEXT NOT NULL,
+        applied INTEGER NOT NULL,
+        helpful INTEGER,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_insight_feedback_insight ON insight_feedback (insight_id, created_at);
+    `,
+  },
+  {
+    version: 5,
+    description: 'per-project insight namespaces',
+    sql: `
+      ALTER TABLE winning_paths ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+      CREATE INDEX idx_winning_paths_namespace ON winning_paths (namespace, created_at);
+    `,
+  },
+  {
+    version: 6,
+    description: 'reasoning chains of insights',
+    sql: `
+      ALTER TABLE winning_paths ADD COLUMN chain TEXT;
+    `,
+  },
+  {
+    version: 7,
+    description: 'think_cycle gate profiles',
+    sql: `
+      ALTER TABLE cycle_sessions ADD COLUMN profile TEXT NOT NULL DEFAULT 'standard';
+    `,
+  },
+  {
+    version: 8,
+    description: 'think_cycle constraint checklist updates',
+    sql: `
+      ALTER TABLE cycle_steps ADD COLUMN constraint_updates TEXT;
+    `,
+  },
+  {
+    version: 9,
+    description: 'think_cycle branches and branch selection',
+    sql: `
+      ALTER TABLE cycle_steps ADD COLUMN branch_id TEXT;
+      ALTER TABLE cycle_steps ADD COLUMN parent_index INTEGER;
+      ALTER TABLE cycle_sessions ADD COLUMN selected_branch TEXT;
+      ALTER TABLE cycle_sessions ADD COLUMN selection_reason TEXT;
+    `,
+  },
+  {
+    version: 10,
+    description: 'think_cycle completion and archiving',
+    sql: `
+      ALTER TABLE cycle_sessions ADD COLUMN completed_at INTEGER;
+      ALTER TABLE cycle_sessions ADD COLUMN final_answer TEXT;
+      ALTER TABLE cycle_sessions ADD COLUMN archived_at INTEGER;
+    `,
+  },
+  {
+    version: 11,
+    description: 'thought edits and soft deletes',
+    sql: `
+      ALTER TABLE thoughts ADD COLUMN edited_at INTEGER;
+      ALTER TABLE thoughts ADD COLUMN deleted_at INTEGER;
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations; returns the resulting schema version
+ */
+export function runSqliteMigrations(db: Database.Database): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+  let current = row.version ?? 0;
+
+  for (const migration of SQLITE_MIGRATIONS) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.prepare('INSERT INTO schema_migrations (version, description, applied_at) VALUES (?, ?, ?)')
+        .run(migration.version, migration.description, new Date().toISOString());
+    })();
+    current = migration.version;
+    console.error(`🗄️ SQLite schema migrated to v${current}: ${migration.description}`);
+  }
+  return current;
+}
+
+/** Store key inside the database: `thought_session.json` → `thought_session` */
+function storeName(snapshotFile: string): string {
+  return basename(snapshotFile, '.json');
+}
+
+/** SQLite has no booleans or undefined */
+function toSqlValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Synthesize history events from a snapshot so imported JSON data is queryable
+ */
+function snapshotHistoryEvents(state: unknown): HistoryEvent[] {
+  if (!state || typeof state !== 'object') return [];
+  const data = state as Record<string, unknown>;
+  const events: HistoryEvent[] = [];
+
+  if (Array.isArray(data.winningPaths)) {
+    for (const record of data.winningPaths) {
+      events.push({ seq: 0, type: 'insight', record });
+    }
+  }
+
+  // Thought sessions (schema v3 or legacy single session) and cycle sessions
+  const sessions: unknown[] = Array.isArray(data.sessions)
+    ? [...data.sessions, ...(Array.isArray(data.archived) ? data.archived : [])]
+    : Array.isArray(data.history) ? [{ ...data, key: 'default' }] : [];
+  for (const raw of sessions) {
+    if (!raw || typeof raw !== 'object') continue;
+    const session = raw as Record<string, unknown>;
+    if (Array.isArray(session.history)) {
+      const key = typeof session.key === 'string' ? session.key : 'default';
+      session.history.forEach((record, thoughtIndex) => {
+        events.push({
+          seq: 0,
+          type: 'thought',
+          session: key,
+          record,
+          lastThoughtNumber: 0,
+          goal: typeof session.goal === 'string' ? session.goal : undefined,
+          currentSessionId: '',
+        });
+        for (const extension of Array.isArray(record?.extensions) ? record.extensions : []) {
+          events.push({ seq: 0, type: 'extension', session: key, thoughtIndex, thoughtNumber: record.thoughtNumber, extension });
+        }
+      });
+      for (const deadEnd of Array.isArray(session.deadEnds) ? session.deadEnds : []) {
+        events.push({ seq: 0, type: 'dead_end', session: key, deadEnd });
+      }
+    } else if (Array.isArray(session.thoughts) && typeof session.sessionId === 'string') {
+      events.push({ seq: 0, type: 'cycle_start', session: session as unknown as CycleSession });
+      for (const record of session.thoughts) {
+        events.push({ seq: 0, type: 'cycle_step', sessionId: session.sessionId, record, interopFallback: false });
+      }
+      const selection = session.selectedBranch as Partial<CycleBranchSelection> | undefined;
+      if (typeof selection?.branchId === 'string' && typeof selection.reason === 'string') {
+        events.push({ seq: 0, type: 'cycle_select_branch', sessionId: session.sessionId, selection: {
+          branchId: selection.branchId,
+          reason: selection.reason,
+          timestamp: Number(selection.timestamp) || Date.now(),
+        } });
+      }
+      if (typeof session.finalApprovedAnswer === 'string') {
+        events.push({ seq: 0, type: 'cycle_complete', sessionId: session.sessionId,
+          finalApprovedAnswer: session.finalApprovedAnswer, completedAt: Number(session.completedAt) || Date.now() });
+      }
+      if (Number.isFinite(session.archivedAt)) {
+        events.push({ seq: 0, type: 'cycle_archive', sessionId: session.sessionId, archivedAt: Number(session.archivedAt) });
+      }
+    }
+  }
+  return events;
+}
+
+export class SqliteStorageBackend implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  readonly boundedHistory = false;
+
+  private opening: Promise<Database.Database> | null = null;
+
+  /** Journal rows written since the last snapshot, per store */
+  private pending = new Map<string, number>();
+
+  constructor(
+    private readonly dbFile = getThinkMcpDataFile(SQLITE_DB_FILE_NAME),
+    private readonly compactEvery = STORAGE_COMPACT_EVERY
+  ) {}
+
+  async commit(snapshotFile: string, events: StorageEvent[], snapshot: StoreSnapshot, revision: number, forceSnapshot = false): Promise<void> {
+    const db = await this.open();
+    const store = storeName(snapshotFile);
+    const pending = (this.pending.get(store) ?? 0) + events.length;
+    const compact = forceSnapshot || events.length === 0 || pending >= this.compactEvery;
+
+    // better-sqlite3 is synchronous: the whole commit is one atomic transaction
+    db.transaction(() => {
+      for (const event of events) {
+        this.appendEvent(db, store, event);
+      }
+      if (compact) {
+        this.writeSnapshot(db, store, snapshot.build());
+      }
+      db.prepare(`
+        INSERT INTO revisions (store, revision) VALUES (?, ?)
+        ON CONFLICT (store) DO UPDATE SET revision = excluded.revision
+      `).run(store, revision);
+    })();
+    this.pending.set(store, compact ? 0 : pending);
+  }
+
+  async readRevision(snapshotFile: string): Promise<number> {
+    const db = await this.open();
+    const row = db.prepare('SELECT revision FROM revisions WHERE store = ?').get(storeName(snapshotFile)) as { revision: number } | undefined;
+    return row?.revision ?? 0;
+  }
+
+  async load<S, E extends StorageEvent>(snapshotFile: string, snapshot: StoreSnapshot<S>): Promise<StoredState<S, E>> {
+    const revision = await this.readRevision(snapshotFile);
+    const db = await this.open();
+    const store = storeName(snapshotFile);
+    const row = db.prepare('SELECT data FROM snapshots WHERE store = ?').get(store) as { data: string } | undefined;
+    const journal = (db.prepare('SELECT payload FROM journal WHERE store = ? ORDER BY seq').all(store) as { payload: string }[])
+      .map(({ payload }) => JSON.parse(payload) as E);
+
+    if (row || journal.length > 0) {
+      this.pending.set(store, journal.length);
+      return { snapshot: row ? JSON.parse(row.data) as S : null, events: journal, revision };
+    }
+
+    // First run against this database: import the JSON snapshot and any JSONL journal
+    const imported = await snapshot.readFile();
+    const coveredSeq = Number((imported as { journalSeq?: number } | null)?.journalSeq ?? 0);
+    const legacyEvents = (await readJournal<E>(snapshotFile)).filter(event => event.seq > coveredSeq);
+    if (imported || legacyEvents.length > 0) {
+      db.transaction(() => {
+        if (imported) {
+          this.writeSnapshot(db, store, imported);
+          for (const event of snapshotHistoryEvents(imported)) {
+            this.projectEvent(db, event);
+          }
+        }
+        for (const event of legacyEvents) {
+          this.appendEvent(db, store, event);
+        }
+      })();
+      await removeJournal(snapshotFile);
+      console.error(`📦 Imported ${basename(snapshotFile)} into ${basename(this.dbFile)}`);
+    }
+    this.pending.set(store, legacyEvents.length);
+    return { snapshot: imported, events: legacyEvents, revision };
+  }
+
+  async clear(snapshotFile: string): Promise<void> {
+    const db = await this.open();
+    const store = storeName(snapshotFile);
+    // History tables are kept - only the current state of the store is dropped
+    db.transaction(() => {
+      db.prepare('DELETE FROM snapshots WHERE store = ?').run(store);
+      db.prepare('DELETE FROM journal WHERE store = ?').run(store);
+    })();
+    this.pending.set(store, 0);
+  }
+
+  /**
+   * Close the database (tests, shutdown)
+   */
+  async close(): Promise<void> {
+    if (!this.opening) return;
+    const opening = this.opening;
+    this.opening = null;
+    (await opening).close();
+  }
+
+  /**
+   * Open the database once, loading better-sqlite3 lazily so the other backends work without it
+   */
+  private open(): Promise<Database.Database> {
+    this.opening ??= (async () => {
+      let DatabaseCtor: typeof Database;
+      try {
+        DatabaseCtor = (await import('better-sqlite3')).default;
+      } catch {
+        throw new Error('SQLite storage requires the optional "better-sqlite3" package (npm install better-sqlite3)');
+      }
+      await fs.mkdir(dirname(this.dbFile), { recursive: true });
+      const db = new DatabaseCtor(this.dbFile);
+      db.pragma('journal_mode = WAL');
+      runSqliteMigrations(db);
+      return db;
+    })().catch((error) => {
+      this.opening = null;
+      throw error;
+    });
+    return this.opening;
+  }
+
+  private appendEvent(db: Database.Database, store: string, event: StorageEvent): void {
+    db.prepare('INSERT OR IGNORE INTO journal (store, seq, type, payload) VALUES (?, ?, ?, ?)')
+      .run(store, event.seq, event.type, JSON.stringify(event));
+    this.projectEvent(db, event as HistoryEvent);
+  }
+
+  private writeSnapshot(db: Database.Database, store: string, state: unknown): void {
+    db.prepare(`
+      INSERT INTO snapshots (store, data, saved_at) VALUES (?, ?, ?)
+      ON CONFLICT (store) DO UPDATE SET data = excluded.data, saved_at = excluded.saved_at
+    `).run(store, JSON.stringify(state), new Date().toISOString());
+    db.prepare('DELETE FROM journal WHERE store = ?').run(store);
+  }
+
+  /**
+   * Copy an event into the history tables; malformed events are skipped
+   */
+  private projectEvent(db: Database.Database, event: HistoryEvent): void {
+    switch (event.type) {
+      case 'thought': {
+        const record = event.record;
+        if (!record || typeof record.thought !== 'string' || !Number.isInteger(record.thoughtNumber)) return;
+        db.prepare(`
+          INSERT INTO thoughts (session_key, session_id, thought_number, thought, confidence, is_revision,
+                                revises_thought, branch_from_thought, branch_id, goal, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          event.session,
+          toSqlValue(record.sessionId),
+          record.thoughtNumber,
+          record.thought,
+          toSqlValue(record.confidence),
+          record.isRevision ? 1 : 0,
+          toSqlValue(record.revisesThought),
+          toSqlValue(record.branchFromThought),
+          toSqlValue(record.branchId),
+          toSqlValue(event.goal),
+          Number.isFinite(record.timestamp) ? record.timestamp : Date.now()
+        );
+        return;
+      }
+      case 'extension': {
+        const extension = event.extension;
+        if (!extension || typeof extension.content !== 'string' || !Number.isInteger(event.thoughtNumber)) return;
+        db.prepare(`
+          INSERT INTO extensions (session_key, thought_number, type, content, impact, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(event.session, event.thoughtNumber, String(extension.type), extension.content,
+          toSqlValue(extension.impact), toSqlValue(extension.timestamp) ?? new Date().toISOString());
+        return;
+      }
+      case 'thought_edit': {
+        const entry = event.entry;
+        if (!entry || !Number.isInteger(entry.thoughtNumber)) return;
+        const changedAt = Date.parse(entry.timestamp) || Date.now();
+        // Latest live row of that thought - numbers repeat across runs of a session
+        const target = `id = (
+          SELECT MAX(id) FROM thoughts
+          WHERE session_key = ? AND thought_number = ? AND branch_id IS ? AND deleted_at IS NULL
+        )`;
+        const key = [event.session, entry.thoughtNumber, toSqlValue(entry.branchId)];
+        if (entry.action === 'edit') {
+          db.prepare(`UPDATE thoughts SET thought = COALESCE(?, thought), confidence = COALESCE(?, confidence), edited_at = ? WHERE ${target}`)
+            .run(toSqlValue(event.thought), toSqlValue(event.confidence), changedAt, ...key);
+        } else {
+          db.prepare(`UPDATE thoughts SET deleted_at = ? WHERE ${target}`).run(changedAt, ...key);
+        }
+        return;
+      }
+      case 'session_reset':
+      case 'done':
+      case 'branch_close':
+        // Session state only - history keeps every thought
+        return;
+      case 'dead_end': {
+        const deadEnd = event.deadEnd;
+        if (!deadEnd || !Array.isArray(deadEnd.path)) return;
+        db.prepare(`
+          INSERT INTO dead_ends (session_key, session_id, path, reason, created_at)
+          VALUES (?, ?, ?, ?, ?)
+        `).run(event.session, toSqlValue(deadEnd.sessionId), JSON.stringify(deadEnd.path),
+          String(deadEnd.reason ?? ''), toSqlValue(deadEnd.timestamp) ?? new Date().toISOString());
+        return;
+      }
+      case 'cycle_start': {
+        const session = event.session;
+        if (!session || typeof session.sessionId !== 'string' || typeof session.goal !== 'string') return;
+        db.prepare(`
+          INSERT OR REPLACE INTO cycle_sessions (session_id, goal, context, constraints, backend_mode,
+                                                 max_loops, required_thoughts, profile, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(session.sessionId, session.goal, toSqlValue(session.context), JSON.stringify(session.constraints ?? []),
+          String(session.backendMode ?? 'auto'), Number(session.maxLoops) || 0, Number(session.requiredThoughts) || 0,
+          String(session.gateProfile?.name ?? 'standard'),
+          Number.isFinite(session.createdAt) ? session.createdAt : Date.now());
+        return;
+      }
+      case 'cycle_step': {
+        const record = event.record;
+        if (!record || typeof record.thought !== 'string') return;
+        db.prepare(`
+          INSERT INTO cycle_steps (session_id, step_index, thought, thought_type, confidence, constraint_updates,
+                                   branch_id, parent_index, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(event.sessionId, Number(record.index) || 0, record.thought, String(record.thoughtType),
+          toSqlValue(record.confidence), record.constraintUpdates ? JSON.stringify(record.constraintUpdates) : null,
+          toSqlValue(record.branchId), toSqlValue(record.parentIndex),
+          Number.isFinite(record.timestamp) ? record.timestamp : Date.now());
+        db.prepare('UPDATE cycle_sessions SET completed_at = NULL, final_answer = NULL WHERE session_id = ?').run(event.sessionId);
+        return;
+      }
+      case 'cycle_select_branch':
+        db.prepare(`
+          UPDATE cycle_sessions SET selected_branch = ?, selection_reason = ?, completed_at = NULL, final_answer = NULL
+          WHERE session_id = ?
+        `).run(String(event.selection?.branchId ?? ''), toSqlValue(event.selection?.reason), event.sessionId);
+        return;
+      case 'cycle_complete':
+        db.prepare('UPDATE cycle_sessions SET completed_at = ?, final_answer = ? WHERE session_id = ?')
+          .run(Number.isFinite(event.completedAt) ? event.completedAt : Date.now(), String(event.finalApprovedAnswer ?? ''), event.sessionId);
+        return;
+      case 'cycle_archive':
+        db.prepare('UPDATE cycle_sessions SET archived_at = ? WHERE session_id = ?')
+          .run(Number.isFinite(event.archivedAt) ? event.archivedAt : Date.now(), event.sessionId);
+        return;
+      case 'cycle_reset':
+        db.prepare('UPDATE cycle_sessions SET reset_at = ? WHERE session_id = ?').run(Date.now(), event.sessionId);
+        return;
+      case 'insight': {
+        const record = event.record;
+        if (!record || typeof record.summary !== 'string' || !Array.isArray(record.path)) return;
+        db.prepare(`
+          INSERT INTO winning_paths (insight_id, summary, goal, path, keywords, avg_confidence, session_length,
+                                     source, tags, pinned, namespace, chain, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(toSqlValue(record.id), record.summary, toSqlValue(record.goal), JSON.stringify(record.path),
+          JSON.stringify(record.keywords ?? []), toSqlValue(record.avgConfidence),
+          Number(record.sessionLength) || record.path.length, record.source ?? 'session',
+          JSON.stringify(record.tags ?? []), record.pinned ? 1 : 0, record.namespace ?? 'default',
+          record.chain ? JSON.stringify(record.chain) : null, toSqlValue(record.timestamp) ?? new Date().toISOString());
+        return;
+      }
+      case 'insight_update': {
+        const changes = event.changes;
+        if (typeof event.id !== 'string' || !changes) return;
+        const columns: Array<[string, string | number | null]> = [];
+        if (changes.summary !== undefined) columns.push(['summary', changes.summary]);
+        if ('goal' in changes) columns.push(['goal', toSqlValue(changes.goal)]);
+        if (changes.keywords) columns.push(['keywords', JSON.stringify(changes.keywords)]);
+        if ('tags' in changes) columns.push(['tags', JSON.stringify(changes.tags ?? [])]);
+        if ('pinned' in changes) columns.push(['pinned', changes.pinned ? 1 : 0]);
+        columns.push(['updated_at', toSqlValue(event.updatedAt)]);
+        db.prepare(`UPDATE winning_paths SET ${columns.map(([name]) => `${name} = ?`).join(', ')} WHERE insight_id = ?`)
+          .run(...columns.map(([, value]) => value), event.id);
+        return;
+      }
+      case 'insight_feedback':
+        if (typeof event.id !== 'string') return;
+        db.prepare(`
+          INSERT INTO insight_feedback (insight_id, applied, helpful, created_at)
+          VALUES (?, ?, ?, ?)
+        `).run(event.id, event.applied ? 1 : 0, typeof event.helpful === 'boolean' ? (event.helpful ? 1 : 0) : null,
+          toSqlValue(event.timestamp) ?? new Date().toISOString());
+        return;
+      case 'insight_delete':
+        if (typeof event.id !== 'string') return;
+        db.prepare('UPDATE winning_paths SET deleted_at = ? WHERE insight_id = ?').run(new Date().toISOString(), event.id);
+        return;
+    }
+  }
+}
@@ -1,20 +1,30 @@
 /**
  * StagnationService - Detection of repetitive thinking patterns
  * Stateless service - receives data as parameters
+ * v5.6.0: Similarity is word-set Jaccard or offline vectors (SimilarityMode)
  */
 
-import type { ThoughtRecord } from '../types/thought.types.js';
+import type { ThoughtRecord, SimilarityMode } from '../types/thought.types.js';
 import {
   STAGNATION_CHECK_COUNT,
   MIN_ENTROPY_THRESHOLD,
   getStagnationThreshold,
 } from '../constants/index.js';
-import { calculateJaccardSimilarity, calculateWordEntropy } from '../utils/index.js';
+import { calculateWordEntropy, getTextSimilarity, resolveSimilarityMode, type TextSimilarity } from '../utils/index.js';
 
 export class StagnationService {
+  private readonly similarity: TextSimilarity;
+
+  /**
+   * @param similarity - Similarity mode (default: selected by THINK_MCP_SIMILARITY)
+   */
+  constructor(similarity: SimilarityMode = resolveSimilarityMode()) {
+    this.similarity = getTextSimilarity(similarity);
+  }
+
   /**
    * Detect stagnation - repeated similar thoughts with improved detection
-   * Uses Jaccard similarity and entropy analysis
+   * Uses text similarity and entropy analysis
    * @param newThought - The new thought text to check
    * @param thoughtHistory - Full thought history
    */
@@ -23,7 +33,7 @@ export class StagnationService {
 
     const recent = thoughtHistory.slice(-STAGNATION_CHECK_COUNT);
     const adaptiveThreshold = getStagnationThreshold(thoughtHistory.length);
-    const similarities = recent.map((t) => calculateJaccardSimilarity(newThought, t.thought));
+    const similarities = recent.map((t) => this.similarity(newThought, t.thought));
     const avgSimilarity = similarities.reduce((a, b) => a + b, 0) / similarities.length;
     const allHighlySimilar = similarities.every((s) => s >= adaptiveThreshold);
 
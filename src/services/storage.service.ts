@@ -0,0 +1,215 @@
+/**
+ * StorageService - Pluggable persistence backends
+ * Version 5.6.0 - Storage Edition
+ *
+ * Services keep their own snapshot files (atomic tmp → rename) and hand every
+ * change to a StorageBackend as journal events:
+ * - json:   rewrite the snapshot on every change (pre-5.6 behavior)
+ * - jsonl:  append events to `<store>.events.jsonl`, fold them into the snapshot
+ *           every STORAGE_COMPACT_EVERY events (compaction)
+ * - sqlite: journal, snapshots and queryable history in one database
+ *           (see SqliteStorageBackend)
+ * On load, services replay events newer than the snapshot's journalSeq.
+ *
+ * Every commit bumps a per-store revision counter (`<store>.rev`, or a table in
+ * SQLite). Services commit under a cross-process file lock and compare the
+ * revision with the one they last saw to detect writes by other processes.
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname } from 'path';
+import { STORAGE_COMPACT_EVERY } from '../constants/index.js';
+import type { StorageBackendKind, StorageEvent } from '../types/thought.types.js';
+import {
+  getJournalFile,
+  readJournal,
+  readRevision,
+  removeJournal,
+  writeRevision,
+} from '../utils/journal-files.js';
+import { SqliteStorageBackend } from './sqlite-storage.service.js';
+
+const STORAGE_ENV = 'THINK_MCP_STORAGE';
+const STORAGE_BACKEND_KINDS: StorageBackendKind[] = ['json', 'jsonl', 'sqlite'];
+
+/** How a service exposes its state to a backend */
+export interface StoreSnapshot<S = unknown> {
+  /** Persisted shape of the current in-memory state */
+  build(): S;
+  /** Atomically rewrite the store's JSON file; must throw when the write fails */
+  writeFile(state: S): Promise<void>;
+  /** Read the store's JSON file; null when missing or corrupted */
+  readFile(): Promise<S | null>;
+}
+
+/** Latest snapshot plus journal events not yet folded into it */
+export interface StoredState<S, E extends StorageEvent> {
+  snapshot: S | null;
+  events: E[];
+  /** Store revision at load time */
+  revision: number;
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /**
+   * False when the backend keeps full history, lifting the in-memory caps
+   * (MAX_INSIGHTS, MAX_DEAD_ENDS) that only exist because files are rewritten
+   */
+  readonly boundedHistory: boolean;
+  /**
+   * Persist changes of the store identified by its snapshot file.
+   * Commits without events are structural changes (rename, archive, delete, fork) and always write a snapshot.
+   * `forceSnapshot` writes a snapshot even with events (memory was merged with external changes);
+   * the events still reach backends that keep history.
+   * `revision` becomes the store revision; callers hold the store's file lock.
+   */
+  commit(snapshotFile: string, events: StorageEvent[], snapshot: StoreSnapshot, revision: number, forceSnapshot?: boolean): Promise<void>;
+  /** Revision of the last commit by any process, 0 when never committed */
+  readRevision(snapshotFile: string): Promise<number>;
+  /** Read the latest snapshot and the journal events recorded after it, oldest first */
+  load<S, E extends StorageEvent>(snapshotFile: string, snapshot: StoreSnapshot<S>): Promise<StoredState<S, E>>;
+  /** Drop persisted journal of a store (and its snapshot when the backend owns it) */
+  clear(snapshotFile: string): Promise<void>;
+}
+
+/**
+ * Today's behavior: every change rewrites the snapshot file.
+ * Replays (and then removes) journals left behind by a previous jsonl run.
+ */
+export class JsonSnapshotBackend implements StorageBackend {
+  readonly kind = 'json' as const;
+  readonly boundedHistory = true;
+
+  /** Stores whose journal still exists on disk */
+  private leftoverJournals = new Set<string>();
+
+  async commit(snapshotFile: string, _events: StorageEvent[], snapshot: StoreSnapshot, revision: number): Promise<void> {
+    await snapshot.writeFile(snapshot.build());
+    if (this.leftoverJournals.delete(snapshotFile)) {
+      await removeJournal(snapshotFile);
+    }
+    await writeRevision(snapshotFile, revision);
+  }
+
+  readRevision(snapshotFile: string): Promise<number> {
+    return readRevision(snapshotFile);
+  }
+
+  async load<S, E extends StorageEvent>(snapshotFile: string, snapshot: StoreSnapshot<S>): Promise<StoredState<S, E>> {
+    const revision = await readRevision(snapshotFile);
+    const events = await readJournal<E>(snapshotFile);
+    if (events.length > 0) this.leftoverJournals.add(snapshotFile);
+    return { snapshot: await snapshot.readFile(), events, revision };
+  }
+
+  async clear(snapshotFile: string): Promise<void> {
+    this.leftoverJournals.delete(snapshotFile);
+    await removeJournal(snapshotFile);
+  }
+}
+
+/**
+ * Append-only event log with periodic compaction into the snapshot.
+ * Commits are chained per store so an append never races a compaction.
+ */
+export class JsonlEventLogBackend implements StorageBackend {
+  readonly kind = 'jsonl' as const;
+  readonly boundedHistory = true;
+
+  /** Events appended since the last snapshot, per store */
+  private pending = new Map<string, number>();
+
+  /** Per-store commit chain */
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(private readonly compactEvery = STORAGE_COMPACT_EVERY) {}
+
+  commit(snapshotFile: string, events: StorageEvent[], snapshot: StoreSnapshot, revision: number, forceSnapshot = false): Promise<void> {
+    return this.enqueue(snapshotFile, async () => {
+      await this.write(snapshotFile, events, snapshot, forceSnapshot);
+      await writeRevision(snapshotFile, revision);
+    });
+  }
+
+  readRevision(snapshotFile: string): Promise<number> {
+    return readRevision(snapshotFile);
+  }
+
+  async load<S, E extends StorageEvent>(snapshotFile: string, snapshot: StoreSnapshot<S>): Promise<StoredState<S, E>> {
+    const revision = await readRevision(snapshotFile);
+    const events = await readJournal<E>(snapshotFile);
+    this.pending.set(snapshotFile, events.length);
+    return { snapshot: await snapshot.readFile(), events, revision };
+  }
+
+  clear(snapshotFile: string): Promise<void> {
+    return this.enqueue(snapshotFile, async () => {
+      await removeJournal(snapshotFile);
+      this.pending.set(snapshotFile, 0);
+    });
+  }
+
+  /**
+   * Append events, or fold them into a snapshot once enough have accumulated
+   */
+  private async write(snapshotFile: string, events: StorageEvent[], snapshot: StoreSnapshot, forceSnapshot: boolean): Promise<void> {
+    const pending = (this.pending.get(snapshotFile) ?? 0) + events.length;
+
+    if (forceSnapshot || events.length === 0 || pending >= this.compactEvery) {
+      // Snapshot reflects in-memory state, which already includes every queued event
+      await snapshot.writeFile(snapshot.build());
+      await removeJournal(snapshotFile);
+      this.pending.set(snapshotFile, 0);
+      if (!forceSnapshot && events.length > 0) {
+        console.error(`🗜️ Compacted ${basename(getJournalFile(snapshotFile))} (${pending} events)`);
+      }
+      return;
+    }
+
+    const journalFile = getJournalFile(snapshotFile);
+    await fs.mkdir(dirname(journalFile), { recursive: true });
+    await fs.appendFile(journalFile, events.map(event => JSON.stringify(event)).join('\n') + '\n', 'utf-8');
+    this.pending.set(snapshotFile, pending);
+  }
+
+  private enqueue(snapshotFile: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.queues.get(snapshotFile) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.queues.set(snapshotFile, next);
+    return next;
+  }
+}
+
+/**
+ * Check a backend name from env or CLI
+ */
+export function isStorageBackendKind(value: string): value is StorageBackendKind {
+  return (STORAGE_BACKEND_KINDS as string[]).includes(value);
+}
+
+/**
+ * Resolve backend kind from THINK_MCP_STORAGE (json | jsonl | sqlite, default json)
+ */
+export function resolveStorageBackendKind(value = process.env[STORAGE_ENV]): StorageBackendKind {
+  const kind = value?.trim().toLowerCase();
+  if (!kind) return 'json';
+  if (!isStorageBackendKind(kind)) {
+    throw new Error(`Unsupported storage backend: ${value} (expected ${STORAGE_BACKEND_KINDS.join(', ')})`);
+  }
+  return kind;
+}
+
+/**
+ * Create the storage backend selected by config, falling back to THINK_MCP_STORAGE
+ */
+export function createStorageBackend(kind: StorageBackendKind = resolveStorageBackendKind()): StorageBackend {
+  switch (kind) {
+    case 'sqlite':
+      return new SqliteStorageBackend();
+    case 'jsonl':
+      return new JsonlEventLogBackend();
+    default:
+      return new JsonSnapshotBackend();
+  }
+}
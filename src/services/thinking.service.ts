@@ -11,12 +11,23 @@
  *           Quick Extension (inline critique/elaboration without tool switch),
  *           Enhanced Proactive Coaching (short thought detection, low confidence nudges),
  *           Atomic File Writes (tmp → rename for crash safety),
- *           Session TTL (auto-reset after 24h),
+ *           Session TTL (auto-archive after 24h),
  *           Coach Cooldown (prevent advice spam),
  *           Dead Ends Tracking (remember rejected paths to avoid circular thinking),
  *           MAX_DEAD_ENDS limit (prevent memory bloat),
  *           Near-limit warning (warn when approaching totalThoughts with low confidence),
- *           Fuzzy Search Recall (search through thought history with Fuse.js)
+ *           Fuzzy Search Recall (search through thought history with Fuse.js),
+ *           Named Sessions (isolated concurrent sessions keyed by sessionId),
+ *           Session Management (list, resume, rename, archive, delete),
+ *           Pluggable Storage (JSON snapshots, JSONL event log with compaction or SQLite),
+ *           Multi-process Safety (file lock, revision check, merge of external changes),
+ *           Thought Editing (undo, edit, soft-delete with audit trail),
+ *           Branch Lifecycle (compare, close, merge into mainline),
+ *           Session Forks (copy a session up to thought N, with lineage),
+ *           History Recall (search every persisted session with filters and provenance),
+ *           Offline Vector Similarity (opt-in n-gram cosine for stagnation, revisions, recall, insights),
+ *           Insight Management (add, edit, tag, delete, pin via think_insights),
+ *           Insight Reasoning Chains (path thoughts, critiques, dead ends and constraints saved with insights)
  */
 
 import { promises as fs } from 'fs';
@@ -32,20 +43,41 @@ import type {
   ThoughtExtension,
   QuickExtension,
   DeadEnd,
+  NamedSessionData,
+  MultiSessionData,
+  SessionsInput,
+  SessionsResult,
+  SessionSummary,
+  EditThoughtInput,
+  EditThoughtResult,
+  ThoughtEditEntry,
+  BranchInput,
+  BranchResult,
+  BranchClosure,
+  BranchComparison,
+  SessionLineage,
+  SessionLineageView,
   RecallInput,
   RecallResult,
   RecallScope,
+  RecallProvenance,
+  HistoryRecallInput,
   ValidationResult,
   PathConnectivityResult,
   // v4.0.0 - Burst Thinking
   SubmitSessionInput,
   SubmitSessionResult,
+  // v5.6.0 - Storage Backend
+  ThinkingJournalEvent,
+  SimilarityMode,
 } from '../types/thought.types.js';
 import {
   ensureThinkMcpDataDir,
   getThinkMcpDataFile,
   migrateLegacyFile,
 } from '../utils/storage-paths.js';
+import { withFileLock } from '../utils/file-lock.js';
+import { resolveSimilarityMode } from '../utils/text-vectors.js';
 
 // Import constants from dedicated modules
 import {
@@ -55,6 +87,11 @@ import {
   SESSION_FILE_NAME,
   RECENT_WEIGHT_MULTIPLIER,
   RECENT_THOUGHTS_COUNT,
+  DEFAULT_SESSION_KEY,
+  MAX_NAMED_SESSIONS,
+  MAX_ARCHIVED_SESSIONS,
+  MAX_EDIT_AUDIT_ENTRIES,
+  STORAGE_SYNC_INTERVAL_MS,
 } from '../constants/index.js';
 
 // Import visualization service
@@ -87,45 +124,107 @@ import { InsightsService } from './insights.service.js';
 // Import nudge service (v4.6.0)
 import { NudgeService } from './nudge.service.js';
 
+// Import storage backends (v5.6.0)
+import {
+  createStorageBackend,
+  type StorageBackend,
+  type StoredState,
+  type StoreSnapshot,
+} from './storage.service.js';
+
 // Session file path (relative to module directory)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const LEGACY_SESSION_FILE = join(__dirname, '..', '..', SESSION_FILE_NAME);
 const SESSION_FILE = getThinkMcpDataFile(SESSION_FILE_NAME);
+const SESSION_SCHEMA_VERSION = 3;
+
+/**
+ * Isolated state of one named session (v5.6.0)
+ * Each session owns its history, branches, dead ends, goal, coach cooldown and recall index
+ */
+interface ThinkingSessionState {
+  key: string;
+  thoughtHistory: ThoughtRecord[];
+  branches: Map<string, ThoughtRecord[]>;
+  lastThoughtNumber: number;
+  sessionGoal: string | undefined;
+  /** Insights namespace (v5.6.0) - undefined uses the server namespace */
+  project?: string;
+  currentSessionId: string;
+  deadEnds: DeadEnd[];
+  coachingService: CoachingService;
+  recallService: RecallService;
+  updatedAt: number;
+  /** think_done passed since the last reset */
+  donePassed: boolean;
+  /** Set while the session sits in the archive */
+  archivedAt?: number;
+  /** Store revision of the last commit that changed this session, 0 = never persisted */
+  revision: number;
+  /** think_edit audit trail, oldest first */
+  edits: ThoughtEditEntry[];
+  /** Branches closed via think_branch - excluded from forgotten-branch advice */
+  branchClosures: Map<string, BranchClosure>;
+  /** Parent session when created by fork */
+  forkedFrom?: SessionLineage;
+}
+
+/** Construction options (v5.6.0) */
+export interface ThinkingServiceOptions {
+  /** Persist sessions to the runtime data dir (default: true) */
+  persist?: boolean;
+  /** Insights store shared between service instances (default: own instance) */
+  insightsService?: InsightsService;
+  /** Persistence backend (default: selected by THINK_MCP_STORAGE) */
+  storage?: StorageBackend;
+  /** Text similarity for stagnation, revision checks and recall (default: selected by THINK_MCP_SIMILARITY) */
+  similarity?: SimilarityMode;
+  /** Insights namespace of sessions that choose none (default: selected by THINK_MCP_PROJECT) */
+  project?: string;
+}
+
+function createSessionState(key: string, similarity: SimilarityMode): ThinkingSessionState {
+  return {
+    key,
+    thoughtHistory: [],
+    branches: new Map(),
+    lastThoughtNumber: 0,
+    sessionGoal: undefined,
+    currentSessionId: '',
+    deadEnds: [],
+    coachingService: new CoachingService(),
+    recallService: new RecallService(similarity),
+    updatedAt: Date.now(),
+    donePassed: false,
+    revision: 0,
+    edits: [],
+    branchClosures: new Map(),
+  };
+}
 
 export class ThinkingService {
-  private thoughtHistory: ThoughtRecord[] = [];
-  private branches: Map<string, ThoughtRecord[]> = new Map();
-  private lastThoughtNumber = 0;
-  /** Session goal for focus retention (v2.10.0) */
-  private sessionGoal: string | undefined;
-  /** Current session ID for isolation (v2.11.0) */
-  private currentSessionId: string = '';
+  /** Named sessions keyed by caller-provided sessionId (v5.6.0) */
+  private sessions: Map<string, ThinkingSessionState> = new Map();
+
+  /** Sessions parked by think_sessions archive or TTL expiry, keyed by archive id */
+  private archivedSessions: Map<string, ThinkingSessionState> = new Map();
 
   /** Promise-based lock for FS operations to prevent race conditions */
   private fsLock: Promise<void> = Promise.resolve();
 
-  /** Dead ends - paths that were rejected (v3.3.0) */
-  private deadEnds: DeadEnd[] = [];
-
   /** Visualization service for ASCII tree and Mermaid generation */
   private visualizationService = new VisualizationService();
 
   /** Validation service for sequence and path validation */
-  private validationService = new ValidationService();
+  private validationService: ValidationService;
 
   /** Stagnation service for detecting repetitive thinking */
-  private stagnationService = new StagnationService();
+  private stagnationService: StagnationService;
 
   /** Consolidate service for meta-cognitive audit */
   private consolidateService = new ConsolidateService();
 
-  /** Recall service for fuzzy search */
-  private recallService = new RecallService();
-
-  /** Coaching service for proactive advice */
-  private coachingService = new CoachingService();
-
   /** Export service for session reports */
   private exportService = new ExportService();
 
@@ -133,19 +232,150 @@ export class ThinkingService {
   private burstService = new BurstService();
 
   /** Insights service for cross-session learning (v4.1.0) */
-  private insightsService = new InsightsService();
+  private insightsService: InsightsService;
+
+  /** Jaccard or offline vector similarity (v5.6.0) */
+  private readonly similarity: SimilarityMode;
+
+  /** Whether sessions are written to SESSION_FILE (v5.6.0) */
+  private readonly persist: boolean;
+
+  /** JSON snapshot or JSONL event log persistence (v5.6.0) */
+  private readonly storage: StorageBackend;
+
+  /** Sequence of the last journal event - snapshots record it so replay skips covered events */
+  private journalSeq = 0;
+
+  /** Store revision seen at the last load, commit or sync - another value on disk means another process wrote */
+  private storeRevision = 0;
+
+  /** Journal events of in-memory changes not yet committed */
+  private pendingEvents: ThinkingJournalEvent[] = [];
+
+  /** Session keys changed in memory since the last commit - they win when merging external changes */
+  private dirtyKeys: Set<string> = new Set();
+
+  /** Set after merging external changes over local ones or evicting sessions: the journal no longer matches memory */
+  private snapshotRequired = false;
+
+  /** Called after every saveSession commit - drives MCP resource notifications (v5.6.0) */
+  private saveListeners: Set<() => void> = new Set();
 
   /** Nudge service for proactive micro-prompts (v4.6.0) */
   private nudgeService = new NudgeService();
 
+  constructor(options: ThinkingServiceOptions = {}) {
+    this.persist = options.persist ?? true;
+    this.storage = options.storage ?? createStorageBackend();
+    this.similarity = options.similarity ?? resolveSimilarityMode();
+    this.insightsService = options.insightsService ?? new InsightsService({
+      storage: this.storage,
+      similarity: this.similarity,
+      namespace: options.project,
+    });
+    this.validationService = new ValidationService(this.similarity);
+    this.stagnationService = new StagnationService(this.similarity);
+    this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+  }
+
+  /**
+   * Resolve the session targeted by a call, creating it on first use (v5.6.0)
+   * Calls without a key use the default session to keep single-session behavior.
+   * Each public method resolves once and passes the session on - concurrent calls never share a pointer.
+   */
+  private resolveSession(sessionKey?: string): ThinkingSessionState {
+    const key = sessionKey?.trim() || DEFAULT_SESSION_KEY;
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = createSessionState(key, this.similarity);
+      this.sessions.set(key, session);
+      this.evictStaleSessions(session);
+      console.error(`🗂️ New named session: ${key}`);
+    }
+    return session;
+  }
+
+  /**
+   * Archive least recently used named sessions beyond MAX_NAMED_SESSIONS so think_sessions can resume them
+   * Empty ones are dropped; the default session and the one being used (`keep`) are never evicted
+   */
+  private evictStaleSessions(keep: ThinkingSessionState): void {
+    if (this.sessions.size <= MAX_NAMED_SESSIONS) return;
+    const candidates = Array.from(this.sessions.values())
+      .filter(s => s.key !== DEFAULT_SESSION_KEY && s !== keep)
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+    while (this.sessions.size > MAX_NAMED_SESSIONS && candidates.length > 0) {
+      const evicted = candidates.shift()!;
+      const key = evicted.key;
+      if (evicted.thoughtHistory.length === 0) {
+        this.sessions.delete(key);
+        this.markDirty(key);
+        console.error(`🗑️ Named sessions limit reached (${MAX_NAMED_SESSIONS}), dropped empty session: ${key}`);
+      } else {
+        const archiveKey = this.moveToArchive(evicted);
+        this.markDirty(key, archiveKey);
+        console.error(`📦 Named sessions limit reached (${MAX_NAMED_SESSIONS}), archived "${key}" as "${archiveKey}"`);
+      }
+      // No journal event moves a session - the next commit writes a snapshot
+      this.snapshotRequired = true;
+    }
+  }
+
+  /**
+   * List keys of sessions currently held in memory (v5.6.0)
+   */
+  getSessionKeys(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  /**
+   * Check whether a live (non-archived) session exists without creating it
+   */
+  hasSession(sessionKey: string): boolean {
+    return this.sessions.has(sessionKey);
+  }
+
+  /**
+   * Key of the most recently active live session (v5.6.0)
+   */
+  getCurrentSessionKey(): string {
+    let current = this.sessions.get(DEFAULT_SESSION_KEY)!;
+    for (const session of this.sessions.values()) {
+      if (session.thoughtHistory.length > 0 && (current.thoughtHistory.length === 0 || session.updatedAt > current.updatedAt)) {
+        current = session;
+      }
+    }
+    return current.key;
+  }
+
+  /**
+   * Subscribe to session saves; returns an unsubscribe function (v5.6.0)
+   */
+  onSessionSaved(listener: () => void): () => void {
+    this.saveListeners.add(listener);
+    return () => {
+      this.saveListeners.delete(listener);
+    };
+  }
+
+  private notifySessionSaved(): void {
+    for (const listener of this.saveListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Session save listener failed:', error);
+      }
+    }
+  }
+
   /**
    * Get the start index of current session (after last thought #1)
    * @deprecated Use getCurrentSessionThoughts() with sessionId filtering instead (v2.11.0)
    */
-  private getCurrentSessionStartIndex(): number {
+  private getCurrentSessionStartIndex(history: ThoughtRecord[]): number {
     // Fallback for legacy: find last occurrence of thoughtNumber === 1
-    for (let i = this.thoughtHistory.length - 1; i >= 0; i--) {
-      if (this.thoughtHistory[i].thoughtNumber === 1 && !this.thoughtHistory[i].isRevision) {
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].thoughtNumber === 1 && !history[i].isRevision) {
         return i;
       }
     }
@@ -153,17 +383,16 @@ export class ThinkingService {
   }
 
   /**
-   * Get thoughts from current session only
-   * Uses sessionId for reliable isolation (v2.11.0)
+   * Thoughts of the current run of a given session (v5.6.0)
    */
-  private getCurrentSessionThoughts(): ThoughtRecord[] {
+  private getSessionThoughts(session: ThinkingSessionState): ThoughtRecord[] {
     // Primary: filter by sessionId (v2.11.0)
-    if (this.currentSessionId) {
-      return this.thoughtHistory.filter(t => t.sessionId === this.currentSessionId);
+    if (session.currentSessionId) {
+      return session.thoughtHistory.filter(t => t.sessionId === session.currentSessionId);
     }
     // Fallback for legacy sessions without sessionId
-    const startIdx = this.getCurrentSessionStartIndex();
-    return this.thoughtHistory.slice(startIdx);
+    const startIdx = this.getCurrentSessionStartIndex(session.thoughtHistory);
+    return session.thoughtHistory.slice(startIdx);
   }
 
   /**
@@ -189,20 +418,23 @@ export class ThinkingService {
    * Process a thought with validation and context echoing
    * Implements Strict Logic Mode with hard duplicate rejection
    */
-  processThought(input: ThoughtInput): ThinkingResult {
+  processThought(input: ThoughtInput, sessionKey?: string): ThinkingResult {
+    const session = this.resolveSession(sessionKey);
+
     // Smart auto-reset: if thoughtNumber=1 and history not empty, start fresh session
-    // SYNCHRONOUS reset to avoid race conditions
-    if (input.thoughtNumber === 1 && this.thoughtHistory.length > 0 && !input.isRevision) {
-      console.error('🔄 New session detected (thought #1), clearing previous state...');
-      this.reset(); // Synchronous clear
-      // Clear persistence file asynchronously (non-blocking)
-      this.clearSession().catch((err) => console.error('Failed to clear session:', err));
+    // SYNCHRONOUS reset to avoid race conditions (scoped to the named session, v5.6.0)
+    if (input.thoughtNumber === 1 && session.thoughtHistory.length > 0 && !input.isRevision) {
+      console.error(`🔄 New session detected (thought #1), clearing previous state of "${session.key}"...`);
+      this.reset(session); // Synchronous clear
+      // Persist cleared state asynchronously (non-blocking) - other named sessions stay intact
+      this.saveSession([{ seq: 0, type: 'session_reset', session: session.key }])
+        .catch((err) => console.error('Failed to save session:', err));
     }
 
     // Generate new sessionId for first thought of session (v2.11.0)
     if (input.thoughtNumber === 1 && !input.isRevision) {
-      this.currentSessionId = new Date().toISOString();
-      console.error(`🆔 New session ID: ${this.currentSessionId}`);
+      session.currentSessionId = new Date().toISOString();
+      console.error(`🆔 New session ID: ${session.currentSessionId}`);
     }
 
     // Auto-adjust totalThoughts if exceeded
@@ -217,10 +449,10 @@ export class ThinkingService {
         thoughtNumber: input.thoughtNumber,
         totalThoughts: input.totalThoughts,
         nextThoughtNeeded: true,
-        branches: Array.from(this.branches.keys()),
-        thoughtHistoryLength: this.thoughtHistory.length,
-        contextSummary: this.generateContextSummary(),
-        thoughtTree: shouldShowTree ? this.generateAsciiTree() : '',
+        branches: Array.from(session.branches.keys()),
+        thoughtHistoryLength: session.thoughtHistory.length,
+        contextSummary: this.generateContextSummary(session),
+        thoughtTree: shouldShowTree ? this.generateAsciiTree(session) : '',
         isError: true,
         errorMessage: '[ERR_EMPTY_THOUGHT] Empty thought. Provide meaningful content.',
         warning: '[ERR_EMPTY_THOUGHT] Empty thought. Provide meaningful content.',
@@ -229,21 +461,26 @@ export class ThinkingService {
 
     // SESSION GOAL (v2.10.0) - Save goal from first thought
     if (input.goal && input.thoughtNumber === 1) {
-      this.sessionGoal = input.goal;
+      session.sessionGoal = input.goal;
       console.error(`🎯 Session goal set: ${input.goal.substring(0, 50)}...`);
     }
 
+    // v5.6.0: Insights namespace from the first thought
+    if (input.project && input.thoughtNumber === 1) {
+      session.project = input.project;
+    }
+
     // HARD DUPLICATE REJECTION - reject before adding to history
-    const duplicateError = this.checkDuplicateStrict(input);
+    const duplicateError = this.checkDuplicateStrict(session, input);
     if (duplicateError) {
       return {
         thoughtNumber: input.thoughtNumber,
         totalThoughts: input.totalThoughts,
         nextThoughtNeeded: true,
-        branches: Array.from(this.branches.keys()),
-        thoughtHistoryLength: this.thoughtHistory.length,
-        contextSummary: this.generateContextSummary(),
-        thoughtTree: shouldShowTree ? this.generateAsciiTree() : '',
+        branches: Array.from(session.branches.keys()),
+        thoughtHistoryLength: session.thoughtHistory.length,
+        contextSummary: this.generateContextSummary(session),
+        thoughtTree: shouldShowTree ? this.generateAsciiTree(session) : '',
         isError: true,
         errorMessage: duplicateError,
         warning: duplicateError,
@@ -251,16 +488,16 @@ export class ThinkingService {
     }
 
     // BRANCH VALIDATION - reject if branchFromThought references non-existent thought
-    const branchError = this.validateBranchSource(input);
+    const branchError = this.validateBranchSource(session, input);
     if (branchError) {
       return {
         thoughtNumber: input.thoughtNumber,
         totalThoughts: input.totalThoughts,
         nextThoughtNeeded: true,
-        branches: Array.from(this.branches.keys()),
-        thoughtHistoryLength: this.thoughtHistory.length,
-        contextSummary: this.generateContextSummary(),
-        thoughtTree: shouldShowTree ? this.generateAsciiTree() : '',
+        branches: Array.from(session.branches.keys()),
+        thoughtHistoryLength: session.thoughtHistory.length,
+        contextSummary: this.generateContextSummary(session),
+        thoughtTree: shouldShowTree ? this.generateAsciiTree(session) : '',
         isError: true,
         errorMessage: branchError,
         warning: branchError,
@@ -268,7 +505,7 @@ export class ThinkingService {
     }
 
     // Validate sequence (includes shallow/circular revision check)
-    const validation = this.validateSequence(input);
+    const validation = this.validateSequence(session, input);
     
     // HARD REJECTION for invalid sequence/revision validation failures
     if (!validation.valid) {
@@ -276,10 +513,10 @@ export class ThinkingService {
         thoughtNumber: input.thoughtNumber,
         totalThoughts: input.totalThoughts,
         nextThoughtNeeded: true,
-        branches: Array.from(this.branches.keys()),
-        thoughtHistoryLength: this.thoughtHistory.length,
-        contextSummary: this.generateContextSummary(),
-        thoughtTree: shouldShowTree ? this.generateAsciiTree() : '',
+        branches: Array.from(session.branches.keys()),
+        thoughtHistoryLength: session.thoughtHistory.length,
+        contextSummary: this.generateContextSummary(session),
+        thoughtTree: shouldShowTree ? this.generateAsciiTree(session) : '',
         isError: true,
         errorMessage: validation.warning,
         warning: validation.warning,
@@ -287,29 +524,30 @@ export class ThinkingService {
     }
 
     // Check for stagnation before adding new thought
-    const stagnationWarning = this.detectStagnation(input.thought);
+    const stagnationWarning = this.detectStagnation(session, input.thought);
 
     // Create record with timestamp and sessionId (v2.11.0)
     const record: ThoughtRecord = {
       ...input,
       timestamp: Date.now(),
-      sessionId: this.currentSessionId,
+      sessionId: session.currentSessionId,
     };
 
-    this.thoughtHistory.push(record);
+    session.thoughtHistory.push(record);
+    session.updatedAt = record.timestamp;
     // Revisions and branches do not advance the mainline sequence counter.
     if (!input.isRevision && !input.branchFromThought) {
-      this.lastThoughtNumber = input.thoughtNumber;
+      session.lastThoughtNumber = input.thoughtNumber;
     }
 
     // Invalidate Fuse index for recall_thought (v3.4.0)
-    this.invalidateFuseIndex();
+    this.invalidateFuseIndex(session);
 
     // Handle branching
     if (input.branchFromThought && input.branchId) {
-      const branchHistory = this.branches.get(input.branchId) ?? [];
+      const branchHistory = session.branches.get(input.branchId) ?? [];
       branchHistory.push(record);
-      this.branches.set(input.branchId, branchHistory);
+      session.branches.set(input.branchId, branchHistory);
     }
 
     // Log to stderr for debugging
@@ -323,36 +561,40 @@ export class ThinkingService {
       `${prefix} ${input.thoughtNumber}/${input.totalThoughts}${confidenceStr}: ${input.thought.substring(0, 80)}...`
     );
 
-    // Save session asynchronously (fire and forget)
-    this.saveSession().catch((err) => console.error('Failed to save session:', err));
+    // Journal the thought (v5.6.0)
+    const journalEvents: ThinkingJournalEvent[] = [this.thoughtEvent(session, record)];
 
     // Combine warnings
     const warning = [validation.warning, stagnationWarning].filter(Boolean).join('\n');
 
     // QUICK EXTENSION (v3.1.0) - Process inline extension if provided
     if (input.quickExtension) {
-      this.processQuickExtension(input.thoughtNumber, input.quickExtension);
+      const extensionEvent = this.processQuickExtension(session, input.thoughtNumber, input.quickExtension);
+      if (extensionEvent) journalEvents.push(extensionEvent);
     }
 
+    // Save session asynchronously (fire and forget)
+    this.saveSession(journalEvents).catch((err) => console.error('Failed to save session:', err));
+
     // LATERAL THINKING TRIGGER - check for overly linear thinking
     // v5.0.1: Pass isFinishing flag to show subSteps check only at end
-    let systemAdvice = this.checkLateralThinking(!input.nextThoughtNeeded);
+    let systemAdvice = this.checkLateralThinking(session, !input.nextThoughtNeeded);
 
     // DEAD ENDS CHECK (v3.3.0) - Warn if heading towards rejected path
-    const deadEndWarning = this.checkDeadEnds(input.thoughtNumber);
+    const deadEndWarning = this.checkDeadEnds(session, input.thoughtNumber);
     if (deadEndWarning) {
       systemAdvice = systemAdvice ? `${systemAdvice}\n${deadEndWarning}` : deadEndWarning;
     }
 
     // PROACTIVE COACH v3.1.0 - Enhanced nudges for thought quality
-    const coachNudges = this.generateProactiveNudges(input);
+    const coachNudges = this.generateProactiveNudges(session, input);
     if (coachNudges) {
       systemAdvice = systemAdvice ? `${systemAdvice}\n${coachNudges}` : coachNudges;
     }
 
     // PRE-CONSOLIDATION AUDIT (v2.9.2) - Quality gate before finishing
     if (!input.nextThoughtNeeded) {
-      const auditAdvice = this.performPreConsolidationAudit();
+      const auditAdvice = this.performPreConsolidationAudit(session);
       if (auditAdvice) {
         systemAdvice = systemAdvice ? `${systemAdvice}\n${auditAdvice}` : auditAdvice;
       }
@@ -360,23 +602,24 @@ export class ThinkingService {
 
     // v4.6.0: Generate nudge only if no other warnings/advice (avoid noise)
     const shouldSkipNudge = !!(warning || systemAdvice);
-    const nudge = this.nudgeService.generateNudge(input, this.getCurrentSessionThoughts(), shouldSkipNudge);
+    const nudge = this.nudgeService.generateNudge(input, this.getSessionThoughts(session), shouldSkipNudge);
 
     return {
       thoughtNumber: input.thoughtNumber,
       totalThoughts: input.totalThoughts,
       nextThoughtNeeded: input.nextThoughtNeeded,
-      branches: Array.from(this.branches.keys()),
-      thoughtHistoryLength: this.thoughtHistory.length,
-      contextSummary: this.generateContextSummary(),
-      thoughtTree: shouldShowTree ? this.generateAsciiTree() : '',
+      branches: Array.from(session.branches.keys()),
+      thoughtHistoryLength: session.thoughtHistory.length,
+      contextSummary: this.generateContextSummary(session),
+      thoughtTree: shouldShowTree ? this.generateAsciiTree(session) : '',
       // v4.2.0: Lazy Mermaid - removed from hot path, use export report flow for diagrams
       thoughtTreeMermaid: undefined,
       warning: warning || undefined,
-      averageConfidence: this.calculateAverageConfidence(),
+      averageConfidence: this.calculateAverageConfidence(session),
       systemAdvice,
-      sessionGoal: this.sessionGoal,
+      sessionGoal: session.sessionGoal,
       nudge,
+      sessionKey: session.key,
     };
   }
 
@@ -384,11 +627,11 @@ export class ThinkingService {
    * Validate thought sequence - prevent skipping steps and invalid revisions
    * Delegates to ValidationService
    */
-  private validateSequence(input: ThoughtInput): ValidationResult {
+  private validateSequence(session: ThinkingSessionState, input: ThoughtInput): ValidationResult {
     return this.validationService.validateSequence(
       input,
-      this.getCurrentSessionThoughts(),
-      this.lastThoughtNumber
+      this.getSessionThoughts(session),
+      session.lastThoughtNumber
     );
   }
 
@@ -396,16 +639,16 @@ export class ThinkingService {
    * HARD duplicate check - returns error message if duplicate found
    * Delegates to ValidationService
    */
-  private checkDuplicateStrict(input: ThoughtInput): string | undefined {
-    return this.validationService.checkDuplicateStrict(input, this.getCurrentSessionThoughts());
+  private checkDuplicateStrict(session: ThinkingSessionState, input: ThoughtInput): string | undefined {
+    return this.validationService.checkDuplicateStrict(input, this.getSessionThoughts(session));
   }
 
   /**
    * Validate branch source - reject if branchFromThought references non-existent thought
    * Delegates to ValidationService
    */
-  private validateBranchSource(input: ThoughtInput): string | undefined {
-    return this.validationService.validateBranchSource(input, this.getCurrentSessionThoughts());
+  private validateBranchSource(session: ThinkingSessionState, input: ThoughtInput): string | undefined {
+    return this.validationService.validateBranchSource(input, this.getSessionThoughts(session));
   }
 
   /**
@@ -413,47 +656,53 @@ export class ThinkingService {
    * Delegates to CoachingService
    * @param isFinishing - True if nextThoughtNeeded=false (v5.0.1)
    */
-  private checkLateralThinking(isFinishing: boolean = false): string | undefined {
-    return this.coachingService.checkLateralThinking(this.getCurrentSessionThoughts(), this.branches, isFinishing);
+  private checkLateralThinking(session: ThinkingSessionState, isFinishing: boolean = false): string | undefined {
+    return session.coachingService.checkLateralThinking(
+      this.getSessionThoughts(session),
+      session.branches,
+      isFinishing,
+      new Set(session.branchClosures.keys())
+    );
   }
 
   /**
    * PROACTIVE COACH - Analyzes thought content and recommends strategic lenses
    * Delegates to CoachingService
    */
-  private generateProactiveCoachAdvice(sessionThoughts: ThoughtRecord[]): string | undefined {
-    return this.coachingService.generateProactiveCoachAdvice(sessionThoughts);
+  private generateProactiveCoachAdvice(session: ThinkingSessionState, sessionThoughts: ThoughtRecord[]): string | undefined {
+    return session.coachingService.generateProactiveCoachAdvice(sessionThoughts);
   }
 
   /**
    * Add advice with cooldown - prevents spam of same advice
    * Delegates to CoachingService
    */
-  private addAdviceWithCooldown(advice: string, nudges: string[]): boolean {
-    return this.coachingService.addAdviceWithCooldown(advice, nudges);
+  private addAdviceWithCooldown(session: ThinkingSessionState, advice: string, nudges: string[]): boolean {
+    return session.coachingService.addAdviceWithCooldown(advice, nudges);
   }
 
   /**
    * PROACTIVE NUDGES - Enhanced coaching based on current thought
    * Delegates to CoachingService
    */
-  private generateProactiveNudges(input: ThoughtInput): string | undefined {
-    return this.coachingService.generateProactiveNudges(input, this.getCurrentSessionThoughts());
+  private generateProactiveNudges(session: ThinkingSessionState, input: ThoughtInput): string | undefined {
+    return session.coachingService.generateProactiveNudges(input, this.getSessionThoughts(session));
   }
 
   /**
    * QUICK EXTENSION (v3.1.0) - Process inline extension without separate tool call
    * Attaches extension to the current thought immediately
+   * v5.6.0: Returns the journal event for the caller to save with the thought
    */
-  private processQuickExtension(thoughtNumber: number, ext: QuickExtension): void {
+  private processQuickExtension(session: ThinkingSessionState, thoughtNumber: number, ext: QuickExtension): ThinkingJournalEvent | undefined {
     // Find the thought we just added (last in history)
-    const targetIdx = this.thoughtHistory.length - 1;
-    if (targetIdx < 0) return;
+    const targetIdx = session.thoughtHistory.length - 1;
+    if (targetIdx < 0) return undefined;
 
-    const target = this.thoughtHistory[targetIdx];
+    const target = session.thoughtHistory[targetIdx];
     if (target.thoughtNumber !== thoughtNumber) {
       console.error(`⚠️ QuickExtension mismatch: expected #${thoughtNumber}, found #${target.thoughtNumber}`);
-      return;
+      return undefined;
     }
 
     // Initialize extensions array if needed
@@ -474,19 +723,51 @@ export class ThinkingService {
     console.error(
       `🔍 QuickExtension on #${thoughtNumber} [${ext.type.toUpperCase()}]: ${ext.content.substring(0, 40)}...`
     );
+    return this.extensionEvent(session, targetIdx, extension);
+  }
+
+  /**
+   * Journal event for a thought just added to a session (v5.6.0)
+   * Cloned now - later extensions and edits are separate events
+   */
+  private thoughtEvent(session: ThinkingSessionState, record: ThoughtRecord): ThinkingJournalEvent {
+    return {
+      seq: 0, // Assigned on commit
+      type: 'thought',
+      session: session.key,
+      record: structuredClone(record),
+      lastThoughtNumber: session.lastThoughtNumber,
+      goal: session.sessionGoal,
+      project: session.project,
+      currentSessionId: session.currentSessionId,
+    };
+  }
+
+  /**
+   * Journal event for an extension attached to thoughtHistory[thoughtIndex] (v5.6.0)
+   */
+  private extensionEvent(session: ThinkingSessionState, thoughtIndex: number, extension: ThoughtExtension): ThinkingJournalEvent {
+    return {
+      seq: 0, // Assigned on commit
+      type: 'extension',
+      session: session.key,
+      thoughtIndex,
+      thoughtNumber: session.thoughtHistory[thoughtIndex].thoughtNumber,
+      extension: { ...extension },
+    };
   }
 
   /**
    * DEAD ENDS TRACKING (v3.3.0) - Record a path as rejected
    * Called when consolidate returns needs_more_work
    */
-  private recordDeadEnd(path: number[], reason: string): void {
+  private recordDeadEnd(session: ThinkingSessionState, path: number[], reason: string): void {
     // Don't record empty paths
     if (path.length === 0) return;
 
     // Check if this exact path is already recorded
     const pathKey = path.join(',');
-    const exists = this.deadEnds.some(de => de.path.join(',') === pathKey);
+    const exists = session.deadEnds.some(de => de.path.join(',') === pathKey);
     if (exists) {
       console.error(`⚠️ Dead end path [${pathKey}] already recorded, skipping`);
       return;
@@ -496,31 +777,37 @@ export class ThinkingService {
       path: [...path],
       reason: reason.substring(0, 200), // Truncate long reasons
       timestamp: new Date().toISOString(),
-      sessionId: this.currentSessionId,
+      sessionId: session.currentSessionId,
     };
 
     // v3.3.1: Limit dead ends to prevent memory bloat
-    if (this.deadEnds.length >= MAX_DEAD_ENDS) {
-      const removed = this.deadEnds.shift();
+    // v5.6.0: Not needed when the backend keeps full history (sqlite)
+    if (this.storage.boundedHistory && session.deadEnds.length >= MAX_DEAD_ENDS) {
+      const removed = session.deadEnds.shift();
       console.error(`🗑️ Dead ends limit reached (${MAX_DEAD_ENDS}), removed oldest: [${removed?.path.join(',')}]`);
     }
 
-    this.deadEnds.push(deadEnd);
-    console.error(`💀 Recorded dead end: path=[${pathKey}], reason="${reason.substring(0, 50)}..." (${this.deadEnds.length}/${MAX_DEAD_ENDS})`);
+    session.deadEnds.push(deadEnd);
+    console.error(`💀 Recorded dead end: path=[${pathKey}], reason="${reason.substring(0, 50)}..." (${session.deadEnds.length}${this.storage.boundedHistory ? `/${MAX_DEAD_ENDS}` : ''})`);
 
     // Save session to persist dead end
-    this.saveSession().catch(err => console.error('Failed to save dead end:', err));
+    this.saveSession([{
+      seq: 0, // Assigned on commit
+      type: 'dead_end',
+      session: session.key,
+      deadEnd: { ...deadEnd, path: [...deadEnd.path] },
+    }]).catch(err => console.error('Failed to save dead end:', err));
   }
 
   /**
    * DEAD ENDS CHECK (v3.3.0) - Check if current path matches any dead end
    * Returns warning message if current path is heading towards a known dead end
    */
-  private checkDeadEnds(currentThoughtNumber: number): string | undefined {
-    if (this.deadEnds.length === 0) return undefined;
+  private checkDeadEnds(session: ThinkingSessionState, currentThoughtNumber: number): string | undefined {
+    if (session.deadEnds.length === 0) return undefined;
 
     // Build current path from session thoughts
-    const sessionThoughts = this.getCurrentSessionThoughts();
+    const sessionThoughts = this.getSessionThoughts(session);
     const currentPath = sessionThoughts
       .filter(t => !t.isRevision && t.thoughtNumber <= currentThoughtNumber)
       .map(t => t.thoughtNumber)
@@ -529,9 +816,9 @@ export class ThinkingService {
     if (currentPath.length === 0) return undefined;
 
     // Check if current path is a prefix of any dead end
-    for (const deadEnd of this.deadEnds) {
+    for (const deadEnd of session.deadEnds) {
       // Only check dead ends from current session
-      if (deadEnd.sessionId && deadEnd.sessionId !== this.currentSessionId) continue;
+      if (deadEnd.sessionId && deadEnd.sessionId !== session.currentSessionId) continue;
 
       // Check if current path matches the beginning of a dead end path
       const isPrefix = currentPath.every((num, idx) => deadEnd.path[idx] === num);
@@ -547,9 +834,17 @@ export class ThinkingService {
   /**
    * Get dead ends for current session (v3.3.0)
    */
-  getDeadEnds(): DeadEnd[] {
-    return this.deadEnds.filter(de => 
-      !de.sessionId || de.sessionId === this.currentSessionId
+  getDeadEnds(sessionKey?: string): DeadEnd[] {
+    const session = this.resolveSession(sessionKey);
+    return this.getSessionDeadEnds(session);
+  }
+
+  /**
+   * Dead ends of the session's current run
+   */
+  private getSessionDeadEnds(session: ThinkingSessionState): DeadEnd[] {
+    return session.deadEnds.filter(de => 
+      !de.sessionId || de.sessionId === session.currentSessionId
     );
   }
 
@@ -557,15 +852,15 @@ export class ThinkingService {
    * PRE-CONSOLIDATION AUDIT - Quality gate before finishing session
    * Delegates to CoachingService
    */
-  private performPreConsolidationAudit(): string | undefined {
-    return this.coachingService.performPreConsolidationAudit(this.getCurrentSessionThoughts());
+  private performPreConsolidationAudit(session: ThinkingSessionState): string | undefined {
+    return session.coachingService.performPreConsolidationAudit(this.getSessionThoughts(session));
   }
 
   /**
    * Generate summary of last 3 thoughts for context retention (current session only)
    */
-  private generateContextSummary(): ThoughtSummary[] {
-    const sessionThoughts = this.getCurrentSessionThoughts();
+  private generateContextSummary(session: ThinkingSessionState): ThoughtSummary[] {
+    const sessionThoughts = this.getSessionThoughts(session);
     const lastThoughts = sessionThoughts.slice(-3);
     return lastThoughts.map((t) => ({
       thoughtNumber: t.thoughtNumber,
@@ -579,8 +874,8 @@ export class ThinkingService {
    * Last N thoughts get higher weight (declining confidence at end is more critical)
    * PENALTY: If unresolved high/blocker critiques exist, cap confidence at 4/10
    */
-  private calculateAverageConfidence(): number | undefined {
-    const sessionThoughts = this.getCurrentSessionThoughts();
+  private calculateAverageConfidence(session: ThinkingSessionState): number | undefined {
+    const sessionThoughts = this.getSessionThoughts(session);
     const withConfidence = sessionThoughts.filter((t) => t.confidence !== undefined);
     if (withConfidence.length === 0) return undefined;
 
@@ -598,7 +893,7 @@ export class ThinkingService {
     let avgConfidence = Math.round((weightedSum / totalWeight) * 10) / 10;
 
     // Check for unresolved high/blocker critiques - apply penalty
-    const hasUnresolvedCritical = this.hasUnresolvedCriticalExtensions();
+    const hasUnresolvedCritical = this.hasUnresolvedCriticalExtensions(session);
     if (hasUnresolvedCritical && avgConfidence > 4) {
       avgConfidence = 4; // Cap at 4/10 if critical issues unresolved
     }
@@ -609,34 +904,34 @@ export class ThinkingService {
   /**
    * Check if session has unresolved high/blocker critique extensions
    */
-  private hasUnresolvedCriticalExtensions(): boolean {
-    const sessionThoughts = this.getCurrentSessionThoughts();
-
-    for (const thought of sessionThoughts) {
-      if (thought.extensions) {
-        const hasCritical = thought.extensions.some(
-          (e) => (e.impact === 'high' || e.impact === 'blocker') && e.type === 'critique'
-        );
-        if (hasCritical) {
-          // Check if there's a revision for this thought
-          const hasRevision = sessionThoughts.some(
-            (t) => t.isRevision && t.revisesThought === thought.thoughtNumber
-          );
-          if (!hasRevision) return true;
-        }
-      }
-    }
-    return false;
+  private hasUnresolvedCriticalExtensions(session: ThinkingSessionState): boolean {
+    const sessionThoughts = this.getSessionThoughts(session);
+    return this.countUnresolvedCritiques(sessionThoughts, sessionThoughts) > 0;
+  }
+
+  /**
+   * Count thoughts with a high/blocker critique and no revision of that thought in the session
+   */
+  private countUnresolvedCritiques(thoughts: ThoughtRecord[], sessionThoughts: ThoughtRecord[]): number {
+    return thoughts.filter((thought) => {
+      const hasCritical = thought.extensions?.some(
+        (e) => (e.impact === 'high' || e.impact === 'blocker') && e.type === 'critique'
+      );
+      // Check if there's a revision for this thought
+      return hasCritical && !sessionThoughts.some(
+        (t) => t.isRevision && t.revisesThought === thought.thoughtNumber
+      );
+    }).length;
   }
 
   /**
    * Generate ASCII tree visualization of thought structure (current session only)
    * Delegates to VisualizationService
    */
-  private generateAsciiTree(): string {
+  private generateAsciiTree(session: ThinkingSessionState): string {
     return this.visualizationService.generateAsciiTree(
-      this.getCurrentSessionThoughts(),
-      this.branches
+      this.getSessionThoughts(session),
+      session.branches
     );
   }
 
@@ -644,12 +939,13 @@ export class ThinkingService {
    * Generate Mermaid.js graph visualization (current session only)
    * Delegates to VisualizationService
    */
-  private generateMermaid(): string {
+  private generateMermaid(session: ThinkingSessionState): string {
     return this.visualizationService.generateMermaid(
-      this.getCurrentSessionThoughts(),
-      this.branches,
-      this.thoughtHistory,
-      this.getCurrentSessionStartIndex()
+      this.getSessionThoughts(session),
+      session.branches,
+      session.thoughtHistory,
+      this.getCurrentSessionStartIndex(session.thoughtHistory),
+      this.getSessionLineage(session)
     );
   }
 
@@ -657,16 +953,16 @@ export class ThinkingService {
    * Detect stagnation - repeated similar thoughts with improved detection
    * Delegates to StagnationService
    */
-  private detectStagnation(newThought: string): string | undefined {
-    return this.stagnationService.detectStagnation(newThought, this.thoughtHistory);
+  private detectStagnation(session: ThinkingSessionState, newThought: string): string | undefined {
+    return this.stagnationService.detectStagnation(newThought, session.thoughtHistory);
   }
 
   /**
    * Validate path connectivity - ensure thoughts in winningPath are logically connected
    * Delegates to ValidationService
    */
-  private validatePathConnectivity(winningPath: number[]): PathConnectivityResult {
-    return this.validationService.validatePathConnectivity(winningPath, this.getCurrentSessionThoughts());
+  private validatePathConnectivity(session: ThinkingSessionState, winningPath: number[]): PathConnectivityResult {
+    return this.validationService.validatePathConnectivity(winningPath, this.getSessionThoughts(session));
   }
 
   /**
@@ -674,13 +970,14 @@ export class ThinkingService {
    * Attaches critique, elaboration, correction, or alternative to existing thought
    * Uses findLastIndex to target the most recent thought with that number (current session)
    */
-  extendThought(input: ExtendThoughtInput): ExtendThoughtResult {
+  extendThought(input: ExtendThoughtInput, sessionKey?: string): ExtendThoughtResult {
+    const session = this.resolveSession(sessionKey);
     const { targetThoughtNumber, extensionType, content, impactOnFinalResult } = input;
 
     // Find target thought from the END (most recent first - current session priority)
     let targetIndex = -1;
-    for (let i = this.thoughtHistory.length - 1; i >= 0; i--) {
-      if (this.thoughtHistory[i].thoughtNumber === targetThoughtNumber) {
+    for (let i = session.thoughtHistory.length - 1; i >= 0; i--) {
+      if (session.thoughtHistory[i].thoughtNumber === targetThoughtNumber) {
         targetIndex = i;
         break;
       }
@@ -695,7 +992,7 @@ export class ThinkingService {
     }
 
     // Validate target is in current session
-    const sessionStartIdx = this.getCurrentSessionStartIndex();
+    const sessionStartIdx = this.getCurrentSessionStartIndex(session.thoughtHistory);
     if (targetIndex < sessionStartIdx) {
       return {
         status: 'error',
@@ -705,8 +1002,8 @@ export class ThinkingService {
     }
 
     // Initialize extensions array if needed
-    if (!this.thoughtHistory[targetIndex].extensions) {
-      this.thoughtHistory[targetIndex].extensions = [];
+    if (!session.thoughtHistory[targetIndex].extensions) {
+      session.thoughtHistory[targetIndex].extensions = [];
     }
 
     // Create extension record
@@ -717,7 +1014,10 @@ export class ThinkingService {
       timestamp: new Date().toISOString(),
     };
 
-    this.thoughtHistory[targetIndex].extensions!.push(extension);
+    session.thoughtHistory[targetIndex].extensions!.push(extension);
+    session.updatedAt = Date.now();
+    this.saveSession([this.extensionEvent(session, targetIndex, extension)])
+      .catch(err => console.error('Failed to save extension:', err));
 
     // Log to stderr
     console.error(
@@ -748,8 +1048,8 @@ export class ThinkingService {
 
     return {
       status: 'success',
-      targetThought: this.thoughtHistory[targetIndex].thought.substring(0, 100) + '...',
-      totalExtensionsOnThisThought: this.thoughtHistory[targetIndex].extensions!.length,
+      targetThought: session.thoughtHistory[targetIndex].thought.substring(0, 100) + '...',
+      totalExtensionsOnThisThought: session.thoughtHistory[targetIndex].extensions!.length,
       systemAdvice,
     };
   }
@@ -757,8 +1057,9 @@ export class ThinkingService {
   /**
    * Format full history with extensions for AI context
    */
-  formatHistoryForAI(): string {
-    return this.thoughtHistory
+  formatHistoryForAI(sessionKey?: string): string {
+    const session = this.resolveSession(sessionKey);
+    return session.thoughtHistory
       .map((t) => {
         let output = `${t.thoughtNumber}. ${t.thought}`;
 
@@ -782,13 +1083,14 @@ export class ThinkingService {
    * Format history with smart pruning for long sessions
    * Condenses old thoughts while keeping recent ones in full detail
    */
-  formatCondensedHistory(): string {
-    if (this.thoughtHistory.length <= RETAIN_FULL_THOUGHTS + 2) {
-      return this.formatHistoryForAI(); // Return full history if short
+  formatCondensedHistory(sessionKey?: string): string {
+    const session = this.resolveSession(sessionKey);
+    if (session.thoughtHistory.length <= RETAIN_FULL_THOUGHTS + 2) {
+      return this.formatHistoryForAI(sessionKey); // Return full history if short
     }
 
-    const oldThoughts = this.thoughtHistory.slice(0, -RETAIN_FULL_THOUGHTS);
-    const recentThoughts = this.thoughtHistory.slice(-RETAIN_FULL_THOUGHTS);
+    const oldThoughts = session.thoughtHistory.slice(0, -RETAIN_FULL_THOUGHTS);
+    const recentThoughts = session.thoughtHistory.slice(-RETAIN_FULL_THOUGHTS);
 
     // Generate condensed block for archived thoughts
     const condensedBlock = [
@@ -822,34 +1124,278 @@ export class ThinkingService {
    * Save session state to file for persistence
    * Uses FS lock to prevent race conditions with concurrent calls
    * v3.2.0: Atomic write (tmp → rename) for crash safety
+   * v5.6.0: Persists every named session (schema v3); `events` describe the change
+   *         for the JSONL backend, which appends them instead of rewriting the file.
+   *         Commits hold a cross-process file lock and merge writes made by other
+   *         processes first (optimistic revision check), so shared data dirs lose nothing
    */
-  async saveSession(): Promise<void> {
-    return this.withFsLock(async () => {
-      await ensureThinkMcpDataDir();
-      const data = {
-        schemaVersion: 2,
-        history: this.thoughtHistory,
-        branches: Array.from(this.branches.entries()),
-        lastThoughtNumber: this.lastThoughtNumber,
-        savedAt: new Date().toISOString(),
-        goal: this.sessionGoal, // v2.10.0 - persist goal
-        currentSessionId: this.currentSessionId, // v2.11.0 - persist sessionId
-        deadEnds: this.deadEnds, // v3.3.0 - persist dead ends
-      };
+  async saveSession(events: ThinkingJournalEvent[] = []): Promise<void> {
+    if (!this.persist) {
+      // In-memory sessions still "commit" here so resource subscribers see changes
+      this.notifySessionSaved();
+      return;
+    }
+    this.pendingEvents.push(...events);
+    for (const event of events) this.dirtyKeys.add(event.session);
+    const structural = events.length === 0;
 
-      const tempFile = `${SESSION_FILE}.tmp`;
+    return this.withFsLock(async () => {
       try {
-        // v3.2.0: Atomic write - write to temp file first, then rename
-        await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
-        await fs.rename(tempFile, SESSION_FILE);
+        await withFileLock(SESSION_FILE, () => this.commitSession(structural));
+        this.notifySessionSaved();
       } catch (error) {
         console.error('Failed to save session:', error);
-        // Clean up temp file if rename failed
-        try { await fs.unlink(tempFile); } catch { /* ignore */ }
       }
     });
   }
 
+  /**
+   * Commit pending changes; caller holds both locks (v5.6.0)
+   * Events already covered by an earlier commit (snapshot or batched append) are skipped
+   */
+  private async commitSession(structural: boolean): Promise<void> {
+    await this.syncSessionsLocked();
+    const batch = this.pendingEvents.splice(0);
+    if (!structural && !this.snapshotRequired && batch.length === 0) return;
+
+    const revision = this.storeRevision + 1;
+    const seqBefore = this.journalSeq;
+    for (const event of batch) event.seq = ++this.journalSeq;
+    const stamped = this.stampRevision(revision);
+    try {
+      // Events go along with forced snapshots too, so history backends still record them
+      await this.storage.commit(SESSION_FILE, batch, this.sessionSnapshot(), revision, structural || this.snapshotRequired);
+    } catch (error) {
+      // Keep the changes pending for the next commit
+      this.pendingEvents.unshift(...batch);
+      this.journalSeq = seqBefore;
+      for (const [session, previous] of stamped) session.revision = previous;
+      throw error;
+    }
+    this.storeRevision = revision;
+    this.dirtyKeys.clear();
+    this.snapshotRequired = false;
+  }
+
+  /**
+   * Mark sessions changed by this commit (and never-persisted ones) with the new revision
+   * Returns previous revisions so a failed commit can restore them
+   */
+  private stampRevision(revision: number): Map<ThinkingSessionState, number> {
+    const stamped = new Map<ThinkingSessionState, number>();
+    for (const session of [...this.sessions.values(), ...this.archivedSessions.values()]) {
+      if (this.dirtyKeys.has(session.key) || session.revision === 0) {
+        stamped.set(session, session.revision);
+        session.revision = revision;
+      }
+    }
+    return stamped;
+  }
+
+  /**
+   * Remember structural changes (reset, rename, archive, delete) of sessions for merging (v5.6.0)
+   */
+  private markDirty(...keys: string[]): void {
+    for (const key of keys) this.dirtyKeys.add(key);
+  }
+
+  /**
+   * Pick up writes made by other processes sharing the data dir (v5.6.0)
+   * Returns true when external changes were merged
+   */
+  async syncExternalChanges(): Promise<boolean> {
+    if (!this.persist) return false;
+    // Cheap unlocked check first - the locked re-check below decides
+    if (await this.storage.readRevision(SESSION_FILE) === this.storeRevision) return false;
+    return this.withFsLock(() => withFileLock(SESSION_FILE, () => this.syncSessionsLocked()));
+  }
+
+  /**
+   * Poll for external changes while idle - returns a stop function (v5.6.0)
+   */
+  watchExternalChanges(intervalMs = STORAGE_SYNC_INTERVAL_MS): () => void {
+    if (!this.persist) return () => {};
+    const timer = setInterval(() => {
+      this.syncExternalChanges().catch(err => console.error('Failed to sync sessions:', err));
+    }, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Reload the store when its revision moved and merge local changes on top; caller holds both locks
+   * - sessions changed locally (dirtyKeys) keep the local version
+   * - a session changed on both sides keeps ours, theirs is parked in the archive as `<key>-conflict`
+   * - everything else takes the external version (or stays as-is when its revision did not change)
+   */
+  private async syncSessionsLocked(): Promise<boolean> {
+    const revision = await this.storage.readRevision(SESSION_FILE);
+    if (revision === this.storeRevision) return false;
+
+    const stored = await this.storage.load<MultiSessionData, ThinkingJournalEvent>(SESSION_FILE, this.sessionSnapshot());
+    const local = { sessions: this.sessions, archived: this.archivedSessions };
+    const localSeq = this.journalSeq;
+    this.sessions = new Map([[DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity)]]);
+    this.archivedSessions = new Map();
+    this.journalSeq = 0;
+    if (stored.snapshot) this.restoreSessionSnapshot(stored.snapshot);
+    this.replaySessionJournal(stored.events);
+    this.journalSeq = Math.max(this.journalSeq, localSeq);
+
+    const conflicts: ThinkingSessionState[] = [];
+    const merge = (mine: Map<string, ThinkingSessionState>, theirs: Map<string, ThinkingSessionState>) => {
+      for (const key of this.dirtyKeys) {
+        const external = theirs.get(key);
+        const ours = mine.get(key);
+        if (external && ours && external.revision > ours.revision) conflicts.push(external);
+        if (ours) theirs.set(key, ours);
+        else theirs.delete(key);
+      }
+      for (const [key, ours] of mine) {
+        if (this.dirtyKeys.has(key)) continue;
+        const external = theirs.get(key);
+        // Unchanged elsewhere (or never persisted): keep the local object with its coach/recall state
+        if ((external && external.revision === ours.revision) || (!external && ours.revision === 0)) {
+          theirs.set(key, ours);
+        }
+      }
+    };
+    merge(local.sessions, this.sessions);
+    merge(local.archived, this.archivedSessions);
+
+    for (const external of conflicts) {
+      const key = external.key;
+      let conflictKey = `${key}-conflict`;
+      for (let n = 2; this.archivedSessions.has(conflictKey); n++) {
+        conflictKey = `${key}-conflict-${n}`;
+      }
+      external.key = conflictKey;
+      external.archivedAt = Date.now();
+      this.archivedSessions.set(conflictKey, external);
+      this.dirtyKeys.add(conflictKey);
+      console.error(`⚠️ Session "${key}" was changed by another process, their version archived as "${conflictKey}"`);
+    }
+    this.trimArchive();
+
+    if (!this.sessions.has(DEFAULT_SESSION_KEY)) {
+      this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+    }
+    this.storeRevision = revision;
+    // Local changes now sit on top of a different base - the journal alone can no longer describe memory
+    if (this.dirtyKeys.size > 0) this.snapshotRequired = true;
+    console.error(`🔄 Session store changed by another process (revision ${revision}), merged${conflicts.length > 0 ? ` with ${conflicts.length} conflict(s)` : ''}`);
+    this.notifySessionSaved();
+    return true;
+  }
+
+  /**
+   * Session store as seen by the storage backend (v5.6.0)
+   */
+  private sessionSnapshot(): StoreSnapshot<MultiSessionData> {
+    return {
+      build: () => this.buildSessionSnapshot(),
+      writeFile: (data) => this.writeSessionSnapshot(data),
+      readFile: () => this.readSessionSnapshot(),
+    };
+  }
+
+  /**
+   * Every live and archived session in its persisted shape
+   */
+  private buildSessionSnapshot(): MultiSessionData {
+    return {
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      sessions: Array.from(this.sessions.values()).map(session => this.serializeSession(session)),
+      archived: Array.from(this.archivedSessions.values()).map(session => this.serializeSession(session)),
+      savedAt: new Date().toISOString(),
+      journalSeq: this.journalSeq,
+    };
+  }
+
+  /**
+   * Rewrite the session file
+   * Called by the storage backend on each save (json) or on compaction (jsonl)
+   */
+  private async writeSessionSnapshot(data: MultiSessionData): Promise<void> {
+    await ensureThinkMcpDataDir();
+    const tempFile = `${SESSION_FILE}.tmp`;
+    try {
+      // v3.2.0: Atomic write - write to temp file first, then rename
+      await fs.writeFile(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+      await fs.rename(tempFile, SESSION_FILE);
+    } catch (error) {
+      // Clean up temp file if rename failed
+      try { await fs.unlink(tempFile); } catch { /* ignore */ }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the session file; null when missing or unparseable
+   * Legacy files have no savedAt - fall back to file mtime
+   */
+  private async readSessionSnapshot(): Promise<MultiSessionData | null> {
+    try {
+      const stats = await fs.stat(SESSION_FILE);
+      const data = JSON.parse(await fs.readFile(SESSION_FILE, 'utf-8'));
+      if (!data || typeof data !== 'object') return null;
+      data.savedAt ??= stats.mtime.toISOString();
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Convert in-memory session state into its persisted shape (v5.6.0)
+   */
+  private serializeSession(session: ThinkingSessionState): NamedSessionData {
+    return {
+      key: session.key,
+      history: session.thoughtHistory,
+      branches: Array.from(session.branches.entries()),
+      lastThoughtNumber: session.lastThoughtNumber,
+      goal: session.sessionGoal, // v2.10.0 - persist goal
+      project: session.project,
+      currentSessionId: session.currentSessionId, // v2.11.0 - persist sessionId
+      deadEnds: session.deadEnds, // v3.3.0 - persist dead ends
+      updatedAt: session.updatedAt,
+      donePassed: session.donePassed,
+      archivedAt: session.archivedAt,
+      revision: session.revision,
+      edits: session.edits,
+      branchClosures: Array.from(session.branchClosures.entries()),
+      forkedFrom: session.forkedFrom,
+    };
+  }
+
+  /**
+   * Restore one persisted session, rejecting corrupted structures (v5.6.0)
+   */
+  private deserializeSession(raw: unknown, fallbackKey: string, fallbackUpdatedAt = Date.now()): ThinkingSessionState | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const data = raw as Partial<NamedSessionData>;
+    if (!Array.isArray(data.history) || !Array.isArray(data.branches)) return null;
+
+    const key = typeof data.key === 'string' && data.key.trim().length > 0 ? data.key.trim() : fallbackKey;
+    const session = createSessionState(key, this.similarity);
+    session.thoughtHistory = data.history as ThoughtRecord[];
+    session.branches = new Map(data.branches);
+    session.lastThoughtNumber = data.lastThoughtNumber ?? 0;
+    session.sessionGoal = data.goal;
+    session.project = typeof data.project === 'string' ? data.project : undefined;
+    session.currentSessionId = data.currentSessionId ?? '';
+    session.deadEnds = data.deadEnds ?? [];
+    session.updatedAt = Number.isFinite(data.updatedAt) ? Number(data.updatedAt) : fallbackUpdatedAt;
+    session.donePassed = data.donePassed === true;
+    session.archivedAt = Number.isFinite(data.archivedAt) ? Number(data.archivedAt) : undefined;
+    session.revision = Number.isInteger(data.revision) ? Number(data.revision) : 0;
+    session.edits = Array.isArray(data.edits) ? data.edits : [];
+    session.branchClosures = new Map(Array.isArray(data.branchClosures) ? data.branchClosures : []);
+    session.forkedFrom = data.forkedFrom;
+    return session;
+  }
+
   /**
    * Migrate legacy root-level session file to runtime data directory.
    */
@@ -869,66 +1415,225 @@ export class ThinkingService {
    * Call this during initialization to restore previous session
    * Validates JSON structure to prevent corrupted state
    * v3.2.0: Added TTL check - auto-reset if session older than 24h
+   * v5.6.0: Expired sessions are archived instead of discarded;
+   *         journal events newer than the snapshot are replayed on top of it
    */
   async loadSession(): Promise<boolean> {
+    if (!this.persist) return false;
+    await this.migrateLegacySessionIfNeeded();
+    let stored: StoredState<MultiSessionData, ThinkingJournalEvent>;
     try {
-      await this.migrateLegacySessionIfNeeded();
-      // v3.2.0: Check session TTL before loading
-      const stats = await fs.stat(SESSION_FILE);
-      const hoursOld = (Date.now() - stats.mtimeMs) / (1000 * 60 * 60);
-      if (hoursOld > SESSION_TTL_HOURS) {
-        console.error(`⏰ Session expired (${Math.round(hoursOld)}h old > ${SESSION_TTL_HOURS}h TTL), auto-resetting...`);
-        await this.clearSession();
-        return false;
+      stored = await this.storage.load<MultiSessionData, ThinkingJournalEvent>(SESSION_FILE, this.sessionSnapshot());
+    } catch (error) {
+      console.error('Failed to load session storage:', error);
+      return false;
+    }
+    const snapshot = stored.snapshot && this.restoreSessionSnapshot(stored.snapshot);
+    const replayed = this.replaySessionJournal(stored.events);
+    this.storeRevision = stored.revision;
+    if (!snapshot && replayed === 0) {
+      // File doesn't exist or is corrupted - start fresh
+      console.error('No previous session found or corrupted, starting fresh');
+      return false;
+    }
+
+    const restored = Array.from(this.sessions.values());
+    const thoughtCount = restored.reduce((sum, session) => sum + session.thoughtHistory.length, 0);
+    const deadEndCount = restored.reduce((sum, session) => sum + session.deadEnds.length, 0);
+
+    // v3.2.0: Session TTL - v5.6.0: idle sessions are archived so think_sessions can resume them
+    for (const session of restored) {
+      const hoursOld = (Date.now() - session.updatedAt) / (1000 * 60 * 60);
+      if (hoursOld > SESSION_TTL_HOURS && session.thoughtHistory.length > 0) {
+        const key = session.key;
+        const archiveKey = this.moveToArchive(session);
+        this.markDirty(key, archiveKey);
+        // No journal event moves a session - the next commit writes a snapshot
+        this.snapshotRequired = true;
+        console.error(`⏰ Session "${key}" expired (${Math.round(hoursOld)}h old > ${SESSION_TTL_HOURS}h TTL), archived as "${archiveKey}"`);
       }
+    }
 
-      const content = await fs.readFile(SESSION_FILE, 'utf-8');
-      const data = JSON.parse(content);
+    const source = snapshot ? `v${snapshot.schemaVersion} from ${snapshot.savedAt}` : 'from journal';
+    const deadEndsInfo = deadEndCount > 0 ? `, ${deadEndCount} dead ends` : '';
+    const archivedInfo = this.archivedSessions.size > 0 ? `, ${this.archivedSessions.size} archived` : '';
+    const replayInfo = replayed > 0 ? `, ${replayed} journal events replayed` : '';
+    console.error(`📂 Restored session ${source} (${restored.length} session(s), ${thoughtCount} thoughts${deadEndsInfo}${archivedInfo}${replayInfo})`);
+    return true;
+  }
+
+  /**
+   * Restore sessions from a persisted snapshot (v5.6.0)
+   * Returns null when the snapshot is corrupted
+   */
+  private restoreSessionSnapshot(data: MultiSessionData): { schemaVersion: number; savedAt: string } | null {
+    try {
+      // Legacy files have no per-session activity timestamp - fall back to snapshot time
+      const fallbackUpdatedAt = Date.parse(data.savedAt) || Date.now();
       const schemaVersion = Number(data.schemaVersion ?? 1);
 
+      // v5.6.0: schema v3 holds named sessions, v1/v2 hold a single (default) session
+      const rawSessions: unknown[] = schemaVersion >= 3 && Array.isArray(data.sessions)
+        ? data.sessions
+        : [{ ...data, key: DEFAULT_SESSION_KEY }];
+      const restored = rawSessions
+        .map(raw => this.deserializeSession(raw, DEFAULT_SESSION_KEY, fallbackUpdatedAt))
+        .filter((session): session is ThinkingSessionState => session !== null);
+      const archived = (Array.isArray(data.archived) ? data.archived as unknown[] : [])
+        .map(raw => this.deserializeSession(raw, DEFAULT_SESSION_KEY, fallbackUpdatedAt))
+        .filter((session): session is ThinkingSessionState => session !== null);
+
       // Validate JSON structure before using
-      if (!data || !Array.isArray(data.history) || !Array.isArray(data.branches)) {
+      if (restored.length === 0) {
         throw new Error('Invalid session structure');
       }
 
-      this.thoughtHistory = data.history as ThoughtRecord[];
-      this.branches = new Map(data.branches);
-      this.lastThoughtNumber = data.lastThoughtNumber ?? 0;
-      this.sessionGoal = data.goal; // v2.10.0 - restore goal
-      this.currentSessionId = data.currentSessionId ?? ''; // v2.11.0 - restore sessionId
-      this.deadEnds = data.deadEnds ?? []; // v3.3.0 - restore dead ends
+      this.sessions = new Map(restored.map(session => [session.key, session]));
+      this.archivedSessions = new Map(archived.map(session => [session.key, session]));
+      if (!this.sessions.has(DEFAULT_SESSION_KEY)) {
+        this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+      }
+      this.journalSeq = Number.isInteger(data.journalSeq) ? Number(data.journalSeq) : 0;
+      return { schemaVersion, savedAt: String(data.savedAt) };
+    } catch {
+      return null;
+    }
+  }
 
-      const deadEndsInfo = this.deadEnds.length > 0 ? `, ${this.deadEnds.length} dead ends` : '';
-      console.error(`📂 Restored session v${schemaVersion} from ${data.savedAt} (${this.thoughtHistory.length} thoughts${deadEndsInfo}${this.currentSessionId ? `, session: ${this.currentSessionId.substring(0, 10)}...` : ''})`);
-      return true;
-    } catch (error) {
-      // File doesn't exist or is corrupted - start fresh
-      console.error('No previous session found or corrupted, starting fresh');
-      return false;
+  /**
+   * Replay journal events not yet folded into the snapshot (v5.6.0)
+   * Returns the number of applied events
+   */
+  private replaySessionJournal(events: ThinkingJournalEvent[]): number {
+    let replayed = 0;
+    for (const event of events) {
+      if (event.seq <= this.journalSeq) continue; // Already in the snapshot
+      this.journalSeq = event.seq;
+      if (this.applyJournalEvent(event)) replayed++;
     }
+    return replayed;
   }
 
   /**
-   * Reset thinking state for new session
+   * Apply one journal event to in-memory sessions, ignoring malformed events
    */
-  reset(): void {
-    this.thoughtHistory = [];
-    this.branches.clear();
-    this.lastThoughtNumber = 0;
-    this.sessionGoal = undefined; // Clear goal on reset (v2.10.0)
-    this.currentSessionId = ''; // Clear sessionId on reset (v2.11.0)
-    this.coachingService.reset(); // Clear coach cooldown (v3.2.0)
-    this.deadEnds = []; // Clear dead ends (v3.3.0)
+  private applyJournalEvent(event: ThinkingJournalEvent): boolean {
+    switch (event.type) {
+      case 'thought': {
+        if (!event.record || typeof event.record.thought !== 'string' || typeof event.session !== 'string') return false;
+        let session = this.sessions.get(event.session);
+        if (!session) {
+          session = createSessionState(event.session, this.similarity);
+          this.sessions.set(event.session, session);
+        }
+        session.thoughtHistory.push(event.record);
+        if (event.record.branchFromThought && event.record.branchId) {
+          const branchHistory = session.branches.get(event.record.branchId) ?? [];
+          branchHistory.push(event.record);
+          session.branches.set(event.record.branchId, branchHistory);
+        }
+        session.lastThoughtNumber = event.lastThoughtNumber;
+        session.sessionGoal = event.goal;
+        session.project = event.project;
+        session.currentSessionId = event.currentSessionId;
+        session.updatedAt = event.record.timestamp;
+        return true;
+      }
+      case 'extension': {
+        const session = this.sessions.get(event.session);
+        const target = session?.thoughtHistory[event.thoughtIndex];
+        if (!session || !target || !event.extension) return false;
+        (target.extensions ??= []).push(event.extension);
+        session.updatedAt = Math.max(session.updatedAt, Date.parse(event.extension.timestamp) || 0);
+        return true;
+      }
+      case 'dead_end': {
+        const session = this.sessions.get(event.session);
+        if (!session || !event.deadEnd) return false;
+        if (this.storage.boundedHistory && session.deadEnds.length >= MAX_DEAD_ENDS) {
+          session.deadEnds.shift();
+        }
+        session.deadEnds.push(event.deadEnd);
+        return true;
+      }
+      case 'session_reset': {
+        if (typeof event.session !== 'string') return false;
+        if (event.deleted && event.session !== DEFAULT_SESSION_KEY) {
+          this.sessions.delete(event.session);
+          return true;
+        }
+        const session = this.sessions.get(event.session);
+        if (session) this.resetState(session);
+        return true;
+      }
+      case 'done': {
+        const session = this.sessions.get(event.session);
+        if (!session) return false;
+        session.donePassed = event.passed === true;
+        return true;
+      }
+      case 'thought_edit': {
+        const session = this.sessions.get(event.session);
+        const target = session?.thoughtHistory[event.thoughtIndex];
+        if (!session || !target || !event.entry || target.thoughtNumber !== event.entry.thoughtNumber) return false;
+        if (event.entry.action === 'edit') {
+          if (event.thought !== undefined) target.thought = event.thought;
+          if (event.confidence !== undefined) target.confidence = event.confidence;
+        } else {
+          session.thoughtHistory.splice(event.thoughtIndex, 1);
+          this.recomputeDerivedState(session, target.thoughtNumber);
+        }
+        this.recordEdit(session, event.entry);
+        session.donePassed = false;
+        session.updatedAt = Math.max(session.updatedAt, Date.parse(event.entry.timestamp) || 0);
+        return true;
+      }
+      case 'branch_close': {
+        const session = this.sessions.get(event.session);
+        if (!session || typeof event.branchId !== 'string' || !event.closure) return false;
+        session.branchClosures.set(event.branchId, { ...event.closure });
+        session.updatedAt = Math.max(session.updatedAt, Date.parse(event.closure.closedAt) || 0);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Reset thinking state of one session
+   */
+  private reset(session: ThinkingSessionState): void {
+    this.resetState(session);
     // v4.7.1: Clear word cache to prevent stale data across sessions
     import('../utils/text-analysis.js').then(m => m.clearWordCache());
   }
 
+  /**
+   * Clear one session's thinking state - shared by reset() and journal replay (v5.6.0)
+   */
+  private resetState(session: ThinkingSessionState): void {
+    session.thoughtHistory = [];
+    session.branches.clear();
+    session.lastThoughtNumber = 0;
+    session.sessionGoal = undefined; // Clear goal on reset (v2.10.0)
+    session.project = undefined;
+    session.currentSessionId = ''; // Clear sessionId on reset (v2.11.0)
+    session.coachingService.reset(); // Clear coach cooldown (v3.2.0)
+    session.deadEnds = []; // Clear dead ends (v3.3.0)
+    session.donePassed = false;
+    session.edits = [];
+    session.branchClosures.clear();
+    session.recallService.invalidateIndex();
+  }
+
   /**
    * Clear saved session file only (does NOT reset in-memory state)
    * Uses FS lock to prevent race conditions with concurrent calls
    * Note: reset() is called separately in processThought to avoid race condition
    */
   async clearSession(): Promise<void> {
+    if (!this.persist) return;
     return this.withFsLock(async () => {
       try {
         await fs.unlink(SESSION_FILE);
@@ -943,68 +1648,643 @@ export class ThinkingService {
       } catch {
         // Legacy file may not exist.
       }
+      await this.storage.clear(SESSION_FILE);
       // DO NOT call reset() here - it causes race condition with processThought
       // Memory reset is handled synchronously in processThought before this runs
     });
   }
 
+  /**
+   * Snapshot the reasoning behind a winning path for its insight (v5.6.0)
+   * Path thought texts, critiques/corrections of them (most severe first) and the session's dead ends
+   */
+  private buildInsightChain(
+    session: ThinkingSessionState,
+    path: number[],
+    constraints?: string,
+    potentialFlaws?: string
+  ): import('./insights.service.js').InsightChain {
+    const thoughts = this.getSessionThoughts(session);
+    const pathThoughts = path
+      .map(n => thoughts.filter(t => t.thoughtNumber === n).pop())
+      .filter((t): t is ThoughtRecord => t !== undefined);
+    const impactRank: Record<string, number> = { blocker: 0, high: 1, medium: 2, low: 3 };
+
+    return {
+      steps: pathThoughts.map(t => ({ thoughtNumber: t.thoughtNumber, thought: t.thought, confidence: t.confidence })),
+      critiques: pathThoughts
+        .flatMap(t => (t.extensions ?? [])
+          .filter(e => e.type === 'critique' || e.type === 'correction' || e.type === 'assumption_testing')
+          .map(e => ({ thoughtNumber: t.thoughtNumber, type: e.type, content: e.content, impact: e.impact })))
+        .sort((a, b) => (impactRank[a.impact] ?? 2) - (impactRank[b.impact] ?? 2)),
+      deadEnds: session.deadEnds
+        .filter(de => !session.currentSessionId || !de.sessionId || de.sessionId === session.currentSessionId)
+        .map(de => ({ path: de.path, reason: de.reason })),
+      constraints,
+      potentialFlaws,
+    };
+  }
+
   /**
    * Consolidate and verify the thinking process (meta-cognitive audit)
    * Delegates to ConsolidateService
    */
-  consolidate(input: import('../types/thought.types.js').ConsolidateInput): import('../types/thought.types.js').ConsolidateResult {
-    return this.consolidateService.consolidate(
+  consolidate(input: import('../types/thought.types.js').ConsolidateInput, sessionKey?: string): import('../types/thought.types.js').ConsolidateResult {
+    const session = this.resolveSession(sessionKey);
+    const result = this.consolidateService.consolidate(
       input,
-      this.getCurrentSessionThoughts(),
-      (path, reason) => this.recordDeadEnd(path, reason),
+      this.getSessionThoughts(session),
+      (path, reason) => this.recordDeadEnd(session, path, reason),
       // v4.1.0: Save insight on successful consolidation
       (path, summary) => {
         this.insightsService.saveWinningPath({
           path,
           summary,
-          goal: this.sessionGoal,
-          avgConfidence: this.calculateAverageConfidence(),
-          sessionLength: this.getCurrentSessionThoughts().length,
+          goal: session.sessionGoal,
+          avgConfidence: this.calculateAverageConfidence(session),
+          sessionLength: this.getSessionThoughts(session).length,
+          namespace: session.project,
+          chain: this.buildInsightChain(session, path, input.constraintCheck, input.potentialFlaws),
         }).catch(err => console.error('Failed to save insight:', err));
       }
     );
+
+    // v5.6.0: Remember the verdict for think_sessions
+    if (result.status === 'success') {
+      session.donePassed = result.canProceedToFinalAnswer;
+      session.updatedAt = Date.now();
+      this.saveSession([{ seq: 0, type: 'done', session: session.key, passed: session.donePassed }])
+        .catch(err => console.error('Failed to save session:', err));
+    }
+    return result;
   }
 
   /**
-   * Reset current session and clear persistence
+   * Reset a session and update persistence
+   * v5.6.0: Named sessions are removed entirely, other sessions stay intact
    * Returns info about what was cleared
    */
-  async resetSession(): Promise<{ clearedThoughts: number; clearedBranches: number }> {
-    const clearedThoughts = this.thoughtHistory.length;
-    const clearedBranches = this.branches.size;
-
-    this.reset();
-    await this.clearSession();
+  async resetSession(sessionKey?: string): Promise<{ clearedThoughts: number; clearedBranches: number }> {
+    const session = this.resolveSession(sessionKey);
+    const clearedThoughts = session.thoughtHistory.length;
+    const clearedBranches = session.branches.size;
+
+    this.reset(session);
+    const deleted = session.key !== DEFAULT_SESSION_KEY;
+    if (deleted) {
+      this.sessions.delete(session.key);
+    }
+    await this.saveSession([{ seq: 0, type: 'session_reset', session: session.key, ...(deleted ? { deleted } : {}) }]);
 
-    console.error(`🧹 Session reset: cleared ${clearedThoughts} thoughts, ${clearedBranches} branches`);
+    console.error(`🧹 Session "${session.key}" reset: cleared ${clearedThoughts} thoughts, ${clearedBranches} branches`);
 
     return { clearedThoughts, clearedBranches };
   }
 
+  // ============================================
+  // v5.6.0 - Session Management
+  // ============================================
+
+  /**
+   * MANAGE SESSIONS - list, resume, rename, archive, delete, fork persisted sessions
+   * Mutating actions persist immediately
+   */
+  async manageSessions(input: SessionsInput): Promise<SessionsResult> {
+    const { action } = input;
+    const targetKey = input.sessionId?.trim();
+    const newKey = input.newSessionId?.trim();
+
+    if (action === 'list') {
+      const sessions = Array.from(this.sessions.values())
+        .filter(session => session.thoughtHistory.length > 0 || session.key !== DEFAULT_SESSION_KEY)
+        .map(session => this.summarizeSession(session));
+      if (input.includeArchived !== false) {
+        sessions.push(...Array.from(this.archivedSessions.values()).map(session => this.summarizeSession(session)));
+      }
+      sessions.sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+      return { status: 'success', action, message: `${sessions.length} session(s)`, sessions };
+    }
+
+    if (!targetKey) {
+      return this.sessionsError(action, `sessionId is required for ${action}`);
+    }
+    const live = this.sessions.get(targetKey);
+    const parked = this.archivedSessions.get(targetKey);
+
+    switch (action) {
+      case 'resume': {
+        if (!parked) {
+          return live
+            ? { status: 'success', action, message: `Session "${targetKey}" is already active`, sessions: [this.summarizeSession(live)] }
+            : this.sessionsError(action, `Session "${targetKey}" not found`);
+        }
+        const resumeKey = newKey || targetKey;
+        if (!this.isSessionKeyAvailable(resumeKey)) {
+          return this.sessionsError(action, `Active session "${resumeKey}" already exists - pass newSessionId to resume under another key`);
+        }
+        this.archivedSessions.delete(targetKey);
+        parked.key = resumeKey;
+        parked.archivedAt = undefined;
+        parked.updatedAt = Date.now();
+        this.sessions.set(resumeKey, parked);
+        this.evictStaleSessions(parked);
+        this.markDirty(targetKey, resumeKey);
+        await this.saveSession();
+        console.error(`▶️ Session "${targetKey}" resumed as "${resumeKey}"`);
+        return { status: 'success', action, message: `Resumed "${targetKey}" as "${resumeKey}" - continue with thought #${parked.lastThoughtNumber + 1}`, sessions: [this.summarizeSession(parked)] };
+      }
+
+      case 'rename': {
+        if (!newKey) {
+          return this.sessionsError(action, 'newSessionId is required for rename');
+        }
+        const session = live ?? parked;
+        if (!session) {
+          return this.sessionsError(action, `Session "${targetKey}" not found`);
+        }
+        const store = live ? this.sessions : this.archivedSessions;
+        const available = live ? this.isSessionKeyAvailable(newKey) : !this.archivedSessions.has(newKey);
+        if (!available) {
+          return this.sessionsError(action, `Session "${newKey}" already exists`);
+        }
+        store.delete(targetKey);
+        session.key = newKey;
+        store.set(newKey, session);
+        // Keep fork lineage pointing at the renamed parent
+        for (const child of [...this.sessions.values(), ...this.archivedSessions.values()]) {
+          if (child.forkedFrom?.sessionId === targetKey) {
+            child.forkedFrom = { ...child.forkedFrom, sessionId: newKey };
+            this.markDirty(child.key);
+          }
+        }
+        if (live && targetKey === DEFAULT_SESSION_KEY) {
+          this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+        }
+        this.markDirty(targetKey, newKey);
+        await this.saveSession();
+        console.error(`✏️ Session "${targetKey}" renamed to "${newKey}"`);
+        return { status: 'success', action, message: `Renamed "${targetKey}" to "${newKey}"`, sessions: [this.summarizeSession(session)] };
+      }
+
+      case 'archive': {
+        if (!live || live.thoughtHistory.length === 0) {
+          return this.sessionsError(action, `Active session "${targetKey}" not found or empty`);
+        }
+        const archiveKey = this.moveToArchive(live);
+        this.markDirty(targetKey, archiveKey);
+        await this.saveSession();
+        console.error(`📦 Session "${targetKey}" archived as "${archiveKey}"`);
+        return { status: 'success', action, message: `Archived "${targetKey}" as "${archiveKey}"`, sessions: [this.summarizeSession(live)] };
+      }
+
+      case 'delete': {
+        const session = live ?? parked;
+        if (!session) {
+          return this.sessionsError(action, `Session "${targetKey}" not found`);
+        }
+        if (live) {
+          this.sessions.delete(targetKey);
+          if (targetKey === DEFAULT_SESSION_KEY) {
+            this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+          }
+        } else {
+          this.archivedSessions.delete(targetKey);
+        }
+        this.markDirty(targetKey);
+        await this.saveSession();
+        console.error(`🗑️ Session "${targetKey}" deleted (${session.thoughtHistory.length} thoughts)`);
+        return { status: 'success', action, message: `Deleted "${targetKey}" (${session.thoughtHistory.length} thoughts)`, sessions: [] };
+      }
+
+      case 'fork': {
+        const source = live ?? parked;
+        if (!source) {
+          return this.sessionsError(action, `Session "${targetKey}" not found`);
+        }
+        if (!newKey) {
+          return this.sessionsError(action, 'newSessionId is required for fork');
+        }
+        if (!this.isSessionKeyAvailable(newKey)) {
+          return this.sessionsError(action, `Active session "${newKey}" already exists`);
+        }
+        const fork = this.forkSession(source, newKey, input.atThought);
+        if (!fork) {
+          return this.sessionsError(action, `Thought #${input.atThought ?? '-'} not found in session "${targetKey}"`);
+        }
+        this.sessions.set(newKey, fork);
+        this.evictStaleSessions(fork);
+        this.markDirty(newKey);
+        await this.saveSession();
+        const forkedAt = fork.forkedFrom!.thoughtNumber;
+        console.error(`⑂ Session "${targetKey}" forked at #${forkedAt} as "${newKey}"`);
+        return { status: 'success', action, message: `Forked "${targetKey}" at #${forkedAt} as "${newKey}" - continue with thought #${fork.lastThoughtNumber + 1}`, sessions: [this.summarizeSession(fork)] };
+      }
+
+      default:
+        return this.sessionsError(action, `Unknown action: ${String(action)}`);
+    }
+  }
+
+  /**
+   * Build think_sessions overview for one session
+   */
+  private summarizeSession(session: ThinkingSessionState): SessionSummary {
+    const confidences = session.thoughtHistory
+      .map(t => t.confidence)
+      .filter((c): c is number => typeof c === 'number');
+    const averageConfidence = confidences.length > 0
+      ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 10) / 10
+      : null;
+    return {
+      sessionId: session.key,
+      goal: session.sessionGoal,
+      project: session.project,
+      thoughtCount: session.thoughtHistory.length,
+      averageConfidence,
+      lastActivity: new Date(session.updatedAt).toISOString(),
+      donePassed: session.donePassed,
+      archived: session.archivedAt !== undefined,
+      forkedFrom: session.forkedFrom,
+    };
+  }
+
+  /**
+   * Copy a session's current thoughts up to atThought (default: all) into a new session
+   * Extensions, branches, goal and the dead ends and branch closures within the copied range come along.
+   * Returns null when there is nothing to copy at atThought.
+   */
+  private forkSession(source: ThinkingSessionState, key: string, atThought?: number): ThinkingSessionState | null {
+    const sourceThoughts = source.thoughtHistory.filter(t => !source.currentSessionId || t.sessionId === source.currentSessionId);
+    const cutoff = atThought ?? sourceThoughts.reduce((max, t) => Math.max(max, t.thoughtNumber), 0);
+    if (!sourceThoughts.some(t => t.thoughtNumber === cutoff)) return null;
+
+    const fork = createSessionState(key, this.similarity);
+    fork.thoughtHistory = structuredClone(sourceThoughts.filter(t => t.thoughtNumber <= cutoff));
+    for (const record of fork.thoughtHistory) {
+      if (record.branchFromThought && record.branchId) {
+        const branchHistory = fork.branches.get(record.branchId) ?? [];
+        branchHistory.push(record);
+        fork.branches.set(record.branchId, branchHistory);
+      }
+    }
+    fork.lastThoughtNumber = fork.thoughtHistory
+      .filter(t => !t.isRevision && !t.branchFromThought)
+      .reduce((max, t) => Math.max(max, t.thoughtNumber), 0);
+    fork.sessionGoal = source.sessionGoal;
+    fork.project = source.project;
+    fork.currentSessionId = source.currentSessionId;
+    fork.deadEnds = structuredClone(source.deadEnds.filter(de => de.path.every(n => n <= cutoff)));
+    for (const [branchId, closure] of source.branchClosures) {
+      if (fork.branches.has(branchId) && (closure.mergedAs ?? 0) <= cutoff) {
+        fork.branchClosures.set(branchId, { ...closure });
+      }
+    }
+    fork.forkedFrom = { sessionId: source.key, thoughtNumber: cutoff, forkedAt: new Date().toISOString() };
+    return fork;
+  }
+
+  /**
+   * Parent and forks of a session (v5.6.0)
+   */
+  private getSessionLineage(session: ThinkingSessionState): SessionLineageView {
+    const forks = [...this.sessions.values(), ...this.archivedSessions.values()]
+      .filter(candidate => candidate.forkedFrom?.sessionId === session.key)
+      .map(fork => ({ ...fork.forkedFrom!, sessionId: fork.key }));
+    return { forkedFrom: session.forkedFrom, forks };
+  }
+
+  /**
+   * Move a live session into the archive, returning its archive key
+   * The default session is replaced with a fresh one so it always exists
+   */
+  private moveToArchive(session: ThinkingSessionState): string {
+    this.sessions.delete(session.key);
+    if (session.key === DEFAULT_SESSION_KEY) {
+      this.sessions.set(DEFAULT_SESSION_KEY, createSessionState(DEFAULT_SESSION_KEY, this.similarity));
+    }
+
+    let archiveKey = session.key;
+    for (let n = 2; this.archivedSessions.has(archiveKey); n++) {
+      archiveKey = `${session.key}-${n}`;
+    }
+    session.key = archiveKey;
+    session.archivedAt = Date.now();
+    this.archivedSessions.set(archiveKey, session);
+    this.trimArchive();
+    return archiveKey;
+  }
+
+  /**
+   * Drop oldest archived sessions beyond MAX_ARCHIVED_SESSIONS
+   */
+  private trimArchive(): void {
+    if (this.archivedSessions.size > MAX_ARCHIVED_SESSIONS) {
+      const oldest = Array.from(this.archivedSessions.values())
+        .sort((a, b) => (a.archivedAt ?? 0) - (b.archivedAt ?? 0))
+        .slice(0, this.archivedSessions.size - MAX_ARCHIVED_SESSIONS);
+      for (const evicted of oldest) {
+        this.archivedSessions.delete(evicted.key);
+        console.error(`🗑️ Archive limit reached (${MAX_ARCHIVED_SESSIONS}), dropped: ${evicted.key}`);
+      }
+    }
+  }
+
+  /**
+   * A live key is free if unused, or if it is the (always present) default session and still empty
+   */
+  private isSessionKeyAvailable(key: string): boolean {
+    const existing = this.sessions.get(key);
+    return !existing || (key === DEFAULT_SESSION_KEY && existing.thoughtHistory.length === 0);
+  }
+
+  private sessionsError(action: SessionsInput['action'], errorMessage: string): SessionsResult {
+    return { status: 'error', action, message: errorMessage, sessions: [], errorMessage };
+  }
+
+  // ============================================
+  // v5.6.0 - Thought Editing
+  // ============================================
+
+  /**
+   * EDIT THOUGHTS - undo the last thought, edit content/confidence, or soft-delete a thought
+   * Removed thoughts move into the session's audit trail; derived state
+   * (lastThoughtNumber, branches, recall index, dead ends) is recomputed. Persists immediately.
+   */
+  async editThought(input: EditThoughtInput, sessionKey?: string): Promise<EditThoughtResult> {
+    const session = this.resolveSession(sessionKey);
+    const { action } = input;
+    const sessionThoughts = this.getSessionThoughts(session);
+
+    let target: ThoughtRecord | undefined;
+    if (action === 'undo') {
+      target = sessionThoughts[sessionThoughts.length - 1];
+      if (!target) return this.editError(session, action, 'Nothing to undo - session has no thoughts');
+    } else {
+      if (input.thoughtNumber === undefined) {
+        return this.editError(session, action, `thoughtNumber is required for ${action}`);
+      }
+      // Most recent match first, like extendThought
+      target = [...sessionThoughts].reverse().find(t =>
+        t.thoughtNumber === input.thoughtNumber && (input.branchId === undefined || t.branchId === input.branchId)
+      );
+      if (!target) {
+        const branchInfo = input.branchId ? ` in branch "${input.branchId}"` : '';
+        return this.editError(session, action, `Thought #${input.thoughtNumber}${branchInfo} not found in current session`);
+      }
+    }
+
+    const thoughtIndex = session.thoughtHistory.indexOf(target);
+    const entry: ThoughtEditEntry = {
+      action,
+      thoughtNumber: target.thoughtNumber,
+      branchId: target.branchId,
+      timestamp: new Date().toISOString(),
+      reason: input.reason,
+    };
+
+    if (action === 'edit') {
+      const content = input.thought?.trim();
+      if (input.thought !== undefined && !content) {
+        return this.editError(session, action, '[ERR_EMPTY_THOUGHT] Empty thought. Provide meaningful content.');
+      }
+      if (content === undefined && input.confidence === undefined) {
+        return this.editError(session, action, 'Provide thought and/or confidence to edit');
+      }
+      entry.previous = { thought: target.thought, confidence: target.confidence };
+      if (content !== undefined) target.thought = content;
+      if (input.confidence !== undefined) target.confidence = input.confidence;
+    } else {
+      const dependents = sessionThoughts.filter(t =>
+        t !== target && (t.branchFromThought === target!.thoughtNumber || t.revisesThought === target!.thoughtNumber)
+      );
+      if (dependents.length > 0) {
+        return this.editError(session, action, `Thought #${target.thoughtNumber} is referenced by #${dependents.map(t => t.thoughtNumber).join(', #')} - remove those first`);
+      }
+      session.thoughtHistory = session.thoughtHistory.filter(t => t !== target);
+      entry.removed = target;
+      this.recomputeDerivedState(session, target.thoughtNumber);
+    }
+
+    this.recordEdit(session, entry);
+    this.invalidateFuseIndex(session);
+    session.updatedAt = Date.now();
+    session.donePassed = false;
+    await this.saveSession([{
+      seq: 0, // Assigned on commit
+      type: 'thought_edit',
+      session: session.key,
+      thoughtIndex,
+      entry: structuredClone(entry),
+      ...(action === 'edit' ? { thought: target.thought, confidence: target.confidence } : {}),
+    }]);
+
+    const verb = action === 'edit' ? 'Edited' : action === 'undo' ? 'Undid' : 'Deleted';
+    console.error(`✏️ ${verb} thought #${target.thoughtNumber} in "${session.key}"`);
+    return {
+      status: 'success',
+      action,
+      message: `${verb} thought #${target.thoughtNumber}${action === 'edit' ? '' : ` - continue with thought #${session.lastThoughtNumber + 1}`}`,
+      thought: { thoughtNumber: target.thoughtNumber, thought: target.thought, confidence: target.confidence },
+      ...this.editState(session),
+    };
+  }
+
+  /**
+   * Rebuild state derived from thought history after a thought was removed
+   * Dead-end paths are cut before the removed thought, so its replacement is not flagged as the rejected path
+   */
+  private recomputeDerivedState(session: ThinkingSessionState, removedNumber: number): void {
+    const mainline = this.getSessionThoughts(session).filter(t => !t.isRevision && !t.branchFromThought);
+    session.lastThoughtNumber = mainline.reduce((max, t) => Math.max(max, t.thoughtNumber), 0);
+
+    session.branches.clear();
+    for (const record of session.thoughtHistory) {
+      if (record.branchFromThought && record.branchId) {
+        const branchHistory = session.branches.get(record.branchId) ?? [];
+        branchHistory.push(record);
+        session.branches.set(record.branchId, branchHistory);
+      }
+    }
+    for (const branchId of session.branchClosures.keys()) {
+      if (!session.branches.has(branchId)) session.branchClosures.delete(branchId);
+    }
+
+    session.deadEnds = session.deadEnds
+      .map(de => {
+        const cut = de.path.indexOf(removedNumber);
+        const ownSession = !de.sessionId || de.sessionId === session.currentSessionId;
+        return cut === -1 || !ownSession ? de : { ...de, path: de.path.slice(0, cut) };
+      })
+      .filter(de => de.path.length > 0);
+  }
+
+  /**
+   * Append to the audit trail, capped unless the backend keeps full history
+   */
+  private recordEdit(session: ThinkingSessionState, entry: ThoughtEditEntry): void {
+    session.edits.push(entry);
+    if (this.storage.boundedHistory && session.edits.length > MAX_EDIT_AUDIT_ENTRIES) {
+      session.edits.splice(0, session.edits.length - MAX_EDIT_AUDIT_ENTRIES);
+    }
+  }
+
+  /**
+   * Edit counters of the session resolved at the start of the call
+   */
+  private editState(session: ThinkingSessionState): Pick<EditThoughtResult, 'lastThoughtNumber' | 'branches' | 'thoughtHistoryLength' | 'auditTrailLength'> {
+    return {
+      lastThoughtNumber: session.lastThoughtNumber,
+      branches: Array.from(session.branches.keys()),
+      thoughtHistoryLength: session.thoughtHistory.length,
+      auditTrailLength: session.edits.length,
+    };
+  }
+
+  private editError(session: ThinkingSessionState, action: EditThoughtInput['action'], errorMessage: string): EditThoughtResult {
+    return { status: 'error', action, message: errorMessage, errorMessage, ...this.editState(session) };
+  }
+
+  // ============================================
+  // v5.6.0 - Branch Lifecycle
+  // ============================================
+
+  /**
+   * MANAGE BRANCHES - compare branches, close one with an outcome, or merge its conclusion into the mainline
+   * Closed branches stop triggering the forgotten-branch advice. Mutating actions persist immediately.
+   */
+  async manageBranches(input: BranchInput, sessionKey?: string): Promise<BranchResult> {
+    const session = this.resolveSession(sessionKey);
+    const { action } = input;
+
+    if (action === 'compare') {
+      const ids = input.branchIds?.length ? input.branchIds : Array.from(session.branches.keys());
+      const unknown = ids.filter(id => !session.branches.has(id));
+      if (unknown.length > 0) {
+        return this.branchError(action, `Branch not found: ${unknown.join(', ')}`);
+      }
+      const branches = ids.map(id => this.compareBranch(session, id));
+      return { status: 'success', action, message: `${branches.length} branch(es)`, branches };
+    }
+
+    const branchId = input.branchId?.trim();
+    if (!branchId) {
+      return this.branchError(action, `branchId is required for ${action}`);
+    }
+    const branchThoughts = session.branches.get(branchId);
+    if (!branchThoughts || branchThoughts.length === 0) {
+      return this.branchError(action, `Branch "${branchId}" not found`);
+    }
+    const rationale = input.rationale?.trim();
+    if (!rationale) {
+      return this.branchError(action, `rationale is required for ${action}`);
+    }
+    const existing = session.branchClosures.get(branchId);
+    if (existing) {
+      return this.branchError(action, `Branch "${branchId}" already closed as ${existing.outcome}`);
+    }
+
+    const closure: BranchClosure = {
+      outcome: action === 'merge' ? 'merged' : input.outcome ?? 'abandoned',
+      rationale: rationale.substring(0, 500),
+      closedAt: new Date().toISOString(),
+    };
+
+    const journalEvents: ThinkingJournalEvent[] = [];
+    if (action === 'merge') {
+      // The branch conclusion continues the mainline after every number taken so far,
+      // so branch thoughts numbered past the mainline no longer block it
+      const last = branchThoughts[branchThoughts.length - 1];
+      const mergedAs = this.getSessionThoughts(session).reduce((max, t) => Math.max(max, t.thoughtNumber), 0) + 1;
+      const record: ThoughtRecord = {
+        thought: input.conclusion?.trim() || `Merged branch "${branchId}": ${rationale}. Branch conclusion: ${last.thought}`,
+        thoughtNumber: mergedAs,
+        totalThoughts: Math.max(last.totalThoughts, mergedAs),
+        nextThoughtNeeded: true,
+        timestamp: Date.now(),
+        sessionId: session.currentSessionId,
+      };
+      session.thoughtHistory.push(record);
+      session.lastThoughtNumber = mergedAs;
+      this.invalidateFuseIndex(session);
+      closure.mergedAs = mergedAs;
+      journalEvents.push(this.thoughtEvent(session, record));
+    }
+
+    session.branchClosures.set(branchId, closure);
+    session.updatedAt = Date.now();
+    journalEvents.push({ seq: 0, type: 'branch_close', session: session.key, branchId, closure: { ...closure } });
+    await this.saveSession(journalEvents);
+
+    console.error(`🌿 Branch "${branchId}" closed as ${closure.outcome} in "${session.key}"`);
+    const mergedInfo = closure.mergedAs ? ` into mainline thought #${closure.mergedAs}` : '';
+    return {
+      status: 'success',
+      action,
+      message: `Branch "${branchId}" ${closure.outcome}${mergedInfo}`,
+      branches: [this.compareBranch(session, branchId)],
+      mergedThought: closure.mergedAs,
+    };
+  }
+
+  /**
+   * Comparison row of one branch of a session
+   */
+  private compareBranch(session: ThinkingSessionState, branchId: string): BranchComparison {
+    const thoughts = session.branches.get(branchId) ?? [];
+    const closure = session.branchClosures.get(branchId);
+    const confidences = thoughts
+      .map(t => t.confidence)
+      .filter((c): c is number => typeof c === 'number');
+    return {
+      branchId,
+      status: closure?.outcome ?? 'open',
+      fromThought: thoughts[0]?.branchFromThought ?? 0,
+      thoughtCount: thoughts.length,
+      averageConfidence: confidences.length > 0
+        ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 10) / 10
+        : null,
+      unresolvedCritiques: this.countUnresolvedCritiques(thoughts, this.getSessionThoughts(session)),
+      lastThought: thoughts[thoughts.length - 1]?.thought.substring(0, 200) ?? '',
+      rationale: closure?.rationale,
+    };
+  }
+
+  private branchError(action: BranchInput['action'], errorMessage: string): BranchResult {
+    return { status: 'error', action, message: errorMessage, branches: [], errorMessage };
+  }
+
   /**
    * Export current session as Markdown report (v2.10.0)
    * Delegates to ExportService
    */
-  exportSession(options: { format?: 'markdown' | 'json'; includeMermaid?: boolean } = {}): string {
+  exportSession(options: { format?: 'markdown' | 'json'; includeMermaid?: boolean } = {}, sessionKey?: string): string {
+    const session = this.resolveSession(sessionKey);
     const includeMermaid = options.includeMermaid ?? true;
     return this.exportService.export(
       {
-        thoughts: this.getCurrentSessionThoughts(),
-        branches: this.branches,
-        deadEnds: this.getDeadEnds(),
-        sessionGoal: this.sessionGoal,
-        averageConfidence: this.calculateAverageConfidence(),
-        mermaidDiagram: includeMermaid ? this.generateMermaid() : undefined,
+        thoughts: this.getSessionThoughts(session),
+        branches: session.branches,
+        deadEnds: this.getSessionDeadEnds(session),
+        edits: session.edits,
+        branchClosures: session.branchClosures,
+        lineage: this.getSessionLineage(session),
+        sessionGoal: session.sessionGoal,
+        averageConfidence: this.calculateAverageConfidence(session),
+        mermaidDiagram: includeMermaid ? this.generateMermaid(session) : undefined,
       },
       { ...options, includeMermaid }
     );
   }
 
+  /**
+   * Mermaid diagram of a session (v5.6.0)
+   * Delegates to VisualizationService
+   */
+  getSessionMermaid(sessionKey?: string): string {
+    const session = this.resolveSession(sessionKey);
+    return this.generateMermaid(session);
+  }
+
   // ============================================
   // v4.0.0 - Burst Thinking Edition
   // ============================================
@@ -1013,7 +2293,8 @@ export class ThinkingService {
    * SUBMIT THINKING SESSION (v4.0.0) - Burst Thinking
    * Delegates validation to BurstService, commits results to state
    */
-  submitSession(input: SubmitSessionInput): SubmitSessionResult {
+  submitSession(input: SubmitSessionInput, sessionKey?: string): SubmitSessionResult {
+    const session = this.resolveSession(sessionKey);
     const { goal, thoughts, consolidation, showTree = false } = input;
 
     // Validate using BurstService
@@ -1032,28 +2313,38 @@ export class ThinkingService {
     }
 
     // === Commit Session ===
-    this.reset();
-    this.currentSessionId = new Date().toISOString();
-    this.sessionGoal = goal;
+    this.reset(session);
+    session.currentSessionId = new Date().toISOString();
+    session.sessionGoal = goal;
+    session.project = input.project;
+
+    // v5.6.0: Journaled as reset + one event per thought, like the same steps sent through think
+    const journalEvents: ThinkingJournalEvent[] = [{ seq: 0, type: 'session_reset', session: session.key }];
 
     // Convert and add thoughts to history
     for (const t of validation.sortedThoughts) {
-      const record = this.burstService.toThoughtRecord(t, thoughts.length, this.currentSessionId);
-      this.thoughtHistory.push(record);
-      this.lastThoughtNumber = Math.max(this.lastThoughtNumber, t.thoughtNumber);
+      const record = this.burstService.toThoughtRecord(t, thoughts.length, session.currentSessionId);
+      session.thoughtHistory.push(record);
+      session.lastThoughtNumber = Math.max(session.lastThoughtNumber, t.thoughtNumber);
 
       // Handle branches
       if (t.branchFromThought && t.branchId) {
-        const branchHistory = this.branches.get(t.branchId) ?? [];
+        const branchHistory = session.branches.get(t.branchId) ?? [];
         branchHistory.push(record);
-        this.branches.set(t.branchId, branchHistory);
+        session.branches.set(t.branchId, branchHistory);
       }
+      journalEvents.push(this.thoughtEvent(session, record));
+    }
+
+    this.invalidateFuseIndex(session);
+    session.updatedAt = Date.now();
+    session.donePassed = consolidation?.verdict === 'ready';
+    if (session.donePassed) {
+      journalEvents.push({ seq: 0, type: 'done', session: session.key, passed: true });
     }
 
-    this.invalidateFuseIndex();
-    
     // v5.0.1: Async save - don't block response
-    this.saveSession().catch(err => console.error('Failed to save burst session:', err));
+    this.saveSession(journalEvents).catch(err => console.error('Failed to save burst session:', err));
 
     // v5.0.1: Minimal system advice - only real issues
     let systemAdvice: string | undefined;
@@ -1069,11 +2360,13 @@ export class ThinkingService {
         goal,
         avgConfidence: validation.metrics.avgConfidence,
         sessionLength: thoughts.length,
+        namespace: session.project,
+        chain: this.buildInsightChain(session, consolidation.winningPath),
       }).catch(err => console.error('Failed to save insight:', err));
       systemAdvice = (systemAdvice ? systemAdvice + ' | ' : '') + '💾 Insight saved';
     }
 
-    console.error(`✅ Burst: ${thoughts.length}t, session=${this.currentSessionId.substring(0, 10)}...`);
+    console.error(`✅ Burst: ${thoughts.length}t, session=${session.currentSessionId.substring(0, 10)}...`);
 
     // v4.6.0: Generate nudge for batch (only if no systemAdvice)
     const hasAlternatives = thoughts.some(t => t.alternatives && t.alternatives.length > 0);
@@ -1089,12 +2382,12 @@ export class ThinkingService {
 
     return {
       status: 'accepted',
-      sessionId: this.currentSessionId,
+      sessionId: session.currentSessionId,
       thoughtsProcessed: thoughts.length,
       validation: { passed: true, errors: [], warnings: validation.warnings },
       metrics: validation.metrics,
       // v5.0.1: Tree is lazy - generated only when requested via showTree param
-      thoughtTree: showTree ? this.generateAsciiTree() : undefined,
+      thoughtTree: showTree ? this.generateAsciiTree(session) : undefined,
       systemAdvice,
       nudge,
     };
@@ -1108,19 +2401,67 @@ export class ThinkingService {
    * Mark Fuse index as dirty (needs rebuild)
    * Delegates to RecallService
    */
-  private invalidateFuseIndex(): void {
-    this.recallService.invalidateIndex();
+  private invalidateFuseIndex(session: ThinkingSessionState): void {
+    session.recallService.invalidateIndex();
   }
 
   /**
    * RECALL THOUGHT - Fuzzy search through thought history
    * Delegates to RecallService
    */
-  recallThought(input: RecallInput): RecallResult {
+  recallThought(input: RecallInput, sessionKey?: string): RecallResult {
+    const session = this.resolveSession(sessionKey);
     const thoughts = input.scope === 'current' 
-      ? this.getCurrentSessionThoughts() 
-      : this.thoughtHistory;
-    return this.recallService.recallThought(input, thoughts);
+      ? this.getSessionThoughts(session) 
+      : session.thoughtHistory;
+    return session.recallService.recallThought(input, thoughts);
+  }
+
+  /**
+   * RECALL HISTORY - Fuzzy search across every live and archived session (v5.6.0)
+   * Filters narrow the searched thoughts; each match carries its session provenance.
+   * Picks up writes of other processes first, so recently persisted sessions are included.
+   */
+  async recallHistory(input: HistoryRecallInput): Promise<RecallResult> {
+    await this.syncExternalChanges();
+    const from = input.from ? this.parseRecallDate(input.from, false) : -Infinity;
+    const to = input.to ? this.parseRecallDate(input.to, true) : Infinity;
+    const goal = input.goal?.trim().toLowerCase();
+    const keys = input.sessionIds?.length ? new Set(input.sessionIds) : undefined;
+
+    const provenance = new Map<ThoughtRecord, RecallProvenance>();
+    for (const session of [...this.sessions.values(), ...this.archivedSessions.values()]) {
+      if (keys && !keys.has(session.key)) continue;
+      if (goal && !session.sessionGoal?.toLowerCase().includes(goal)) continue;
+      for (const thought of session.thoughtHistory) {
+        if (thought.timestamp < from || thought.timestamp > to) continue;
+        if (input.minConfidence !== undefined && (thought.confidence ?? 0) < input.minConfidence) continue;
+        provenance.set(thought, {
+          sessionKey: session.key,
+          goal: session.sessionGoal,
+          timestamp: new Date(thought.timestamp).toISOString(),
+          archived: session.archivedAt !== undefined,
+        });
+      }
+    }
+
+    // Filters change per call - search a throwaway index instead of a session's cached one
+    return new RecallService(this.similarity).recallThought(
+      { ...input, scope: 'all' },
+      Array.from(provenance.keys()),
+      thought => provenance.get(thought)!
+    );
+  }
+
+  /**
+   * Parse a from/to filter; a bare date as upper bound covers the whole day
+   */
+  private parseRecallDate(value: string, endOfDay: boolean): number {
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid date: ${value}`);
+    }
+    return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? parsed + 24 * 60 * 60 * 1000 - 1 : parsed;
   }
 
   // ============================================
@@ -1130,23 +2471,52 @@ export class ThinkingService {
   /**
    * Search past insights for relevant solutions
    * Delegates to InsightsService
+   * v5.6.0: Searches the namespace of the given project, else of the session, else the server's
    */
-  async recallInsights(query: string, limit = 3): Promise<import('./insights.service.js').InsightsSearchResult> {
-    return this.insightsService.search(query, limit);
+  async recallInsights(
+    query: string,
+    limit = 3,
+    options: { project?: string; allProjects?: boolean; sessionKey?: string } = {}
+  ): Promise<import('./insights.service.js').InsightsSearchResult> {
+    return this.insightsService.search(query, limit, {
+      namespace: options.project ?? this.sessionProject(options.sessionKey),
+      allNamespaces: options.allProjects,
+    });
   }
 
   /**
    * Get insights statistics
    * Delegates to InsightsService
    */
-  async getInsightsStats(): Promise<{
-    totalInsights: number;
-    totalSessions: number;
-    topPatterns: { keyword: string; count: number }[];
-    avgSessionLength: number;
-    avgConfidence: number;
-  }> {
-    return this.insightsService.getStats();
+  async getInsightsStats(
+    scope: import('./insights.service.js').InsightsScope = {}
+  ): Promise<import('./insights.service.js').InsightsStats> {
+    return this.insightsService.getStats(scope);
+  }
+
+  /**
+   * Insights namespace chosen by a session, without creating it (v5.6.0)
+   */
+  private sessionProject(sessionKey?: string): string | undefined {
+    return this.sessions.get(sessionKey?.trim() || DEFAULT_SESSION_KEY)?.project;
+  }
+
+  /**
+   * Add, edit, tag, delete, pin or list insights by hand (v5.6.0)
+   * Delegates to InsightsService
+   */
+  async manageInsights(
+    input: import('./insights.service.js').ManageInsightsInput
+  ): Promise<import('./insights.service.js').ManageInsightsResult> {
+    return this.insightsService.manage(input);
+  }
+
+  /**
+   * List stored insights, newest first (v5.6.0)
+   * Delegates to InsightsService
+   */
+  async listInsights(): Promise<import('./insights.service.js').WinningPathRecord[]> {
+    return this.insightsService.list();
   }
 
   /**
@@ -1,6 +1,7 @@
 /**
  * ValidationService - Thought sequence and path validation
  * Stateless service - receives data as parameters
+ * v5.6.0: Revision checks use word-set Jaccard or offline vectors (SimilarityMode)
  */
 
 import type {
@@ -8,10 +9,20 @@ import type {
   ThoughtRecord,
   ValidationResult,
   PathConnectivityResult,
+  SimilarityMode,
 } from '../types/thought.types.js';
-import { calculateJaccardSimilarity } from '../utils/index.js';
+import { getTextSimilarity, resolveSimilarityMode, type TextSimilarity } from '../utils/index.js';
 
 export class ValidationService {
+  private readonly similarity: TextSimilarity;
+
+  /**
+   * @param similarity - Similarity mode (default: selected by THINK_MCP_SIMILARITY)
+   */
+  constructor(similarity: SimilarityMode = resolveSimilarityMode()) {
+    this.similarity = getTextSimilarity(similarity);
+  }
+
   /**
    * Validate thought sequence - prevent skipping steps and invalid revisions
    * Also validates revision content is meaningfully different
@@ -34,7 +45,7 @@ export class ValidationService {
         };
       }
 
-      const similarity = calculateJaccardSimilarity(input.thought, targetThought.thought);
+      const similarity = this.similarity(input.thought, targetThought.thought);
       if (similarity > 0.85) {
         return {
           valid: false,
@@ -46,7 +57,7 @@ export class ValidationService {
         (t) => t.thoughtNumber < input.revisesThought! && !t.isRevision
       );
       for (const earlier of earlierThoughts) {
-        const circularSimilarity = calculateJaccardSimilarity(input.thought, earlier.thought);
+        const circularSimilarity = this.similarity(input.thought, earlier.thought);
         if (circularSimilarity > 0.8) {
           return {
             valid: false,
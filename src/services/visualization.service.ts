@@ -4,7 +4,7 @@
  * v4.3.0 - Improved visualization with confidence icons and truncation
  */
 
-import type { ThoughtRecord } from '../types/thought.types.js';
+import type { ThoughtRecord, SessionLineageView, CycleThoughtRecord } from '../types/thought.types.js';
 import { sanitizeForMermaid } from '../utils/index.js';
 
 // v4.3.0: Max thoughts to show in tree (older ones collapsed)
@@ -108,12 +108,14 @@ export class VisualizationService {
    * @param branches - Map of branch ID to branch thoughts
    * @param thoughtHistory - full thought history for branch filtering
    * @param sessionStartIndex - index where current session starts
+   * @param lineage - parent and forks of the session (v5.6.0)
    */
   generateMermaid(
     sessionThoughts: ThoughtRecord[],
     branches: Map<string, ThoughtRecord[]>,
     thoughtHistory: ThoughtRecord[],
-    sessionStartIndex: number
+    sessionStartIndex: number,
+    lineage?: SessionLineageView
   ): string {
     if (sessionThoughts.length === 0) return '';
 
@@ -241,6 +243,17 @@ export class VisualizationService {
       }
     }
 
+    // Session lineage (v5.6.0): parent session feeds the fork point, forks hang off theirs
+    if (lineage?.forkedFrom) {
+      const parent = lineage.forkedFrom;
+      lines.push(`  fork_parent[["⑂ Forked from ${sanitizeForMermaid(parent.sessionId)} @ #${parent.thoughtNumber}"]]:::fork;`);
+      lines.push(`  fork_parent -.-> ${parent.thoughtNumber};`);
+    }
+    lineage?.forks.forEach((child, idx) => {
+      lines.push(`  fork_child_${idx}[["⑂ Fork: ${sanitizeForMermaid(child.sessionId)}"]]:::fork;`);
+      lines.push(`  ${child.thoughtNumber} -.->|fork| fork_child_${idx};`);
+    });
+
     // Style definitions with visual intelligence
     lines.push('  classDef normal fill:#e1f5fe,stroke:#01579b;');
     lines.push('  classDef highConf fill:#e1f5fe,stroke:#ffd700,stroke-width:3px;');
@@ -251,6 +264,55 @@ export class VisualizationService {
     lines.push('  classDef ext fill:#f3e5f5,stroke:#7b1fa2;');
     lines.push('  classDef revision fill:#e8f5e9,stroke:#2e7d32;');
     lines.push('  classDef branch fill:#e0f2f1,stroke:#00695c;');
+    lines.push('  classDef fork fill:#ede7f6,stroke:#4527a0;');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate Mermaid graph of a think_cycle session (v5.6.0)
+   * Steps link to their parent step (else the previous main-line step);
+   * the selected branch is highlighted, other branches are dashed
+   * @param thoughts - cycle steps in order
+   * @param selectedBranch - branch chosen by select_branch
+   * @param finalApproved - add the approved answer node
+   */
+  generateCycleMermaid(thoughts: CycleThoughtRecord[], selectedBranch?: string, finalApproved = false): string {
+    if (thoughts.length === 0) return '';
+
+    const lines: string[] = ['graph TD;', '  start((Start)) --> s1;'];
+    let previousMain: number | undefined;
+    for (const t of thoughts) {
+      const label = sanitizeForMermaid(t.thought.substring(0, 25));
+      const confLabel = t.confidence ? `<br/>conf:${t.confidence}` : '';
+      const styleClass = !t.branchId ? t.thoughtType : t.branchId === selectedBranch ? 'selected' : selectedBranch ? 'rejected' : 'branch';
+      lines.push(`  s${t.index}["#${t.index} ${t.thoughtType}: ${label}...${confLabel}"]:::${styleClass};`);
+
+      const parent = t.parentIndex ?? (t.branchId ? undefined : previousMain);
+      if (parent !== undefined && parent !== t.index) {
+        const forks = t.branchId && !thoughts.some((o) => o.index < t.index && o.branchId === t.branchId);
+        lines.push(forks ? `  s${parent} -.->|${sanitizeForMermaid(t.branchId!)}| s${t.index};` : `  s${parent} --> s${t.index};`);
+      }
+      if (!t.branchId) previousMain = t.index;
+    }
+
+    if (finalApproved) {
+      const selectedSteps = thoughts.filter((t) => t.branchId === selectedBranch);
+      const last = selectedSteps.length > 0 ? selectedSteps[selectedSteps.length - 1] : thoughts[thoughts.length - 1];
+      lines.push('  final(["✅ Final answer approved"]):::final;');
+      lines.push(`  s${last.index} ==> final;`);
+    }
+
+    lines.push('  classDef decompose fill:#e1f5fe,stroke:#01579b;');
+    lines.push('  classDef alternative fill:#fff3e0,stroke:#e65100;');
+    lines.push('  classDef critique fill:#ffecb3,stroke:#ff6f00;');
+    lines.push('  classDef synthesis fill:#f3e5f5,stroke:#7b1fa2;');
+    lines.push('  classDef verification fill:#e8f5e9,stroke:#2e7d32;');
+    lines.push('  classDef revision fill:#e0e0e0,stroke:#616161;');
+    lines.push('  classDef branch fill:#e0f2f1,stroke:#00695c;');
+    lines.push('  classDef selected fill:#e0f2f1,stroke:#ffd700,stroke-width:3px;');
+    lines.push('  classDef rejected fill:#eeeeee,stroke:#9e9e9e,stroke-dasharray:5 5;');
+    lines.push('  classDef final fill:#c8e6c9,stroke:#1b5e20,stroke-width:3px;');
 
     return lines.join('\n');
   }
@@ -67,6 +67,8 @@ export interface ThoughtInput {
   alternatives?: string[];
   /** Session goal - set in first thought to maintain focus (v2.10.0) */
   goal?: string;
+  /** Insights namespace of the session - set in first thought (v5.6.0) */
+  project?: string;
   /** Quick extension - add critique/elaboration inline without separate tool call (v3.1.0) */
   quickExtension?: QuickExtension;
   /** Show ASCII tree in response (v3.2.0) - default false to save tokens */
@@ -120,6 +122,8 @@ export interface ThinkingResult {
   sessionGoal?: string;
   /** Proactive micro-prompt for self-reflection (v4.6.0) */
   nudge?: string;
+  /** Named session the thought was recorded in (v5.6.0) */
+  sessionKey?: string;
 }
 
 /** Session data for persistence */
@@ -209,6 +213,204 @@ export interface SessionDataV3 extends SessionDataV2 {
   deadEnds?: DeadEnd[];
 }
 
+/** Persisted state of one named session (v5.6.0) */
+export interface NamedSessionData {
+  /** Caller-provided session key ('default' when omitted) */
+  key: string;
+  history: ThoughtRecord[];
+  branches: [string, ThoughtRecord[]][];
+  lastThoughtNumber: number;
+  goal?: string;
+  /** Insights namespace chosen for the session */
+  project?: string;
+  currentSessionId?: string;
+  deadEnds?: DeadEnd[];
+  /** Last activity timestamp (ms) */
+  updatedAt: number;
+  /** think_done (or think_batch consolidation) passed for this session */
+  donePassed?: boolean;
+  /** Set when the session was moved to the archive (ms) */
+  archivedAt?: number;
+  /** Store revision of the last commit that changed this session (conflict detection) */
+  revision?: number;
+  /** think_edit audit trail, oldest first */
+  edits?: ThoughtEditEntry[];
+  /** Branches closed via think_branch */
+  branchClosures?: [string, BranchClosure][];
+  /** Set when the session was created by think_sessions fork */
+  forkedFrom?: SessionLineage;
+}
+
+/** Session file holding multiple isolated named sessions (v5.6.0) */
+export interface MultiSessionData {
+  schemaVersion: number;
+  sessions: NamedSessionData[];
+  /** Sessions parked by think_sessions archive or TTL expiry */
+  archived?: NamedSessionData[];
+  savedAt: string;
+  /** Last journal event folded into this snapshot */
+  journalSeq?: number;
+}
+
+/** Action for think_sessions tool (v5.6.0) */
+export type SessionsAction = 'list' | 'resume' | 'rename' | 'archive' | 'delete' | 'fork';
+
+/** Fork point of a session (v5.6.0) */
+export interface SessionLineage {
+  /** Parent session for forkedFrom, child session in forks */
+  sessionId: string;
+  /** Last thought copied from the parent */
+  thoughtNumber: number;
+  /** ISO timestamp of the fork */
+  forkedAt: string;
+}
+
+/** Parent and children of a session, for export and Mermaid (v5.6.0) */
+export interface SessionLineageView {
+  forkedFrom?: SessionLineage;
+  forks: SessionLineage[];
+}
+
+/** Input for think_sessions tool (v5.6.0) */
+export interface SessionsInput {
+  action: SessionsAction;
+  /** Target session (required except list) */
+  sessionId?: string;
+  /** New key for rename/fork, or key to resume an archived session under */
+  newSessionId?: string;
+  /** Copy thoughts up to this number when forking (default: all) */
+  atThought?: number;
+  /** Include archived sessions in list (default: true) */
+  includeArchived?: boolean;
+}
+
+/** Overview of one persisted session */
+export interface SessionSummary {
+  sessionId: string;
+  goal?: string;
+  /** Insights namespace (v5.6.0) */
+  project?: string;
+  thoughtCount: number;
+  averageConfidence: number | null;
+  /** ISO timestamp of last activity */
+  lastActivity: string;
+  donePassed: boolean;
+  archived: boolean;
+  forkedFrom?: SessionLineage;
+}
+
+/** Result of think_sessions tool (v5.6.0) */
+export interface SessionsResult {
+  status: 'success' | 'error';
+  action: SessionsAction;
+  message: string;
+  sessions: SessionSummary[];
+  errorMessage?: string;
+}
+
+/** Action for think_edit tool (v5.6.0) */
+export type EditAction = 'undo' | 'edit' | 'delete';
+
+/** Input for think_edit tool (v5.6.0) */
+export interface EditThoughtInput {
+  action: EditAction;
+  /** Target thought (required for edit/delete) */
+  thoughtNumber?: number;
+  /** Pick the thought of this branch when numbers repeat across branches */
+  branchId?: string;
+  /** New content (edit) */
+  thought?: string;
+  /** New confidence 1-10 (edit) */
+  confidence?: number;
+  /** Why the change was made - kept in the audit trail */
+  reason?: string;
+}
+
+/** One entry of a session's edit audit trail (v5.6.0) */
+export interface ThoughtEditEntry {
+  action: EditAction;
+  thoughtNumber: number;
+  branchId?: string;
+  /** ISO timestamp of the change */
+  timestamp: string;
+  reason?: string;
+  /** Values before an edit */
+  previous?: { thought: string; confidence?: number };
+  /** Full record of a soft-deleted (or undone) thought */
+  removed?: ThoughtRecord;
+}
+
+/** Result of think_edit tool (v5.6.0) */
+export interface EditThoughtResult {
+  status: 'success' | 'error';
+  action: EditAction;
+  message: string;
+  /** Thought after the edit, or the removed one */
+  thought?: ThoughtSummary;
+  /** Mainline counter after the change - continue with lastThoughtNumber + 1 */
+  lastThoughtNumber: number;
+  branches: string[];
+  thoughtHistoryLength: number;
+  auditTrailLength: number;
+  errorMessage?: string;
+}
+
+/** How a branch was closed (v5.6.0) */
+export type BranchOutcome = 'merged' | 'abandoned' | 'winner';
+
+/** Action for think_branch tool (v5.6.0) */
+export type BranchAction = 'compare' | 'close' | 'merge';
+
+/** Closure record of one branch (v5.6.0) */
+export interface BranchClosure {
+  outcome: BranchOutcome;
+  rationale: string;
+  /** ISO timestamp of the closure */
+  closedAt: string;
+  /** Mainline thought created by merge */
+  mergedAs?: number;
+}
+
+/** Input for think_branch tool (v5.6.0) */
+export interface BranchInput {
+  action: BranchAction;
+  /** Target branch (required for close/merge) */
+  branchId?: string;
+  /** Branches to compare (default: all) */
+  branchIds?: string[];
+  /** Outcome for close (default: abandoned) */
+  outcome?: BranchOutcome;
+  /** Why the branch was closed or merged (required for close/merge) */
+  rationale?: string;
+  /** Content of the mainline thought created by merge (default: built from the branch's last thought) */
+  conclusion?: string;
+}
+
+/** Side-by-side view of one branch (v5.6.0) */
+export interface BranchComparison {
+  branchId: string;
+  status: 'open' | BranchOutcome;
+  fromThought: number;
+  thoughtCount: number;
+  averageConfidence: number | null;
+  /** High/blocker critiques without a revision of the criticized thought */
+  unresolvedCritiques: number;
+  /** Latest thought of the branch */
+  lastThought: string;
+  rationale?: string;
+}
+
+/** Result of think_branch tool (v5.6.0) */
+export interface BranchResult {
+  status: 'success' | 'error';
+  action: BranchAction;
+  message: string;
+  branches: BranchComparison[];
+  /** Mainline thought number created by merge */
+  mergedThought?: number;
+  errorMessage?: string;
+}
+
 
 // ============================================
 // v3.4.0 - Recall Edition
@@ -244,14 +446,41 @@ export interface RecallMatch {
   thought: string;
   /** Confidence score of the original thought */
   confidence?: number;
-  /** Relevance score from Fuse.js (0-1, lower = better match) */
+  /** Hybrid BM25 + Fuse.js relevance (0-1, lower = better match) */
   relevance: number;
   /** Where the match was found */
   matchedIn: 'thought' | 'extension' | 'alternative' | 'subStep';
+  /** Query words found in the item after stemming (v5.6.0) */
+  matchedTerms?: string[];
   /** Extension type if matched in extension */
   extensionType?: ExtensionType;
   /** Session ID for context */
   sessionId?: string;
+  /** Named session the thought belongs to (history scope, v5.6.0) */
+  provenance?: RecallProvenance;
+}
+
+/** Where a history match came from (v5.6.0) */
+export interface RecallProvenance {
+  sessionKey: string;
+  goal?: string;
+  /** ISO timestamp of the thought */
+  timestamp: string;
+  archived: boolean;
+}
+
+/** Recall over every persisted session with filters (v5.6.0) */
+export interface HistoryRecallInput extends RecallInput {
+  /** Only these named sessions (live or archived) */
+  sessionIds?: string[];
+  /** ISO date/time - thoughts at or after */
+  from?: string;
+  /** ISO date/time - thoughts at or before (a bare date covers the whole day) */
+  to?: string;
+  /** Case-insensitive substring of the session goal */
+  goal?: string;
+  /** Skip thoughts below this confidence (thoughts without confidence are skipped too) */
+  minConfidence?: number;
 }
 
 /** Result from recall_thought tool */
@@ -302,6 +531,8 @@ export interface BurstConsolidation {
 export interface SubmitSessionInput {
   /** Session goal - required for burst thinking */
   goal: string;
+  /** Insights namespace of the session (v5.6.0) */
+  project?: string;
   /** Array of thoughts (1-30) */
   thoughts: BurstThought[];
   /** Optional consolidation if ready */
@@ -535,7 +766,22 @@ export interface LogicMethodology {
 // ============================================
 
 /** Actions for think_cycle tool */
-export type CycleAction = 'start' | 'step' | 'status' | 'finalize' | 'reset';
+export type CycleAction =
+  | 'start'
+  | 'step'
+  | 'status'
+  | 'finalize'
+  | 'reset'
+  | 'select_branch'
+  | 'list'
+  | 'export'
+  | 'archive';
+
+/** Report formats of think_cycle export (v5.6.0) */
+export type CycleExportFormat = 'markdown' | 'json' | 'mermaid';
+
+/** Session status reported by think_cycle list (v5.6.0) */
+export type CycleSessionStatus = 'in_progress' | 'blocked' | 'ready' | 'completed';
 
 /** Backend mode for think_cycle interoperability */
 export type CycleBackendMode = 'auto' | 'independent' | 'think';
@@ -564,6 +810,13 @@ export type CycleReasonCode =
   | 'LOW_CONFIDENCE_STABILITY'
   | 'TOO_MANY_SHORT_THOUGHTS'
   | 'CONTRADICTION_SIGNAL'
+  | 'UNADDRESSED_CONSTRAINT'
+  | 'CONSTRAINT_VIOLATED'
+  | 'ANSWER_MISSES_CONSTRAINT'
+  | 'ANSWER_CONTRADICTS_TRACE'
+  | 'ANSWER_DRIFT'
+  | 'INSUFFICIENT_ALTERNATIVES'
+  | 'BRANCH_NOT_SELECTED'
   | 'MAX_LOOPS_REACHED'
   | 'INTEROP_BACKEND_ERROR'
   | 'SESSION_NOT_FOUND'
@@ -610,6 +863,74 @@ export interface CyclePhaseCoverage {
   verification: boolean;
 }
 
+/** Phases a gate profile can require before finalize (v5.6.0) */
+export type CyclePhase = keyof CyclePhaseCoverage;
+
+/** Minimum scores and limits checked by the think_cycle gate (v5.6.0) */
+export interface CycleGateThresholds {
+  /** Minimum overall quality */
+  overall: number;
+  critique: number;
+  verification: number;
+  diversity: number;
+  confidenceStability: number;
+  /** Maximum share of thoughts shorter than 60 chars */
+  maxShortThoughtRatio: number;
+}
+
+/** Weights of the overall quality score, normalized to sum 1 (v5.6.0) */
+export interface CycleQualityWeights {
+  coverage: number;
+  critique: number;
+  verification: number;
+  diversity: number;
+  confidenceStability: number;
+}
+
+/** Named gate profile chosen at think_cycle start (v5.6.0) */
+export interface CycleGateProfile {
+  name: string;
+  description?: string;
+  thresholds: CycleGateThresholds;
+  weights: CycleQualityWeights;
+  requiredPhases: CyclePhase[];
+}
+
+/** Status of a think_cycle constraint checklist item (v5.6.0) */
+export type CycleConstraintStatus = 'open' | 'satisfied' | 'violated' | 'deferred';
+
+/** Constraint status set by a cycle step; the latest update per constraint wins (v5.6.0) */
+export interface CycleConstraintUpdate {
+  /** 1-based index into the session constraints */
+  constraint: number;
+  status: Exclude<CycleConstraintStatus, 'open'>;
+  note?: string;
+}
+
+/** Constraint checklist item of a cycle session (v5.6.0) */
+export interface CycleConstraintItem {
+  /** 1-based index into the session constraints */
+  index: number;
+  text: string;
+  status: CycleConstraintStatus;
+  note?: string;
+  /** Step that set the current status */
+  stepIndex?: number;
+}
+
+/** Final answer cross-check run by think_cycle finalize (v5.6.0) */
+export interface CycleAnswerCheck {
+  passed: boolean;
+  /** Share of answer terms found in the goal, constraints or steps (0-1) */
+  support: number;
+  /** Constraints (1-based) the answer doesn't mention; deferred ones are skipped */
+  missingConstraints: number[];
+  /** Synthesis/verification steps the answer negates */
+  contradictions: Array<{ stepIndex: number; excerpt: string }>;
+  /** Answer terms absent from the trace, reported on ANSWER_DRIFT */
+  novelTerms: string[];
+}
+
 /** Single thought record stored by think_cycle */
 export interface CycleThoughtRecord {
   index: number;
@@ -617,6 +938,57 @@ export interface CycleThoughtRecord {
   thoughtType: CycleThoughtType;
   confidence?: number;
   timestamp: number;
+  /** Constraint checklist changes made by this step (v5.6.0) */
+  constraintUpdates?: CycleConstraintUpdate[];
+  /** Alternative branch of this step; main line when unset (v5.6.0) */
+  branchId?: string;
+  /** Step this one continues from (v5.6.0) */
+  parentIndex?: number;
+}
+
+/** Branch chosen by select_branch (v5.6.0) */
+export interface CycleBranchSelection {
+  branchId: string;
+  reason: string;
+  timestamp: number;
+}
+
+/** think_cycle session row returned by list (v5.6.0) */
+export interface CycleSessionSummary {
+  sessionId: string;
+  goal: string;
+  profile: string;
+  status: CycleSessionStatus;
+  thoughts: number;
+  requiredThoughts: number;
+  overallQuality: number;
+  createdAt: string;
+  lastActivity: string;
+  completedAt?: string;
+  archived: boolean;
+}
+
+/** Quality scores after a step, for the export quality history (v5.6.0) */
+export interface CycleQualityPoint {
+  index: number;
+  thoughtType: CycleThoughtType;
+  branchId?: string;
+  quality: CycleQuality;
+}
+
+/** Step that first covered each phase, for the export phase timeline (v5.6.0) */
+export type CyclePhaseTimeline = Record<CyclePhase, number | null>;
+
+/** Per-branch summary reported by think_cycle (v5.6.0) */
+export interface CycleBranchSummary {
+  branchId: string;
+  /** Step the branch forks from */
+  parentIndex?: number;
+  thoughts: number;
+  /** Has enough steps, including a critique or verification, to count as an evaluated alternative */
+  evaluated: boolean;
+  status: 'open' | 'selected' | 'rejected';
+  quality: CycleQuality;
 }
 
 /** Session model for think_cycle */
@@ -632,7 +1004,18 @@ export interface CycleSession {
   backendMode: CycleBackendMode;
   thoughts: CycleThoughtRecord[];
   phaseCoverage: CyclePhaseCoverage;
+  /** Constraint checklist, derived from step updates like phaseCoverage (v5.6.0) */
+  constraintChecklist: CycleConstraintItem[];
+  /** Winning branch and why it won (v5.6.0) */
+  selectedBranch?: CycleBranchSelection;
+  /** Set by a passing finalize; cleared when a later step reopens the cycle (v5.6.0) */
+  completedAt?: number;
+  finalApprovedAnswer?: string;
+  /** Archived cycles are read-only and exempt from TTL cleanup (v5.6.0) */
+  archivedAt?: number;
   interopFallback: boolean;
+  /** Gate profile resolved at start - later config edits don't move the gate (v5.6.0) */
+  gateProfile: CycleGateProfile;
 }
 
 /** Input for think_cycle tool */
@@ -645,10 +1028,30 @@ export interface ThinkCycleInput {
   thought?: string;
   thoughtType?: CycleThoughtType;
   confidence?: number;
+  /** Constraint checklist changes for step (v5.6.0) */
+  constraintUpdates?: CycleConstraintUpdate[];
+  /** Branch for step and select_branch (v5.6.0) */
+  branchId?: string;
+  /** Step a branch step continues from (default: last step of the branch, else last main-line step) (v5.6.0) */
+  parentIndex?: number;
+  /** Why the branch won, for select_branch (v5.6.0) */
+  reason?: string;
+  /** list: only sessions in this status (v5.6.0) */
+  statusFilter?: CycleSessionStatus;
+  /** list: case-insensitive substring of the goal (v5.6.0) */
+  goalFilter?: string;
+  /** list: include archived cycles (default: true) (v5.6.0) */
+  includeArchived?: boolean;
+  /** list: max sessions (default: 20) (v5.6.0) */
+  limit?: number;
+  /** export: report format (default: markdown) (v5.6.0) */
+  format?: CycleExportFormat;
   finalAnswer?: string;
   backendMode?: CycleBackendMode;
   maxLoops?: number;
   showTrace?: boolean;
+  /** Gate profile name for start (default: standard) (v5.6.0) */
+  profile?: string;
 }
 
 /** Output for think_cycle tool */
@@ -659,6 +1062,19 @@ export interface ThinkCycleResult {
   quality: CycleQuality;
   kpi: CycleKpi;
   gate: CycleGate;
+  /** Gate profile of the session (v5.6.0) */
+  profile?: string;
+  /** Constraint checklist of the session (v5.6.0) */
+  constraints?: CycleConstraintItem[];
+  /** Final answer cross-check, set by finalize (v5.6.0) */
+  answerCheck?: CycleAnswerCheck;
+  /** Alternative branches with their own quality scores (v5.6.0) */
+  branches?: CycleBranchSummary[];
+  selectedBranch?: CycleBranchSelection;
+  /** Set once the cycle is archived (v5.6.0) */
+  archived?: boolean;
+  /** Exported report (v5.6.0) */
+  report?: string;
   requiredMoreThoughts: number;
   nextPrompts: string[];
   shortTrace: string[];
@@ -667,3 +1083,166 @@ export interface ThinkCycleResult {
   errorMessage?: string;
 }
 
+/** Result of think_cycle list - no single session, so no gate or quality state (v5.6.0) */
+export interface ThinkCycleListResult {
+  status: 'info' | 'error';
+  /** Sessions matching list filters, most recent first */
+  sessions: CycleSessionSummary[];
+  errorMessage?: string;
+}
+
+// ============================================
+// v5.6.0 - Reasoning Prompts
+// ============================================
+
+/** Names of registered MCP prompts */
+export type ReasoningPromptName = 'deep-analysis' | 'debug-incident' | 'design-review' | 'gate-first-answer';
+
+/** Arguments accepted by every reasoning prompt (MCP prompt args are strings) */
+export interface ReasoningPromptArgs {
+  /** Topic, incident, design or question the workflow is about */
+  subject: string;
+  context?: string;
+  /** Constraints, one per line or separated by ';' */
+  constraints?: string;
+}
+
+// ============================================
+// v5.6.0 - Storage Backend
+// ============================================
+
+/** Persistence backend: JSON snapshots (default), append-only JSONL event log or SQLite database */
+export type StorageBackendKind = 'json' | 'jsonl' | 'sqlite';
+
+/** Text similarity used by stagnation, revision checks, recall and insights: word-set Jaccard (default) or offline n-gram vectors */
+export type SimilarityMode = 'jaccard' | 'vector';
+
+/** Change appended to a store journal and replayed on load */
+export interface StorageEvent {
+  /** Monotonic per-store sequence; snapshots record the last one they include */
+  seq: number;
+  type: string;
+}
+
+/** Thought added to a named session */
+export interface ThoughtJournalEvent extends StorageEvent {
+  type: 'thought';
+  session: string;
+  record: ThoughtRecord;
+  lastThoughtNumber: number;
+  goal?: string;
+  project?: string;
+  currentSessionId: string;
+}
+
+/** Extension attached to a thought (think_extend or quickExtension) */
+export interface ExtensionJournalEvent extends StorageEvent {
+  type: 'extension';
+  session: string;
+  /** Index of the target thought in the session history */
+  thoughtIndex: number;
+  thoughtNumber: number;
+  extension: ThoughtExtension;
+}
+
+/** Dead end recorded by a failed consolidation */
+export interface DeadEndJournalEvent extends StorageEvent {
+  type: 'dead_end';
+  session: string;
+  deadEnd: DeadEnd;
+}
+
+/** Session cleared (thought #1, think_batch, think_reset); `deleted` drops a named session */
+export interface SessionResetJournalEvent extends StorageEvent {
+  type: 'session_reset';
+  session: string;
+  deleted?: boolean;
+}
+
+/** think_done verdict (or the consolidation submitted with think_batch) */
+export interface DoneJournalEvent extends StorageEvent {
+  type: 'done';
+  session: string;
+  passed: boolean;
+}
+
+/** think_edit change - `entry.removed` is set for undo/delete */
+export interface ThoughtEditJournalEvent extends StorageEvent {
+  type: 'thought_edit';
+  session: string;
+  /** Index of the target thought in the session history before the change */
+  thoughtIndex: number;
+  entry: ThoughtEditEntry;
+  /** Values after an edit */
+  thought?: string;
+  confidence?: number;
+}
+
+/** think_branch close/merge - a merge journals its mainline thought first */
+export interface BranchCloseJournalEvent extends StorageEvent {
+  type: 'branch_close';
+  session: string;
+  branchId: string;
+  closure: BranchClosure;
+}
+
+/** Journal events of the thought session store */
+export type ThinkingJournalEvent =
+  | ThoughtJournalEvent
+  | ExtensionJournalEvent
+  | DeadEndJournalEvent
+  | SessionResetJournalEvent
+  | DoneJournalEvent
+  | ThoughtEditJournalEvent
+  | BranchCloseJournalEvent;
+
+/** think_cycle session started */
+export interface CycleStartJournalEvent extends StorageEvent {
+  type: 'cycle_start';
+  session: CycleSession;
+}
+
+/** think_cycle step recorded */
+export interface CycleStepJournalEvent extends StorageEvent {
+  type: 'cycle_step';
+  sessionId: string;
+  record: CycleThoughtRecord;
+  interopFallback: boolean;
+}
+
+/** think_cycle session reset */
+export interface CycleResetJournalEvent extends StorageEvent {
+  type: 'cycle_reset';
+  sessionId: string;
+}
+
+/** think_cycle branch selected (v5.6.0) */
+export interface CycleSelectBranchJournalEvent extends StorageEvent {
+  type: 'cycle_select_branch';
+  sessionId: string;
+  selection: CycleBranchSelection;
+}
+
+/** think_cycle final answer approved (v5.6.0) */
+export interface CycleCompleteJournalEvent extends StorageEvent {
+  type: 'cycle_complete';
+  sessionId: string;
+  finalApprovedAnswer: string;
+  completedAt: number;
+}
+
+/** think_cycle session archived (v5.6.0) */
+export interface CycleArchiveJournalEvent extends StorageEvent {
+  type: 'cycle_archive';
+  sessionId: string;
+  archivedAt: number;
+}
+
+/** Journal events of the cycle session store */
+export type CycleJournalEvent =
+  | CycleStartJournalEvent
+  | CycleStepJournalEvent
+  | CycleResetJournalEvent
+  | CycleSelectBranchJournalEvent
+  | CycleCompleteJournalEvent
+  | CycleArchiveJournalEvent;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCliArgs } from '../cli-args.js';
+
+describe('cli-args utils', () => {
+  it('defaults to stdio transport', () => {
+    expect(parseCliArgs([])).toEqual({ transport: 'stdio', port: 3000, host: '127.0.0.1' });
+  });
+
+  it('parses http transport with port and host in both flag forms', () => {
+    expect(parseCliArgs(['--transport', 'http', '--port', '8080'])).toMatchObject({ transport: 'http', port: 8080 });
+    expect(parseCliArgs(['--transport=http', '--port=9000', '--host=0.0.0.0'])).toEqual({
+      transport: 'http',
+      port: 9000,
+      host: '0.0.0.0',
+    });
+  });
+
+  it('rejects unknown transports and invalid ports', () => {
+    expect(() => parseCliArgs(['--transport', 'websocket'])).toThrow('Unsupported transport');
+    expect(() => parseCliArgs(['--port', '70000'])).toThrow('Invalid port');
+    expect(() => parseCliArgs(['--port'])).toThrow('Missing value');
+  });
+
+  it('parses the storage backend override', () => {
+    expect(parseCliArgs(['--storage', 'jsonl']).storage).toBe('jsonl');
+    expect(parseCliArgs([]).storage).toBeUndefined();
+    expect(parseCliArgs(['--storage=sqlite']).storage).toBe('sqlite');
+    expect(() => parseCliArgs(['--storage=redis'])).toThrow('Unsupported storage backend');
+  });
+
+  it('parses the similarity mode override', () => {
+    expect(parseCliArgs(['--similarity', 'vector']).similarity).toBe('vector');
+    expect(parseCliArgs([]).similarity).toBeUndefined();
+    expect(() => parseCliArgs(['--similarity=embeddings'])).toThrow('Unsupported similarity mode');
+  });
+
+  it('parses the insights project override', () => {
+    expect(parseCliArgs(['--project=/work/acme-api']).project).toBe('/work/acme-api');
+    expect(parseCliArgs([]).project).toBeUndefined();
+    expect(() => parseCliArgs(['--project'])).toThrow('Missing value for --project');
+  });
+});
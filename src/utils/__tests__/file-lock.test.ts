@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getLockFile, withFileLock } from '../file-lock.js';
+
+describe.sequential('withFileLock', () => {
+  let tempDir = '';
+  let storeFile = '';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'think-mcp-lock-test-'));
+    storeFile = join(tempDir, 'store.json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      tempDir = '';
+    }
+  });
+
+  it('serializes concurrent holders and releases the lock file', async () => {
+    const order: string[] = [];
+    const hold = (name: string) => withFileLock(storeFile, async () => {
+      order.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      order.push(`${name}:end`);
+    });
+
+    await Promise.all([hold('a'), hold('b')]);
+    expect(order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    await expect(fs.access(getLockFile(storeFile))).rejects.toThrow();
+  });
+
+  it('takes over locks left behind by a dead process', async () => {
+    // PIDs are capped well below this value on every supported platform
+    await fs.writeFile(getLockFile(storeFile), JSON.stringify({ pid: 2 ** 30, acquiredAt: Date.now() }), 'utf-8');
+    await expect(withFileLock(storeFile, async () => 'acquired')).resolves.toBe('acquired');
+  });
+
+  it('times out while a live process holds the lock', async () => {
+    await fs.writeFile(getLockFile(storeFile), JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }), 'utf-8');
+    await expect(withFileLock(storeFile, async () => 'never', 100)).rejects.toThrow('Timed out');
+  });
+});
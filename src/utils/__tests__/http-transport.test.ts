@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpTransport } from '../http-transport.js';
+
+const MCP_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'http-transport-test', version: '1.0.0' },
+  },
+};
+
+describe.sequential('startHttpTransport', () => {
+  let httpServer: Server | null = null;
+  let endpoint = '';
+  const createSessionServer = vi.fn((_clientId: string) => new McpServer({ name: 'test', version: '1.0.0' }));
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    createSessionServer.mockClear();
+    httpServer = await startHttpTransport({ port: 0, host: '127.0.0.1', createSessionServer });
+    endpoint = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (httpServer) {
+      const server = httpServer;
+      httpServer = null;
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(endpoint, { method: 'POST', headers: { ...MCP_HEADERS, ...headers }, body: JSON.stringify(body) });
+  }
+
+  it('rejects requests without a session header unless they initialize, before creating a server', async () => {
+    const ping = await post({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    expect(ping.status).toBe(400);
+    expect(((await ping.json()) as { error: { message: string } }).error.message).toContain('only initialize may open a session');
+
+    const malformed = await fetch(endpoint, { method: 'POST', headers: MCP_HEADERS, body: '{not json' });
+    expect(malformed.status).toBe(400);
+    await malformed.text();
+
+    const get = await fetch(endpoint, { headers: { Accept: 'text/event-stream' } });
+    expect(get.status).toBe(400);
+    await get.text();
+
+    expect(createSessionServer).not.toHaveBeenCalled();
+  });
+
+  it('opens a client session on initialize and routes follow-ups by mcp-session-id', async () => {
+    const initialized = await post(INITIALIZE);
+    expect(initialized.status).toBe(200);
+    const sessionId = initialized.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    expect(await initialized.text()).toContain('"serverInfo"');
+    expect(createSessionServer).toHaveBeenCalledTimes(1);
+    expect(createSessionServer).toHaveBeenCalledWith(sessionId);
+
+    const ping = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, {
+      'mcp-session-id': sessionId!,
+      'mcp-protocol-version': LATEST_PROTOCOL_VERSION,
+    });
+    expect(ping.status).toBe(200);
+    expect(await ping.text()).toContain('"id":2');
+    expect(createSessionServer).toHaveBeenCalledTimes(1);
+
+    const unknown = await post({ jsonrpc: '2.0', id: 3, method: 'ping' }, { 'mcp-session-id': 'missing' });
+    expect(unknown.status).toBe(404);
+    await unknown.text();
+  });
+
+  it('answers 404 outside the MCP path', async () => {
+    const response = await fetch(endpoint.replace('/mcp', '/other'), { method: 'POST', headers: MCP_HEADERS, body: '{}' });
+    expect(response.status).toBe(404);
+    await response.text();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecallQuery } from '../recall-query.js';
+
+describe('recall-query utils', () => {
+  it('splits free text, phrases, exclusions and field filters', () => {
+    const parsed = parseRecallQuery('type:critique impact:Blocker conf<=5 branch:alt-cache revised:false "token refresh" -redis -"dead letter" auth http://x');
+    expect(parsed).toMatchObject({
+      text: 'auth http://x',
+      phrases: ['token refresh'],
+      excludedTerms: ['redis'],
+      excludedPhrases: ['dead letter'],
+      hasOperators: true,
+      filters: {
+        kinds: [],
+        extensionTypes: ['critique'],
+        impacts: ['blocker'],
+        branches: ['alt-cache'],
+        revised: false,
+        confidence: [{ op: '<=', value: 5 }],
+      },
+    });
+    expect(parseRecallQuery('type:subStep conf:7').filters).toMatchObject({ kinds: ['subStep'], confidence: [{ op: '=', value: 7 }] });
+    expect(parseRecallQuery('plain words').hasOperators).toBe(false);
+  });
+
+  it('rejects unknown filter values', () => {
+    expect(() => parseRecallQuery('type:idea')).toThrow('Invalid recall filter: type:idea');
+    expect(() => parseRecallQuery('revised:yes')).toThrow('expected true, false');
+  });
+});
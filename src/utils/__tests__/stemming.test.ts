@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, stemWord, tokenizeForSearch } from '../index.js';
+
+describe('stemming utils', () => {
+  it('maps English and Russian word forms to a shared stem', () => {
+    expect(new Set(['invalidate', 'invalidation', 'invalidated', 'invalidates'].map(stemWord)).size).toBe(1);
+    expect(new Set(['cache', 'caching', 'cached', 'caches'].map(stemWord)).size).toBe(1);
+    expect(stemWord('running')).toBe(stemWord('run'));
+    expect(new Set(['кэширование', 'кэширования', 'кэшированием'].map(stemWord)).size).toBe(1);
+    expect(stemWord('ёлки')).toBe(stemWord('елка'));
+  });
+
+  it('tokenizes with offsets, dropping stop words and short non-technical words', () => {
+    const text = 'The API and DB of it';
+    expect(tokenizeForSearch(text).map((t) => [t.word, t.index])).toEqual([['API', 4], ['DB', 12]]);
+    expect(tokenizeForSearch('это и есть кэш')).toEqual([
+      { word: 'есть', stem: stemWord('есть'), index: 6 },
+      { word: 'кэш', stem: stemWord('кэш'), index: 11 },
+    ]);
+  });
+
+  it('ranks BM25 documents by rare term matches', () => {
+    const index = new Bm25Index();
+    const docs = [
+      'lock contention on the ledger table',
+      'ledger import batches',
+      'ledger export job',
+    ];
+    docs.forEach((d) => index.add(tokenizeForSearch(d).map((t) => t.stem)));
+
+    const hits = index.search(tokenizeForSearch('ledger lock').map((t) => t.stem));
+    expect(hits.map((h) => h.doc)).toEqual([0, 1, 2]);
+    expect(hits[0].matchedTerms).toHaveLength(2);
+    expect(index.search(['missing'])).toEqual([]);
+  });
+});
@@ -6,6 +6,7 @@ import {
   getThinkMcpDataDir,
   getThinkMcpDataFile,
   migrateLegacyFile,
+  resolveProjectNamespace,
 } from '../storage-paths.js';
 
 const ENV_KEY = 'THINK_MCP_DATA_DIR';
@@ -21,6 +22,14 @@ describe('storage-paths utils', () => {
     expect(getThinkMcpDataFile('session.json')).toBe(join('/tmp/think-mcp-custom', 'session.json'));
   });
 
+  it('resolves insight namespaces from project names and workspace roots', () => {
+    expect(resolveProjectNamespace(undefined)).toBe('default');
+    expect(resolveProjectNamespace('  ')).toBe('default');
+    expect(resolveProjectNamespace('Acme Billing')).toBe('acme-billing');
+    expect(resolveProjectNamespace('/home/dev/work/acme-api/')).toBe('acme-api');
+    expect(resolveProjectNamespace('C:\\work\\Клиент_1')).toBe('клиент_1');
+  });
+
   it('migrates legacy file to new location', async () => {
     const base = await fs.mkdtemp(join(tmpdir(), 'think-mcp-storage-test-'));
     const legacyDir = join(base, 'legacy');
@@ -0,0 +1,75 @@
+/**
+ * In-memory inverted index with BM25 scoring (v5.6.0)
+ * Documents are identified by insertion order; terms are stems from tokenizeForSearch
+ */
+
+import { BM25_B, BM25_K1 } from '../constants/index.js';
+
+/** Scored document from Bm25Index.search */
+export interface Bm25Hit {
+  doc: number;
+  score: number;
+  /** Distinct query stems present in the document */
+  matchedTerms: string[];
+}
+
+export class Bm25Index {
+  /** term → (doc → term frequency) */
+  private readonly postings = new Map<string, Map<number, number>>();
+  private readonly docLengths: number[] = [];
+  private totalLength = 0;
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.docLengths.length;
+  }
+
+  /**
+   * Index document terms, returns document id
+   */
+  add(terms: string[]): number {
+    const doc = this.docLengths.length;
+    this.docLengths.push(terms.length);
+    this.totalLength += terms.length;
+
+    for (const term of terms) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      docs.set(doc, (docs.get(doc) ?? 0) + 1);
+    }
+
+    return doc;
+  }
+
+  /**
+   * Score documents containing at least one query term, best first
+   */
+  search(terms: string[]): Bm25Hit[] {
+    const n = this.docLengths.length;
+    if (n === 0) return [];
+
+    const avgLength = this.totalLength / n || 1;
+    const hits = new Map<number, Bm25Hit>();
+
+    for (const term of new Set(terms)) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      // Probabilistic IDF, shifted to stay positive for common terms
+      const idf = Math.log(1 + (n - docs.size + 0.5) / (docs.size + 0.5));
+
+      for (const [doc, tf] of docs) {
+        const norm = BM25_K1 * (1 - BM25_B + (BM25_B * this.docLengths[doc]) / avgLength);
+        const hit = hits.get(doc) ?? { doc, score: 0, matchedTerms: [] };
+        hit.score += (idf * tf * (BM25_K1 + 1)) / (tf + norm);
+        hit.matchedTerms.push(term);
+        hits.set(doc, hit);
+      }
+    }
+
+    return [...hits.values()].sort((a, b) => b.score - a.score);
+  }
+}
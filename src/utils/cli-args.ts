@@ -0,0 +1,92 @@
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from '../constants/index.js';
+import type { StorageBackendKind, SimilarityMode } from '../types/thought.types.js';
+
+export type TransportKind = 'stdio' | 'http';
+
+export interface CliOptions {
+  transport: TransportKind;
+  port: number;
+  host: string;
+  /** Storage backend override; THINK_MCP_STORAGE applies when omitted */
+  storage?: StorageBackendKind;
+  /** Similarity mode override; THINK_MCP_SIMILARITY applies when omitted */
+  similarity?: SimilarityMode;
+  /** Insights namespace override; THINK_MCP_PROJECT applies when omitted */
+  project?: string;
+}
+
+/**
+ * Parse server command line flags (v5.6.0).
+ * Supports `--transport stdio|http`, `--port N`, `--host H`, `--storage json|jsonl|sqlite`,
+ * `--similarity jaccard|vector`, `--project NAME|PATH` and their `--flag=value` forms.
+ * Throws on unknown transports, storage backends, similarity modes or invalid ports so misconfiguration fails fast.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    transport: 'stdio',
+    port: DEFAULT_HTTP_PORT,
+    host: DEFAULT_HTTP_HOST,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const eqIndex = arg.indexOf('=');
+    const name = eqIndex === -1 ? arg.slice(2) : arg.slice(2, eqIndex);
+    const readValue = (): string => {
+      const value = eqIndex === -1 ? argv[++i] : arg.slice(eqIndex + 1);
+      if (value === undefined || value.length === 0) {
+        throw new Error(`Missing value for --${name}`);
+      }
+      return value;
+    };
+
+    switch (name) {
+      case 'transport': {
+        const value = readValue();
+        if (value !== 'stdio' && value !== 'http') {
+          throw new Error(`Unsupported transport: ${value} (expected stdio or http)`);
+        }
+        options.transport = value;
+        break;
+      }
+      case 'port': {
+        const value = readValue();
+        const port = Number(value);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          throw new Error(`Invalid port: ${value}`);
+        }
+        options.port = port;
+        break;
+      }
+      case 'host':
+        options.host = readValue();
+        break;
+      case 'storage': {
+        const value = readValue();
+        if (value !== 'json' && value !== 'jsonl' && value !== 'sqlite') {
+          throw new Error(`Unsupported storage backend: ${value} (expected json, jsonl or sqlite)`);
+        }
+        options.storage = value;
+        break;
+      }
+      case 'similarity': {
+        const value = readValue();
+        if (value !== 'jaccard' && value !== 'vector') {
+          throw new Error(`Unsupported similarity mode: ${value} (expected jaccard or vector)`);
+        }
+        options.similarity = value;
+        break;
+      }
+      case 'project':
+        options.project = readValue();
+        break;
+      default:
+        // Ignore unknown flags - MCP launchers may append their own
+        break;
+    }
+  }
+
+  return options;
+}
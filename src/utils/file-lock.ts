@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import {
+  FILE_LOCK_RETRY_MS,
+  FILE_LOCK_STALE_MS,
+  FILE_LOCK_TIMEOUT_MS,
+} from '../constants/index.js';
+
+interface LockOwner {
+  pid: number;
+  acquiredAt: number;
+}
+
+/**
+ * Lock path next to a store: `thought_session.json` → `thought_session.json.lock`
+ */
+export function getLockFile(file: string): string {
+  return `${file}.lock`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // Signal 0 only checks existence
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Read the lock and decide whether its owner crashed (dead pid) or it outlived FILE_LOCK_STALE_MS.
+ * Returns the stale content so removal can verify nobody re-acquired the lock meanwhile.
+ */
+async function readStaleLock(lockFile: string): Promise<string | null> {
+  let content: string;
+  let mtimeMs: number;
+  try {
+    content = await fs.readFile(lockFile, 'utf-8');
+    mtimeMs = (await fs.stat(lockFile)).mtimeMs;
+  } catch {
+    return null; // Released meanwhile
+  }
+
+  try {
+    const owner = JSON.parse(content) as Partial<LockOwner>;
+    if (Number.isInteger(owner.pid) && owner.pid !== process.pid && !isProcessAlive(owner.pid!)) return content;
+    return Date.now() - Number(owner.acquiredAt ?? 0) > FILE_LOCK_STALE_MS ? content : null;
+  } catch {
+    // Unparseable: being written right now or torn by a crash - trust the mtime
+    return Date.now() - mtimeMs > FILE_LOCK_STALE_MS ? content : null;
+  }
+}
+
+/**
+ * Run an operation while holding a cross-process advisory lock on a store file.
+ * Uses an exclusive-create lock file so concurrent think-mcp servers sharing
+ * THINK_MCP_DATA_DIR serialize their read-check-write cycles.
+ * Throws when the lock cannot be acquired within FILE_LOCK_TIMEOUT_MS.
+ */
+export async function withFileLock<T>(
+  file: string,
+  operation: () => Promise<T>,
+  timeoutMs = FILE_LOCK_TIMEOUT_MS
+): Promise<T> {
+  const lockFile = getLockFile(file);
+  const deadline = Date.now() + timeoutMs;
+  await fs.mkdir(dirname(lockFile), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockFile, 'wx');
+      try {
+        const owner: LockOwner = { pid: process.pid, acquiredAt: Date.now() };
+        await handle.writeFile(JSON.stringify(owner), 'utf-8');
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const stale = await readStaleLock(lockFile);
+    if (stale !== null) {
+      try {
+        if (await fs.readFile(lockFile, 'utf-8') === stale) {
+          await fs.unlink(lockFile);
+          console.error(`🔓 Removed stale lock ${lockFile}`);
+        }
+      } catch {
+        // Another process removed it first
+      }
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockFile}`);
+    }
+    if (stale === null) {
+      await new Promise(resolve => setTimeout(resolve, FILE_LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await operation();
+  } finally {
+    try { await fs.unlink(lockFile); } catch { /* ignore */ }
+  }
+}
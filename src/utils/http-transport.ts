@@ -0,0 +1,157 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { HTTP_MCP_PATH, MAX_HTTP_BODY_BYTES, MAX_HTTP_CLIENTS } from '../constants/index.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Builds a fresh MCP server for each client session, given the mcp-session-id it will get */
+  createSessionServer: (clientId: string) => McpServer;
+}
+
+interface HttpClientSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+function sendJsonRpcError(res: ServerResponse, httpStatus: number, code: number, message: string): void {
+  res.writeHead(httpStatus, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Read a JSON request body; undefined when it is too large or not JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_HTTP_BODY_BYTES) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * True when a POST body opens a client session (single message or batch)
+ */
+function opensSession(body: unknown): boolean {
+  return Array.isArray(body) ? body.some(message => isInitializeRequest(message)) : isInitializeRequest(body);
+}
+
+/**
+ * Serve MCP over streamable HTTP (v5.6.0).
+ * Every initialize request opens a new client session with an isolated McpServer;
+ * follow-up requests are routed by the `mcp-session-id` header.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<Server> {
+  const clients = new Map<string, HttpClientSession>();
+
+  const closeClient = (sessionId: string): void => {
+    const client = clients.get(sessionId);
+    if (!client) return;
+    clients.delete(sessionId);
+    client.server.close().catch((err) => console.error(`Failed to close HTTP client ${sessionId}:`, err));
+  };
+
+  const evictIdleClients = (): void => {
+    if (clients.size <= MAX_HTTP_CLIENTS) return;
+    const idle = Array.from(clients.entries())
+      .sort((a, b) => a[1].lastSeen - b[1].lastSeen)
+      .slice(0, clients.size - MAX_HTTP_CLIENTS);
+    for (const [sessionId] of idle) {
+      console.error(`🔌 HTTP client limit reached (${MAX_HTTP_CLIENTS}), closing: ${sessionId}`);
+      closeClient(sessionId);
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== HTTP_MCP_PATH) {
+      sendJsonRpcError(res, 404, -32000, `Not found: use ${HTTP_MCP_PATH}`);
+      return;
+    }
+
+    const header = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    if (sessionId) {
+      const client = clients.get(sessionId);
+      if (!client) {
+        // 404 tells the client to re-initialize (MCP streamable HTTP spec)
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      client.lastSeen = Date.now();
+      await client.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header');
+      return;
+    }
+
+    // New client: only an initialize request may create a server and transport
+    const body = await readJsonBody(req);
+    if (!opensSession(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header (only initialize may open a session)');
+      return;
+    }
+
+    const clientId = randomUUID();
+    const server = options.createSessionServer(clientId);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => clientId,
+      onsessioninitialized: (id) => {
+        clients.set(id, { server, transport, lastSeen: Date.now() });
+        console.error(`🔌 HTTP client connected: ${id} (${clients.size} active)`);
+        evictIdleClients();
+      },
+      onsessionclosed: (id) => {
+        console.error(`🔌 HTTP client disconnected: ${id}`);
+        closeClient(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) clients.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('HTTP transport error:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  httpServer.on('close', () => {
+    for (const sessionId of Array.from(clients.keys())) {
+      closeClient(sessionId);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -4,3 +4,10 @@
 
 export * from './text-analysis.js';
 export * from './storage-paths.js';
+export * from './journal-files.js';
+export * from './file-lock.js';
+export * from './cli-args.js';
+export * from './stemming.js';
+export * from './bm25.js';
+export * from './text-vectors.js';
+export * from './recall-query.js';
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { basename } from 'path';
+import type { StorageEvent } from '../types/thought.types.js';
+
+/**
+ * Journal path next to a snapshot: `thought_session.json` → `thought_session.events.jsonl`
+ */
+export function getJournalFile(snapshotFile: string): string {
+  return `${snapshotFile.replace(/\.json$/, '')}.events.jsonl`;
+}
+
+/**
+ * Read journal events, skipping torn or corrupted lines instead of failing the whole store
+ */
+export async function readJournal<E extends StorageEvent>(snapshotFile: string): Promise<E[]> {
+  const journalFile = getJournalFile(snapshotFile);
+  let content: string;
+  try {
+    content = await fs.readFile(journalFile, 'utf-8');
+  } catch {
+    return []; // No journal yet
+  }
+
+  const events: E[] = [];
+  let skipped = 0;
+  for (const line of content.split('\n')) {
+    if (line.trim().length === 0) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<StorageEvent>;
+      if (Number.isInteger(parsed.seq) && typeof parsed.type === 'string') {
+        events.push(parsed as E);
+        continue;
+      }
+    } catch {
+      // Torn write from a crash mid-append
+    }
+    skipped++;
+  }
+
+  if (skipped > 0) {
+    console.error(`⚠️ Skipped ${skipped} corrupted line(s) in ${basename(journalFile)}`);
+  }
+  return events;
+}
+
+export async function removeJournal(snapshotFile: string): Promise<void> {
+  try {
+    await fs.unlink(getJournalFile(snapshotFile));
+  } catch {
+    // Journal may not exist
+  }
+}
+
+/**
+ * Revision counter path next to a snapshot: `thought_session.json` → `thought_session.rev`
+ */
+export function getRevisionFile(snapshotFile: string): string {
+  return `${snapshotFile.replace(/\.json$/, '')}.rev`;
+}
+
+/**
+ * Read the store revision bumped by every commit; 0 when the store was never committed
+ */
+export async function readRevision(snapshotFile: string): Promise<number> {
+  try {
+    const revision = Number.parseInt(await fs.readFile(getRevisionFile(snapshotFile), 'utf-8'), 10);
+    return Number.isInteger(revision) && revision > 0 ? revision : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export async function writeRevision(snapshotFile: string, revision: number): Promise<void> {
+  await fs.writeFile(getRevisionFile(snapshotFile), String(revision), 'utf-8');
+}
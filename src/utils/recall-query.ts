@@ -0,0 +1,135 @@
+/**
+ * Recall query language (v5.6.0)
+ * Pure parser - splits a think_recall query into free text, quoted phrases,
+ * exclusions and field filters:
+ *   type:critique  impact:blocker  conf<5  branch:alt-cache  revised:false  "exact phrase"  -redis
+ */
+
+import type { ExtensionType, ImpactLevel } from '../types/thought.types.js';
+
+/** Item kinds that type: accepts besides extension types */
+export type RecallItemKind = 'thought' | 'extension' | 'alternative' | 'subStep';
+
+export type ConfidenceOperator = '<' | '<=' | '>' | '>=' | '=';
+
+/** Field filters; repeated fields of the same name are OR-ed, different fields AND-ed */
+export interface RecallQueryFilters {
+  kinds: RecallItemKind[];
+  extensionTypes: ExtensionType[];
+  impacts: ImpactLevel[];
+  /** Branch ids; "main" selects mainline thoughts */
+  branches: string[];
+  /** true: thought has a later revision, false: not revised yet */
+  revised?: boolean;
+  confidence: { op: ConfidenceOperator; value: number }[];
+}
+
+export interface ParsedRecallQuery {
+  /** Free text left after removing operators */
+  text: string;
+  /** Quoted phrases that must appear in the item */
+  phrases: string[];
+  /** Words (-word) and phrases (-"a b") that must not appear */
+  excludedTerms: string[];
+  excludedPhrases: string[];
+  filters: RecallQueryFilters;
+  /** Any filter, phrase or exclusion present */
+  hasOperators: boolean;
+}
+
+const ITEM_KINDS: RecallItemKind[] = ['thought', 'extension', 'alternative', 'subStep'];
+const EXTENSION_TYPES: ExtensionType[] = [
+  'critique', 'elaboration', 'correction', 'alternative_scenario', 'assumption_testing',
+  'innovation', 'optimization', 'polish',
+];
+const IMPACT_LEVELS: ImpactLevel[] = ['low', 'medium', 'high', 'blocker'];
+
+const TOKEN_PATTERN = /(-?)"([^"]*)"|(\S+)/g;
+const CONFIDENCE_PATTERN = /^(?:conf|confidence)(<=|>=|<|>|=|:)(\d+(?:\.\d+)?)$/i;
+const FIELD_PATTERN = /^(type|impact|branch|revised):(.+)$/i;
+
+/**
+ * Parse recall query into free text and filters
+ * Throws on invalid filter values so typos do not silently match nothing
+ */
+export function parseRecallQuery(query: string): ParsedRecallQuery {
+  const filters: RecallQueryFilters = { kinds: [], extensionTypes: [], impacts: [], branches: [], confidence: [] };
+  const text: string[] = [];
+  const phrases: string[] = [];
+  const excludedTerms: string[] = [];
+  const excludedPhrases: string[] = [];
+  let hasFilters = false;
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [, negation, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) (negation ? excludedPhrases : phrases).push(phrase.trim());
+      continue;
+    }
+
+    if (word.startsWith('-') && word.length > 1) {
+      excludedTerms.push(word.slice(1));
+      continue;
+    }
+
+    const confidence = CONFIDENCE_PATTERN.exec(word);
+    if (confidence) {
+      const op = confidence[1] === ':' ? '=' : (confidence[1] as ConfidenceOperator);
+      filters.confidence.push({ op, value: Number(confidence[2]) });
+      hasFilters = true;
+      continue;
+    }
+
+    const field = FIELD_PATTERN.exec(word);
+    if (!field) {
+      text.push(word);
+      continue;
+    }
+
+    hasFilters = true;
+    const name = field[1].toLowerCase();
+    const value = field[2];
+    switch (name) {
+      case 'type': {
+        const kind = ITEM_KINDS.find((k) => k.toLowerCase() === value.toLowerCase());
+        if (kind) {
+          filters.kinds.push(kind);
+        } else if ((EXTENSION_TYPES as string[]).includes(value.toLowerCase())) {
+          filters.extensionTypes.push(value.toLowerCase() as ExtensionType);
+        } else {
+          throw invalidFilter(word, [...ITEM_KINDS, ...EXTENSION_TYPES]);
+        }
+        break;
+      }
+      case 'impact':
+        if (!(IMPACT_LEVELS as string[]).includes(value.toLowerCase())) {
+          throw invalidFilter(word, IMPACT_LEVELS);
+        }
+        filters.impacts.push(value.toLowerCase() as ImpactLevel);
+        break;
+      case 'branch':
+        filters.branches.push(value);
+        break;
+      case 'revised':
+        if (value !== 'true' && value !== 'false') {
+          throw invalidFilter(word, ['true', 'false']);
+        }
+        filters.revised = value === 'true';
+        break;
+    }
+  }
+
+  return {
+    text: text.join(' '),
+    phrases,
+    excludedTerms,
+    excludedPhrases,
+    filters,
+    hasOperators: hasFilters || phrases.length > 0 || excludedTerms.length > 0 || excludedPhrases.length > 0,
+  };
+}
+
+function invalidFilter(token: string, expected: string[]): Error {
+  return new Error(`Invalid recall filter: ${token} (expected ${expected.join(', ')})`);
+}
@@ -0,0 +1,145 @@
+/**
+ * Stemming and tokenization for recall search (v5.6.0)
+ * Pure stateless functions - light Porter-style English stemmer
+ * and a simplified Snowball stemmer for Russian
+ */
+
+import { SEARCH_STOP_WORDS, TECHNICAL_SHORT_TERMS } from '../constants/index.js';
+
+/** Word found in text, with its stem and offset in the original string */
+export interface SearchToken {
+  word: string;
+  stem: string;
+  index: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const CYRILLIC = /[а-яё]/;
+
+// English suffixes, longest first: [suffix, replacement]
+const EN_SUFFIXES: Array<[string, string]> = [
+  ['ization', 'ize'],
+  ['ational', 'ate'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ations', 'ate'],
+  ['ation', 'ate'],
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ingly', ''],
+  ['edly', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'i'],
+  ['ied', 'i'],
+  ['ed', ''],
+  ['ly', ''],
+];
+const EN_VOWEL = /[aeiouy]/;
+const EN_DOUBLE = /([^aeiouslz])\1$/;
+
+// Russian suffix groups (Snowball), matched against the RV region
+const RU_VOWELS = /[аеиоуыэюя]/;
+const RU_PERFECTIVE_GERUND = /((ив|ивши|ившись|ыв|ывши|ывшись)|((?<=[ая])(в|вши|вшись)))$/;
+const RU_REFLEXIVE = /(с[яь])$/;
+const RU_ADJECTIVE = /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const RU_PARTICIPLE = /((ивш|ывш|ующ)|((?<=[ая])(ем|нн|вш|ющ|щ)))$/;
+const RU_VERB = /((ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)|((?<=[ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)))$/;
+const RU_NOUN = /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const RU_SUPERLATIVE = /(ейш|ейше)$/;
+
+/**
+ * Stem English word: strips inflections and common derivations,
+ * then drops final "e" and doubled consonants so that
+ * cache/caching/cached and invalidate/invalidation share a stem
+ */
+function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+  let stem = word;
+
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  for (const [suffix, replacement] of EN_SUFFIXES) {
+    if (!stem.endsWith(suffix)) continue;
+    const base = stem.slice(0, -suffix.length);
+    if (base.length >= 3 && EN_VOWEL.test(base)) {
+      stem = base + replacement;
+    }
+    break;
+  }
+
+  if (stem.length > 3 && stem.endsWith('e')) stem = stem.slice(0, -1);
+  if (stem.length > 3 && EN_DOUBLE.test(stem)) stem = stem.slice(0, -1);
+  if (stem.length > 3 && stem.endsWith('y')) stem = stem.slice(0, -1) + 'i';
+  return stem;
+}
+
+/**
+ * Stem Russian word (simplified Snowball: steps 1, 2 and 4 on RV region)
+ */
+function stemRussian(word: string): string {
+  const normalized = word.replace(/ё/g, 'е');
+  const match = RU_VOWELS.exec(normalized);
+  if (!match) return normalized;
+
+  const head = normalized.slice(0, match.index + 1);
+  let rv = normalized.slice(match.index + 1);
+
+  // Step 1: perfective gerund, else reflexive + adjectival / verb / noun
+  if (RU_PERFECTIVE_GERUND.test(rv)) {
+    rv = rv.replace(RU_PERFECTIVE_GERUND, '');
+  } else {
+    rv = rv.replace(RU_REFLEXIVE, '');
+    if (RU_ADJECTIVE.test(rv)) {
+      rv = rv.replace(RU_ADJECTIVE, '').replace(RU_PARTICIPLE, '');
+    } else if (RU_VERB.test(rv)) {
+      rv = rv.replace(RU_VERB, '');
+    } else {
+      rv = rv.replace(RU_NOUN, '');
+    }
+  }
+
+  // Step 2: trailing "и"
+  rv = rv.replace(/и$/, '');
+
+  // Step 4: superlative, double "н", soft sign
+  rv = rv.replace(RU_SUPERLATIVE, '');
+  if (rv.endsWith('нн')) {
+    rv = rv.slice(0, -1);
+  } else {
+    rv = rv.replace(/ь$/, '');
+  }
+
+  return head + rv;
+}
+
+/**
+ * Reduce word to its stem (English or Russian, detected by script)
+ * Expects lowercase input
+ */
+export function stemWord(word: string): string {
+  return CYRILLIC.test(word) ? stemRussian(word) : stemEnglish(word);
+}
+
+/**
+ * Split text into stemmed search tokens
+ * Drops stop words and short words except technical terms (api, db, ...)
+ * Offsets point into the original text for highlighting
+ */
+export function tokenizeForSearch(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (SEARCH_STOP_WORDS.has(word)) continue;
+    if (word.length <= 2 && !TECHNICAL_SHORT_TERMS.has(word)) continue;
+    tokens.push({ word: match[0], stem: stemWord(word), index: match.index ?? 0 });
+  }
+
+  return tokens;
+}
@@ -4,6 +4,10 @@ import { dirname, join } from 'path';
 
 const DATA_DIR_ENV = 'THINK_MCP_DATA_DIR';
 const DEFAULT_DATA_DIR = join(homedir(), '.think-mcp');
+const PROJECT_ENV = 'THINK_MCP_PROJECT';
+
+/** Insights namespace of records saved before v5.6.0 and of servers without a project */
+export const DEFAULT_PROJECT_NAMESPACE = 'default';
 
 /**
  * Resolve runtime data directory for think-mcp persistence.
@@ -14,6 +18,30 @@ export function getThinkMcpDataDir(): string {
   return custom && custom.length > 0 ? custom : DEFAULT_DATA_DIR;
 }
 
+/**
+ * Normalize an insights namespace (v5.6.0).
+ * Accepts a project name or a workspace root path (its last segment is used);
+ * lowercased, runs of characters other than letters, digits, '.', '_' and '-' become '-'.
+ * Empty values fall back to the default namespace.
+ */
+export function normalizeProjectNamespace(value: string | undefined): string {
+  const lastSegment = value?.trim().split(/[\\/]/).filter(Boolean).pop() ?? '';
+  const namespace = lastSegment
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}._-]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+  return namespace.length > 0 ? namespace : DEFAULT_PROJECT_NAMESPACE;
+}
+
+/**
+ * Resolve the insights namespace of this server.
+ * Can be set by THINK_MCP_PROJECT (project name or workspace root).
+ */
+export function resolveProjectNamespace(value = process.env[PROJECT_ENV]): string {
+  return normalizeProjectNamespace(value);
+}
+
 /**
  * Build absolute path to a runtime data file.
  */
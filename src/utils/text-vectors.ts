@@ -0,0 +1,129 @@
+/**
+ * Offline vector similarity (v5.6.0)
+ * Pure functions - hashed stem + character n-gram vectors with cosine similarity.
+ * No network and no model files; vectors are cached per text.
+ */
+
+import { VECTOR_CACHE_LIMIT, VECTOR_DIMENSIONS, VECTOR_NGRAM_SIZE } from '../constants/index.js';
+import type { SimilarityMode } from '../types/thought.types.js';
+import { tokenizeForSearch } from './stemming.js';
+import { calculateJaccardSimilarity } from './text-analysis.js';
+
+const SIMILARITY_ENV = 'THINK_MCP_SIMILARITY';
+const SIMILARITY_MODES: SimilarityMode[] = ['jaccard', 'vector'];
+
+/** Sparse L2-normalized vector: hashed feature → weight */
+export type TextVector = Map<number, number>;
+
+/** Similarity (0-1) between two texts */
+export type TextSimilarity = (text1: string, text2: string) => number;
+
+// Vector cache keyed by text (LRU-style with size limit)
+const vectorCache = new Map<string, TextVector>();
+
+/**
+ * Clear vector cache (tests, memory pressure)
+ */
+export function clearVectorCache(): void {
+  vectorCache.clear();
+}
+
+/**
+ * FNV-1a hash of a feature into the vector space
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % VECTOR_DIMENSIONS;
+}
+
+/**
+ * Build (or reuse) vector of text
+ * Features: word stems plus character n-grams of each word, so inflections
+ * and partially reworded phrases still overlap
+ */
+export function textToVector(text: string): TextVector {
+  const cached = vectorCache.get(text);
+  if (cached) {
+    // Refresh LRU position
+    vectorCache.delete(text);
+    vectorCache.set(text, cached);
+    return cached;
+  }
+
+  const counts = new Map<number, number>();
+  const addFeature = (feature: string, weight: number): void => {
+    const key = hashFeature(feature);
+    counts.set(key, (counts.get(key) ?? 0) + weight);
+  };
+
+  for (const token of tokenizeForSearch(text)) {
+    addFeature(`w:${token.stem}`, 1);
+    const padded = ` ${token.word.toLowerCase()} `;
+    for (let i = 0; i + VECTOR_NGRAM_SIZE <= padded.length; i++) {
+      addFeature(padded.substring(i, i + VECTOR_NGRAM_SIZE), 0.5);
+    }
+  }
+
+  // Sublinear term frequency, then L2 normalization
+  let norm = 0;
+  for (const [key, count] of counts) {
+    const weight = 1 + Math.log(count);
+    counts.set(key, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  const vector: TextVector = new Map();
+  if (norm > 0) {
+    for (const [key, weight] of counts) vector.set(key, weight / norm);
+  }
+
+  if (vectorCache.size >= VECTOR_CACHE_LIMIT) {
+    const firstKey = vectorCache.keys().next().value;
+    if (firstKey !== undefined) vectorCache.delete(firstKey);
+  }
+  vectorCache.set(text, vector);
+  return vector;
+}
+
+/**
+ * Cosine similarity (0-1) of two normalized vectors
+ */
+export function cosineSimilarity(a: TextVector, b: TextVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [key, weight] of small) {
+    const other = large.get(key);
+    if (other !== undefined) dot += weight * other;
+  }
+  return Math.min(1, Math.max(0, dot));
+}
+
+/**
+ * Calculate vector similarity (0-1) between two texts
+ */
+export function calculateVectorSimilarity(text1: string, text2: string): number {
+  return cosineSimilarity(textToVector(text1), textToVector(text2));
+}
+
+/**
+ * Resolve similarity mode from THINK_MCP_SIMILARITY (jaccard | vector, default jaccard)
+ */
+export function resolveSimilarityMode(value = process.env[SIMILARITY_ENV]): SimilarityMode {
+  const mode = value?.trim().toLowerCase();
+  if (!mode) return 'jaccard';
+  if (!(SIMILARITY_MODES as string[]).includes(mode)) {
+    throw new Error(`Unsupported similarity mode: ${value} (expected ${SIMILARITY_MODES.join(', ')})`);
+  }
+  return mode as SimilarityMode;
+}
+
+/**
+ * Similarity function for a mode
+ */
+export function getTextSimilarity(mode: SimilarityMode): TextSimilarity {
+  return mode === 'vector' ? calculateVectorSimilarity : calculateJaccardSimilarity;
+}
@@ -111,7 +111,7 @@ function getSignals() {
   const publish = readText('.github/workflows/publish.yml');
   const pkg = readJson('package.json');
 
-  const requiredTools = ['think', 'think_batch', 'think_done', 'think_recall', 'think_reset', 'think_cycle', 'think_logic'];
+  const requiredTools = ['think', 'think_batch', 'think_done', 'think_recall', 'think_reset', 'think_cycle', 'think_logic', 'think_sessions', 'think_edit', 'think_branch', 'think_insights'];
   const registeredTools = [...indexTs.matchAll(/registerTool\('([^']+)'/g)].map((m) => m[1]);
 
   return {
@@ -136,12 +136,12 @@ function validateScenario(scenario, signals) {
       {
         id: 'reset-before-session-id',
         description: 'Batch flow resets state before creating new session id and goal',
-        pass: /this\.reset\(\);\s*this\.currentSessionId = new Date\(\)\.toISOString\(\);\s*this\.sessionGoal = goal;/.test(signals.thinkingTs),
+        pass: /this\.reset\(session\);\s*session\.currentSessionId = new Date\(\)\.toISOString\(\);\s*session\.sessionGoal = goal;/.test(signals.thinkingTs),
       },
       {
         id: 'records-use-current-session-id',
-        description: 'Committed batch thoughts use active currentSessionId',
-        pass: /toThoughtRecord\(t,\s*thoughts\.length,\s*this\.currentSessionId\)/.test(signals.thinkingTs),
+        description: 'Committed batch thoughts use the resolved session currentSessionId',
+        pass: /toThoughtRecord\(t,\s*thoughts\.length,\s*session\.currentSessionId\)/.test(signals.thinkingTs),
       },
     ],
     'sequence-safety-gates': [
@@ -153,7 +153,7 @@ function validateScenario(scenario, signals) {
       {
         id: 'mainline-counter-guard',
         description: 'Mainline sequence counter ignores revisions and branches',
-        pass: /if \(!input\.isRevision && !input\.branchFromThought\) \{\s*this\.lastThoughtNumber = input\.thoughtNumber;/.test(signals.thinkingTs),
+        pass: /if \(!input\.isRevision && !input\.branchFromThought\) \{\s*session\.lastThoughtNumber = input\.thoughtNumber;/.test(signals.thinkingTs),
       },
       {
         id: 'sequence-error-code',
@@ -203,8 +203,8 @@ function validateScenario(scenario, signals) {
       },
       {
         id: 'fifo-eviction-decrement',
-        description: 'FIFO eviction decrements pattern counters',
-        pass: /const evicted = this\.data!\.winningPaths\.shift\(\);[\s\S]*this\.decrementPatternCounts\(evicted\.keywords\)/.test(signals.insightsTs),
+        description: 'FIFO eviction skips pinned insights and decrements pattern counters',
+        pass: /const oldestUnpinned = this\.data!\.winningPaths\.findIndex\(\(p\) => !p\.pinned && p\.namespace === record\.namespace\);[\s\S]*const \[evicted\] = this\.data!\.winningPaths\.splice\(oldestUnpinned, 1\);[\s\S]*this\.decrementPatternCounts\(evicted\.keywords\)/.test(signals.insightsTs),
       },
       {
         id: 'rebuild-patterns-on-load',
@@ -343,12 +343,12 @@ function validateScenario(scenario, signals) {
       {
         id: 'lazy-batch-tree',
         description: 'Batch tree generation is conditional',
-        pass: /thoughtTree: showTree \? this\.generateAsciiTree\(\) : undefined/.test(signals.thinkingTs),
+        pass: /thoughtTree: showTree \? this\.generateAsciiTree\(session\) : undefined/.test(signals.thinkingTs),
       },
       {
         id: 'lazy-export-mermaid',
         description: 'Mermaid generation is skipped when includeMermaid is false',
-        pass: /mermaidDiagram: includeMermaid \? this\.generateMermaid\(\) : undefined/.test(signals.thinkingTs),
+        pass: /mermaidDiagram: includeMermaid \? this\.generateMermaid\(session\) : undefined/.test(signals.thinkingTs),
       },
     ],
     'security-baseline': [